@@ -1,15 +1,7 @@
-
-
-
-
-
-
-import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import type { Session } from '@supabase/supabase-js';
-import { supabase } from './services/supabase';
-import { fetchItemMapping, fetchTimeseries, fetchLatestPrices, fetch1hPrices, fetch24hPrices, fetchAllTimePrices } from './services/osrsWikiApi';
-import { fetchUserWatchlist, addToWatchlist, removeFromWatchlist, getProfile, fetchUserInvestments, addInvestment, closeInvestment, clearUserInvestments, deleteInvestment, getProfileByUsername, fetchAppStats, recordLogin, recordActivity, processClosedTrade, spendAiToken, processMultipleSales, updateInvestment, fetchUserTotalProfit } from './services/database';
-import type { Item, TimeseriesData, LatestPrice, Profile, PriceAlert, Investment, AggregatePrice, LeaderboardEntry, AppStats, ProgressionNotification, ProgressionNotificationData } from './types';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { isAbortError } from './services/osrsWikiApi';
+import { getProfileByUsername, fetchUserTotalProfit } from './services/database';
+import type { Item, TimeseriesData, Profile, LeaderboardEntry, TriggeredAlert } from './types';
 import { HomePage } from './components/HomePage';
 import { ItemView } from './components/ItemView';
 import { Watchlist } from './components/Watchlist';
@@ -24,81 +16,95 @@ import { AddInvestmentModal } from './components/AddInvestmentModal';
 import { StatsPage } from './components/StatsPage';
 import { FlippingAssistantPage } from './components/FlippingAssistantPage';
 import { PremiumPage } from './components/PremiumPage';
+import { GameModeSelector } from './components/GameModeSelector';
 import { PulseIcon, HomeIcon, StarIcon, UserIcon, LogOutIcon, SettingsIcon, UserSquareIcon, BellIcon, LogInIcon, BriefcaseIcon, TrendingUpIcon, UsersIcon, BarChartIcon, BotIcon } from './components/icons/Icons';
 import { Loader } from './components/ui/Loader';
 import { Button } from './components/ui/Button';
 import { useLocalStorage } from './hooks/useLocalStorage';
 import { TooltipWrapper } from './components/ui/Tooltip';
 import { ProgressionNotifications } from './components/ProgressionNotifications';
+import { AlertNotifications } from './components/AlertNotifications';
+import { fetchStitchedTimeseries } from './services/stitchedTimeseries';
+import { OfflineBanner } from './components/OfflineBanner';
+import { useRoute, type NavigateOptions } from './hooks/useRoute';
+import { useOfflineSync } from './hooks/useOfflineSync';
+import { DEFAULT_ITEM_TIME_VIEW, DEFAULT_MARKET_TAB, DEFAULT_MARKET_TIMEFRAME, DEFAULT_COMMUNITY_TAB, DEFAULT_LEADERBOARD_RANGE, type Route, type View } from './utils/routes';
+import { GameModeProvider, useGameMode, useGameModeChange } from './stores/GameModeStore';
+import { ProgressionProvider, useProgression } from './stores/ProgressionStore';
+import { SessionProvider, useSession } from './stores/SessionStore';
+import { MarketDataProvider, useItems, useMarketPrices } from './stores/MarketDataStore';
+import { WatchlistProvider } from './stores/WatchlistStore';
+import { PortfolioProvider, usePortfolio } from './stores/PortfolioStore';
+import { AlertsProvider, useAlerts } from './stores/AlertsStore';
 
 
-type View = 'home' | 'watchlist' | 'item' | 'profile' | 'alerts' | 'portfolio' | 'market' | 'community' | 'stats' | 'assistant' | 'premium';
-type ProfileWithEmail = Profile & { email: string | null };
 type ViewedProfileData = { profile: Profile; profit: number };
 
+// Pages that need an account; visiting one while logged out redirects home.
+const AUTH_ONLY_VIEWS: View[] = ['watchlist', 'portfolio', 'alerts', 'assistant', 'stats'];
+
+// Pages whose props are stable, so they don't re-render with the shell (e.g. when the profile menu opens).
+// Each still re-renders for the store data it reads itself.
+const MemoizedHomePage = React.memo(HomePage);
+const MemoizedWatchlist = React.memo(Watchlist);
+const MemoizedAlertsPage = React.memo(AlertsPage);
+const MemoizedPortfolioPage = React.memo(PortfolioPage);
+const MemoizedFlippingAssistantPage = React.memo(FlippingAssistantPage);
+const MemoizedStatsPage = React.memo(StatsPage);
+
 export default function App() {
-  const [currentView, setCurrentView] = useState<View>('home');
-  const [items, setItems] = useState<Record<string, Item>>({});
-  const [latestPrices, setLatestPrices] = useState<Record<string, LatestPrice>>({});
-  const [prevLatestPrices, setPrevLatestPrices] = useState<Record<string, LatestPrice>>({});
+  // The current page lives in the URL, so links can be shared and back/forward work.
+  const { route, navigate } = useRoute();
+  const openItem = useCallback((itemId: number) => navigate({ view: 'item', itemId }), [navigate]);
+  const openPortfolio = useCallback(() => navigate({ view: 'portfolio' }), [navigate]);
+
+  // Each store only depends on the ones outside it.
+  return (
+    <GameModeProvider>
+      <ProgressionProvider>
+        <SessionProvider>
+          <MarketDataProvider>
+            <WatchlistProvider>
+              <PortfolioProvider onOpenPortfolio={openPortfolio}>
+                <AlertsProvider onOpenItem={openItem}>
+                  <AppContent route={route} navigate={navigate} />
+                </AlertsProvider>
+              </PortfolioProvider>
+            </WatchlistProvider>
+          </MarketDataProvider>
+        </SessionProvider>
+      </ProgressionProvider>
+    </GameModeProvider>
+  );
+}
+
+interface AppContentProps {
+  route: Route;
+  navigate: (route: Route, options?: NavigateOptions) => void;
+}
+
+// The app shell and page routing. Data comes from the stores; only page-level state lives here.
+const AppContent: React.FC<AppContentProps> = ({ route, navigate }) => {
+  const currentView = route.view;
+  const { gameMode, changeGameMode } = useGameMode();
+  const { notifications, removeNotification } = useProgression();
+  const { session, profile, isAuthLoading, isAuthModalOpen, openAuthModal, closeAuthModal, isProfileModalOpen, openProfileModal, closeProfileModal, updateProfile, signOut } = useSession();
+  const { items, isLoading, error: itemsError } = useItems();
+  const { triggeredAlerts, removeTriggeredAlert } = useAlerts();
+  const { triggeredPositionExits, removeTriggeredPositionExit, selectPositionExit } = usePortfolio();
+  useOfflineSync();
+
   const [selectedItem, setSelectedItem] = useState<Item | null>(null);
   const [timeseries, setTimeseries] = useState<TimeseriesData[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
   const [isItemLoading, setIsItemLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  // --- Auth and Profile State ---
-  const [session, setSession] = useState<Session | null>(null);
-  const [profile, setProfile] = useState<ProfileWithEmail | null>(null);
-  const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
-  const [isProfileModalOpen, setIsProfileModalOpen] = useState(false);
+  const [itemError, setItemError] = useState<string | null>(null);
+  const error = itemsError ?? itemError;
   const [isProfileMenuOpen, setIsProfileMenuOpen] = useState(false);
   const [viewedProfileData, setViewedProfileData] = useState<ViewedProfileData | null>(null);
   const [isProfileLoading, setIsProfileLoading] = useState(false);
-  const initialRoutingDone = useRef(false);
-
-  // --- Progression System State ---
-  const [notifications, setNotifications] = useState<ProgressionNotification[]>([]);
-  const loggedInSince = useRef<number | null>(null);
-
-  // --- Watchlist, Alerts, and Portfolio State ---
-  const [watchlist, setWatchlist] = useState<number[]>([]);
-  const [pendingWatchlistAdds, setPendingWatchlistAdds] = useState(new Set<number>());
-  const [alerts, setAlerts] = useLocalStorage<PriceAlert[]>('priceAlerts', []);
-  const [investments, setInvestments] = useState<Investment[]>([]);
-  const [watchlistTimeseries, setWatchlistTimeseries] = useState<Record<string, TimeseriesData[]>>({});
-  const [isAddInvestmentModalOpen, setIsAddInvestmentModalOpen] = useState(false);
-  const [investmentModalItem, setInvestmentModalItem] = useState<Item | null>(null);
-  const [recentlyViewed, setRecentlyViewed] = useLocalStorage<number[]>('recentlyViewed', []);
-  const [isUserDataLoading, setIsUserDataLoading] = useState(false);
-
-  // --- Top Movers State ---
-  const [oneHourPrices, setOneHourPrices] = useState<Record<string, AggregatePrice>>({});
-  const [twentyFourHourPrices, setTwentyFourHourPrices] = useState<Record<string, AggregatePrice>>({});
-  const [isMoversLoading, setIsMoversLoading] = useState(false);
-  
-  // --- Developer Stats State ---
-  // State for stats is now managed inside StatsPage.tsx
-
-  // --- Progression Notification Handlers ---
-  const addNotifications = useCallback((progressionEvents: ProgressionNotificationData[]) => {
-    const newNotifs = progressionEvents.map(data => ({ id: crypto.randomUUID(), data }));
-    setNotifications(prev => [...prev, ...newNotifs]);
-  }, []);
-
-  const removeNotification = useCallback((id: string) => {
-    setNotifications(prev => prev.filter(n => n.id !== id));
-  }, []);
-
-  const handleSetAlertActivity = useCallback(async (priceType: 'high' | 'low') => {
-    if (!session) {
-      setIsAuthModalOpen(true);
-      return;
-    }
-    const activityType = priceType === 'high' ? 'alert_set_high' : 'alert_set_low';
-    const activityEvents = await recordActivity(session.user.id, activityType);
-    addNotifications(activityEvents);
-  }, [session, addNotifications]);
+  const [recentlyViewed, setRecentlyViewed] = useLocalStorage<number[]>('recentlyViewed', [], { mergeBy: id => id });
+  const timeseriesRequestKey = useRef<string | null>(null);
+  const timeseriesAbortController = useRef<AbortController | null>(null);
 
   // Close profile menu on outside click
   useEffect(() => {
@@ -115,176 +121,18 @@ export default function App() {
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, [isProfileMenuOpen]);
 
-  // --- Supabase Auth & Profile Listener ---
+  // Pages that need an account send logged-out visitors (and anyone who logs out on one) home.
   useEffect(() => {
-    const handleInvalidSession = async () => {
-        console.warn("Session is invalid or profile is missing. Signing out.");
-        await supabase.auth.signOut();
-    };
-
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(async (_event, session) => {
-        setSession(session);
-
-        // Case 1: User is logged out.
-        if (!session) {
-            setProfile(null);
-            loggedInSince.current = null;
-            setCurrentView('home');
-            return;
-        }
-
-        // Case 2: User is logged in, but we don't have their profile in state yet (or it's the wrong one).
-        // This runs on initial load with a session, or after a fresh login.
-        if (!profile || profile.id !== session.user.id) {
-            setIsAuthModalOpen(false);
-            try {
-                const userProfile = await getProfile(session.user.id);
-                if (userProfile) {
-                    setProfile({ ...userProfile, email: session.user.email ?? null });
-                    if (!userProfile.username) {
-                        setIsProfileModalOpen(true);
-                    }
-                    
-                    const now = Date.now();
-                    if (!loggedInSince.current || (now - loggedInSince.current > 1000 * 60 * 5)) {
-                        loggedInSince.current = now;
-                        const loginEvents = await recordLogin(session.user.id);
-                        addNotifications(loginEvents);
-                        const updatedProfile = await getProfile(session.user.id);
-                        if(updatedProfile) setProfile(p => ({...(p as ProfileWithEmail), ...updatedProfile, email: session.user.email ?? null }));
-                    }
-                } else {
-                    await handleInvalidSession();
-                }
-            } catch (error) {
-                console.error("Error fetching profile, signing out:", error);
-                await handleInvalidSession();
-            }
-        }
-        
-        // Case 3 (Implicit): User is logged in and we already have their profile.
-        // This happens on TOKEN_REFRESHED (tab refocus). We do nothing, because the session is already updated
-        // and we don't need to re-fetch the profile. This prevents the "logout on tab switch" bug.
-    });
-
-    return () => subscription.unsubscribe();
-  }, [profile, addNotifications]); // Dependency on `profile` ensures the listener is updated with the latest state.
-  
-  // --- Fetch User Data (Watchlist, Investments) from DB on Login ---
-  useEffect(() => {
-    if (session) {
-      const loadUserData = async () => {
-        setIsUserDataLoading(true);
-        try {
-          const [userWatchlist, userInvestments] = await Promise.all([
-            fetchUserWatchlist(session.user.id),
-            fetchUserInvestments(session.user.id)
-          ]);
-          setWatchlist(userWatchlist);
-          setInvestments(userInvestments);
-        } catch (err) {
-          console.error("Failed to load user data", err);
-        } finally {
-            setIsUserDataLoading(false);
-        }
-      };
-      loadUserData();
-    } else {
-      setWatchlist([]);
-      setInvestments([]);
-      setIsUserDataLoading(false);
+    if (!isAuthLoading && !session && AUTH_ONLY_VIEWS.includes(currentView)) {
+      navigate({ view: 'home' }, { replace: true });
     }
-  }, [session]);
-
-  // --- Fetch Watchlist Timeseries Data ---
-  useEffect(() => {
-    const fetchWatchlistTimeseries = async () => {
-      if (watchlist.length === 0) {
-        setWatchlistTimeseries({});
-        return;
-      }
-
-      const itemsToFetch = watchlist.filter(id => watchlistTimeseries[id] === undefined);
-      if (itemsToFetch.length === 0) return;
+  }, [isAuthLoading, session, currentView, navigate]);
 
-      const results = await Promise.allSettled(
-        itemsToFetch.map(id => fetchTimeseries(id, '1h'))
-      );
-      
-      const newTimeseries: Record<string, TimeseriesData[]> = {};
-      results.forEach((result, index) => {
-        const itemId = itemsToFetch[index];
-        if (result.status === 'fulfilled') {
-          newTimeseries[itemId] = result.value.sort((a, b) => a.timestamp - b.timestamp);
-        } else {
-          console.error(`Failed to fetch timeseries for item ${itemId}:`, result.reason);
-          newTimeseries[itemId] = []; // Mark as failed/empty
-        }
-      });
-      
-      setWatchlistTimeseries(prev => ({ ...prev, ...newTimeseries }));
-    };
-
-    if (currentView === 'watchlist') {
-      fetchWatchlistTimeseries();
-    }
-  }, [currentView, watchlist, watchlistTimeseries]);
-
-  // --- Fetch Top Movers Data ---
-  useEffect(() => {
-      const loadMoversData = async () => {
-          // This effect should only fetch data if it hasn't been fetched yet.
-          // By checking the state *inside* the effect but not including the state
-          // in the dependency array, we avoid re-fetching when the state is populated.
-          if ((currentView === 'home' || currentView === 'market' || currentView === 'assistant' || currentView === 'item') && (Object.keys(oneHourPrices).length === 0 || Object.keys(twentyFourHourPrices).length === 0)) {
-              setIsMoversLoading(true);
-              setError(null);
-              try {
-                  const [oneHour, twentyFourHour] = await Promise.all([
-                      fetch1hPrices(),
-                      fetch24hPrices()
-                  ]);
-                  setOneHourPrices(oneHour);
-                  setTwentyFourHourPrices(twentyFourHour);
-              } catch (err) {
-                  console.error("Failed to load movers data", err);
-                  setError("Failed to load Top Movers data. Please try again later.");
-              } finally {
-                  setIsMoversLoading(false);
-              }
-          }
-      };
-      loadMoversData();
-  }, [currentView]); // FIX: Removed oneHourPrices and twentyFourHourPrices from dependencies to prevent re-renders from re-triggering the effect unnecessarily and causing a loading state lock.
-
-
-  useEffect(() => {
-    const initializeData = async () => {
-      try {
-        setIsLoading(true);
-        const [itemMapping, prices] = await Promise.all([fetchItemMapping(), fetchLatestPrices()]);
-        
-        const itemMap: Record<string, Item> = {};
-        itemMapping.forEach(item => {
-            itemMap[item.id] = item;
-        });
-        
-        setItems(itemMap);
-        setLatestPrices(prices);
-      } catch (err) {
-        setError('Failed to load initial item data. Please try refreshing the page.');
-        console.error(err);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-    initializeData();
-  }, []);
-  
-  const handleSelectTimedItem = useCallback(async (item: Item, timeStep: '5m' | '1h' | '6h' | 'all' = '1h') => {
+  // Loads the item's full price history, stitched from every resolution so the chart can zoom freely.
+  const loadItem = useCallback(async (item: Item) => {
     setIsItemLoading(true);
+    setItemError(null);
     setSelectedItem(item);
-    setCurrentView('item');
     
     // Add to recently viewed
     setRecentlyViewed(prev => {
@@ -292,200 +140,151 @@ export default function App() {
         return newRecentlyViewed.slice(0, 6); // Keep only the last 6
     });
 
-    try {
-      let data: TimeseriesData[];
-      if (timeStep === 'all') {
-        data = await fetchAllTimePrices(item.id);
-      } else {
-        data = await fetchTimeseries(item.id, timeStep);
+    const requestKey = `${item.id}`;
+    timeseriesRequestKey.current = requestKey;
+    // Cancel the chart request for the previously selected item, if it's still running.
+    timeseriesAbortController.current?.abort();
+    const controller = new AbortController();
+    timeseriesAbortController.current = controller;
+    const signal = controller.signal;
+    // Only apply revalidated data if the user is still looking at the same item.
+    const onRevalidate = (fresh: TimeseriesData[]) => {
+      if (timeseriesRequestKey.current === requestKey) {
+        setTimeseries(fresh);
       }
-      const sortedData = data.sort((a, b) => a.timestamp - b.timestamp);
-      setTimeseries(sortedData);
+    };
+
+    try {
+      const data = await fetchStitchedTimeseries(item.id, { onRevalidate, signal });
+      setTimeseries(data);
     } catch (err)      {
-      setError(`Failed to load price data for ${item.name}.`);
+      // A newer selection cancelled this request; its own load will update the view.
+      if (isAbortError(err)) return;
+      setItemError(`Failed to load price data for ${item.name}.`);
       console.error(err);
     } finally {
-      setIsItemLoading(false);
+      if (!signal.aborted) setIsItemLoading(false);
     }
   }, [setRecentlyViewed]);
 
+  // The chart's history is mode-specific too, so reload the open item in the new mode.
+  useGameModeChange(() => {
+    if (currentView === 'item' && selectedItem) {
+        loadItem(selectedItem);
+    }
+  });
+
   const handleItemSelection = useCallback((item: Item) => {
-    handleSelectTimedItem(item);
-  }, [handleSelectTimedItem]);
-  
-  // --- Initial Hash-based Routing ---
+    navigate({ view: 'item', itemId: item.id });
+  }, [navigate]);
+
+  const clearRecentlyViewed = useCallback(() => setRecentlyViewed([]), [setRecentlyViewed]);
+
+  // Loads the item in the URL once the item list is available, including after back/forward.
+  const routeItemId = route.view === 'item' ? route.itemId : null;
   useEffect(() => {
-    // This effect runs once on page load after the initial data is fetched.
-    // It checks for a URL hash like '#/item/123' to deep-link to an item.
-    if (isLoading || Object.keys(items).length === 0 || initialRoutingDone.current) {
-        return;
+    if (routeItemId === null || Object.keys(items).length === 0) return;
+    if (selectedItem?.id === routeItemId) return;
+    const item = items[routeItemId];
+    if (item) {
+      loadItem(item);
+    } else {
+      navigate({ view: 'home' }, { replace: true }); // No such item in this game mode
     }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [routeItemId, items]);
 
-    const hash = window.location.hash;
-    if (hash.startsWith('#/item/')) {
-        initialRoutingDone.current = true; // Mark as done to prevent re-routing on state changes
-        const itemIdStr = hash.substring('#/item/'.length);
-        const itemId = parseInt(itemIdStr, 10);
-        if (!isNaN(itemId) && items[itemId]) {
-            handleItemSelection(items[itemId]);
+  // Loads the profile in the URL. Cancelled if the user navigates to another profile first.
+  const routeUsername = route.view === 'profile' ? route.username : null;
+  useEffect(() => {
+    if (routeUsername === null) return;
+    let cancelled = false;
+    const loadProfile = async () => {
+      setIsProfileLoading(true);
+      setViewedProfileData(null);
+      try {
+        const userProfile = await getProfileByUsername(routeUsername);
+        if (!userProfile) {
+          throw new Error(`Profile not found for username: ${routeUsername}`);
         }
-    } else {
-        // If there's no valid item hash, mark routing as done so we don't re-check
-        initialRoutingDone.current = true;
-    }
-  }, [items, isLoading, handleItemSelection]);
+        const profit = await fetchUserTotalProfit(userProfile.id, gameMode);
+        if (cancelled) return;
+        setViewedProfileData({ profile: userProfile, profit });
+      } catch (error) {
+        if (cancelled) return;
+        console.error("Failed to fetch profile:", error);
+        // For now, just go back home
+        navigate({ view: 'home' }, { replace: true });
+      } finally {
+        if (!cancelled) setIsProfileLoading(false);
+      }
+    };
+    loadProfile();
+    return () => { cancelled = true; };
+  }, [routeUsername, gameMode, navigate]);
 
-  const switchView = (view: View) => {
-    setCurrentView(view);
-    // Clear item-specific state when navigating to a list view
-    if (view !== 'item') {
+  // Clears page-specific state when leaving a page.
+  useEffect(() => {
+    if (currentView !== 'item') {
         setSelectedItem(null);
         setTimeseries([]);
     }
-    if (view !== 'profile') {
+    if (currentView !== 'profile') {
         setViewedProfileData(null);
     }
-     // Close profile menu on navigation
+    // Close profile menu on navigation
+    setIsProfileMenuOpen(false);
+  }, [currentView]);
+
+  // The stats page is for developers only; redirect once we know the user isn't one.
+  useEffect(() => {
+    if (currentView === 'stats' && profile && !profile.developer) {
+      navigate({ view: 'home' }, { replace: true });
+    }
+  }, [currentView, profile, navigate]);
+
+  const handleSelectTriggeredAlert = useCallback((triggered: TriggeredAlert) => {
+    removeTriggeredAlert(triggered.id);
+    const item = items[triggered.alert.itemId];
+    if (item) handleItemSelection(item);
+  }, [items, handleItemSelection, removeTriggeredAlert]);
+  
+  // Navigates to a page that doesn't need any parameters. Page state is cleared by the effect above.
+  const switchView = (view: Exclude<View, 'item' | 'profile'>) => {
+    navigate({ view });
     setIsProfileMenuOpen(false);
   };
 
   const showProfilePage = () => {
     if (!profile) return;
-    const ownProfileForView: Profile = {
-        id: profile.id,
-        username: profile.username,
-        developer: profile.developer,
-        beta_tester: profile.beta_tester,
-        banned: profile.banned,
-        premium: profile.premium,
-        xp: profile.xp,
-        level: profile.level,
-        login_streak: profile.login_streak,
-        tokens: profile.tokens,
-    };
-    setViewedProfileData({ profile: ownProfileForView, profit: totalRealisedProfit });
-    switchView('profile');
     setIsProfileMenuOpen(false);
+    // Profile URLs use the username, so one has to be chosen first.
+    if (!profile.username) {
+        openProfileModal();
+        return;
+    }
+    navigate({ view: 'profile', username: profile.username });
   };
 
-  const handleViewProfile = async (user: LeaderboardEntry | { username: string | null } | string) => {
-    setIsProfileLoading(true);
-    setViewedProfileData(null);
-    switchView('profile'); // Switch view immediately to show loader
-    
-    try {
-        let username: string | null;
-        let profit: number | undefined;
-
-        if (typeof user === 'string') {
-            username = user;
-        } else {
-            username = user.username;
-            // 'total_profit' is only on LeaderboardEntry
-            if ('total_profit' in user) {
-                profit = user.total_profit;
-            }
-        }
-
-        if (!username) {
-            throw new Error("Cannot view profile for user without a username.");
-        }
-
-        const userProfile = await getProfileByUsername(username);
-
-        if (userProfile) {
-            // If profit wasn't passed (e.g. from search), fetch it.
-            if (profit === undefined) {
-                profit = await fetchUserTotalProfit(userProfile.id);
-            }
-            setViewedProfileData({ profile: userProfile, profit: profit });
-        } else {
-            throw new Error(`Profile not found for username: ${username}`);
-        }
-    } catch (error) {
-        console.error("Failed to fetch profile:", error);
-        // Optionally, set an error state to show on the profile page
-        // For now, just go back home
-        switchView('home');
-    } finally {
-        setIsProfileLoading(false);
+  const handleViewProfile = (user: LeaderboardEntry | { username: string | null } | string) => {
+    const username = typeof user === 'string' ? user : user.username;
+    if (!username) {
+        console.error("Cannot view profile for user without a username.");
+        return;
     }
+    navigate({ view: 'profile', username });
   };
 
   const handleBack = () => {
     switchView('home');
   }
 
-  const toggleWatchlist = useCallback(async (itemId: number) => {
-    if (!session) {
-      setIsAuthModalOpen(true);
-      return;
-    }
-    if (profile && !profile.username) {
-        setIsProfileModalOpen(true);
-        return;
-    }
-    const isWatched = watchlist.includes(itemId);
-    const userId = session.user.id;
-
-    if (isWatched) {
-        setWatchlist(prev => prev.filter(id => id !== itemId));
-        try {
-            await removeFromWatchlist(userId, itemId);
-        } catch (err) {
-            setWatchlist(prev => [...prev, itemId]); // Revert on failure
-        }
-    } else {
-        setPendingWatchlistAdds(prev => new Set(prev).add(itemId));
-        setWatchlist(prev => [...prev, itemId]);
-        try {
-            await addToWatchlist(userId, itemId);
-            const activityEvents = await recordActivity(userId, 'watchlist_add');
-            addNotifications(activityEvents);
-        } catch (err) {
-            setWatchlist(prev => prev.filter(id => id !== itemId)); // Revert on failure
-        } finally {
-            setPendingWatchlistAdds(prev => {
-                const newSet = new Set(prev);
-                newSet.delete(itemId);
-                return newSet;
-            });
-        }
-    }
-  }, [session, profile, watchlist, addNotifications]);
-  
-  const watchlistItems = useMemo(() => {
-    return watchlist.map(id => items[id]).filter(Boolean);
-  }, [watchlist, items]);
-  
-  const totalRealisedProfit = useMemo(() => {
-    let realisedProfit = 0;
-    let totalTaxPaid = 0;
-    
-    const closedPositions = investments.filter(inv => inv.sell_price !== null);
-
-    closedPositions.forEach(inv => {
-        if(inv.sell_price !== null) {
-            const purchaseValue = inv.purchase_price * inv.quantity;
-            const sellValue = inv.sell_price * inv.quantity;
-            realisedProfit += (sellValue - purchaseValue);
-            totalTaxPaid += inv.tax_paid ?? 0;
-        }
-    });
-    
-    return realisedProfit - totalTaxPaid;
-  }, [investments]);
-  
   const handleLogout = async () => {
-    await supabase.auth.signOut();
+    await signOut();
     setIsProfileMenuOpen(false);
     switchView('home');
   };
 
-  const handleProfileUpdate = (updatedProfile: Profile) => {
-    setProfile(prev => prev ? { ...prev, ...updatedProfile } : null);
-  };
-  
   const handleAdminProfileUpdate = (updates: Partial<Profile>) => {
     setViewedProfileData(prev => {
         if (!prev) return null;
@@ -496,122 +295,6 @@ export default function App() {
     });
   };
 
-  const handleOpenAddInvestmentModal = (item: Item) => {
-    if (!session) {
-      setIsAuthModalOpen(true);
-      return;
-    }
-    setInvestmentModalItem(item);
-    setIsAddInvestmentModalOpen(true);
-  };
-
-  const handleSaveInvestment = async (investmentData: Omit<Investment, 'id' | 'user_id' | 'created_at'>) => {
-    if (!session) throw new Error("User not authenticated");
-    try {
-        const newInvestment = await addInvestment({ ...investmentData, user_id: session.user.id });
-        setInvestments(prev => [newInvestment, ...prev]);
-    } catch (error) {
-        console.error("Failed to save investment:", error);
-        // Re-throw the error so the modal can catch it and handle its UI state (e.g., stop loading, show message).
-        throw error;
-    }
-  };
-
-  const handleUpdateInvestment = async (investmentId: string, updates: Partial<Pick<Investment, 'quantity' | 'purchase_price' | 'purchase_date'>>) => {
-    if (!session) throw new Error("User not authenticated");
-    try {
-        const updatedInvestment = await updateInvestment(investmentId, updates);
-        setInvestments(prev =>
-            prev.map(inv => (inv.id === investmentId ? updatedInvestment : inv))
-        );
-    } catch (error) {
-        console.error("Failed to update investment:", error);
-        throw error;
-    }
-  };
-
-  const handleCloseInvestment = async (investmentId: string, sales: Array<{ quantity: number; sell_price: number; sell_date: string; tax_paid: number }>) => {
-    const originalInvestment = investments.find(inv => inv.id === investmentId);
-    if (!originalInvestment) throw new Error("Investment not found");
-
-    const { updatedOriginal, newClosed } = await processMultipleSales(originalInvestment, sales);
-    
-    setInvestments(prev => {
-        const index = prev.findIndex(inv => inv.id === investmentId);
-        const newInvestments = [...prev];
-        const newEntries = newClosed.filter((i): i is Investment => i !== null);
-        
-        if (updatedOriginal) { // If it was updated (partial sale)
-            newInvestments.splice(index, 1, updatedOriginal, ...newEntries);
-        } else { // If it was deleted (full sale)
-            newInvestments.splice(index, 1, ...newEntries);
-        }
-        return newInvestments;
-    });
-
-    if (session) {
-        const totalProfit = sales.reduce((sum, s) => {
-            const purchaseValue = originalInvestment.purchase_price * s.quantity;
-            const sellValue = s.sell_price * s.quantity;
-            return sum + (sellValue - purchaseValue - s.tax_paid);
-        }, 0);
-        const totalTradeValue = sales.reduce((sum, s) => sum + (s.sell_price * s.quantity), 0);
-        
-        const progressionEvents = await processClosedTrade(session.user.id, totalProfit, totalTradeValue);
-        addNotifications(progressionEvents);
-         // Refetch profile to get updated xp/level
-        const updatedProfile = await getProfile(session.user.id);
-        if(updatedProfile) setProfile(p => ({...p, ...updatedProfile, email: session.user.email ?? null }));
-    }
-  };
-
-  const handleClearPortfolio = async () => {
-    if (!session) throw new Error("User not authenticated");
-    await clearUserInvestments(session.user.id);
-    setInvestments([]);
-  };
-
-  const handleDeleteInvestment = async (investmentId: string) => {
-    if (!session) {
-      setIsAuthModalOpen(true);
-      // It's crucial to throw here so the calling function's catch block is triggered,
-      // preventing the UI from getting stuck in a loading state or mis-representing success.
-      throw new Error("User is not authenticated. Please log in.");
-    }
-    // The try-catch is (and should be) handled in PortfolioPage.tsx where the action is initiated.
-    // This function will propagate the error from deleteInvestment if it fails.
-    await deleteInvestment(investmentId);
-    // Only update state if the deletion was successful
-    setInvestments(prev => prev.filter(inv => inv.id !== investmentId));
-  };
-
-  const handleSpendToken = async () => {
-    if (!session) throw new Error("User not authenticated");
-    try {
-        const newTokens = await spendAiToken(session.user.id);
-        setProfile(prev => (prev ? { ...prev, tokens: newTokens } : null));
-    } catch (error) {
-        console.error("Failed to spend token:", error);
-        // Refetch profile to ensure UI is in sync with the database, especially on failure
-        const userProfile = await getProfile(session.user.id);
-        if (userProfile) {
-            setProfile(p => ({ ...(p as ProfileWithEmail), ...userProfile, email: session.user.email ?? null }));
-        }
-        throw error; // Re-throw so the calling component can handle the UI feedback
-    }
-  };
-
-  const handleRefreshPrices = useCallback(async () => {
-    try {
-        setPrevLatestPrices(latestPrices);
-        const prices = await fetchLatestPrices();
-        setLatestPrices(prices);
-    } catch (err) {
-        console.error("Failed to refresh prices", err);
-        setError("Failed to refresh latest prices. Please try again later.");
-    }
-  }, [latestPrices]);
-
   const getNavButtonClasses = (viewName: View, disabled = false) => {
     const base = 'flex items-center justify-start gap-3 px-4 py-2 rounded-lg transition-colors w-full text-left';
     if (disabled) {
@@ -669,7 +352,7 @@ export default function App() {
               <BellIcon className="w-5 h-5" />
               <span>Price Alerts</span>
             </button>
-            <button onClick={() => { setIsProfileModalOpen(true); setIsProfileMenuOpen(false); }} className="w-full flex items-center gap-3 px-4 py-2 text-sm text-gray-300 hover:bg-gray-700/50 rounded-md">
+            <button onClick={() => { openProfileModal(); setIsProfileMenuOpen(false); }} className="w-full flex items-center gap-3 px-4 py-2 text-sm text-gray-300 hover:bg-gray-700/50 rounded-md">
               <SettingsIcon className="w-5 h-5" />
               <span>Profile Settings</span>
             </button>
@@ -691,114 +374,61 @@ export default function App() {
   );
 
   const renderContent = () => {
-    if (isLoading && !initialRoutingDone.current) {
+    // Only the first load shows a full-page loader; later reloads (e.g. game mode changes) keep the current items.
+    if (isLoading && Object.keys(items).length === 0) {
       return <div className="flex justify-center items-center h-full pt-20"><Loader /></div>;
     }
     if (error && !['item', 'market'].includes(currentView)) {
       return <div className="text-center text-red-400 mt-8">{error}</div>;
     }
     
-    switch (currentView) {
+    switch (route.view) {
       case 'item':
         if (!selectedItem) return null;
         return (
           <ItemView
             item={selectedItem}
-            latestPrice={latestPrices[selectedItem.id]}
             timeseriesData={timeseries}
             isLoading={isItemLoading}
             onBack={handleBack}
-            onRefresh={handleSelectTimedItem}
-            onRefreshPrices={handleRefreshPrices}
-            watchlist={watchlist}
-            toggleWatchlist={toggleWatchlist}
-            pendingWatchlistAdds={pendingWatchlistAdds}
-            alerts={alerts}
-            setAlerts={setAlerts}
-            onOpenAddInvestmentModal={handleOpenAddInvestmentModal}
-            onSetAlertActivity={handleSetAlertActivity}
-            profile={profile}
-            onSpendToken={handleSpendToken}
-            oneHourPrices={oneHourPrices}
-            twentyFourHourPrices={twentyFourHourPrices}
-            investments={investments}
+            onRefresh={loadItem}
+            activeTimeView={route.timeView ?? DEFAULT_ITEM_TIME_VIEW}
+            onTimeViewChange={timeView => navigate({ ...route, timeView }, { replace: true })}
           />
         );
       case 'home':
-        return <HomePage 
-                    items={Object.values(items)} 
+        return <MemoizedHomePage 
                     onSelectItem={handleItemSelection} 
-                    latestPrices={latestPrices}
                     recentlyViewedIds={recentlyViewed}
-                    allItems={items}
-                    onClearRecentlyViewed={() => setRecentlyViewed([])}
-                    twentyFourHourPrices={twentyFourHourPrices}
-                    isMoversLoading={isMoversLoading}
+                    onClearRecentlyViewed={clearRecentlyViewed}
                 />;
       case 'market':
         return <MarketActivityPage 
-                 items={Object.values(items)}
-                 latestPrices={latestPrices}
-                 oneHourPrices={oneHourPrices}
-                 twentyFourHourPrices={twentyFourHourPrices}
-                 isLoading={isMoversLoading}
                  onSelectItem={handleItemSelection}
-                 error={error}
+                 activeTab={route.tab ?? DEFAULT_MARKET_TAB}
+                 onTabChange={tab => navigate({ ...route, tab })}
+                 timeframe={route.timeframe ?? DEFAULT_MARKET_TIMEFRAME}
+                 onTimeframeChange={timeframe => navigate({ ...route, timeframe }, { replace: true })}
                />;
       case 'assistant':
-        return <FlippingAssistantPage 
-                  items={items}
-                  latestPrices={latestPrices}
-                  oneHourPrices={oneHourPrices}
-                  twentyFourHourPrices={twentyFourHourPrices}
-                  isLoading={isMoversLoading}
-                  onSelectItem={handleItemSelection}
-                  error={error}
-                  profile={profile}
-                  onSpendToken={handleSpendToken}
-               />;
+        return <MemoizedFlippingAssistantPage onSelectItem={handleItemSelection} />;
       case 'community':
         return <CommunityPage 
                     onViewProfile={handleViewProfile} 
-                    profile={profile}
-                    session={session}
-                    items={items}
                     onSelectItem={handleItemSelection}
-                    onLoginClick={() => setIsAuthModalOpen(true)}
+                    activeTab={route.tab ?? DEFAULT_COMMUNITY_TAB}
+                    onTabChange={tab => navigate({ view: 'community', tab })}
+                    leaderboardRange={route.range ?? DEFAULT_LEADERBOARD_RANGE}
+                    onLeaderboardRangeChange={range => navigate({ ...route, range }, { replace: true })}
+                    focusedPostId={route.postId}
+                    onSelectPost={postId => navigate({ view: 'community', postId: postId ?? undefined })}
                 />;
       case 'watchlist':
-        return <Watchlist 
-                  items={watchlistItems} 
-                  onSelectItem={handleItemSelection} 
-                  latestPrices={latestPrices}
-                  prevLatestPrices={prevLatestPrices}
-                  timeseries={watchlistTimeseries}
-                  toggleWatchlist={toggleWatchlist}
-                  isLoading={isUserDataLoading}
-               />;
+        return <MemoizedWatchlist onSelectItem={handleItemSelection} />;
       case 'alerts':
-        return <AlertsPage
-                 alerts={alerts}
-                 setAlerts={setAlerts}
-                 items={items}
-                 latestPrices={latestPrices}
-                 onSelectItem={handleItemSelection}
-                 profile={profile}
-               />;
+        return <MemoizedAlertsPage onSelectItem={handleItemSelection} />;
       case 'portfolio':
-        return <PortfolioPage 
-                  investments={investments}
-                  items={items}
-                  latestPrices={latestPrices}
-                  onCloseInvestment={handleCloseInvestment}
-                  onClearPortfolio={handleClearPortfolio}
-                  onDeleteInvestment={handleDeleteInvestment}
-                  onEditInvestment={handleUpdateInvestment}
-                  onRefreshPrices={handleRefreshPrices}
-                  onSelectItem={handleItemSelection}
-                  profile={profile}
-                  session={session}
-                />;
+        return <MemoizedPortfolioPage onSelectItem={handleItemSelection} />;
       case 'profile':
         if (isProfileLoading) {
             return <div className="flex justify-center items-center h-full pt-20"><Loader /></div>;
@@ -815,11 +445,8 @@ export default function App() {
                   onProfileUpdate={handleAdminProfileUpdate}
                />
       case 'stats':
-        if (!profile?.developer) {
-          switchView('home'); // Redirect non-devs
-          return null;
-        }
-        return <StatsPage />;
+        if (!profile?.developer) return null; // Non-devs are redirected home once their profile loads
+        return <MemoizedStatsPage />;
       case 'premium':
         return <PremiumPage onBack={handleBack} />;
       default:
@@ -829,23 +456,24 @@ export default function App() {
 
   return (
     <>
-      {isAuthModalOpen && !session && <AuthModal onClose={() => setIsAuthModalOpen(false)} />}
+      {isAuthModalOpen && !session && <AuthModal onClose={closeAuthModal} />}
       {isProfileModalOpen && profile && (
         <ProfileModal
             profile={profile}
-            onClose={() => setIsProfileModalOpen(false)}
-            onProfileUpdate={handleProfileUpdate}
-        />
-      )}
-      {isAddInvestmentModalOpen && investmentModalItem && (
-        <AddInvestmentModal
-          item={investmentModalItem}
-          latestPrice={latestPrices[investmentModalItem.id]}
-          onClose={() => setIsAddInvestmentModalOpen(false)}
-          onSave={handleSaveInvestment}
+            onClose={closeProfileModal}
+            onProfileUpdate={updateProfile}
         />
       )}
+      <AddInvestmentModalContainer />
       <ProgressionNotifications notifications={notifications} onRemove={removeNotification} />
+      <AlertNotifications
+        triggeredAlerts={triggeredAlerts}
+        onRemove={removeTriggeredAlert}
+        onSelect={handleSelectTriggeredAlert}
+        positionExits={triggeredPositionExits}
+        onRemovePositionExit={removeTriggeredPositionExit}
+        onSelectPositionExit={selectPositionExit}
+      />
       
       <div className="min-h-screen md:h-screen bg-gray-900 text-gray-100 font-sans flex flex-col md:flex-row">
         
@@ -855,6 +483,7 @@ export default function App() {
             <PulseIcon className="w-8 h-8 text-emerald-400" />
             <h1 className="text-2xl font-bold text-white tracking-tighter">GE Pulse</h1>
           </div>
+          <GameModeSelector gameMode={gameMode} onChange={changeGameMode} className="mb-6" />
           <nav className="flex-1 flex-col gap-2 hidden md:flex overflow-y-auto overflow-x-hidden">
             <button onClick={() => switchView('home')} className={getNavButtonClasses('home')}>
               <HomeIcon className="w-5 h-5" />
@@ -927,7 +556,7 @@ export default function App() {
                         <UserSquareIcon className="w-5 h-5" />
                         <span>My Profile</span>
                       </button>
-                      <button onClick={() => { setIsProfileModalOpen(true); setIsProfileMenuOpen(false); }} className="w-full flex items-center gap-3 px-4 py-2 text-sm text-gray-300 hover:bg-gray-700/50 rounded-md">
+                      <button onClick={() => { openProfileModal(); setIsProfileMenuOpen(false); }} className="w-full flex items-center gap-3 px-4 py-2 text-sm text-gray-300 hover:bg-gray-700/50 rounded-md">
                         <SettingsIcon className="w-5 h-5" />
                         <span>Profile Settings</span>
                       </button>
@@ -953,7 +582,7 @@ export default function App() {
                   </button>
                 </>
               ) : !session ? (
-                  <Button onClick={() => setIsAuthModalOpen(true)} variant="secondary" className="w-full justify-center">
+                  <Button onClick={openAuthModal} variant="secondary" className="w-full justify-center">
                     <LogInIcon className="w-5 h-5 md:mr-2" />
                     <span>Login / Sign Up</span>
                   </Button>
@@ -978,7 +607,7 @@ export default function App() {
                 {session && profile ? (
                   <MobileProfileMenu />
                 ) : !session ? (
-                  <Button onClick={() => setIsAuthModalOpen(true)} variant="secondary" size="sm" className="px-3 py-1.5">
+                  <Button onClick={openAuthModal} variant="secondary" size="sm" className="px-3 py-1.5">
                     Login
                   </Button>
                 ) : <Loader size="sm" />}
@@ -986,6 +615,8 @@ export default function App() {
             </header>
 
             <main className="flex-1 overflow-y-auto overflow-x-hidden px-4 pb-24 md:px-8 md:pb-8">
+              <GameModeSelector gameMode={gameMode} onChange={changeGameMode} className="md:hidden mt-4" />
+              <OfflineBanner />
               {renderContent()}
               <footer className="mt-16 pt-6 border-t border-gray-700/50 text-center text-xs text-gray-500">
                 <p className="font-semibold">GE Pulse - Beta V1.0</p>
@@ -1007,15 +638,15 @@ export default function App() {
             <TrendingUpIcon className="w-5 h-5" />
             <span>Market</span>
         </button>
-         <button onClick={() => session ? switchView('assistant') : setIsAuthModalOpen(true)} className={getMobileNavButtonClasses('assistant', !session)}>
+         <button onClick={() => session ? switchView('assistant') : openAuthModal()} className={getMobileNavButtonClasses('assistant', !session)}>
             <BotIcon className="w-5 h-5" />
             <span>AI</span>
         </button>
-        <button onClick={() => session ? switchView('watchlist') : setIsAuthModalOpen(true)} className={getMobileNavButtonClasses('watchlist', !session)}>
+        <button onClick={() => session ? switchView('watchlist') : openAuthModal()} className={getMobileNavButtonClasses('watchlist', !session)}>
             <StarIcon className="w-5 h-5" />
             <span>Watchlist</span>
         </button>
-        <button onClick={() => session ? switchView('portfolio') : setIsAuthModalOpen(true)} className={getMobileNavButtonClasses('portfolio', !session)}>
+        <button onClick={() => session ? switchView('portfolio') : openAuthModal()} className={getMobileNavButtonClasses('portfolio', !session)}>
             <BriefcaseIcon className="w-5 h-5" />
             <span>Portfolio</span>
         </button>
@@ -1023,3 +654,19 @@ export default function App() {
     </>
   );
 }
+
+// The add-investment modal, when open. Reads live prices here rather than in AppContent, so price
+// refreshes only re-render the modal and not the whole app.
+const AddInvestmentModalContainer: React.FC = () => {
+  const { latestPrices } = useMarketPrices();
+  const { investmentModalItem, closeAddInvestmentModal, saveInvestment } = usePortfolio();
+  if (!investmentModalItem) return null;
+  return (
+    <AddInvestmentModal
+      item={investmentModalItem}
+      latestPrice={latestPrices[investmentModalItem.id]}
+      onClose={closeAddInvestmentModal}
+      onSave={saveInvestment}
+    />
+  );
+};
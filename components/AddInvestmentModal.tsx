@@ -10,7 +10,7 @@ interface AddInvestmentModalProps {
   item: Item;
   latestPrice: LatestPrice;
   onClose: () => void;
-  onSave: (investmentData: Omit<Investment, 'id' | 'user_id' | 'created_at'>) => Promise<void>;
+  onSave: (investmentData: Omit<Investment, 'id' | 'user_id' | 'created_at' | 'game_mode'>) => Promise<void>;
 }
 
 export const AddInvestmentModal: React.FC<AddInvestmentModalProps> = ({ item, latestPrice, onClose, onSave }) => {
@@ -0,0 +1,134 @@
+import React from 'react';
+import type { Item, PriceAlert, PriceAlertState, TriggeredAlert } from '../types';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+import { ClockIcon, ChevronRightIcon, CheckCircleIcon, RefreshCwIcon, Trash2Icon } from './icons/Icons';
+import { getHighResImageUrl, createIconDataUrl } from '../utils/image';
+import { describeAlertCondition, describePriceChange, formatAlertMetricValue, ALERT_SNOOZE_HOURS, getRearmState, getSnoozeState, getExpireState } from '../utils/alerts';
+
+interface AlertHistoryProps {
+  events: TriggeredAlert[];
+  alerts: PriceAlert[];
+  items: Record<string, Item>;
+  onSelectItem: (item: Item) => void;
+  onUpdateAlertState: (alertId: string, state: PriceAlertState) => Promise<void>;
+  onToggleActed: (eventId: string) => Promise<void>;
+  onClear: () => Promise<void>;
+  onError: (message: string) => void;
+}
+
+export const AlertHistory: React.FC<AlertHistoryProps> = ({ events, alerts, items, onSelectItem, onUpdateAlertState, onToggleActed, onClear, onError }) => {
+  if (events.length === 0) {
+    return (
+      <div className="text-center py-20 flex flex-col items-center">
+        <ClockIcon className="w-16 h-16 text-gray-600 mb-4" />
+        <h2 className="text-2xl font-bold text-white mb-2">No alerts have triggered yet.</h2>
+        <p className="text-gray-400">Triggered alerts will be logged here with the prices at the time.</p>
+      </div>
+    );
+  }
+
+  const runAction = (alertId: string, state: PriceAlertState) => {
+    onUpdateAlertState(alertId, state).catch(err => onError(err.message || 'Failed to update alert.'));
+  };
+
+  const handleClear = () => {
+    onClear().catch(err => onError(err.message || 'Failed to clear alert history.'));
+  };
+
+  const handleToggleActed = (eventId: string) => {
+    onToggleActed(eventId).catch(err => onError(err.message || 'Failed to update alert history.'));
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <p className="text-sm text-gray-400">{events.length} triggered event{events.length === 1 ? '' : 's'}</p>
+        <Button variant="ghost" size="sm" onClick={handleClear} className="text-gray-400 hover:text-red-400">
+          <Trash2Icon className="w-4 h-4 mr-1" />
+          Clear History
+        </Button>
+      </div>
+      <div className="space-y-3">
+        {events.map(event => {
+          const item = items[event.alert.itemId];
+          // The alert may have been edited or deleted since this event fired.
+          const currentAlert = alerts.find(a => a.id === event.alert.id);
+          const priceChange = describePriceChange(event.alert, event.priceChange);
+
+          return (
+            <Card key={event.id} className={`!p-4 ${event.actedOn ? 'opacity-60' : ''}`}>
+              <div className="flex flex-col md:flex-row md:items-center gap-4">
+                <div className="flex items-center gap-4 flex-1 min-w-0">
+                  {item && (
+                    <img
+                      src={getHighResImageUrl(item.name)}
+                      onError={(e) => {
+                        e.currentTarget.onerror = null;
+                        e.currentTarget.src = createIconDataUrl(item.icon);
+                      }}
+                      alt={item.name}
+                      className="w-10 h-10 object-contain bg-gray-700/50 rounded-md flex-shrink-0"
+                    />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="font-bold text-white flex items-center gap-2">
+                      <span className="truncate">{event.itemName}</span>
+                      {event.actedOn && <CheckCircleIcon className="w-4 h-4 text-emerald-400 flex-shrink-0" />}
+                    </p>
+                    <p className="text-sm text-emerald-400">
+                      {describeAlertCondition(event.alert)} — hit {formatAlertMetricValue(event.alert, event.value)}
+                    </p>
+                    <p className="text-xs text-gray-400">
+                      {new Date(event.triggeredAt).toLocaleString()}
+                      {event.priceSnapshot && (
+                        <> · High {event.priceSnapshot.high?.toLocaleString() ?? 'N/A'} gp · Low {event.priceSnapshot.low?.toLocaleString() ?? 'N/A'} gp</>
+                      )}
+                      {priceChange && <> · {priceChange}</>}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex flex-wrap items-center gap-1">
+                  {currentAlert ? (
+                    <>
+                      <Button variant="secondary" size="sm" onClick={() => runAction(currentAlert.id, getRearmState())} className="px-2 py-1.5">
+                        <RefreshCwIcon className="w-3 h-3 mr-1" />
+                        Re-arm
+                      </Button>
+                      {ALERT_SNOOZE_HOURS.map(hours => (
+                        <Button key={hours} variant="ghost" size="sm" onClick={() => runAction(currentAlert.id, getSnoozeState(hours))} className="px-2 py-1.5">
+                          Snooze {hours}h
+                        </Button>
+                      ))}
+                      {!currentAlert.expiredAt && (
+                        <Button variant="ghost" size="sm" onClick={() => runAction(currentAlert.id, getExpireState())} className="px-2 py-1.5 text-red-400 hover:text-red-300">
+                          Expire
+                        </Button>
+                      )}
+                    </>
+                  ) : (
+                    <span className="text-xs text-gray-500 px-2">Alert deleted</span>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={() => handleToggleActed(event.id)} className="px-2 py-1.5">
+                    {event.actedOn ? 'Unmark' : 'Acted On'}
+                  </Button>
+                  {item && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="w-8 h-8 text-gray-400 hover:text-white"
+                      onClick={() => onSelectItem(item)}
+                      aria-label={`View ${item.name}`}
+                    >
+                      <ChevronRightIcon className="w-5 h-5" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
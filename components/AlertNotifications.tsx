@@ -0,0 +1,92 @@
+import React, { useEffect } from 'react';
+import type { TriggeredAlert, TriggeredPositionExit } from '../types';
+import { BellIcon, XIcon } from './icons/Icons';
+import { getHighResImageUrl } from '../utils/image';
+import { describeAlertCondition, formatAlertMetricValue } from '../utils/alerts';
+
+interface AlertNotificationsProps {
+  triggeredAlerts: TriggeredAlert[];
+  onRemove: (id: string) => void;
+  onSelect: (triggered: TriggeredAlert) => void;
+  positionExits: TriggeredPositionExit[];
+  onRemovePositionExit: (id: string) => void;
+  onSelectPositionExit: (triggered: TriggeredPositionExit) => void;
+}
+
+interface AlertToastProps {
+  itemName: string;
+  description: string;
+  detail: string;
+  accentClass: string; // Border and icon colour
+  onRemove: () => void;
+  onSelect: () => void;
+}
+
+const ALERT_TOAST_DURATION = 15000; // Price alerts stay up longer than XP toasts so they aren't missed
+
+const AlertToast: React.FC<AlertToastProps> = ({ itemName, description, detail, accentClass, onRemove, onSelect }) => {
+    useEffect(() => {
+        const timer = setTimeout(onRemove, ALERT_TOAST_DURATION);
+        return () => clearTimeout(timer);
+    }, [onRemove]);
+
+    return (
+        <div
+            onClick={onSelect}
+            className={`animate-fade-in bg-gray-800 border ${accentClass} rounded-lg shadow-lg flex items-center gap-3 p-3 text-sm cursor-pointer hover:bg-gray-700/80 transition-colors`}
+        >
+            <img
+                src={getHighResImageUrl(itemName)}
+                onError={(e) => { e.currentTarget.style.display = 'none'; }}
+                alt={itemName}
+                className="w-8 h-8 object-contain flex-shrink-0"
+            />
+            <div className="flex-1 min-w-0">
+                <p className="text-white font-semibold flex items-center gap-1.5">
+                    <BellIcon className="w-4 h-4 flex-shrink-0" />
+                    <span className="truncate">{itemName}</span>
+                </p>
+                <p className="text-gray-400">{description}</p>
+                <p className="font-semibold">{detail}</p>
+            </div>
+            <button
+                onClick={(e) => { e.stopPropagation(); onRemove(); }}
+                className="text-gray-400 hover:text-white self-start"
+                aria-label="Dismiss alert"
+            >
+                <XIcon className="w-4 h-4" />
+            </button>
+        </div>
+    );
+};
+
+export const AlertNotifications: React.FC<AlertNotificationsProps> = ({ triggeredAlerts, onRemove, onSelect, positionExits, onRemovePositionExit, onSelectPositionExit }) => {
+    if (triggeredAlerts.length === 0 && positionExits.length === 0) return null;
+
+    return (
+        <div className="fixed bottom-24 md:bottom-5 right-5 z-50 space-y-3 w-72">
+            {triggeredAlerts.map(triggered => (
+                <AlertToast
+                    key={triggered.id}
+                    itemName={triggered.itemName}
+                    description={describeAlertCondition(triggered.alert)}
+                    detail={`Now ${formatAlertMetricValue(triggered.alert, triggered.value)}`}
+                    accentClass="border-emerald-500/50 text-emerald-400"
+                    onRemove={() => onRemove(triggered.id)}
+                    onSelect={() => onSelect(triggered)}
+                />
+            ))}
+            {positionExits.map(triggered => (
+                <AlertToast
+                    key={triggered.id}
+                    itemName={triggered.itemName}
+                    description={`${triggered.kind === 'stop_loss' ? 'Stop-loss' : 'Take-profit'} hit at ${triggered.thresholdPrice.toLocaleString()} gp`}
+                    detail={`Low ${triggered.price.toLocaleString()} gp · Click to sell`}
+                    accentClass={triggered.kind === 'stop_loss' ? 'border-red-500/50 text-red-400' : 'border-emerald-500/50 text-emerald-400'}
+                    onRemove={() => onRemovePositionExit(triggered.id)}
+                    onSelect={() => onSelectPositionExit(triggered)}
+                />
+            ))}
+        </div>
+    );
+};
@@ -1,59 +1,117 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import type { Item, LatestPrice, PriceAlert } from '../types';
+import type { Item, LatestPrice, AggregatePrice, PriceAlert, PriceAlertDraft, AlertType } from '../types';
 import { Button } from './ui/Button';
 import { Loader } from './ui/Loader';
 import { XIcon, BellIcon, Trash2Icon } from './icons/Icons';
 import { getHighResImageUrl, createIconDataUrl, parseShorthandPrice } from '../utils/image';
+import { ALERT_TYPE_LABELS, getAlertMetricValue, formatAlertMetricValue } from '../utils/alerts';
 
 interface AlertSettingsModalProps {
   item: Item;
   latestPrice: LatestPrice;
+  oneHourPrice?: AggregatePrice;
+  twentyFourHourPrice?: AggregatePrice;
   existingAlert: PriceAlert | null;
   onClose: () => void;
-  onSave: (alertData: PriceAlert) => void;
-  onRemove: (itemId: number) => void;
+  onSave: (alertData: PriceAlertDraft) => Promise<void>;
+  onRemove: (alertId: string) => Promise<void>;
 }
 
-export const AlertSettingsModal: React.FC<AlertSettingsModalProps> = ({ item, latestPrice, existingAlert, onClose, onSave, onRemove }) => {
+const alertTypeOptions: AlertType[] = ['price', 'percent_change', 'spread', 'margin', 'volume'];
+
+export const AlertSettingsModal: React.FC<AlertSettingsModalProps> = ({ item, latestPrice, oneHourPrice, twentyFourHourPrice, existingAlert, onClose, onSave, onRemove }) => {
+  const [alertType, setAlertType] = useState<AlertType>('price');
   const [targetPrice, setTargetPrice] = useState('');
   const [condition, setCondition] = useState<'above' | 'below'>('below');
   const [priceType, setPriceType] = useState<'high' | 'low'>('high');
+  const [timeframe, setTimeframe] = useState<'1h' | '24h'>('1h');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     if (existingAlert) {
+      setAlertType(existingAlert.type ?? 'price');
       setTargetPrice(existingAlert.targetPrice.toString());
       setCondition(existingAlert.condition);
       setPriceType(existingAlert.priceType ?? 'high'); // Default to high for old alerts
+      setTimeframe(existingAlert.timeframe ?? '1h');
     } else {
+      setAlertType('price');
       setTargetPrice((latestPrice?.high ?? item.value).toString());
       setCondition('below');
       setPriceType('high');
+      setTimeframe('1h');
     }
-  }, [existingAlert, latestPrice, item.value]);
+  // Only reset the form when a different alert is opened, not on every price refresh.
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [existingAlert, item.id]);
+
+  const handleAlertTypeChange = (type: AlertType) => {
+    setAlertType(type);
+    // Clear the threshold, since its unit (gp, %, items) depends on the alert type.
+    setTargetPrice(type === 'price' ? (latestPrice?.high ?? item.value).toString() : '');
+    setCondition(type === 'price' ? 'below' : 'above');
+  };
+
+  // Percent thresholds are plain decimals; everything else supports "120k" / "3.5m" shorthand.
+  const parsedTargetPrice = useMemo(() => (
+    alertType === 'percent_change' ? parseFloat(targetPrice) : parseShorthandPrice(targetPrice)
+  ), [targetPrice, alertType]);
+
+  const currentMetricValue = useMemo(() => {
+    const previewAlert: PriceAlert = { id: 'preview', itemId: item.id, type: alertType, targetPrice: 0, condition, priceType, timeframe };
+    const value = getAlertMetricValue(previewAlert, {
+      items: { [item.id]: item },
+      latestPrices: latestPrice ? { [item.id]: latestPrice } : {},
+      oneHourPrices: oneHourPrice ? { [item.id]: oneHourPrice } : {},
+      twentyFourHourPrices: twentyFourHourPrice ? { [item.id]: twentyFourHourPrice } : {},
+    });
+    return value === null ? null : formatAlertMetricValue(previewAlert, value);
+  }, [item, alertType, condition, priceType, timeframe, latestPrice, oneHourPrice, twentyFourHourPrice]);
 
-  const parsedTargetPrice = useMemo(() => parseShorthandPrice(targetPrice), [targetPrice]);
+  const tracksPriceSide = alertType === 'price' || alertType === 'percent_change';
+  const conditionLabel = alertType === 'percent_change' ? 'Notify me when price:' : `Notify me when ${ALERT_TYPE_LABELS[alertType].toLowerCase()} is:`;
+  const thresholdLabel = alertType === 'percent_change' ? 'Change (%)' : alertType === 'volume' ? 'Items Traded (24h)' : alertType === 'price' ? 'Target Price' : 'Threshold (gp)';
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
 
     if (isNaN(parsedTargetPrice) || parsedTargetPrice <= 0) {
-      setError('Please enter a valid positive price. Shorthand like "120k" or "3.5m" is supported.');
+      setError(alertType === 'percent_change'
+        ? 'Please enter a valid positive percentage, e.g. "5" or "2.5".'
+        : 'Please enter a valid positive number. Shorthand like "120k" or "3.5m" is supported.');
       return;
     }
 
-    onSave({
-      itemId: item.id,
-      targetPrice: parsedTargetPrice,
-      condition,
-      priceType,
-    });
+    setLoading(true);
+    try {
+      await onSave({
+        itemId: item.id,
+        type: alertType,
+        targetPrice: parsedTargetPrice,
+        condition,
+        priceType,
+        ...(alertType === 'percent_change' && { timeframe }),
+      });
+    } catch (err: any) {
+      setError(err.message || 'Failed to save alert. Please try again.');
+    } finally {
+      setLoading(false);
+    }
   };
 
-  const handleRemove = () => {
-      onRemove(item.id);
+  const handleRemove = async () => {
+      if (!existingAlert) return;
+      setError(null);
+      setLoading(true);
+      try {
+        await onRemove(existingAlert.id);
+      } catch (err: any) {
+        setError(err.message || 'Failed to remove alert. Please try again.');
+      } finally {
+        setLoading(false);
+      }
   }
 
   return (
@@ -100,28 +158,70 @@ export const AlertSettingsModal: React.FC<AlertSettingsModalProps> = ({ item, la
 
         <form onSubmit={handleSubmit} className="space-y-4">
             <div>
-                <label className="block text-sm font-medium text-gray-300 mb-2 text-center">Track Price:</label>
-                <div className="flex items-center gap-2 p-1 bg-gray-900/50 rounded-lg">
-                    <Button
-                        type="button"
-                        variant={priceType === 'high' ? 'secondary' : 'ghost'}
-                        onClick={() => setPriceType('high')}
-                        className="w-1/2"
-                    >
-                        High Price (Buy)
-                    </Button>
-                     <Button
-                        type="button"
-                        variant={priceType === 'low' ? 'secondary' : 'ghost'}
-                        onClick={() => setPriceType('low')}
-                        className="w-1/2"
-                    >
-                        Low Price (Sell)
-                    </Button>
+                <label className="block text-sm font-medium text-gray-300 mb-2 text-center">Alert Type:</label>
+                <div className="grid grid-cols-5 gap-1 p-1 bg-gray-900/50 rounded-lg">
+                    {alertTypeOptions.map(type => (
+                        <Button
+                            key={type}
+                            type="button"
+                            size="sm"
+                            variant={alertType === type ? 'secondary' : 'ghost'}
+                            onClick={() => handleAlertTypeChange(type)}
+                            className="py-2"
+                        >
+                            {ALERT_TYPE_LABELS[type]}
+                        </Button>
+                    ))}
                 </div>
             </div>
+            {tracksPriceSide && (
+                <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-2 text-center">Track Price:</label>
+                    <div className="flex items-center gap-2 p-1 bg-gray-900/50 rounded-lg">
+                        <Button
+                            type="button"
+                            variant={priceType === 'high' ? 'secondary' : 'ghost'}
+                            onClick={() => setPriceType('high')}
+                            className="w-1/2"
+                        >
+                            High Price (Buy)
+                        </Button>
+                         <Button
+                            type="button"
+                            variant={priceType === 'low' ? 'secondary' : 'ghost'}
+                            onClick={() => setPriceType('low')}
+                            className="w-1/2"
+                        >
+                            Low Price (Sell)
+                        </Button>
+                    </div>
+                </div>
+            )}
+            {alertType === 'percent_change' && (
+                <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-2 text-center">Compared to the average over:</label>
+                    <div className="flex items-center gap-2 p-1 bg-gray-900/50 rounded-lg">
+                        <Button
+                            type="button"
+                            variant={timeframe === '1h' ? 'secondary' : 'ghost'}
+                            onClick={() => setTimeframe('1h')}
+                            className="w-1/2"
+                        >
+                            1 Hour
+                        </Button>
+                         <Button
+                            type="button"
+                            variant={timeframe === '24h' ? 'secondary' : 'ghost'}
+                            onClick={() => setTimeframe('24h')}
+                            className="w-1/2"
+                        >
+                            24 Hours
+                        </Button>
+                    </div>
+                </div>
+            )}
             <div>
-                <label className="block text-sm font-medium text-gray-300 mb-2 text-center">Notify me when price is:</label>
+                <label className="block text-sm font-medium text-gray-300 mb-2 text-center">{conditionLabel}</label>
                 <div className="flex items-center gap-2 p-1 bg-gray-900/50 rounded-lg">
                     <Button
                         type="button"
@@ -129,7 +229,7 @@ export const AlertSettingsModal: React.FC<AlertSettingsModalProps> = ({ item, la
                         onClick={() => setCondition('above')}
                         className="w-1/2"
                     >
-                        Above
+                        {alertType === 'percent_change' ? 'Rises By' : 'Above'}
                     </Button>
                      <Button
                         type="button"
@@ -137,26 +237,29 @@ export const AlertSettingsModal: React.FC<AlertSettingsModalProps> = ({ item, la
                         onClick={() => setCondition('below')}
                         className="w-1/2"
                     >
-                        Below
+                        {alertType === 'percent_change' ? 'Drops By' : 'Below'}
                     </Button>
                 </div>
             </div>
           <div>
-            <label htmlFor="target-price" className="block text-sm font-medium text-gray-300 mb-1">Target Price</label>
+            <label htmlFor="target-price" className="block text-sm font-medium text-gray-300 mb-1">{thresholdLabel}</label>
             <input
               id="target-price"
               type="text"
-              placeholder="e.g., 120k or 3.5m"
+              placeholder={alertType === 'percent_change' ? 'e.g., 5 or 2.5' : 'e.g., 120k or 3.5m'}
               value={targetPrice}
               onChange={(e) => setTargetPrice(e.target.value)}
               required
               className="w-full p-3 bg-gray-900 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:ring-2 focus:ring-emerald-500 focus:outline-none transition"
             />
-             {targetPrice && !isNaN(parsedTargetPrice) && (
+             {targetPrice && !isNaN(parsedTargetPrice) && alertType !== 'percent_change' && (
                 <p className="text-xs text-gray-400 mt-1">
-                    Parsed value: {parsedTargetPrice.toLocaleString()} gp
+                    Parsed value: {parsedTargetPrice.toLocaleString()}{alertType === 'volume' ? '' : ' gp'}
                 </p>
             )}
+            <p className="text-xs text-gray-400 mt-1">
+                Current {ALERT_TYPE_LABELS[alertType].toLowerCase()}: <span className="text-white font-semibold">{currentMetricValue ?? 'N/A'}</span>
+            </p>
           </div>
           <div className="flex items-center gap-4 pt-2">
             {existingAlert && (
@@ -165,6 +268,7 @@ export const AlertSettingsModal: React.FC<AlertSettingsModalProps> = ({ item, la
                     variant="ghost"
                     className="w-full text-red-400 hover:bg-red-500/10 hover:text-red-300"
                     onClick={handleRemove}
+                    disabled={loading}
                 >
                     <Trash2Icon className="w-5 h-5 mr-2"/>
                     Remove Alert
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import type { Profile } from '../types';
+import { Button } from './ui/Button';
+import { Loader } from './ui/Loader';
+import { XIcon } from './icons/Icons';
+import { updateAlertWebhooks } from '../services/database';
+import { isValidWebhookUrl, sendTestWebhook } from '../services/webhooks';
+import { MAX_ALERT_WEBHOOKS } from '../constants';
+
+interface AlertWebhookSettingsProps {
+  profile: Profile;
+  onProfileUpdate: (updatedProfile: Profile) => void;
+}
+
+export const AlertWebhookSettings: React.FC<AlertWebhookSettingsProps> = ({ profile, onProfileUpdate }) => {
+  const urls = profile.alert_webhook_urls ?? [];
+  const [newUrl, setNewUrl] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [testingUrl, setTestingUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [testResult, setTestResult] = useState<{ url: string; ok: boolean; message: string } | null>(null);
+
+  const saveUrls = async (nextUrls: string[]) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await updateAlertWebhooks(profile.id, nextUrls);
+      onProfileUpdate({ ...profile, alert_webhook_urls: nextUrls });
+    } catch (err: any) {
+      setError(err.message || 'Failed to save webhooks.');
+      throw err;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const url = newUrl.trim();
+    if (!isValidWebhookUrl(url)) {
+      setError('Please enter a valid http(s) URL.');
+      return;
+    }
+    if (urls.includes(url)) {
+      setError('This webhook has already been added.');
+      return;
+    }
+    try {
+      await saveUrls([...urls, url]);
+      setNewUrl('');
+    } catch {
+      // The error is already shown by saveUrls.
+    }
+  };
+
+  const handleRemove = (url: string) => {
+    saveUrls(urls.filter(u => u !== url)).catch(() => {});
+    if (testResult?.url === url) setTestResult(null);
+  };
+
+  const handleTest = async (url: string) => {
+    setTestingUrl(url);
+    setTestResult(null);
+    try {
+      await sendTestWebhook(url);
+      setTestResult({ url, ok: true, message: 'Test alert sent!' });
+    } catch (err: any) {
+      setTestResult({ url, ok: false, message: err.message || 'Test failed.' });
+    } finally {
+      setTestingUrl(null);
+    }
+  };
+
+  return (
+    <div className="mt-8 pt-6 border-t border-gray-700/50">
+      <h3 className="text-lg font-bold text-white mb-1">Alert Webhooks</h3>
+      <p className="text-sm text-gray-400 mb-4">
+        Triggered alerts are also posted to these URLs, e.g. a Discord channel webhook.
+      </p>
+
+      {error && (
+        <div className="bg-red-500/20 border border-red-500/50 text-red-300 text-sm p-3 rounded-md mb-4" role="alert">
+          {error}
+        </div>
+      )}
+
+      {urls.length > 0 && (
+        <ul className="space-y-2 mb-4">
+          {urls.map(url => (
+            <li key={url} className="bg-gray-900/50 border border-gray-700/50 rounded-lg p-2">
+              <div className="flex items-center gap-2">
+                <span className="flex-1 min-w-0 truncate text-sm text-gray-300" title={url}>{url}</span>
+                <Button variant="secondary" size="sm" onClick={() => handleTest(url)} disabled={testingUrl !== null} className="px-2 py-1">
+                  {testingUrl === url ? <Loader size="sm" /> : 'Send Test'}
+                </Button>
+                <Button variant="ghost" size="icon" className="w-8 h-8 text-gray-400 hover:text-red-400" onClick={() => handleRemove(url)} disabled={saving} aria-label="Remove webhook">
+                  <XIcon className="w-4 h-4" />
+                </Button>
+              </div>
+              {testResult?.url === url && (
+                <p className={`text-xs mt-1 ${testResult.ok ? 'text-emerald-400' : 'text-red-400'}`}>{testResult.message}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {urls.length < MAX_ALERT_WEBHOOKS ? (
+        <form onSubmit={handleAdd} className="flex gap-2">
+          <input
+            type="url"
+            placeholder="https://discord.com/api/webhooks/..."
+            value={newUrl}
+            onChange={(e) => setNewUrl(e.target.value)}
+            className="flex-1 min-w-0 p-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-white placeholder-gray-500 focus:ring-2 focus:ring-emerald-500 focus:outline-none transition"
+          />
+          <Button type="submit" variant="primary" size="sm" disabled={saving || !newUrl.trim()}>
+            {saving ? <Loader size="sm" /> : 'Add'}
+          </Button>
+        </form>
+      ) : (
+        <p className="text-xs text-gray-500">You can add up to {MAX_ALERT_WEBHOOKS} webhooks.</p>
+      )}
+    </div>
+  );
+};
@@ -1,55 +1,67 @@
 import React, { useState } from 'react';
-import type { Item, LatestPrice, PriceAlert, Profile } from '../types';
+import type { Item, PriceAlert, PriceAlertDraft } from '../types';
 import { Card } from './ui/Card';
 import { Button } from './ui/Button';
 // FIX: Import ChevronRightIcon to resolve 'Cannot find name' error.
-import { BellIcon, XIcon, StarIcon, ChevronRightIcon } from './icons/Icons';
+import { BellIcon, XIcon, StarIcon, ChevronRightIcon, RefreshCwIcon } from './icons/Icons';
 import { getHighResImageUrl, createIconDataUrl } from '../utils/image';
 import { FREE_USER_ALERT_LIMIT } from '../constants';
 import { AlertSettingsModal } from './AlertSettingsModal';
+import { AlertHistory } from './AlertHistory';
+import { describeAlertCondition, getAlertMetricValue, formatAlertMetricValue, getRearmState, ALERT_TYPE_LABELS } from '../utils/alerts';
+import { useItems, useMarketPrices } from '../stores/MarketDataStore';
+import { useSession } from '../stores/SessionStore';
+import { useAlerts } from '../stores/AlertsStore';
 
 interface AlertsPageProps {
-  alerts: PriceAlert[];
-  setAlerts: React.Dispatch<React.SetStateAction<PriceAlert[]>>;
-  items: Record<string, Item>;
-  latestPrices: Record<string, LatestPrice>;
   onSelectItem: (item: Item) => void;
-  profile: Profile | null;
 }
 
-export const AlertsPage: React.FC<AlertsPageProps> = ({ alerts, setAlerts, items, latestPrices, onSelectItem, profile }) => {
-  const [editingAlertItem, setEditingAlertItem] = useState<Item | null>(null);
+export const AlertsPage: React.FC<AlertsPageProps> = ({ onSelectItem }) => {
+  const { items } = useItems();
+  const { latestPrices, oneHourPrices, twentyFourHourPrices } = useMarketPrices();
+  const { profile } = useSession();
+  const {
+    alerts,
+    error,
+    saveAlert: onSaveAlert,
+    removeAlert: onRemoveAlert,
+    updateAlertState: onUpdateAlertState,
+    alertHistory,
+    toggleEventActed: onToggleEventActed,
+    clearHistory: onClearHistory,
+  } = useAlerts();
+  const [activeTab, setActiveTab] = useState<'alerts' | 'history'>('alerts');
+  const [editingAlert, setEditingAlert] = useState<PriceAlert | null>(null);
   const [notification, setNotification] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
 
-  const existingAlertForModal = editingAlertItem ? alerts.find(a => a.itemId === editingAlertItem.id) : null;
+  const editingAlertItem = editingAlert ? items[editingAlert.itemId] : null;
+  const marketData = { items, latestPrices, oneHourPrices, twentyFourHourPrices };
 
-  const handleSaveAlert = (newAlert: PriceAlert) => {
-    setAlerts(prev => [...prev.filter(a => a.itemId !== newAlert.itemId), newAlert]);
-    setNotification({ message: `Alert updated for ${items[newAlert.itemId].name}!`, type: 'success' });
+  const handleSaveAlert = async (draft: PriceAlertDraft) => {
+    await onSaveAlert(draft, editingAlert?.id);
+    setNotification({ message: `Alert updated for ${items[draft.itemId].name}!`, type: 'success' });
     setTimeout(() => setNotification(null), 3000);
-    setEditingAlertItem(null);
+    setEditingAlert(null);
   };
 
-  const handleRemoveAlert = (itemId: number) => {
-    setAlerts(prev => prev.filter(alert => alert.itemId !== itemId));
-    setNotification({ message: `Alert for ${items[itemId].name} removed.`, type: 'success' });
+  const handleRemoveAlert = async (alertId: string) => {
+    const alert = alerts.find(a => a.id === alertId);
+    await onRemoveAlert(alertId);
+    setNotification({ message: `Alert for ${alert ? items[alert.itemId]?.name : 'item'} removed.`, type: 'success' });
     setTimeout(() => setNotification(null), 3000);
-    if(editingAlertItem?.id === itemId) {
-        setEditingAlertItem(null);
+    if(editingAlert?.id === alertId) {
+        setEditingAlert(null);
     }
   };
 
-  const isPremium = profile?.premium ?? false;
+  const showError = (message: string) => {
+    setNotification({ message, type: 'error' });
+    setTimeout(() => setNotification(null), 3000);
+  };
 
-  if (alerts.length === 0) {
-    return (
-      <div className="text-center py-20 flex flex-col items-center">
-        <BellIcon className="w-16 h-16 text-gray-600 mb-4" />
-        <h2 className="text-2xl font-bold text-white mb-2">You have no active alerts.</h2>
-        <p className="text-gray-400">Click the bell icon on an item's page to set a price alert.</p>
-      </div>
-    );
-  }
+  const isPremium = profile?.premium ?? false;
+  const now = Date.now();
 
   return (
     <div className="pt-6 md:pt-8">
@@ -58,12 +70,14 @@ export const AlertsPage: React.FC<AlertsPageProps> = ({ alerts, setAlerts, items
           {notification.message}
         </div>
       )}
-      {editingAlertItem && (
+      {editingAlert && editingAlertItem && (
         <AlertSettingsModal
             item={editingAlertItem}
             latestPrice={latestPrices[editingAlertItem.id]}
-            existingAlert={existingAlertForModal ?? null}
-            onClose={() => setEditingAlertItem(null)}
+            oneHourPrice={oneHourPrices[editingAlertItem.id]}
+            twentyFourHourPrice={twentyFourHourPrices[editingAlertItem.id]}
+            existingAlert={editingAlert}
+            onClose={() => setEditingAlert(null)}
             onSave={handleSaveAlert}
             onRemove={handleRemoveAlert}
         />
@@ -92,19 +106,47 @@ export const AlertsPage: React.FC<AlertsPageProps> = ({ alerts, setAlerts, items
             )
         )}
       </div>
+      {error && (
+        <div className="bg-red-500/20 border border-red-500/50 text-red-300 text-sm p-3 rounded-md mb-6" role="alert">{error}</div>
+      )}
+      <div className="flex items-center gap-1 bg-gray-800/60 p-1 rounded-lg w-fit mb-6">
+        <Button size="sm" variant={activeTab === 'alerts' ? 'secondary' : 'ghost'} onClick={() => setActiveTab('alerts')} className="px-4 py-1.5">My Alerts</Button>
+        <Button size="sm" variant={activeTab === 'history' ? 'secondary' : 'ghost'} onClick={() => setActiveTab('history')} className="px-4 py-1.5">History</Button>
+      </div>
+      {activeTab === 'history' ? (
+        <AlertHistory
+          events={alertHistory}
+          alerts={alerts}
+          items={items}
+          onSelectItem={onSelectItem}
+          onUpdateAlertState={onUpdateAlertState}
+          onToggleActed={onToggleEventActed}
+          onClear={onClearHistory}
+          onError={showError}
+        />
+      ) : alerts.length === 0 ? (
+        <div className="text-center py-20 flex flex-col items-center">
+          <BellIcon className="w-16 h-16 text-gray-600 mb-4" />
+          <h2 className="text-2xl font-bold text-white mb-2">You have no active alerts.</h2>
+          <p className="text-gray-400">Click the bell icon on an item's page to set a price alert.</p>
+        </div>
+      ) : (
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
         {alerts.map(alert => {
           const item = items[alert.itemId];
           if (!item) return null;
           
-          const isHighPriceAlert = (alert.priceType ?? 'high') === 'high';
-          const priceTypeLabel = isHighPriceAlert ? 'High Price' : 'Low Price';
-          const currentPrice = isHighPriceAlert ? latestPrices[item.id]?.high : latestPrices[item.id]?.low;
+          const metricLabel = alert.type === 'price' || !alert.type
+            ? ((alert.priceType ?? 'high') === 'high' ? 'High Price' : 'Low Price')
+            : ALERT_TYPE_LABELS[alert.type];
+          const currentValue = getAlertMetricValue(alert, marketData);
+          const isSnoozed = !!alert.snoozedUntil && alert.snoozedUntil > now;
+          const needsRearm = !!alert.triggeredAt || !!alert.expiredAt || isSnoozed;
 
           return (
             <Card 
-              key={alert.itemId} 
-              onClick={() => setEditingAlertItem(item)} 
+              key={alert.id} 
+              onClick={() => setEditingAlert(alert)} 
               isHoverable={true}
               className="flex flex-col"
             >
@@ -119,22 +161,61 @@ export const AlertsPage: React.FC<AlertsPageProps> = ({ alerts, setAlerts, items
                   className="w-10 h-10 object-contain bg-gray-700/50 rounded-md"
                 />
                 <div className="flex-1">
-                  <p className="font-bold text-white">{item.name}</p>
+                  <p className="font-bold text-white flex items-center gap-2">
+                    <span>{item.name}</span>
+                    {alert.expiredAt ? (
+                      <span className="text-xs font-bold px-2 py-0.5 rounded-full border bg-gray-500/20 text-gray-300 border-gray-500/30">
+                        Expired
+                      </span>
+                    ) : alert.triggeredAt ? (
+                      <span className="text-xs font-bold px-2 py-0.5 rounded-full border bg-yellow-500/20 text-yellow-300 border-yellow-500/30">
+                        Triggered
+                      </span>
+                    ) : isSnoozed && (
+                      <span className="text-xs font-bold px-2 py-0.5 rounded-full border bg-blue-500/20 text-blue-300 border-blue-500/30">
+                        Snoozed
+                      </span>
+                    )}
+                  </p>
                   <p className="text-sm text-emerald-400">
-                    Notify if {priceTypeLabel} is {alert.condition} {alert.targetPrice.toLocaleString()} gp
+                    Notify if {describeAlertCondition(alert)}
                   </p>
                    <p className="text-xs text-gray-400">
-                    Current {priceTypeLabel}: {currentPrice?.toLocaleString() || 'N/A'} gp
+                    Current {metricLabel}: {currentValue !== null ? formatAlertMetricValue(alert, currentValue) : 'N/A'}
                   </p>
+                  {alert.triggeredAt && !alert.expiredAt && (
+                    <p className="text-xs text-yellow-400/80">
+                      Fired {new Date(alert.triggeredAt).toLocaleString()}
+                    </p>
+                  )}
+                  {isSnoozed && !alert.expiredAt && (
+                    <p className="text-xs text-blue-300/80">
+                      Snoozed until {new Date(alert.snoozedUntil!).toLocaleString()}
+                    </p>
+                  )}
                 </div>
                 <div className="flex flex-col gap-2">
+                    {needsRearm && (
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            className="w-8 h-8 text-gray-400 hover:text-emerald-400"
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                onUpdateAlertState(alert.id, getRearmState()).catch(err => showError(err.message || 'Failed to re-arm alert.'));
+                            }}
+                            aria-label={`Re-arm alert for ${item.name}`}
+                        >
+                            <RefreshCwIcon className="w-4 h-4"/>
+                        </Button>
+                    )}
                     <Button 
                         variant="ghost" 
                         size="icon" 
                         className="w-8 h-8 text-gray-400 hover:text-red-400" 
                         onClick={(e) => {
                             e.stopPropagation();
-                            handleRemoveAlert(item.id);
+                            handleRemoveAlert(alert.id).catch(err => showError(err.message || 'Failed to remove alert.'));
                         }}
                         aria-label={`Remove alert for ${item.name}`}
                     >
@@ -158,6 +239,7 @@ export const AlertsPage: React.FC<AlertsPageProps> = ({ alerts, setAlerts, items
           );
         })}
       </div>
+      )}
     </div>
   );
 };
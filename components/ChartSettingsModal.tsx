@@ -1,6 +1,7 @@
 import React from 'react';
 import { Button } from './ui/Button';
 import { XIcon, SlidersIcon } from './icons/Icons';
+import { PRICE_REFRESH_INTERVALS } from '../constants';
 
 interface ChartSettings {
   showAverageLine: boolean;
@@ -11,8 +12,13 @@ interface ChartSettingsModalProps {
   settings: ChartSettings;
   onClose: () => void;
   onSettingsChange: (newSettings: ChartSettings) => void;
+  // Live prices refresh app-wide, so this setting applies to every page.
+  refreshIntervalSeconds: number;
+  onRefreshIntervalChange: (seconds: number) => void;
 }
 
+const formatInterval = (seconds: number) => seconds < 60 ? `${seconds}s` : `${seconds / 60}m`;
+
 const ToggleSwitch: React.FC<{
     id: string;
     label: string;
@@ -43,7 +49,7 @@ const ToggleSwitch: React.FC<{
 );
 
 
-export const ChartSettingsModal: React.FC<ChartSettingsModalProps> = ({ settings, onClose, onSettingsChange }) => {
+export const ChartSettingsModal: React.FC<ChartSettingsModalProps> = ({ settings, onClose, onSettingsChange, refreshIntervalSeconds, onRefreshIntervalChange }) => {
   return (
     <div
       className="fixed inset-0 bg-gray-900 bg-opacity-80 z-40 flex justify-center items-center p-4"
@@ -77,6 +83,22 @@ export const ChartSettingsModal: React.FC<ChartSettingsModalProps> = ({ settings
                 checked={settings.showSellLine}
                 onChange={(isChecked) => onSettingsChange({ ...settings, showSellLine: isChecked })}
             />
+            <div>
+                <p className="text-gray-300 font-medium mb-2">Refresh Live Prices Every</p>
+                <div className="flex items-center gap-2 p-1 bg-gray-900/50 rounded-lg">
+                    {PRICE_REFRESH_INTERVALS.map(seconds => (
+                        <Button
+                            key={seconds}
+                            type="button"
+                            variant={refreshIntervalSeconds === seconds ? 'secondary' : 'ghost'}
+                            onClick={() => onRefreshIntervalChange(seconds)}
+                            className="flex-1"
+                        >
+                            {formatInterval(seconds)}
+                        </Button>
+                    ))}
+                </div>
+            </div>
         </div>
       </div>
     </div>
@@ -3,19 +3,26 @@ import type { Session } from '@supabase/supabase-js';
 import { Card } from './ui/Card';
 import { Loader } from './ui/Loader';
 import { Button } from './ui/Button';
-import { UsersIcon, TrophyIcon, StarIcon, MessageSquareIcon, UserIcon, Trash2Icon, ChevronRightIcon, SearchIcon, XIcon, EditIcon } from './icons/Icons';
+import { UsersIcon, TrophyIcon, StarIcon, MessageSquareIcon, UserIcon, Trash2Icon, ChevronRightIcon, SearchIcon, XIcon, EditIcon, ArrowLeftIcon } from './icons/Icons';
 import { fetchLeaderboard, fetchPosts, createPost, fetchCommentsForPost, createComment, deletePost, deleteComment, searchProfilesByUsername, updatePost } from '../services/database';
-import type { LeaderboardEntry, LeaderboardTimeRange, Post, Comment, Profile, Item, FlipData, SearchedProfile } from '../types';
+import type { LeaderboardEntry, LeaderboardTimeRange, Post, Comment, Profile, Item, FlipData, SearchedProfile, CommunityTab } from '../types';
 import { getHighResImageUrl, createIconDataUrl, formatLargeNumber } from '../utils/image';
 import { DeleteConfirmationModal } from './DeleteConfirmationModal';
+import { buildPath } from '../utils/routes';
+import { useItems } from '../stores/MarketDataStore';
+import { useSession } from '../stores/SessionStore';
+import { useGameMode } from '../stores/GameModeStore';
 
 interface CommunityPageProps {
     onViewProfile: (user: LeaderboardEntry | { username: string | null } | string) => void;
-    profile: (Profile & { email: string | null; }) | null;
-    session: Session | null;
-    items: Record<string, Item>;
     onSelectItem: (item: Item) => void;
-    onLoginClick: () => void;
+    // The tab, leaderboard range and open post are part of the page URL, so they're owned by the parent.
+    activeTab: CommunityTab;
+    onTabChange: (tab: CommunityTab) => void;
+    leaderboardRange: LeaderboardTimeRange;
+    onLeaderboardRangeChange: (range: LeaderboardTimeRange) => void;
+    focusedPostId?: string;
+    onSelectPost: (postId: string | null) => void;
 }
 
 const MAX_VISIBLE_DEPTH = 3;
@@ -148,9 +155,9 @@ const UserSearch: React.FC<{ onViewProfile: (username: string) => void; }> = ({
 };
 
 
-const LeaderboardPanel: React.FC<{ onViewProfile: (user: LeaderboardEntry) => void }> = ({ onViewProfile }) => {
+const LeaderboardPanel: React.FC<{ onViewProfile: (user: LeaderboardEntry) => void; timeRange: LeaderboardTimeRange; onTimeRangeChange: (range: LeaderboardTimeRange) => void }> = ({ onViewProfile, timeRange, onTimeRangeChange }) => {
+    const { gameMode } = useGameMode();
     const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
-    const [timeRange, setTimeRange] = useState<LeaderboardTimeRange>('all');
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
 
@@ -159,7 +166,7 @@ const LeaderboardPanel: React.FC<{ onViewProfile: (user: LeaderboardEntry) => vo
             setIsLoading(true);
             setError(null);
             try {
-                const data = await fetchLeaderboard(timeRange);
+                const data = await fetchLeaderboard(timeRange, gameMode);
                 setLeaderboard(data);
             } catch (err) {
                 console.error(err);
@@ -169,7 +176,7 @@ const LeaderboardPanel: React.FC<{ onViewProfile: (user: LeaderboardEntry) => vo
             }
         };
         loadLeaderboard();
-    }, [timeRange]);
+    }, [timeRange, gameMode]);
 
     const TIME_RANGES: { label: string; value: LeaderboardTimeRange }[] = [
         { label: 'Today', value: 'today' }, { label: 'This Month', value: 'month' },
@@ -188,7 +195,7 @@ const LeaderboardPanel: React.FC<{ onViewProfile: (user: LeaderboardEntry) => vo
                 <div className="flex items-center gap-1 bg-gray-900/50 p-1 rounded-lg">
                     {TIME_RANGES.map(({ label, value }) => (
                         <Button key={value} size="sm" variant={timeRange === value ? 'secondary' : 'ghost'}
-                            onClick={() => setTimeRange(value)} className={`px-3 py-1 ${timeRange !== value ? 'text-gray-400 hover:text-white' : 'shadow-md'}`}>
+                            onClick={() => onTimeRangeChange(value)} className={`px-3 py-1 ${timeRange !== value ? 'text-gray-400 hover:text-white' : 'shadow-md'}`}>
                             {label}
                         </Button>
                     ))}
@@ -227,7 +234,13 @@ const LeaderboardPanel: React.FC<{ onViewProfile: (user: LeaderboardEntry) => vo
 };
 
 
-const CommunityFeedPanel: React.FC<Omit<CommunityPageProps, 'onViewProfile'> & {onViewProfile: (user: {username: string | null}) => void}> = ({ profile, session, items, onSelectItem, onViewProfile, onLoginClick }) => {
+type CommunityFeedPanelProps = Pick<CommunityPageProps, 'onSelectItem' | 'focusedPostId' | 'onSelectPost'> & {
+    onViewProfile: (user: {username: string | null}) => void;
+};
+
+const CommunityFeedPanel: React.FC<CommunityFeedPanelProps> = ({ onSelectItem, onViewProfile, focusedPostId, onSelectPost }) => {
+    const { items } = useItems();
+    const { profile, session, openAuthModal: onLoginClick } = useSession();
     const [posts, setPosts] = useState<Post[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
@@ -264,12 +277,39 @@ const CommunityFeedPanel: React.FC<Omit<CommunityPageProps, 'onViewProfile'> & {
 
     const handlePostDeleted = (postId: string) => {
         setPosts(prevPosts => prevPosts.filter(p => p.id !== postId));
+        if (postId === focusedPostId) onSelectPost(null);
     };
 
     const handlePostUpdated = (updatedPost: Post) => {
         setPosts(prevPosts => prevPosts.map(p => p.id === updatedPost.id ? updatedPost : p));
     };
 
+    // A linked post is shown on its own, with its comments open.
+    if (focusedPostId) {
+        const focusedPost = posts.find(post => post.id === focusedPostId);
+        return (
+            <div className="space-y-6">
+                <div className="flex items-center gap-2">
+                    <Button onClick={() => onSelectPost(null)} variant="ghost" size="icon" aria-label="Back to feed">
+                        <ArrowLeftIcon className="w-6 h-6" />
+                    </Button>
+                    <span className="text-gray-300 font-semibold">Back to feed</span>
+                </div>
+                {isLoading && <div className="flex justify-center items-center h-64"><Loader /></div>}
+                {error && <div className="text-center text-red-400 mt-8">{error}</div>}
+                {!isLoading && !error && (
+                    focusedPost ? (
+                        <PostCard key={focusedPost.id} post={focusedPost} items={items} onSelectItem={onSelectItem} profile={profile} session={session} onViewProfile={onViewProfile} onPostDeleted={handlePostDeleted} onPostUpdated={handlePostUpdated} onSelectPost={onSelectPost} isFocused />
+                    ) : (
+                        <div className="text-center py-20 border-2 border-dashed border-gray-700 rounded-lg">
+                            <p className="text-gray-500">This post couldn't be found. It may have been deleted.</p>
+                        </div>
+                    )
+                )}
+            </div>
+        );
+    }
+
     return (
         <div className="space-y-6">
             {!session && (
@@ -343,7 +383,7 @@ const CommunityFeedPanel: React.FC<Omit<CommunityPageProps, 'onViewProfile'> & {
                     </div>
                 ) : (
                     filteredPosts.map(post => (
-                        <PostCard key={post.id} post={post} items={items} onSelectItem={onSelectItem} profile={profile} session={session} onViewProfile={onViewProfile} onPostDeleted={handlePostDeleted} onPostUpdated={handlePostUpdated} />
+                        <PostCard key={post.id} post={post} items={items} onSelectItem={onSelectItem} profile={profile} session={session} onViewProfile={onViewProfile} onPostDeleted={handlePostDeleted} onPostUpdated={handlePostUpdated} onSelectPost={onSelectPost} />
                     ))
                 )
             )}
@@ -420,7 +460,7 @@ const buildCommentTree = (comments: Comment[]): Comment[] => {
 };
 
 
-const PostCard: React.FC<{ post: Post; items: Record<string, Item>; onSelectItem: (item: Item) => void; profile: Profile | null; session: Session | null; onViewProfile: (user: {username: string | null}) => void; onPostDeleted: (postId: string) => void; onPostUpdated: (post: Post) => void; }> = ({ post, items, onSelectItem, profile, session, onViewProfile, onPostDeleted, onPostUpdated }) => {
+const PostCard: React.FC<{ post: Post; items: Record<string, Item>; onSelectItem: (item: Item) => void; profile: Profile | null; session: Session | null; onViewProfile: (user: {username: string | null}) => void; onPostDeleted: (postId: string) => void; onPostUpdated: (post: Post) => void; onSelectPost: (postId: string) => void; isFocused?: boolean; }> = ({ post, items, onSelectItem, profile, session, onViewProfile, onPostDeleted, onPostUpdated, onSelectPost, isFocused = false }) => {
     const [isCommentsOpen, setIsCommentsOpen] = useState(false);
     const [commentTree, setCommentTree] = useState<Comment[]>([]);
     const [allComments, setAllComments] = useState<Comment[]>([]); // Flat list for easier updates
@@ -463,6 +503,12 @@ const PostCard: React.FC<{ post: Post; items: Record<string, Item>; onSelectItem
             }
         }
     };
+
+    // A post opened from a link shows its comments straight away.
+    useEffect(() => {
+        if (isFocused) handleToggleComments();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
     
     const handleCommentAdded = (newComment: Comment) => {
         const updatedComments = [...allComments, newComment];
@@ -582,7 +628,14 @@ const PostCard: React.FC<{ post: Post; items: Record<string, Item>; onSelectItem
                             <div className="flex items-center gap-2 flex-wrap">
                                 <button onClick={() => onViewProfile({ username: post.profiles.username })} className="font-bold text-white hover:underline">{post.profiles.username || 'Anonymous'}</button>
                                 {post.profiles.premium && <StarIcon className="w-4 h-4 text-yellow-400" />}
-                                <span className="text-gray-400 text-sm">· {timeAgo(post.created_at)}</span>
+                                <span className="text-gray-400 text-sm">
+                                    · <a
+                                        href={buildPath({ view: 'community', postId: post.id })}
+                                        onClick={(e) => { e.preventDefault(); onSelectPost(post.id); }}
+                                        className="hover:underline"
+                                        title="Link to this post"
+                                    >{timeAgo(post.created_at)}</a>
+                                </span>
                             </div>
                             <div className="flex items-center gap-2 flex-shrink-0">
                                 {canEditPost && !isEditing && (
@@ -852,9 +905,7 @@ const CreateCommentForm: React.FC<{ postId: string; session: Session; onCommentA
 };
 
 
-export const CommunityPage: React.FC<CommunityPageProps> = ({ onViewProfile, profile, session, items, onSelectItem, onLoginClick }) => {
-    const [activeTab, setActiveTab] = useState<'feed' | 'leaderboard'>('feed');
-
+export const CommunityPage: React.FC<CommunityPageProps> = ({ onViewProfile, onSelectItem, activeTab, onTabChange, leaderboardRange, onLeaderboardRangeChange, focusedPostId, onSelectPost }) => {
     return (
         <div className="max-w-4xl mx-auto pt-6 md:pt-8">
             <div className="text-center mb-8">
@@ -867,12 +918,12 @@ export const CommunityPage: React.FC<CommunityPageProps> = ({ onViewProfile, pro
 
             <div className="flex justify-center mb-6">
                  <div className="flex items-center gap-1 bg-gray-800/60 p-1 rounded-lg">
-                    <Button size="md" variant={activeTab === 'feed' ? 'secondary' : 'ghost'} onClick={() => setActiveTab('feed')} className="px-6 py-2">Community Feed</Button>
-                    <Button size="md" variant={activeTab === 'leaderboard' ? 'secondary' : 'ghost'} onClick={() => setActiveTab('leaderboard')} className="px-6 py-2">Leaderboard</Button>
+                    <Button size="md" variant={activeTab === 'feed' ? 'secondary' : 'ghost'} onClick={() => onTabChange('feed')} className="px-6 py-2">Community Feed</Button>
+                    <Button size="md" variant={activeTab === 'leaderboard' ? 'secondary' : 'ghost'} onClick={() => onTabChange('leaderboard')} className="px-6 py-2">Leaderboard</Button>
                 </div>
             </div>
             
-            {activeTab === 'feed' ? <CommunityFeedPanel profile={profile} session={session} items={items} onSelectItem={onSelectItem} onViewProfile={onViewProfile} onLoginClick={onLoginClick} /> : <LeaderboardPanel onViewProfile={onViewProfile} />}
+            {activeTab === 'feed' ? <CommunityFeedPanel onSelectItem={onSelectItem} onViewProfile={onViewProfile} focusedPostId={focusedPostId} onSelectPost={onSelectPost} /> : <LeaderboardPanel onViewProfile={onViewProfile} timeRange={leaderboardRange} onTimeRangeChange={onLeaderboardRangeChange} />}
         </div>
     );
 };
@@ -1,25 +1,48 @@
 import React, { useState, useMemo } from 'react';
-import type { Item, Investment } from '../types';
+import type { Item, Investment, InvestmentUpdates, ExitThresholdType } from '../types';
 import { Button } from './ui/Button';
 import { Loader } from './ui/Loader';
 import { XIcon } from './icons/Icons';
 import { getHighResImageUrl, createIconDataUrl, parseShorthandPrice } from '../utils/image';
+import { getExitThresholdPrice } from '../utils/positionExits';
 
 interface EditInvestmentModalProps {
   investment: Investment;
   item: Item;
   onClose: () => void;
-  onSave: (investmentId: string, updates: Partial<Pick<Investment, 'quantity' | 'purchase_price' | 'purchase_date'>>) => Promise<void>;
+  onSave: (investmentId: string, updates: InvestmentUpdates) => Promise<void>;
 }
 
+type ExitKind = 'stop_loss' | 'take_profit';
+
+// Parses an exit threshold input. Blank means no threshold; NaN means the input is invalid.
+const parseThreshold = (value: string, type: ExitThresholdType): number | null => {
+  if (!value.trim()) return null;
+  return type === 'percent' ? parseFloat(value) : parseShorthandPrice(value);
+};
+
 export const EditInvestmentModal: React.FC<EditInvestmentModalProps> = ({ investment, item, onClose, onSave }) => {
   const [quantity, setQuantity] = useState(investment.quantity.toString());
   const [price, setPrice] = useState(investment.purchase_price.toString());
   const [date, setDate] = useState(new Date(investment.purchase_date).toISOString().split('T')[0]);
+  const [stopLoss, setStopLoss] = useState(investment.stop_loss?.toString() ?? '');
+  const [stopLossType, setStopLossType] = useState<ExitThresholdType>(investment.stop_loss_type ?? 'gp');
+  const [takeProfit, setTakeProfit] = useState(investment.take_profit?.toString() ?? '');
+  const [takeProfitType, setTakeProfitType] = useState<ExitThresholdType>(investment.take_profit_type ?? 'gp');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const parsedPrice = useMemo(() => parseShorthandPrice(price), [price]);
+  const parsedStopLoss = useMemo(() => parseThreshold(stopLoss, stopLossType), [stopLoss, stopLossType]);
+  const parsedTakeProfit = useMemo(() => parseThreshold(takeProfit, takeProfitType), [takeProfit, takeProfitType]);
+
+  // Threshold prices are previewed against the purchase price being entered, not the saved one.
+  const getPreviewPrice = (kind: ExitKind, value: number | null, type: ExitThresholdType): number | null => {
+    if (value === null || isNaN(value) || isNaN(parsedPrice) || parsedPrice <= 0) return null;
+    return getExitThresholdPrice(kind, value, type, { ...investment, purchase_price: parsedPrice }, item.name);
+  };
+  const stopLossPreview = getPreviewPrice('stop_loss', parsedStopLoss, stopLossType);
+  const takeProfitPreview = getPreviewPrice('take_profit', parsedTakeProfit, takeProfitType);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -44,13 +67,38 @@ export const EditInvestmentModal: React.FC<EditInvestmentModalProps> = ({ invest
         setLoading(false);
         return;
     }
+    if (parsedStopLoss !== null && (isNaN(parsedStopLoss) || parsedStopLoss <= 0 || (stopLossType === 'percent' && parsedStopLoss >= 100))) {
+        setError('Stop-loss must be a positive price, or a percentage between 0 and 100.');
+        setLoading(false);
+        return;
+    }
+    if (parsedTakeProfit !== null && (isNaN(parsedTakeProfit) || parsedTakeProfit <= 0)) {
+        setError('Take-profit must be a positive price or percentage.');
+        setLoading(false);
+        return;
+    }
+
+    const updates: InvestmentUpdates = {
+      quantity: numQuantity,
+      purchase_price: numPrice,
+      purchase_date: new Date(date).toISOString(),
+      stop_loss: parsedStopLoss,
+      stop_loss_type: parsedStopLoss !== null ? stopLossType : null,
+      take_profit: parsedTakeProfit,
+      take_profit_type: parsedTakeProfit !== null ? takeProfitType : null,
+    };
+    const targetsChanged = updates.stop_loss !== (investment.stop_loss ?? null)
+      || updates.stop_loss_type !== (investment.stop_loss_type ?? null)
+      || updates.take_profit !== (investment.take_profit ?? null)
+      || updates.take_profit_type !== (investment.take_profit_type ?? null)
+      || numPrice !== investment.purchase_price;
+    if (targetsChanged) {
+      // Re-arm the exit targets so they're evaluated again on the next price refresh.
+      updates.exit_triggered_at = null;
+    }
 
     try {
-      await onSave(investment.id, {
-        quantity: numQuantity,
-        purchase_price: numPrice,
-        purchase_date: new Date(date).toISOString(),
-      });
+      await onSave(investment.id, updates);
       onClose();
     } catch (err: any) {
       setError(err.error_description || err.message);
@@ -148,6 +196,40 @@ export const EditInvestmentModal: React.FC<EditInvestmentModalProps> = ({ invest
               className="w-full p-3 bg-gray-900 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:ring-2 focus:ring-emerald-500 focus:outline-none transition"
             />
           </div>
+          {investment.sell_price === null && (
+            <div className="grid grid-cols-2 gap-4">
+              {([
+                { kind: 'stop_loss', label: 'Stop-Loss', value: stopLoss, setValue: setStopLoss, type: stopLossType, setType: setStopLossType, preview: stopLossPreview },
+                { kind: 'take_profit', label: 'Take-Profit', value: takeProfit, setValue: setTakeProfit, type: takeProfitType, setType: setTakeProfitType, preview: takeProfitPreview },
+              ] as const).map(field => (
+                <div key={field.kind}>
+                  <div className="flex justify-between items-center mb-1">
+                    <label htmlFor={field.kind} className="block text-sm font-medium text-gray-300">{field.label}</label>
+                    <div className="flex items-center gap-1 bg-gray-900/50 p-0.5 rounded-md">
+                      <Button type="button" size="sm" variant={field.type === 'gp' ? 'secondary' : 'ghost'} onClick={() => field.setType('gp')} className="h-auto py-0.5 px-2 text-xs">GP</Button>
+                      <Button type="button" size="sm" variant={field.type === 'percent' ? 'secondary' : 'ghost'} onClick={() => field.setType('percent')} className="h-auto py-0.5 px-2 text-xs">%</Button>
+                    </div>
+                  </div>
+                  <input
+                    id={field.kind}
+                    type="text"
+                    placeholder={field.type === 'gp' ? 'e.g., 110k' : 'e.g., 5'}
+                    value={field.value}
+                    onChange={(e) => field.setValue(e.target.value)}
+                    className="w-full p-3 bg-gray-900 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:ring-2 focus:ring-emerald-500 focus:outline-none transition"
+                  />
+                  {field.preview !== null && (
+                    <p className="text-xs text-gray-400 mt-1">
+                      Sell at {field.kind === 'stop_loss' ? '≤' : '≥'} {field.preview.toLocaleString()} gp
+                    </p>
+                  )}
+                </div>
+              ))}
+              <p className="col-span-2 text-xs text-gray-500 -mt-2">
+                Optional. Percentages are measured from your breakeven price after tax. Leave blank to disable.
+              </p>
+            </div>
+          )}
           <Button type="submit" variant="primary" size="lg" className="w-full mt-2" disabled={loading}>
             {loading ? <Loader size="sm" /> : 'Save Changes'}
           </Button>
@@ -2,29 +2,26 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { GoogleGenAI, Type } from '@google/genai';
-import type { Item, LatestPrice, AggregatePrice, FlippingSuggestion, Profile, HistoricAnalysis } from '../types';
+import type { Item, FlippingSuggestion, HistoricAnalysis, FlippingStrategy } from '../types';
 import { BotIcon, SearchIcon, DollarSignIcon, InfoIcon, ClockIcon, ChevronRightIcon, ZapIcon, ChevronDownIcon } from './icons/Icons';
 import { Button } from './ui/Button';
 import { Loader } from './ui/Loader';
 import { Card } from './ui/Card';
-import { getHighResImageUrl, createIconDataUrl, parseShorthandPrice, calculateGeTax } from '../utils/image';
+import { getHighResImageUrl, createIconDataUrl, parseShorthandPrice } from '../utils/image';
+import { LOW_LIMIT_THRESHOLD } from '../utils/flippingCandidates';
 import { ProgressBar } from './ui/ProgressBar';
 import { useLocalStorage } from '../hooks/useLocalStorage';
 import { fetchTimeseries } from '../services/osrsWikiApi';
+import { backfillSnapshots, getSnapshotWindowStats } from '../services/marketSnapshots';
+import { runMarketScan } from '../services/marketScanner';
+import { useItems, useAggregatePrices } from '../stores/MarketDataStore';
+import { useSession } from '../stores/SessionStore';
 
 interface FlippingAssistantPageProps {
-  items: Record<string, Item>;
-  latestPrices: Record<string, LatestPrice>;
-  oneHourPrices: Record<string, AggregatePrice>;
-  twentyFourHourPrices: Record<string, AggregatePrice>;
-  isLoading: boolean;
   onSelectItem: (item: Item) => void;
-  error: string | null;
-  profile: (Profile & { email: string | null; }) | null;
-  onSpendToken: () => Promise<void>;
 }
 
-type Strategy = 'balanced' | 'high_margin' | 'dip_buys' | 'momentum_plays';
+type Strategy = FlippingStrategy;
 
 const FUN_STATUS_MESSAGES = [
     "Consulting the Wise Old Man...",
@@ -40,8 +37,6 @@ const FUN_STATUS_MESSAGES = [
     "Decoding ancient market scrolls...",
 ];
 
-const LOW_LIMIT_THRESHOLD = 1000;
-
 const Tag: React.FC<{ text: string; color: 'green' | 'yellow' | 'red' | 'blue'; icon?: React.ElementType; tooltipText?: string; }> = ({ text, color, icon: Icon, tooltipText }) => {
     const colors = {
         green: 'bg-emerald-500/20 text-emerald-300 border-emerald-500/30',
@@ -360,7 +355,10 @@ const TokenPurchaseSection = () => {
     );
 };
 
-export const FlippingAssistantPage: React.FC<FlippingAssistantPageProps> = ({ items, latestPrices, oneHourPrices, twentyFourHourPrices, isLoading: isDataLoading, onSelectItem, error: dataError, profile, onSpendToken }) => {
+export const FlippingAssistantPage: React.FC<FlippingAssistantPageProps> = ({ onSelectItem }) => {
+    const { items } = useItems();
+    const { latestPrices, oneHourPrices, twentyFourHourPrices, isAggregatesLoading: isDataLoading, aggregatesError: dataError } = useAggregatePrices();
+    const { profile, spendToken: onSpendToken } = useSession();
     const [isAnalyzing, setIsAnalyzing] = useState(false);
     const [suggestions, setSuggestions] = useState<FlippingSuggestion[]>([]);
     const [aiError, setAiError] = useState<string | null>(null);
@@ -374,7 +372,7 @@ export const FlippingAssistantPage: React.FC<FlippingAssistantPageProps> = ({ it
     const [analysisParams, setAnalysisParams] = useState<{ budget: string; strategy: Strategy; ignoreLowLimits: boolean; } | null>(null);
 
     // History state
-    const [history, setHistory] = useLocalStorage<HistoricAnalysis[]>('flippingHistory', []);
+    const [history, setHistory] = useLocalStorage<HistoricAnalysis[]>('flippingHistory', [], { mergeBy: h => h.id });
     const [selectedHistoryItem, setSelectedHistoryItem] = useState<HistoricAnalysis | null>(null);
     
     const shuffledMessages = useRef<string[]>([]);
@@ -440,90 +438,21 @@ export const FlippingAssistantPage: React.FC<FlippingAssistantPageProps> = ({ it
             setStatusMessage('Performing deep market analysis...');
             setProgress(20);
 
-            const candidates = Object.values(items)
-                .map((item: Item) => {
-                    const latest = latestPrices[item.id];
-                    const price24h = twentyFourHourPrices[item.id];
-                    
-                    if (!latest || !latest.high || !latest.low || !item.limit || item.limit <= 0 || latest.high < 1000 || !price24h) return null;
-                    if (ignoreLowLimits && item.limit < LOW_LIMIT_THRESHOLD) return null;
-
-                    const buyPrice = latest.high;
-                    const sellPrice = latest.low;
-                    const taxPerItem = calculateGeTax(item.name, sellPrice, 1);
-                    if ((sellPrice - buyPrice - taxPerItem) <= 0) return null;
-                    const quantityToFlip = Math.min(Math.floor(parsedBudget / buyPrice), item.limit);
-                    if (quantityToFlip <= 0) return null;
-                    const totalTaxForFlip = calculateGeTax(item.name, sellPrice, quantityToFlip);
-                    const potentialProfit = (sellPrice * quantityToFlip) - (buyPrice * quantityToFlip) - totalTaxForFlip;
-                    if (potentialProfit <= 0) return null;
-                    const netMargin = potentialProfit / quantityToFlip;
-                    
-                    const volume24hBuy = price24h.highPriceVolume;
-                    const volume24hSell = price24h.lowPriceVolume;
-
-                    if (volume24hBuy < 100 || volume24hSell < 100) return null;
-                    const liquidityRatio = volume24hSell / volume24hBuy;
-                    if (liquidityRatio < 0.25) return null;
-
-                    const price1h = oneHourPrices[item.id];
-                    const priceChange1h = (price1h?.avgHighPrice && latest.high) ? ((latest.high - price1h.avgHighPrice) / price1h.avgHighPrice) * 100 : 0;
-                    const priceChange24h = (price24h?.avgHighPrice && latest.high) ? ((latest.high - price24h.avgHighPrice) / price24h.avgHighPrice) * 100 : 0;
-                    if (!isFinite(priceChange1h) || !isFinite(priceChange24h)) return null;
-
-                    const getTradabilityTier = (): 'Excellent' | 'Good' | 'Fair' | 'Poor' => {
-                        const totalVolume = volume24hBuy + volume24hSell;
-                        if (totalVolume > 5000 && liquidityRatio > 0.75) return 'Excellent';
-                        if (totalVolume > 1000 && liquidityRatio > 0.5) return 'Good';
-                        if (totalVolume > 250 && liquidityRatio > 0.3) return 'Fair';
-                        return 'Poor';
-                    };
-                    const tradabilityTier = getTradabilityTier();
-
-                    if (strategy === 'balanced' && (tradabilityTier === 'Fair' || tradabilityTier === 'Poor')) return null;
-                    if (strategy !== 'balanced' && tradabilityTier === 'Poor') return null;
-
-                    const flipVelocityScore = (volume24hBuy + volume24hSell) / item.limit;
-
-                    return {
-                        id: item.id, name: item.name, limit: item.limit,
-                        latestHigh: latest.high, latestLow: latest.low,
-                        netMargin, netMarginPercentage: (netMargin / latest.high) * 100,
-                        potentialProfit,
-                        volume24hBuy, volume24hSell, liquidityRatio, flipVelocityScore,
-                        priceChange1h, priceChange24h, tradabilityTier,
-                    };
-                })
-                .filter((item): item is NonNullable<typeof item> => item !== null);
-
-            setStatusMessage('Ranking top candidates...');
-            setProgress(30);
-
-            const sortedCandidates = candidates.sort((a, b) => {
-                const score = (c: typeof candidates[0]) => {
-                    let score = 0;
-                    const roiScore = c.netMarginPercentage * 15; // Emphasize ROI
-                    const velocityScore = Math.log(c.flipVelocityScore + 1) * 10; // Emphasize turnover speed
-                    const profitMagnitudeScore = Math.log(c.potentialProfit + 1); // Still consider total profit, but with less weight
-
-                    switch(strategy) {
-                        case 'high_margin':
-                            score = roiScore * 2 + velocityScore + profitMagnitudeScore; break;
-                        case 'dip_buys':
-                            const dipBonus = c.priceChange24h < -1 ? -c.priceChange24h : 0; // Bonus for items that dipped > 1%
-                            score = roiScore + velocityScore + profitMagnitudeScore + dipBonus; break;
-                        case 'momentum_plays':
-                            const momentumBonus = c.priceChange1h > 0.5 ? c.priceChange1h * 2 : 0; // Bonus for recent upward momentum
-                            score = roiScore + velocityScore + profitMagnitudeScore + momentumBonus; break;
-                        case 'balanced':
-                        default:
-                            const tradabilityBonus = c.tradabilityTier === 'Excellent' ? 10 : c.tradabilityTier === 'Good' ? 5 : 0;
-                            score = roiScore + velocityScore * 1.5 + profitMagnitudeScore + tradabilityBonus; break;
-                    }
-                    return score;
-                };
-                return score(b) - score(a);
-            }).slice(0, 30);
+            // Scoring every item is slow, so it runs in the market scan worker and streams progress back.
+            const sortedCandidates = await runMarketScan('flippingCandidates', {
+                items: Object.values(items),
+                latestPrices,
+                oneHourPrices,
+                twentyFourHourPrices,
+                budget: parsedBudget,
+                strategy,
+                ignoreLowLimits,
+            }, {
+                onProgress: (processed, total) => {
+                    setStatusMessage(`Scoring items (${processed.toLocaleString()} / ${total.toLocaleString()})...`);
+                    setProgress(20 + Math.round((processed / Math.max(total, 1)) * 10));
+                },
+            });
 
             if (sortedCandidates.length === 0) {
                 throw new Error("No highly-tradeable flips found matching your criteria. Try a different strategy, a higher budget, or check back when market conditions change.");
@@ -531,17 +460,23 @@ export const FlippingAssistantPage: React.FC<FlippingAssistantPageProps> = ({ it
             
             setStatusMessage('Fetching historical data for candidates...');
             setProgress(40);
-            const timeseriesResponses = await Promise.allSettled(
-                sortedCandidates.map(c => fetchTimeseries(c.id, '6h'))
-            );
+            // Market-wide hourly snapshots give the 6h change; missing history just leaves it at zero.
+            const [timeseriesResponses, recentSnapshots] = await Promise.all([
+                Promise.allSettled(sortedCandidates.map(c => fetchTimeseries(c.id, '6h'))),
+                backfillSnapshots(6).catch(() => []),
+            ]);
+            const sixHourStats = getSnapshotWindowStats(recentSnapshots);
              const candidatesWithHistory = sortedCandidates.map((candidate, index) => {
+                const startPrice6h = sixHourStats[candidate.id]?.startPrice;
+                const change6h = startPrice6h ? ((candidate.latestHigh - startPrice6h) / startPrice6h) * 100 : 0;
+                const withSixHour = { ...candidate, priceChange6h: isFinite(change6h) ? Number(change6h.toFixed(2)) : 0 };
                 const result = timeseriesResponses[index];
                 if (result.status === 'fulfilled' && result.value.length > 1) {
                     const prices = result.value.map(d => d.avgHighPrice).filter((p): p is number => p !== null);
                     const trend = ((prices[prices.length - 1] - prices[0]) / prices[0]) * 100;
-                    return { ...candidate, trend7d: isFinite(trend) ? trend.toFixed(2) : '0.00' };
+                    return { ...withSixHour, trend7d: isFinite(trend) ? trend.toFixed(2) : '0.00' };
                 }
-                return { ...candidate, trend7d: '0.00' };
+                return { ...withSixHour, trend7d: '0.00' };
             });
 
             setStatusMessage('Performing primary AI analysis...');
@@ -586,6 +521,7 @@ export const FlippingAssistantPage: React.FC<FlippingAssistantPageProps> = ({ it
             -   **flipVelocityScore**: CRITICAL. Measures how many times the item's buy limit turns over per day. Higher is better. A score over 50 is good, over 200 is excellent.
             -   **tradabilityTier**: CRITICAL. A summary of liquidity. 'Excellent' or 'Good' is required for safe flips.
             -   **liquidityRatio**: Ratio of sell volume to buy volume. A value close to 1.0 is ideal.
+            -   **priceChange1h / priceChange6h / priceChange24h**: Percent change of the buy price over each period. Comparing them shows whether a move is fresh or fading.
 
             Your Task:
             1.  Review the data, prioritizing items aligned with my strategy. YOU MUST prioritize items with a high 'netMarginPercentage' (ROI) over those with low margins, even if the total 'potentialProfit' is high. A 40k profit on a 25m investment (0.16% ROI) is a BAD suggestion. A 20k profit on a 1m investment (2% ROI) is a GOOD suggestion.
@@ -0,0 +1,29 @@
+import React from 'react';
+import type { GameMode } from '../types';
+import { GAME_MODES } from '../constants';
+
+interface GameModeSelectorProps {
+  gameMode: GameMode;
+  onChange: (gameMode: GameMode) => void;
+  className?: string;
+}
+
+export const GameModeSelector: React.FC<GameModeSelectorProps> = ({ gameMode, onChange, className = '' }) => {
+  return (
+    <div className={`flex items-center gap-1 bg-gray-800/60 p-1 rounded-lg ${className}`} role="radiogroup" aria-label="Game mode">
+      {(Object.keys(GAME_MODES) as GameMode[]).map(mode => (
+        <button
+          key={mode}
+          role="radio"
+          aria-checked={gameMode === mode}
+          onClick={() => onChange(mode)}
+          className={`flex-1 px-2 py-1 rounded-md text-xs font-medium whitespace-nowrap transition-colors ${
+            gameMode === mode ? 'bg-emerald-500/20 text-emerald-300' : 'text-gray-400 hover:bg-gray-700/50 hover:text-white'
+          }`}
+        >
+          {GAME_MODES[mode].label}
+        </button>
+      ))}
+    </div>
+  );
+};
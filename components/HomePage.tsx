@@ -1,20 +1,16 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import type { Item, LatestPrice, AggregatePrice } from '../types';
+import type { Item } from '../types';
 import { Card } from './ui/Card';
 import { getHighResImageUrl, createIconDataUrl } from '../utils/image';
 import { XIcon, TrendingUpIcon } from './icons/Icons';
 import { Loader } from './ui/Loader';
 import { Button } from './ui/Button';
+import { useItems, useAggregatePrices } from '../stores/MarketDataStore';
 
 interface HomePageProps {
-  items: Item[];
-  latestPrices: Record<string, LatestPrice>;
   onSelectItem: (item: Item) => void;
   recentlyViewedIds: number[];
-  allItems: Record<string, Item>;
   onClearRecentlyViewed: () => void;
-  twentyFourHourPrices: Record<string, AggregatePrice>;
-  isMoversLoading: boolean;
 }
 
 type MoverItem = Item & {
@@ -74,7 +70,10 @@ const CompactMoverList: React.FC<{
 };
 
 
-export const HomePage: React.FC<HomePageProps> = ({ items, onSelectItem, latestPrices, recentlyViewedIds, allItems, onClearRecentlyViewed, twentyFourHourPrices, isMoversLoading }) => {
+export const HomePage: React.FC<HomePageProps> = ({ onSelectItem, recentlyViewedIds, onClearRecentlyViewed }) => {
+  const { items: allItems } = useItems();
+  const { latestPrices, twentyFourHourPrices, isAggregatesLoading: isMoversLoading } = useAggregatePrices();
+  const items = useMemo(() => Object.values(allItems), [allItems]);
   const [inputValue, setInputValue] = useState('');
   const [debouncedSearchTerm, setDebouncedSearchTerm] = useState('');
   const [highlightedIndex, setHighlightedIndex] = useState(-1);
@@ -0,0 +1,289 @@
+import React, { useState, useMemo } from 'react';
+import type { Investment, Item, LotSales } from '../types';
+import { Button } from './ui/Button';
+import { Loader } from './ui/Loader';
+import { XIcon } from './icons/Icons';
+import { parseCsv } from '../utils/csv';
+import { IMPORT_FIELDS, guessColumnMapping, previewInvestmentImport } from '../utils/investmentCsv';
+import type { ImportColumnMapping, ImportField, ImportedInvestment } from '../utils/investmentCsv';
+import { getRuneLiteSourceLabel, previewRuneLiteImport } from '../utils/runeliteImport';
+import type { RuneLiteImportPreview } from '../utils/runeliteImport';
+import { isOffline } from '../services/offlineQueue';
+
+interface ImportInvestmentsModalProps {
+  items: Record<string, Item>;
+  existingInvestments: Investment[]; // To skip RuneLite trades that were imported before
+  onClose: () => void;
+  onImport: (investments: ImportedInvestment[]) => Promise<void>;
+  // Records RuneLite sells of open investments already in the portfolio.
+  onRecordSales: (lotSales: LotSales[], idempotencyKey: string) => Promise<void>;
+}
+
+type Step = 'upload' | 'map' | 'preview';
+type Source = 'csv' | 'runelite';
+
+const PREVIEW_ROWS = 8; // Rows shown in the preview table; the rest are only counted
+const MAX_ERRORS_SHOWN = 50;
+
+const formatDate = (isoDate: string | null) => isoDate ? isoDate.split('T')[0] : '—';
+
+// Three steps for a CSV file: pick it, match its columns to investment fields, then check a dry run
+// of the import before anything is saved. RuneLite exports have a known layout, so they skip the mapping.
+export const ImportInvestmentsModal: React.FC<ImportInvestmentsModalProps> = ({ items, existingInvestments, onClose, onImport, onRecordSales }) => {
+  const [step, setStep] = useState<Step>('upload');
+  const [source, setSource] = useState<Source>('csv');
+  const [runeLitePreview, setRuneLitePreview] = useState<RuneLiteImportPreview | null>(null);
+  // One key per RuneLite preview, so retrying an import that failed part way can't record its sales twice.
+  const [salesIdempotencyKey, setSalesIdempotencyKey] = useState(() => crypto.randomUUID());
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ImportColumnMapping | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const headers = rows[0] ?? [];
+  const missingRequiredFields = mapping
+    ? (Object.keys(IMPORT_FIELDS) as ImportField[]).filter(field => IMPORT_FIELDS[field].required && mapping[field] === null)
+    : [];
+  const csvPreview = useMemo(
+    () => step === 'preview' && source === 'csv' && mapping ? previewInvestmentImport(rows, mapping, items) : null,
+    [step, source, rows, mapping, items]
+  );
+  const preview = source === 'csv' ? csvPreview : runeLitePreview;
+  const stepCount = source === 'csv' ? 3 : 2;
+  const saleCount = source === 'runelite' ? runeLitePreview?.sales.reduce((count, lot) => count + lot.sales.length, 0) ?? 0 : 0;
+  const hasChanges = !!preview && (preview.investments.length > 0 || saleCount > 0);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError(null);
+    if (source === 'runelite') {
+      try {
+        setFileName(file.name);
+        setRuneLitePreview(previewRuneLiteImport(await file.text(), items, existingInvestments));
+        setSalesIdempotencyKey(crypto.randomUUID());
+        setStep('preview');
+      } catch (err) {
+        console.error('Failed to read RuneLite export', err);
+        setError('That file could not be read. Please choose a Flipping Utilities or Grand Exchange history export.');
+      }
+      return;
+    }
+    try {
+      const parsed = parseCsv(await file.text());
+      if (parsed.length < 2) {
+        setError('That file has no rows to import. The first row should be the column headers.');
+        return;
+      }
+      setFileName(file.name);
+      setRows(parsed);
+      setMapping(guessColumnMapping(parsed[0]));
+      setStep('map');
+    } catch (err) {
+      console.error('Failed to read CSV file', err);
+      setError('That file could not be read. Please choose a CSV file.');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview || !hasChanges) return;
+    setIsImporting(true);
+    setError(null);
+    try {
+      // Imports are all-or-nothing, so they're refused outright offline rather than recording the sales
+      // (which would be queued) without the investments (which can't be).
+      if (isOffline()) throw new Error("You're offline. Investments can be imported once you're back online.");
+      // Sales first: unlike adding investments, they're safe to repeat if the adds then fail and are retried.
+      if (source === 'runelite' && runeLitePreview && runeLitePreview.sales.length > 0) {
+        await onRecordSales(runeLitePreview.sales, salesIdempotencyKey);
+      }
+      if (preview.investments.length > 0) await onImport(preview.investments);
+      onClose();
+    } catch (err: any) {
+      setError(err.error_description || err.message);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-gray-900 bg-opacity-80 z-40 flex justify-center items-center p-4"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-xl p-8 w-full max-w-2xl max-h-[90vh] overflow-y-auto relative border border-gray-700/50"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <Button variant="ghost" size="icon" className="absolute top-2 right-2 text-gray-400 hover:text-white" onClick={onClose} aria-label="Close modal">
+          <XIcon className="w-6 h-6" />
+        </Button>
+
+        <h2 className="text-xl font-bold text-white mb-1">Import Investments</h2>
+        <p className="text-sm text-gray-400 mb-4">
+          {step === 'upload' && `Step 1 of ${stepCount}: choose ${source === 'csv' ? 'a CSV file' : 'a RuneLite export'}.`}
+          {step === 'map' && `Step 2 of 3: match the columns in ${fileName} to investment fields.`}
+          {step === 'preview' && `Step ${stepCount} of ${stepCount}: check the rows below. Nothing is saved until you import.`}
+        </p>
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/50 text-red-300 text-sm p-3 rounded-md mb-4" role="alert">
+            {error}
+          </div>
+        )}
+
+        {step === 'upload' && (
+          <div className="space-y-3">
+            <div className="flex gap-2" role="group" aria-label="File type">
+              <Button variant={source === 'csv' ? 'primary' : 'secondary'} size="sm" onClick={() => setSource('csv')}>Spreadsheet (CSV)</Button>
+              <Button variant={source === 'runelite' ? 'primary' : 'secondary'} size="sm" onClick={() => setSource('runelite')}>RuneLite</Button>
+            </div>
+            <input
+              key={source}
+              type="file"
+              accept={source === 'csv' ? '.csv,text/csv' : '.json,.txt,application/json,text/plain'}
+              onChange={handleFileChange}
+              className="block w-full text-sm text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:font-semibold file:bg-gray-700 file:text-gray-100 hover:file:bg-gray-600"
+            />
+            {source === 'csv' ? (
+              <p className="text-xs text-gray-500">
+                One investment per row, with a header row. Items can be given by name or ID, and prices can use "k" and "m" (e.g. 120k, 3.5m).
+                Rows with a sell price are imported as closed trades. A file exported from GE Pulse can be imported as it is.
+              </p>
+            ) : (
+              <p className="text-xs text-gray-500">
+                A Flipping Utilities JSON export, or Grand Exchange history as JSON or text (one trade per line, e.g. "Bought 100 x Cannonball
+                for 20,000 coins - 2024-05-01 18:30"). Sells are matched to the oldest earlier buys of the same item; unsold buys are imported as
+                open positions. Trades imported before are skipped, and sells of positions imported while still open close them, so the same
+                (or a newer) file can be imported again safely.
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === 'map' && mapping && (
+          <div className="space-y-3">
+            {(Object.keys(IMPORT_FIELDS) as ImportField[]).map(field => (
+              <div key={field} className="flex items-center justify-between gap-4">
+                <label htmlFor={`import-${field}`} className="text-sm text-gray-300">
+                  {IMPORT_FIELDS[field].label}
+                  {IMPORT_FIELDS[field].required && <span className="text-red-400"> *</span>}
+                </label>
+                <select
+                  id={`import-${field}`}
+                  value={mapping[field] ?? ''}
+                  onChange={(e) => setMapping({ ...mapping, [field]: e.target.value === '' ? null : Number(e.target.value) })}
+                  className="w-1/2 p-2 bg-gray-900 border border-gray-700 rounded-lg text-white text-sm focus:ring-2 focus:ring-emerald-500 focus:outline-none"
+                >
+                  <option value="">— Not in file —</option>
+                  {headers.map((header, index) => (
+                    <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+            {missingRequiredFields.length > 0 && (
+              <p className="text-xs text-yellow-300">Choose a column for every field marked *.</p>
+            )}
+            <div className="flex justify-between gap-4 pt-2">
+              <Button variant="secondary" onClick={() => setStep('upload')}>Back</Button>
+              <Button onClick={() => setStep('preview')} disabled={missingRequiredFields.length > 0}>Preview Import</Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && preview && (
+          <div className="space-y-4">
+            {source === 'csv' ? (
+              <p className="text-sm text-gray-300">
+                <span className="font-semibold text-emerald-400">{preview.investments.length.toLocaleString()}</span> of {(rows.length - 1).toLocaleString()} rows are ready to import.
+                {preview.errors.length > 0 && ' Rows with problems will be skipped.'}
+              </p>
+            ) : runeLitePreview && (
+              <div className="text-sm text-gray-300 space-y-1">
+                <p>
+                  Read {runeLitePreview.tradeCount.toLocaleString()} trade{runeLitePreview.tradeCount === 1 ? '' : 's'} from {fileName} ({getRuneLiteSourceLabel(runeLitePreview.source)}).{' '}
+                  <span className="font-semibold text-emerald-400">{preview.investments.length.toLocaleString()}</span> investment{preview.investments.length === 1 ? ' is' : 's are'} ready to import.
+                </p>
+                {saleCount > 0 && (
+                  <p>
+                    <span className="font-semibold text-emerald-400">{saleCount.toLocaleString()}</span> sale{saleCount === 1 ? '' : 's'} of
+                    open investments already in your portfolio will be recorded.
+                  </p>
+                )}
+                {runeLitePreview.duplicateCount > 0 && (
+                  <p className="text-gray-400">{runeLitePreview.duplicateCount.toLocaleString()} already imported before will be skipped.</p>
+                )}
+                {runeLitePreview.unmatchedSellQuantity > 0 && (
+                  <p className="text-yellow-300">
+                    {runeLitePreview.unmatchedSellQuantity.toLocaleString()} sold item{runeLitePreview.unmatchedSellQuantity === 1 ? ' has' : 's have'} no earlier buy in the file and will be left out.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {preview.investments.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs text-left text-gray-300">
+                  <thead className="text-gray-400">
+                    <tr>
+                      <th className="py-1 pr-3">Item</th>
+                      <th className="py-1 pr-3 text-right">Qty</th>
+                      <th className="py-1 pr-3 text-right">Buy</th>
+                      <th className="py-1 pr-3">Bought</th>
+                      <th className="py-1 pr-3 text-right">Sell</th>
+                      <th className="py-1 pr-3">Sold</th>
+                      <th className="py-1 text-right">Tax</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.investments.slice(0, PREVIEW_ROWS).map((inv, index) => (
+                      <tr key={index} className="border-t border-gray-700/50">
+                        <td className="py-1 pr-3 text-white">{items[inv.item_id]?.name}</td>
+                        <td className="py-1 pr-3 text-right">{inv.quantity.toLocaleString()}</td>
+                        <td className="py-1 pr-3 text-right">{inv.purchase_price.toLocaleString()}</td>
+                        <td className="py-1 pr-3">{formatDate(inv.purchase_date)}</td>
+                        <td className="py-1 pr-3 text-right">{inv.sell_price?.toLocaleString() ?? '—'}</td>
+                        <td className="py-1 pr-3">{formatDate(inv.sell_date)}</td>
+                        <td className="py-1 text-right">{inv.tax_paid?.toLocaleString() ?? '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {preview.investments.length > PREVIEW_ROWS && (
+                  <p className="text-xs text-gray-500 mt-1">…and {(preview.investments.length - PREVIEW_ROWS).toLocaleString()} more.</p>
+                )}
+              </div>
+            )}
+
+            {preview.errors.length > 0 && (
+              <div className="bg-red-500/10 border border-red-500/30 rounded-md p-3">
+                <p className="text-sm font-semibold text-red-300 mb-1">Problems</p>
+                <ul className="text-xs text-red-300/90 space-y-0.5 max-h-40 overflow-y-auto">
+                  {preview.errors.slice(0, MAX_ERRORS_SHOWN).map((rowError, index) => (
+                    <li key={index}>{source === 'csv' ? 'Row' : 'Entry'} {rowError.row}: {rowError.message}</li>
+                  ))}
+                </ul>
+                {preview.errors.length > MAX_ERRORS_SHOWN && (
+                  <p className="text-xs text-red-300/70 mt-1">…and {(preview.errors.length - MAX_ERRORS_SHOWN).toLocaleString()} more.</p>
+                )}
+              </div>
+            )}
+
+            <div className="flex justify-between gap-4">
+              <Button variant="secondary" onClick={() => setStep(source === 'csv' ? 'map' : 'upload')} disabled={isImporting}>Back</Button>
+              <Button onClick={handleImport} disabled={isImporting || !hasChanges}>
+                {isImporting ? <Loader size="sm" /> : preview.investments.length === 0 && saleCount > 0
+                  ? `Record ${saleCount.toLocaleString()} Sale${saleCount === 1 ? '' : 's'}`
+                  : `Import ${preview.investments.length.toLocaleString()} Investment${preview.investments.length === 1 ? '' : 's'}`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -4,7 +4,7 @@
 
 import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { GoogleGenAI, Type } from '@google/genai';
-import type { Item, TimeseriesData, LatestPrice, PriceAlert, Profile, AggregatePrice, ItemAnalysis, Investment } from '../types';
+import type { Item, TimeseriesData, PriceAlert, PriceAlertDraft, ItemAnalysis, ItemTimeView } from '../types';
 import { PriceChart } from './PriceChart';
 import { VolumeChart } from './VolumeChart';
 import { Card } from './ui/Card';
@@ -17,35 +17,27 @@ import { SkeletonChart } from './ui/Skeleton';
 import { useLocalStorage } from '../hooks/useLocalStorage';
 import { ChartSettingsModal } from './ChartSettingsModal';
 import { AlertSettingsModal } from './AlertSettingsModal';
-import { FREE_USER_ALERT_LIMIT } from '../constants';
+import { describeAlertCondition } from '../utils/alerts';
+import { buildPath } from '../utils/routes';
+import { useAggregatePrices } from '../stores/MarketDataStore';
+import { useSession } from '../stores/SessionStore';
+import { useWatchlist } from '../stores/WatchlistStore';
+import { useAlerts } from '../stores/AlertsStore';
+import { usePortfolio } from '../stores/PortfolioStore';
+import { getLatestPriceChange } from '../services/priceTicker';
 
 interface ItemViewProps {
   item: Item;
-  latestPrice: LatestPrice;
   timeseriesData: TimeseriesData[];
   isLoading: boolean;
   onBack: () => void;
-  onRefresh: (item: Item, timeStep: '5m' | '1h' | '6h' | 'all') => void;
-  onRefreshPrices: () => Promise<void>;
-  watchlist: number[];
-  toggleWatchlist: (itemId: number) => void;
-  pendingWatchlistAdds: Set<number>;
-  alerts: PriceAlert[];
-  setAlerts: React.Dispatch<React.SetStateAction<PriceAlert[]>>;
-  onOpenAddInvestmentModal: (item: Item) => void;
-  onSetAlertActivity: (priceType: 'high' | 'low') => void;
-  profile: (Profile & { email: string | null; }) | null;
-  onSpendToken: () => Promise<void>;
-  oneHourPrices: Record<string, AggregatePrice>;
-  twentyFourHourPrices: Record<string, AggregatePrice>;
-  investments: Investment[];
+  onRefresh: (item: Item) => void;
+  // The chart's time range is part of the page URL, so it's owned by the parent.
+  activeTimeView: ItemTimeView;
+  onTimeViewChange: (timeView: ItemTimeView) => void;
 }
 
-type TimeView = '1H' | '6H' | '1D' | '1W' | '1M' | '6M' | '1Y' | 'ALL';
-type ApiTimeStep = '5m' | '1h' | '6h' | 'all';
-
-const timeViewOptions: TimeView[] = ['1H', '6H', '1D', '1W', '1M', '6M', '1Y', 'ALL'];
-const AUTO_REFRESH_SECONDS = 30;
+const timeViewOptions: ItemTimeView[] = ['1H', '6H', '1D', '1W', '1M', '6M', '1Y', 'ALL'];
 
 // Custom hook to animate a number value smoothly.
 const useNumberTicker = (value: number, duration: number = 750) => {
@@ -215,23 +207,29 @@ const FullscreenChartModal: React.FC<{
 };
 
 
-export const ItemView: React.FC<ItemViewProps> = ({ item, latestPrice, timeseriesData, isLoading, onBack, onRefresh, onRefreshPrices, watchlist, toggleWatchlist, pendingWatchlistAdds, alerts, setAlerts, onOpenAddInvestmentModal, onSetAlertActivity, profile, onSpendToken, oneHourPrices, twentyFourHourPrices, investments }) => {
-  const [activeTimeView, setActiveTimeView] = useState<TimeView>('1W');
+export const ItemView: React.FC<ItemViewProps> = ({ item, timeseriesData, isLoading, onBack, onRefresh, activeTimeView, onTimeViewChange }) => {
+  const { latestPrices, priceChanges, lastPricesUpdate, nextPricesUpdate, livePrices, setLivePrices, oneHourPrices, twentyFourHourPrices, refreshPrices: onRefreshPrices } = useAggregatePrices();
+  const latestPrice = latestPrices[item.id];
+  const { profile, spendToken: onSpendToken } = useSession();
+  const { watchlist, toggleWatchlist, pendingWatchlistAdds } = useWatchlist();
+  const { alerts, saveAlert: onSaveAlert, removeAlert: onRemoveAlert, recordAlertActivity: onSetAlertActivity } = useAlerts();
+  const { investments, openAddInvestmentModal: onOpenAddInvestmentModal } = usePortfolio();
   const [notification, setNotification] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
-  const [isAutoRefreshEnabled, setIsAutoRefreshEnabled] = useState(true);
-  const [countdown, setCountdown] = useState(AUTO_REFRESH_SECONDS);
+  const isAutoRefreshEnabled = livePrices.enabled;
+  const [now, setNow] = useState(() => Date.now());
   const dropdownRef = useRef<HTMLDivElement>(null);
-  const [shakeBellIcon, setShakeBellIcon] = useState(false);
   
   // Chart state
   const [chartFlash, setChartFlash] = useState<'up' | 'down' | 'neutral' | null>(null);
-  const [prevLatestPrice, setPrevLatestPrice] = useState<LatestPrice | null>(null);
   const isInitialLoad = useRef(true);
+  // The price refresh the chart was last updated for.
+  const seenPricesUpdate = useRef(lastPricesUpdate);
 
   // Modals State
   const [isChartSettingsModalOpen, setIsChartSettingsModalOpen] = useState(false);
   const [isAlertModalOpen, setIsAlertModalOpen] = useState(false);
+  const [editingAlert, setEditingAlert] = useState<PriceAlert | null>(null);
   const [isChartFullscreen, setIsChartFullscreen] = useState(false);
   const [chartSettings, setChartSettings] = useLocalStorage('chartSettings', { showAverageLine: true, showSellLine: false });
 
@@ -296,44 +294,28 @@ export const ItemView: React.FC<ItemViewProps> = ({ item, latestPrice, timeserie
     prevIsWatched.current = isWatched;
   }, [isWatched]);
   
-  const handleRefresh = async () => {
-    setPrevLatestPrice(latestPrice); // Store current price before fetching new one
-    await Promise.all([
-        onRefresh(item, timeViewToApiTimeStep(activeTimeView)),
-        onRefreshPrices()
-    ]);
-  };
-
-  // Effect for countdown timer tick
+  // Live prices are refreshed app-wide; this ticks once a second so the countdown to the next one stays current.
   useEffect(() => {
-    if (!isAutoRefreshEnabled) return;
-    const intervalId = window.setInterval(() => {
-      setCountdown(prevCountdown => prevCountdown > 0 ? prevCountdown - 1 : 0);
-    }, 1000);
+    setNow(Date.now());
+    if (nextPricesUpdate === null) return;
+    const intervalId = window.setInterval(() => setNow(Date.now()), 1000);
     return () => window.clearInterval(intervalId);
-  }, [isAutoRefreshEnabled]);
+  }, [nextPricesUpdate]);
+  const countdown = nextPricesUpdate === null ? livePrices.intervalSeconds : Math.max(0, Math.ceil((nextPricesUpdate - now) / 1000));
 
-  // Effect to trigger refresh when countdown reaches zero
+  // Reloads the chart and flashes it whenever prices refresh: green or red if the item's
+  // high price moved since the previous refresh, grey if it didn't.
   useEffect(() => {
-    if (isAutoRefreshEnabled && countdown <= 0) {
-      handleRefresh();
-      setCountdown(AUTO_REFRESH_SECONDS); // Reset timer
+    if (lastPricesUpdate === null || lastPricesUpdate === seenPricesUpdate.current) return;
+    seenPricesUpdate.current = lastPricesUpdate;
+    if (!isInitialLoad.current) {
+      const change = getLatestPriceChange(priceChanges, item.id);
+      const highDelta = change?.at === lastPricesUpdate ? change.highDelta : null;
+      setChartFlash(highDelta ? (highDelta > 0 ? 'up' : 'down') : 'neutral');
     }
+    onRefresh(item);
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [countdown, isAutoRefreshEnabled]);
-  
-  // Effect to trigger flash animation on price change
-  useEffect(() => {
-    if (!isInitialLoad.current && prevLatestPrice && latestPrice?.high != null && prevLatestPrice.high != null) {
-        if (latestPrice.high > prevLatestPrice.high) {
-            setChartFlash('up');
-        } else if (latestPrice.high < prevLatestPrice.high) {
-            setChartFlash('down');
-        } else {
-            setChartFlash('neutral');
-        }
-    }
-  }, [latestPrice, prevLatestPrice]);
+  }, [lastPricesUpdate]);
   
   // Effect to reset flash state after animation completes
   useEffect(() => {
@@ -353,14 +335,6 @@ export const ItemView: React.FC<ItemViewProps> = ({ item, latestPrice, timeserie
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  // FIX: Corrected a typo in the type annotation for the `timeViewToApiTimeStep` function from `ApiStep` to `ApiTimeStep` to match the defined type alias.
-  const timeViewToApiTimeStep = (timeView: TimeView): ApiTimeStep => {
-    if (['1H', '6H', '1D'].includes(timeView)) return '5m';
-    if (timeView === '1W') return '1h';
-    if (timeView === 'ALL') return 'all';
-    return '6h'; // for 1M, 6M, 1Y
-  };
-
   const filteredTimeseriesData = useMemo(() => {
     if (!timeseriesData || timeseriesData.length === 0) return [];
 
@@ -437,33 +411,26 @@ export const ItemView: React.FC<ItemViewProps> = ({ item, latestPrice, timeserie
   const animatedAbsolute = useNumberTicker(displayFluctuation?.absolute ?? 0);
   const animatedPercent = useNumberTicker(displayFluctuation?.percent ?? 0);
 
-  const existingAlert = alerts.find(a => a.itemId === item.id);
+  const itemAlerts = alerts.filter(a => a.itemId === item.id);
 
-  const handleTimeViewChange = (timeView: TimeView) => {
-    setActiveTimeView(timeView);
-    onRefresh(item, timeViewToApiTimeStep(timeView));
-    if (isAutoRefreshEnabled) {
-      setCountdown(AUTO_REFRESH_SECONDS);
-    }
+  // The timeseries already spans every resolution, so changing the view only changes the filter.
+  const handleTimeViewChange = (timeView: ItemTimeView) => {
+    onTimeViewChange(timeView);
     setIsDropdownOpen(false);
   };
   
-  const handleOpenAlertModal = () => {
-    if (!profile?.premium && !existingAlert && alerts.length >= FREE_USER_ALERT_LIMIT) {
-        setNotification({ message: 'Free users are limited to 10 alerts. Upgrade for unlimited.', type: 'error' });
-        setShakeBellIcon(true);
-        setTimeout(() => setShakeBellIcon(false), 820);
-    } else {
-        setIsAlertModalOpen(true);
-    }
+  // The free-tier alert limit is enforced by the `create_price_alert` RPC; its error is shown in the alert modal.
+  const handleOpenAlertModal = (alert: PriceAlert | null = null) => {
+    setEditingAlert(alert);
+    setIsAlertModalOpen(true);
   };
 
-  const handleSaveAlert = (newAlert: PriceAlert) => {
-    const isNew = !existingAlert;
+  const handleSaveAlert = async (newAlert: PriceAlertDraft) => {
+    const isNew = !editingAlert;
+    await onSaveAlert(newAlert, editingAlert?.id);
     if (isNew) {
       onSetAlertActivity(newAlert.priceType);
     }
-    setAlerts(prev => [...prev.filter(a => a.itemId !== newAlert.itemId), newAlert]);
     setNotification({
       message: `Alert ${isNew ? 'set' : 'updated'} for ${item.name}!`,
       type: 'success'
@@ -472,23 +439,20 @@ export const ItemView: React.FC<ItemViewProps> = ({ item, latestPrice, timeserie
     setIsAlertModalOpen(false);
   };
 
-  const handleRemoveAlert = (itemId: number) => {
-    setAlerts(prev => prev.filter(a => a.itemId !== itemId));
+  const handleRemoveAlert = async (alertId: string) => {
+    await onRemoveAlert(alertId);
     setNotification({ message: `Alert for ${item.name} removed.`, type: 'success' });
     setTimeout(() => setNotification(null), 3000);
     setIsAlertModalOpen(false);
   };
 
+  // The chart reloads once the new prices arrive (see above). If they can't be fetched, reload it anyway.
   const handleManualRefresh = () => {
-    handleRefresh();
-    if (isAutoRefreshEnabled) {
-      setCountdown(AUTO_REFRESH_SECONDS);
-    }
+    onRefreshPrices().catch(() => onRefresh(item));
   };
 
   const handleShare = async () => {
-    const baseUrl = `${window.location.origin}${window.location.pathname}`;
-    const shareUrl = `${baseUrl}#/item/${item.id}`;
+    const shareUrl = `${window.location.origin}${buildPath({ view: 'item', itemId: item.id })}`;
     try {
         await navigator.clipboard.writeText(shareUrl);
         setNotification({ message: 'Share link copied to clipboard!', type: 'success' });
@@ -500,13 +464,7 @@ export const ItemView: React.FC<ItemViewProps> = ({ item, latestPrice, timeserie
   };
   
   const handleToggleAutoRefresh = () => {
-    setIsAutoRefreshEnabled(prev => {
-      const newState = !prev;
-      if (newState) {
-        setCountdown(AUTO_REFRESH_SECONDS);
-      }
-      return newState;
-    });
+    setLivePrices({ ...livePrices, enabled: !livePrices.enabled });
   };
 
   const handleGetAiAnalysis = async () => {
@@ -618,13 +576,17 @@ export const ItemView: React.FC<ItemViewProps> = ({ item, latestPrice, timeserie
               settings={chartSettings}
               onClose={() => setIsChartSettingsModalOpen(false)}
               onSettingsChange={setChartSettings}
+              refreshIntervalSeconds={livePrices.intervalSeconds}
+              onRefreshIntervalChange={intervalSeconds => setLivePrices({ ...livePrices, intervalSeconds })}
           />
         )}
         {isAlertModalOpen && (
           <AlertSettingsModal
               item={item}
               latestPrice={latestPrice}
-              existingAlert={existingAlert ?? null}
+              oneHourPrice={oneHourPrices[item.id]}
+              twentyFourHourPrice={twentyFourHourPrices[item.id]}
+              existingAlert={editingAlert}
               onClose={() => setIsAlertModalOpen(false)}
               onSave={handleSaveAlert}
               onRemove={handleRemoveAlert}
@@ -669,7 +631,7 @@ export const ItemView: React.FC<ItemViewProps> = ({ item, latestPrice, timeserie
               <Button onClick={() => toggleWatchlist(item.id)} variant="ghost" size="icon" className={`${isWatched ? 'text-yellow-400' : 'text-gray-400 hover:text-yellow-400'} ${isPendingAdd ? 'pulse-bg rounded-full' : ''}`}>
                 <StarIcon className={`w-6 h-6 ${isAnimatingStar ? 'animate-pop' : ''}`} />
               </Button>
-              <Button onClick={handleOpenAlertModal} variant="ghost" size="icon" className={`${existingAlert ? 'text-emerald-400' : 'text-gray-400 hover:text-emerald-400'} ${shakeBellIcon ? 'animate-shake' : ''}`}>
+              <Button onClick={() => handleOpenAlertModal()} variant="ghost" size="icon" className={`${itemAlerts.length > 0 ? 'text-emerald-400' : 'text-gray-400 hover:text-emerald-400'}`}>
                   <BellIcon className="w-6 h-6" />
               </Button>
           </div>
@@ -744,7 +706,7 @@ export const ItemView: React.FC<ItemViewProps> = ({ item, latestPrice, timeserie
                     <ExpandIcon className="w-5 h-5" />
                   </Button>
                   {isAutoRefreshEnabled ? (
-                      <CountdownCircle countdown={countdown} duration={AUTO_REFRESH_SECONDS} />
+                      <CountdownCircle countdown={countdown} duration={livePrices.intervalSeconds} />
                   ) : (
                       <Button onClick={handleManualRefresh} variant="ghost" size="icon" disabled={isLoading} className="w-9 h-9">
                           {isLoading ? <Loader size="sm" /> : <RefreshCwIcon className="w-4 h-4" />}
@@ -889,6 +851,46 @@ export const ItemView: React.FC<ItemViewProps> = ({ item, latestPrice, timeserie
                   )}
               </div>
             </Card>
+            {itemAlerts.length > 0 && (
+              <Card className="mt-6">
+                <div className="flex justify-between items-center mb-4">
+                  <h3 className="text-xl font-bold text-white">Your Alerts</h3>
+                  <Button onClick={() => handleOpenAlertModal()} variant="secondary" size="sm">
+                    <BellIcon className="w-4 h-4 mr-1" />
+                    Add
+                  </Button>
+                </div>
+                <div className="space-y-2">
+                  {itemAlerts.map(alert => (
+                    <div
+                      key={alert.id}
+                      onClick={() => handleOpenAlertModal(alert)}
+                      className="flex items-center justify-between gap-2 p-2 bg-gray-900/50 rounded-md cursor-pointer hover:bg-gray-700/50 transition-colors"
+                    >
+                      <span className={`text-sm ${alert.triggeredAt ? 'text-yellow-300' : 'text-emerald-400'}`}>
+                        {describeAlertCondition(alert)}
+                        {alert.triggeredAt && <span className="text-xs text-gray-400 ml-2">(triggered)</span>}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="w-7 h-7 text-gray-400 hover:text-red-400 flex-shrink-0"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleRemoveAlert(alert.id).catch(err => {
+                            setNotification({ message: err.message || 'Failed to remove alert.', type: 'error' });
+                            setTimeout(() => setNotification(null), 3000);
+                          });
+                        }}
+                        aria-label="Remove alert"
+                      >
+                        <XIcon className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </Card>
+            )}
              <div className="mt-6">
                   <Button
                       onClick={handleGetAiAnalysis}
@@ -0,0 +1,62 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { getQueuedMutations, subscribeToQueue } from '../services/offlineQueue';
+import { WifiOffIcon, ClockIcon } from './icons/Icons';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { useMarketPrices } from '../stores/MarketDataStore';
+
+// Prices older than this are flagged even when online, e.g. after the tab has been asleep.
+const STALE_AFTER_MS = 10 * 60 * 1000;
+
+const formatTime = (timestampMs: number) =>
+  new Date(timestampMs).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export const OfflineBanner: React.FC = () => {
+  const isOnline = useOnlineStatus();
+  const { latestPrices, pricesError } = useMarketPrices();
+  const [now, setNow] = useState(() => Date.now());
+  const [queuedMutations, setQueuedMutations] = useState(getQueuedMutations);
+
+  useEffect(() => subscribeToQueue(setQueuedMutations), []);
+
+  // Re-check staleness periodically so the banner appears without waiting for new prices.
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30_000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // The most recent trade across all items is when the price data was last current.
+  const pricesAsOf = useMemo(() => {
+    let latest = 0;
+    for (const price of Object.values(latestPrices)) {
+      latest = Math.max(latest, price.highTime ?? 0, price.lowTime ?? 0);
+    }
+    return latest > 0 ? latest * 1000 : null;
+  }, [latestPrices]);
+
+  // Failed edits are flagged on their own rows, where they can be retried or discarded.
+  const queuedCount = queuedMutations.filter(m => m.status === 'pending').length;
+  const failedCount = queuedMutations.length - queuedCount;
+
+  const isStale = pricesAsOf !== null && now - pricesAsOf > STALE_AFTER_MS;
+  if (isOnline && !isStale && !pricesError && queuedCount === 0 && failedCount === 0) return null;
+
+  const pricesText = pricesAsOf !== null ? `Prices as of ${formatTime(pricesAsOf)}` : 'No cached prices available';
+  const queuedText = queuedCount > 0
+    ? `${queuedCount} change${queuedCount === 1 ? '' : 's'} will sync when you're back online.`
+    : null;
+
+  return (
+    <div role="status" className="mt-4 flex items-start gap-3 bg-yellow-500/10 border border-yellow-500/40 text-yellow-200 text-sm p-3 rounded-md">
+      {isOnline ? <ClockIcon className="w-5 h-5 flex-shrink-0 mt-0.5" /> : <WifiOffIcon className="w-5 h-5 flex-shrink-0 mt-0.5" />}
+      <div>
+        <p className="font-semibold">
+          {isOnline ? pricesText : `You're offline. ${pricesText}.`}
+        </p>
+        {isOnline && isStale && <p className="text-yellow-200/80">These prices may be out of date.</p>}
+        {isOnline && pricesError && <p className="text-yellow-200/80">{pricesError}</p>}
+        {queuedText && <p className="text-yellow-200/80">{isOnline ? `Syncing ${queuedCount} change${queuedCount === 1 ? '' : 's'}…` : queuedText}</p>}
+        {failedCount > 0 && <p className="text-red-300">{failedCount} change{failedCount === 1 ? '' : 's'} couldn't be saved. Retry or discard {failedCount === 1 ? 'it' : 'them'} on your watchlist or portfolio.</p>}
+      </div>
+    </div>
+  );
+};
@@ -1,10 +1,19 @@
 import React from 'react';
-import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import type { PortfolioHistoryPoint } from '../utils/portfolio';
 
 interface PortfolioChartProps {
-  data: { date: string; value: number }[];
+  data: PortfolioHistoryPoint[];
 }
 
+const SERIES: { key: keyof Omit<PortfolioHistoryPoint, 'date'>; label: string; color?: string }[] = [
+  { key: 'total', label: 'Total P/L' }, // Coloured by whether it's been in profit
+  { key: 'realised', label: 'Realised', color: '#60a5fa' },
+  { key: 'unrealised', label: 'Unrealised', color: '#fbbf24' },
+];
+
+const profitColor = (value: number) => value > 0 ? 'text-emerald-400' : value < 0 ? 'text-red-400' : 'text-white';
+
 const CustomTooltip: React.FC<any> = ({ active, payload, label }) => {
     if (active && payload && payload.length) {
         const formattedDate = new Date(label).toLocaleDateString(undefined, {
@@ -13,13 +22,16 @@ const CustomTooltip: React.FC<any> = ({ active, payload, label }) => {
             day: 'numeric',
             timeZone: 'UTC'
         });
-      const profit = payload[0].value;
-      const profitColor = profit > 0 ? 'text-emerald-400' : profit < 0 ? 'text-red-400' : 'text-white';
+      const point: PortfolioHistoryPoint = payload[0].payload;
 
       return (
         <div className="bg-gray-800/80 backdrop-blur-sm p-3 border border-gray-600 rounded-lg shadow-lg">
           <p className="text-sm text-gray-300">{formattedDate}</p>
-          <p className={`font-bold ${profitColor}`}>Cumulative P/L: {profit.toLocaleString()} gp</p>
+          {SERIES.map(series => (
+            <p key={series.key} className={`${series.key === 'total' ? 'font-bold' : 'text-sm'} ${profitColor(point[series.key])}`}>
+              {series.label}: {point[series.key].toLocaleString()} gp
+            </p>
+          ))}
         </div>
       );
     }
@@ -30,15 +42,17 @@ export const PortfolioChart: React.FC<PortfolioChartProps> = ({ data }) => {
   if (data.length < 2) {
     return (
       <div className="flex items-center justify-center h-full text-gray-500 text-center p-4">
-        Not enough trade history to display chart. Close some trades to see your performance over time.
+        Not enough trade history to display chart. Add some investments to see your performance over time.
       </div>
     );
   }
 
   const formatYAxis = (value: number) => {
-    if (value >= 1_000_000_000) return `${(value / 1_000_000_000).toFixed(1)}b`;
-    if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}m`;
-    if (value >= 1_000) return `${(value / 1_000).toFixed(0)}k`;
+    const sign = value < 0 ? '-' : '';
+    const abs = Math.abs(value);
+    if (abs >= 1_000_000_000) return `${sign}${(abs / 1_000_000_000).toFixed(1)}b`;
+    if (abs >= 1_000_000) return `${sign}${(abs / 1_000_000).toFixed(1)}m`;
+    if (abs >= 1_000) return `${sign}${(abs / 1_000).toFixed(0)}k`;
     return value.toString();
   };
 
@@ -46,33 +60,33 @@ export const PortfolioChart: React.FC<PortfolioChartProps> = ({ data }) => {
     const date = new Date(dateStr);
     return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
   }
-  
-  const hasProfit = data.some(d => d.value > 0);
-  const hasLoss = data.some(d => d.value < 0);
-  
-  const strokeColor = hasProfit ? "#10b981" : hasLoss ? "#f87171" : "#9ca3af";
+
+  const hasProfit = data.some(d => d.total > 0);
+  const hasLoss = data.some(d => d.total < 0);
+
+  // The total is drawn as a filled area and its parts as lines.
+  const totalColor = hasProfit ? "#10b981" : hasLoss ? "#f87171" : "#9ca3af";
   const gradientId = "portfolioGradient";
 
   return (
     <ResponsiveContainer width="100%" height="100%">
-      <AreaChart data={data} margin={{ top: 5, right: 5, left: 15, bottom: 5 }}>
+      <ComposedChart data={data} margin={{ top: 5, right: 5, left: 15, bottom: 5 }}>
         <defs>
             <linearGradient id={gradientId} x1="0" y1="0" x2="0" y2="1">
-                <stop offset="5%" stopColor={strokeColor} stopOpacity={0.4}/>
-                <stop offset="95%" stopColor={strokeColor} stopOpacity={0}/>
+                <stop offset="5%" stopColor={totalColor} stopOpacity={0.4}/>
+                <stop offset="95%" stopColor={totalColor} stopOpacity={0}/>
             </linearGradient>
         </defs>
         <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
-        <XAxis 
-            dataKey="date" 
+        <XAxis
+            dataKey="date"
             tickFormatter={formatXAxis}
             stroke="#9ca3af"
             tick={{ fill: '#9ca3af', fontSize: 12 }}
             minTickGap={30}
             padding={{ left: 20, right: 20 }}
         />
-        <YAxis 
-            dataKey="value"
+        <YAxis
             tickFormatter={formatYAxis}
             stroke="#9ca3af"
             tick={{ fill: '#9ca3af', fontSize: 12 }}
@@ -82,16 +96,29 @@ export const PortfolioChart: React.FC<PortfolioChartProps> = ({ data }) => {
             tickLine={false}
         />
         <Tooltip content={<CustomTooltip />} />
-        <Area 
-            type="monotone" 
-            dataKey="value" 
-            stroke={strokeColor} 
-            strokeWidth={2} 
-            fillOpacity={1} 
+        <Legend wrapperStyle={{ fontSize: 12, color: '#9ca3af' }} />
+        <Area
+            type="monotone"
+            dataKey="total"
+            name={SERIES[0].label}
+            stroke={totalColor}
+            strokeWidth={2}
+            fillOpacity={1}
             fill={`url(#${gradientId})`}
             connectNulls={false}
         />
-      </AreaChart>
+        {SERIES.slice(1).map(series => (
+            <Line
+                key={series.key}
+                type="monotone"
+                dataKey={series.key}
+                name={series.label}
+                stroke={series.color}
+                strokeWidth={1.5}
+                dot={false}
+            />
+        ))}
+      </ComposedChart>
     </ResponsiveContainer>
   );
 };
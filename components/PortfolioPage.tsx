@@ -1,35 +1,38 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import type { Session } from '@supabase/supabase-js';
-import type { Investment, Item, LatestPrice, Profile, FlipData } from '../types';
+import type { Investment, Item, FlipData, TimeseriesData } from '../types';
 import { Card } from './ui/Card';
 import { Button } from './ui/Button';
-import { BriefcaseIcon, Trash2Icon, EditIcon, RefreshCwIcon, Share2Icon, CheckIcon, TrophyIcon } from './icons/Icons';
+import { BriefcaseIcon, Trash2Icon, EditIcon, RefreshCwIcon, Share2Icon, CheckIcon, TrophyIcon, DownloadIcon, UploadIcon } from './icons/Icons';
 import { getHighResImageUrl, createIconDataUrl, formatLargeNumber } from '../utils/image';
 import { SellInvestmentModal } from './SellInvestmentModal';
 import { EditInvestmentModal } from './EditInvestmentModal';
 import { Loader } from './ui/Loader';
 import { PortfolioChart } from './PortfolioChart';
 import { createPost } from '../services/database';
+import { fetchAllTimePrices } from '../services/osrsWikiApi';
 import { ShareFlipModal } from './ShareFlipModal';
+import { SyncStatusBadge } from './SyncStatusBadge';
+import { ImportInvestmentsModal } from './ImportInvestmentsModal';
+import { formatExitThreshold, getExitThresholdPrice } from '../utils/positionExits';
+import { downloadCsv } from '../utils/csv';
+import { investmentsToCsv } from '../utils/investmentCsv';
+import { applyLatestPricesToHistory, buildPortfolioHistory } from '../utils/portfolio';
+import { getLotSales } from '../utils/lots';
+import { useItems, useMarketPrices } from '../stores/MarketDataStore';
+import { useGameMode } from '../stores/GameModeStore';
+import { useSession } from '../stores/SessionStore';
+import { usePortfolio } from '../stores/PortfolioStore';
 
 interface PortfolioPageProps {
-  investments: Investment[];
-  items: Record<string, Item>;
-  latestPrices: Record<string, LatestPrice>;
-  onCloseInvestment: (investmentId: string, sales: Array<{ quantity: number; sell_price: number; sell_date: string; tax_paid: number }>) => Promise<void>;
-  onClearPortfolio: () => Promise<void>;
-  onDeleteInvestment: (investmentId: string) => Promise<void>;
-  onEditInvestment: (investmentId: string, updates: Partial<Pick<Investment, 'quantity' | 'purchase_price' | 'purchase_date'>>) => Promise<void>;
-  onRefreshPrices: () => Promise<void>;
   onSelectItem: (item: Item) => void;
-  profile: (Profile & { email: string | null; }) | null;
-  session: Session | null;
 }
 
 type TimeRange = '1M' | '3M' | '1Y' | 'ALL';
 
 type NumberFormat = 'raw' | 'short';
 
+const formatDate = (isoDate: string) => new Date(isoDate).toLocaleDateString();
+
 const useNumberTicker = (value: number) => {
     const [displayValue, setDisplayValue] = useState(value);
     const prevValueRef = useRef(value);
@@ -89,17 +92,36 @@ const TooltipSpan: React.FC<{ children: React.ReactNode; fullValue: string }> =
 );
 
 
-export const PortfolioPage: React.FC<PortfolioPageProps> = ({ investments, items, latestPrices, onCloseInvestment, onClearPortfolio, onDeleteInvestment, onEditInvestment, onRefreshPrices, onSelectItem, profile, session }) => {
+export const PortfolioPage: React.FC<PortfolioPageProps> = ({ onSelectItem }) => {
+    const { items } = useItems();
+    const { latestPrices, refreshPrices: onRefreshPrices } = useMarketPrices();
+    const { gameMode } = useGameMode();
+    const { profile, session } = useSession();
+    const {
+        investments,
+        closeInvestments: onCloseInvestments,
+        clearPortfolio: onClearPortfolio,
+        importInvestments: onImportInvestments,
+        deleteInvestment: onDeleteInvestment,
+        updateInvestment: onEditInvestment,
+        pendingSellInvestmentId, // Set when a stop-loss/take-profit notification is clicked
+        clearPendingSell: onPendingSellHandled,
+        syncStates,
+        retrySync,
+        discardSync,
+    } = usePortfolio();
     const [investmentToSell, setInvestmentToSell] = useState<Investment | null>(null);
     const [investmentToEdit, setInvestmentToEdit] = useState<Investment | null>(null);
     const [investmentToDelete, setInvestmentToDelete] = useState<Investment | null>(null);
     const [isDeleting, setIsDeleting] = useState(false);
     const [deleteError, setDeleteError] = useState<string | null>(null);
     const [isClearConfirmOpen, setIsClearConfirmOpen] = useState(false);
+    const [isImportOpen, setIsImportOpen] = useState(false);
     const [isClearing, setIsClearing] = useState(false);
+    const [expandedLotIds, setExpandedLotIds] = useState<Set<string>>(new Set());
     
     // State for portfolio chart
-    const [portfolioHistory, setPortfolioHistory] = useState<{ date: string; value: number }[]>([]);
+    const [dailyPrices, setDailyPrices] = useState<Record<string, TimeseriesData[]>>({});
     const [isHistoryLoading, setIsHistoryLoading] = useState(true);
     const [timeRange, setTimeRange] = useState<TimeRange>('1M');
 
@@ -150,82 +172,80 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({ investments, items
         return <span className={className}>{displayString}</span>;
     };
 
+    // Open the sell modal for a position whose stop-loss/take-profit notification was clicked.
+    useEffect(() => {
+        if (!pendingSellInvestmentId) return;
+        const investment = investments.find(inv => inv.id === pendingSellInvestmentId && inv.sell_price === null);
+        if (investment) setInvestmentToSell(investment);
+        onPendingSellHandled();
+    }, [pendingSellInvestmentId, investments, onPendingSellHandled]);
+
+    const handleExport = () => {
+        const date = new Date().toISOString().split('T')[0];
+        downloadCsv(`ge-pulse-portfolio-${gameMode}-${date}.csv`, investmentsToCsv(investments, items));
+    };
+
+    const importModal = isImportOpen && (
+        <ImportInvestmentsModal items={items} existingInvestments={investments} onClose={() => setIsImportOpen(false)} onImport={onImportInvestments} onRecordSales={onCloseInvestments} />
+    );
+
     const handleRefresh = async () => {
         setIsRefreshing(true);
-        await onRefreshPrices();
-        setIsRefreshing(false);
+        try {
+            await onRefreshPrices();
+        } catch {
+            // The failure is reported by the offline/stale prices banner.
+        } finally {
+            setIsRefreshing(false);
+        }
     };
 
+    // Daily prices for every item in the portfolio, to value positions on the days they were held.
+    const portfolioItemIds = useMemo(
+        () => [...new Set(investments.map(inv => inv.item_id))].sort((a, b) => a - b).join(','),
+        [investments]
+    );
     useEffect(() => {
-        const calculateHistory = () => {
-            const closedPositionsForHistory = investments
-                .filter(inv => inv.sell_price !== null && inv.sell_date !== null)
-                .map(inv => ({
-                    ...inv,
-                    sell_date_obj: new Date(inv.sell_date!),
-                    profit: ((inv.sell_price! - inv.purchase_price) * inv.quantity) - (inv.tax_paid ?? 0)
-                }))
-                .sort((a, b) => a.sell_date_obj.getTime() - b.sell_date_obj.getTime());
-
-            if (closedPositionsForHistory.length === 0) {
-                setPortfolioHistory([]);
-                setIsHistoryLoading(false);
-                return;
-            }
-
-            setIsHistoryLoading(true);
-
-            const getStartDate = (): Date => {
-                const now = new Date();
-                switch (timeRange) {
-                    case '1M': return new Date(now.setMonth(now.getMonth() - 1));
-                    case '3M': return new Date(now.setMonth(now.getMonth() - 3));
-                    case '1Y': return new Date(now.setFullYear(now.getFullYear() - 1));
-                    case 'ALL': return closedPositionsForHistory[0].sell_date_obj;
-                }
-            };
-
-            const startDate = getStartDate();
-            startDate.setHours(0, 0, 0, 0);
-            const endDate = new Date();
-            const dateArray: Date[] = [];
-            let currentDate = new Date(startDate);
-            
-            while (currentDate.getTime() <= endDate.getTime()) {
-                dateArray.push(new Date(currentDate));
-                currentDate.setDate(currentDate.getDate() + 1);
-            }
-
-            let cumulativeProfit = 0;
-            let tradeIndex = 0;
-            
-            // Calculate profit accumulated *before* the current chart's start date
-            const initialProfit = closedPositionsForHistory
-                .filter(trade => trade.sell_date_obj.getTime() < startDate.getTime())
-                .reduce((sum, trade) => sum + trade.profit, 0);
-            
-            cumulativeProfit = initialProfit;
-
-            // Find the first trade that is within our date range
-            while (tradeIndex < closedPositionsForHistory.length && closedPositionsForHistory[tradeIndex].sell_date_obj.getTime() < startDate.getTime()) {
-                tradeIndex++;
-            }
-
-            const history = dateArray.map(date => {
-                const dateTimestamp = date.getTime();
-                while (tradeIndex < closedPositionsForHistory.length && closedPositionsForHistory[tradeIndex].sell_date_obj.getTime() <= dateTimestamp) {
-                    cumulativeProfit += closedPositionsForHistory[tradeIndex].profit;
-                    tradeIndex++;
-                }
-                return { date: date.toISOString().split('T')[0], value: cumulativeProfit };
+        if (!portfolioItemIds) {
+            setDailyPrices({});
+            setIsHistoryLoading(false);
+            return;
+        }
+        const controller = new AbortController();
+        setIsHistoryLoading(true);
+        const itemIds = portfolioItemIds.split(',').map(Number);
+        Promise.allSettled(itemIds.map(id => fetchAllTimePrices(id, { signal: controller.signal }))).then(results => {
+            if (controller.signal.aborted) return;
+            const prices: Record<string, TimeseriesData[]> = {};
+            results.forEach((result, index) => {
+                // An item whose history fails to load is valued at cost on the chart.
+                if (result.status === 'fulfilled') prices[itemIds[index]] = result.value;
+                else console.error(`Failed to load price history for item ${itemIds[index]}`, result.reason);
             });
-
-            setPortfolioHistory(history);
+            setDailyPrices(prices);
             setIsHistoryLoading(false);
+        });
+        return () => controller.abort();
+    }, [portfolioItemIds]);
+
+    // Built from the daily prices; price refreshes only revalue today's point, below.
+    const dailyPortfolioHistory = useMemo(() => {
+        if (investments.length === 0) return [];
+        const getStartDate = (): Date => {
+            const now = new Date();
+            switch (timeRange) {
+                case '1M': return new Date(now.setMonth(now.getMonth() - 1));
+                case '3M': return new Date(now.setMonth(now.getMonth() - 3));
+                case '1Y': return new Date(now.setFullYear(now.getFullYear() - 1));
+                case 'ALL': return new Date(Math.min(...investments.map(inv => new Date(inv.purchase_date).getTime())));
+            }
         };
-
-        calculateHistory();
-    }, [investments, timeRange]);
+        return buildPortfolioHistory(investments, dailyPrices, getStartDate());
+    }, [investments, dailyPrices, timeRange]);
+    const portfolioHistory = useMemo(
+        () => applyLatestPricesToHistory(dailyPortfolioHistory, investments, dailyPrices, latestPrices),
+        [dailyPortfolioHistory, investments, dailyPrices, latestPrices]
+    );
 
     const handleConfirmClear = async () => {
         setIsClearing(true);
@@ -265,7 +285,34 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({ investments, items
             return acc;
         }, { openPositions: [], closedPositions: [] });
     }, [investments]);
-    
+
+    // Each item's open lots, oldest first, and every lot's sales (including lots that have sold out).
+    const openLotsByItem = useMemo(() => {
+        const lotsByItem = new Map<number, Investment[]>();
+        [...openPositions]
+            .sort((a, b) => new Date(a.purchase_date).getTime() - new Date(b.purchase_date).getTime())
+            .forEach(inv => lotsByItem.set(inv.item_id, [...(lotsByItem.get(inv.item_id) ?? []), inv]));
+        return lotsByItem;
+    }, [openPositions]);
+    const salesByLot = useMemo(() => getLotSales(investments), [investments]);
+
+    const toggleLotHistory = (lotId: string) => {
+        setExpandedLotIds(prev => {
+            const next = new Set(prev);
+            if (next.has(lotId)) next.delete(lotId);
+            else next.add(lotId);
+            return next;
+        });
+    };
+
+    // Deletions (and full sales) that haven't synced leave no row of their own to show their state on.
+    const unsyncedDeletions = useMemo(() => {
+        const shownMutationIds = new Set(investments.flatMap(inv => syncStates[inv.id]?.mutationIds ?? []));
+        return Object.keys(syncStates).filter(id =>
+            !investments.some(inv => inv.id === id) && !syncStates[id].mutationIds.every(mutationId => shownMutationIds.has(mutationId))
+        );
+    }, [investments, syncStates]);
+
     const summaryStats = useMemo(() => {
         let totalValue = 0;
         let unrealisedProfit = 0;
@@ -389,6 +436,11 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({ investments, items
             <BriefcaseIcon className="w-16 h-16 text-gray-600 mb-4" />
             <h2 className="text-2xl font-bold text-white mb-2">Your Portfolio is Empty</h2>
             <p className="text-gray-400">Find an item and use the briefcase icon to add your first investment.</p>
+            <Button variant="secondary" size="sm" className="mt-6 px-3 py-2" onClick={() => setIsImportOpen(true)}>
+                <UploadIcon className="w-4 h-4 mr-2" />
+                Import from CSV
+            </Button>
+            {importModal}
           </div>
         );
     }
@@ -403,10 +455,11 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({ investments, items
             {investmentToSell && items[investmentToSell.item_id] && (
                 <SellInvestmentModal
                     investment={investmentToSell}
+                    lots={openLotsByItem.get(investmentToSell.item_id) ?? [investmentToSell]}
                     item={items[investmentToSell.item_id]}
                     latestPrice={latestPrices[investmentToSell.item_id]}
                     onClose={() => setInvestmentToSell(null)}
-                    onSave={onCloseInvestment}
+                    onSave={onCloseInvestments}
                 />
             )}
             {investmentToEdit && items[investmentToEdit.item_id] && (
@@ -454,6 +507,7 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({ investments, items
                     </Card>
                 </div>
             )}
+            {importModal}
             {isClearConfirmOpen && (
                 <div className="fixed inset-0 bg-gray-900 bg-opacity-80 z-50 flex justify-center items-center p-4">
                     <Card className="max-w-md w-full border-red-500/50">
@@ -502,6 +556,14 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({ investments, items
                         {isRefreshing ? <Loader size="sm" className="mr-2 animate-spin" /> : <RefreshCwIcon className="w-4 h-4 mr-2" />}
                         <span>Refresh</span>
                     </Button>
+                    <Button variant="secondary" size="sm" className="px-3 py-2" onClick={() => setIsImportOpen(true)}>
+                        <UploadIcon className="w-4 h-4 mr-2" />
+                        <span>Import</span>
+                    </Button>
+                    <Button variant="secondary" size="sm" className="px-3 py-2" onClick={handleExport}>
+                        <DownloadIcon className="w-4 h-4 mr-2" />
+                        <span>Export CSV</span>
+                    </Button>
                     {investments.length > 0 && (
                         <Button variant="ghost" size="sm" className="text-gray-400 hover:text-red-400 px-3 py-2" onClick={() => setIsClearConfirmOpen(true)}>
                             <Trash2Icon className="w-4 h-4 mr-2" />
@@ -567,7 +629,7 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({ investments, items
             <div className="mb-8">
                 <Card>
                     <div className="flex justify-between items-center mb-4">
-                        <h3 className="text-xl font-bold text-white">Cumulative Realised P/L</h3>
+                        <h3 className="text-xl font-bold text-white">Portfolio P/L</h3>
                         <div className="flex items-center gap-1 bg-gray-900/50 p-1 rounded-lg">
                             {(['1M', '3M', '1Y', 'ALL'] as TimeRange[]).map(range => (
                                 <Button
@@ -594,6 +656,17 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({ investments, items
                 </Card>
             </div>
 
+            {unsyncedDeletions.length > 0 && (
+                <ul className="mb-8 space-y-1 text-sm text-gray-400">
+                    {unsyncedDeletions.map(id => (
+                        <li key={id} className="flex flex-wrap items-center gap-2">
+                            <span>Removing an investment from your portfolio</span>
+                            <SyncStatusBadge state={syncStates[id]} onRetry={() => retrySync(id)} onDiscard={() => discardSync(id)} />
+                        </li>
+                    ))}
+                </ul>
+            )}
+
             {/* Open Positions */}
             <div className="mb-8">
                 <h3 className="text-2xl font-bold text-white mb-4">Open Positions ({openPositions.length})</h3>
@@ -608,15 +681,46 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({ investments, items
                             const purchaseValue = inv.purchase_price * inv.quantity;
                             const currentValue = hasPrice ? currentPrice * inv.quantity : purchaseValue;
                             const profit = currentValue - purchaseValue;
+                            const stopLossPrice = inv.stop_loss != null ? getExitThresholdPrice('stop_loss', inv.stop_loss, inv.stop_loss_type ?? 'gp', inv, item.name) : null;
+                            const takeProfitPrice = inv.take_profit != null ? getExitThresholdPrice('take_profit', inv.take_profit, inv.take_profit_type ?? 'gp', inv, item.name) : null;
+                            const itemLots = openLotsByItem.get(inv.item_id) ?? [inv];
+                            const lotSales = salesByLot.get(inv.id) ?? [];
+                            const soldQuantity = lotSales.reduce((sum, sale) => sum + sale.quantity, 0);
+                            const isHistoryExpanded = expandedLotIds.has(inv.id);
 
                             return (
-                                <Card key={inv.id} className="flex items-center flex-wrap gap-4">
+                                <Card key={inv.id} className={`flex items-center flex-wrap gap-4 ${inv.exit_triggered_at ? 'border-yellow-500/50' : ''}`}>
                                     <img src={getHighResImageUrl(item.name)} onError={(e) => { e.currentTarget.src = createIconDataUrl(item.icon); }} alt={item.name} className="w-10 h-10 object-contain bg-gray-700/50 rounded-md"/>
                                     <div className="flex-1 min-w-[150px]">
                                         <button onClick={() => onSelectItem(item)} className="font-bold text-white text-left hover:underline hover:text-emerald-300 transition-colors">
                                             {item.name}
                                         </button>
                                         <p className="text-sm text-gray-400">{inv.quantity.toLocaleString()} @ <FormattedGP value={inv.purchase_price} format={numberFormat} /></p>
+                                        <p className="text-xs text-gray-500">
+                                            {itemLots.length > 1 && `Lot ${itemLots.indexOf(inv) + 1} of ${itemLots.length} · `}
+                                            Bought {formatDate(inv.purchase_date)}
+                                            {soldQuantity > 0 && (
+                                                <>
+                                                    {` · ${soldQuantity.toLocaleString()} of ${(soldQuantity + inv.quantity).toLocaleString()} sold · `}
+                                                    <button onClick={() => toggleLotHistory(inv.id)} className="text-emerald-400/80 hover:text-emerald-300 hover:underline" aria-expanded={isHistoryExpanded}>
+                                                        {isHistoryExpanded ? 'Hide history' : 'History'}
+                                                    </button>
+                                                </>
+                                            )}
+                                        </p>
+                                        <SyncStatusBadge state={syncStates[inv.id]} onRetry={() => retrySync(inv.id)} onDiscard={() => discardSync(inv.id)} />
+                                        {(stopLossPrice !== null || takeProfitPrice !== null) && (
+                                            <p className="text-xs text-gray-500">
+                                                {stopLossPrice !== null && (
+                                                    <span className="text-red-400/80" title={formatExitThreshold(inv.stop_loss!, inv.stop_loss_type ?? 'gp')}>SL {stopLossPrice.toLocaleString()} gp</span>
+                                                )}
+                                                {stopLossPrice !== null && takeProfitPrice !== null && ' · '}
+                                                {takeProfitPrice !== null && (
+                                                    <span className="text-emerald-400/80" title={formatExitThreshold(inv.take_profit!, inv.take_profit_type ?? 'gp')}>TP {takeProfitPrice.toLocaleString()} gp</span>
+                                                )}
+                                                {inv.exit_triggered_at && <span className="text-yellow-300 font-semibold"> · Target hit</span>}
+                                            </p>
+                                        )}
                                     </div>
                                     <div className="text-sm">
                                         <p className="text-gray-400">Current Value</p>
@@ -627,7 +731,7 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({ investments, items
                                         <p className="font-semibold"><ProfitText value={profit} format={numberFormat} /></p>
                                     </div>
                                     <div className="flex items-center gap-2">
-                                        <Button size="sm" variant="secondary" onClick={() => setInvestmentToSell(inv)}>Sell</Button>
+                                        <Button size="sm" variant={inv.exit_triggered_at ? 'primary' : 'secondary'} onClick={() => setInvestmentToSell(inv)}>Sell</Button>
                                         <Button size="icon" variant="ghost" className="w-8 h-8 text-gray-500 hover:text-emerald-400" onClick={() => setInvestmentToEdit(inv)}>
                                             <EditIcon className="w-4 h-4" />
                                         </Button>
@@ -635,6 +739,16 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({ investments, items
                                             <Trash2Icon className="w-4 h-4" />
                                         </Button>
                                     </div>
+                                    {isHistoryExpanded && (
+                                        <ul className="basis-full text-xs text-gray-400 border-t border-gray-700/50 pt-2 space-y-1">
+                                            {lotSales.map(sale => (
+                                                <li key={sale.id} className="flex flex-wrap justify-between gap-2">
+                                                    <span>Sold {sale.quantity.toLocaleString()} @ <FormattedGP value={sale.sell_price!} format={numberFormat} /> on {formatDate(sale.sell_date!)}</span>
+                                                    <ProfitText value={(sale.sell_price! - sale.purchase_price) * sale.quantity - (sale.tax_paid ?? 0)} format={numberFormat} />
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
                                 </Card>
                             );
                         })}
@@ -651,6 +765,7 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({ investments, items
                             const item = items[inv.item_id];
                             if (!item || inv.sell_price === null) return null;
                             const profit = ((inv.sell_price - inv.purchase_price) * inv.quantity) - (inv.tax_paid ?? 0);
+                            const lotSales = inv.lot_id ? salesByLot.get(inv.lot_id) ?? [] : [];
                             return (
                                 <Card key={inv.id} className="flex items-center flex-wrap gap-4 opacity-70">
                                     <img src={getHighResImageUrl(item.name)} onError={(e) => { e.currentTarget.src = createIconDataUrl(item.icon); }} alt={item.name} className="w-10 h-10 object-contain bg-gray-700/50 rounded-md"/>
@@ -659,6 +774,11 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({ investments, items
                                             {item.name}
                                         </button>
                                         <p className="text-sm text-gray-400">{inv.quantity.toLocaleString()} units</p>
+                                        <p className="text-xs text-gray-500">
+                                            Bought {formatDate(inv.purchase_date)} · Sold {formatDate(inv.sell_date!)}
+                                            {lotSales.length > 1 && ` · Sale ${lotSales.indexOf(inv) + 1} of ${lotSales.length} from this lot`}
+                                        </p>
+                                        <SyncStatusBadge state={syncStates[inv.id]} onRetry={() => retrySync(inv.id)} onDiscard={() => discardSync(inv.id)} />
                                     </div>
                                     <div className="text-sm">
                                         <p className="text-gray-400">Buy: <FormattedGP value={inv.purchase_price} format={numberFormat} /></p>
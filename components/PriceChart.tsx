@@ -112,8 +112,12 @@ export const PriceChart: React.FC<PriceChartProps> = ({ data, isInitialLoad, sho
                 </linearGradient>
             </defs>
             <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+            {/* A numeric time axis keeps points spaced by time, since stitched series mix resolutions. */}
             <XAxis 
                 dataKey="timestamp" 
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
                 axisLine={false}
                 tickLine={false}
                 tickFormatter={formatXAxisLabel}
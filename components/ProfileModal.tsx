@@ -4,6 +4,7 @@ import { Button } from './ui/Button';
 import { Loader } from './ui/Loader';
 import { XIcon } from './icons/Icons';
 import { updateProfile } from '../services/database';
+import { AlertWebhookSettings } from './AlertWebhookSettings';
 
 interface ProfileModalProps {
   profile: Profile;
@@ -53,7 +54,7 @@ export const ProfileModal: React.FC<ProfileModalProps> = ({ profile, onClose, on
       role="dialog"
     >
       <div 
-        className="bg-gray-800 rounded-lg shadow-xl p-8 w-full max-w-md relative border border-gray-700/50"
+        className="bg-gray-800 rounded-lg shadow-xl p-8 w-full max-w-md max-h-[90vh] overflow-y-auto relative border border-gray-700/50"
         onClick={(e) => e.stopPropagation()}
       >
         {!isNewUser && (
@@ -99,6 +100,8 @@ export const ProfileModal: React.FC<ProfileModalProps> = ({ profile, onClose, on
             {loading ? <Loader size="sm" /> : 'Save Profile'}
           </Button>
         </form>
+
+        {!isNewUser && <AlertWebhookSettings profile={profile} onProfileUpdate={onProfileUpdate} />}
       </div>
     </div>
   );
@@ -1,18 +1,22 @@
 
 
 import React, { useState, useMemo } from 'react';
-import type { Item, LatestPrice, Investment } from '../types';
+import type { Item, LatestPrice, Investment, LotSales } from '../types';
 import { Button } from './ui/Button';
 import { Loader } from './ui/Loader';
 import { XIcon, InfoIcon, Trash2Icon } from './icons/Icons';
 import { getHighResImageUrl, createIconDataUrl, parseShorthandPrice, calculateGeTax, calculateBreakevenPrice } from '../utils/image';
+import { summarizeSales } from '../utils/portfolio';
+import { COST_BASIS_METHODS, splitSalesAcrossLots } from '../utils/lots';
+import type { CostBasisMethod } from '../utils/lots';
 
 interface SellInvestmentModalProps {
   investment: Investment;
+  lots: Investment[]; // Every open lot of the item, including `investment`, to sell across
   item: Item;
   latestPrice: LatestPrice;
   onClose: () => void;
-  onSave: (investmentId: string, sales: Array<{ quantity: number; sell_price: number; sell_date: string; tax_paid: number }>) => Promise<void>;
+  onSave: (lotSales: LotSales[], idempotencyKey: string) => Promise<void>;
 }
 
 const ProfitText: React.FC<{ value: number }> = ({ value }) => {
@@ -27,7 +31,13 @@ type SaleEntry = {
     price: string;
 };
 
-export const SellInvestmentModal: React.FC<SellInvestmentModalProps> = ({ investment, item, latestPrice, onClose, onSave }) => {
+const formatDate = (isoDate: string) => new Date(isoDate).toLocaleDateString();
+
+export const SellInvestmentModal: React.FC<SellInvestmentModalProps> = ({ investment, lots, item, latestPrice, onClose, onSave }) => {
+  const [sellAcrossLots, setSellAcrossLots] = useState(false);
+  const [method, setMethod] = useState<CostBasisMethod>('fifo');
+  // One key for everything submitted from this modal, so a double-click or retry can't sell twice.
+  const [idempotencyKey] = useState(() => crypto.randomUUID());
   const [saleEntries, setSaleEntries] = useState<SaleEntry[]>([{ id: Date.now(), quantity: investment.quantity.toString(), price: (latestPrice?.low ?? item.value).toString() }]);
   const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
   const [loading, setLoading] = useState(false);
@@ -53,28 +63,50 @@ export const SellInvestmentModal: React.FC<SellInvestmentModalProps> = ({ invest
     })).filter(s => !isNaN(s.quantity) && s.quantity > 0 && !isNaN(s.price) && s.price > 0);
   }, [saleEntries]);
   
+  const canSellAcrossLots = lots.length > 1;
+  const isAcrossLots = canSellAcrossLots && sellAcrossLots;
+  const availableQuantity = isAcrossLots ? lots.reduce((sum, lot) => sum + lot.quantity, 0) : investment.quantity;
+
+  // Across lots, the breakeven is for the average buy price of every lot.
   const breakevenPrice = useMemo(() => {
-    return calculateBreakevenPrice(investment.purchase_price, item.name);
-  }, [investment.purchase_price, item.name]);
+    const costPrice = isAcrossLots
+      ? Math.round(lots.reduce((sum, lot) => sum + lot.purchase_price * lot.quantity, 0) / availableQuantity)
+      : investment.purchase_price;
+    return calculateBreakevenPrice(costPrice, item.name);
+  }, [isAcrossLots, lots, availableQuantity, investment.purchase_price, item.name]);
+
+  const totalQuantitySold = parsedSales.reduce((sum, sale) => sum + sale.quantity, 0);
+  const isQuantityInvalid = totalQuantitySold > availableQuantity;
+
+  // The sales to record against each lot, or null if they can't be split (e.g. too many sold).
+  const lotSales = useMemo((): LotSales[] | null => {
+    if (isQuantityInvalid || parsedSales.length === 0) return null;
+    const sellDate = date ? new Date(date).toISOString() : new Date().toISOString();
+    if (!isAcrossLots) {
+        return [{
+            investmentId: investment.id,
+            sales: parsedSales.map(s => ({ quantity: s.quantity, sell_price: s.price, sell_date: sellDate, tax_paid: calculateGeTax(item.name, s.price, s.quantity) })),
+        }];
+    }
+    const itemSales = parsedSales.map(s => ({ quantity: s.quantity, sell_price: s.price, sell_date: sellDate }));
+    return splitSalesAcrossLots(lots, itemSales, method, item.name);
+  }, [isQuantityInvalid, parsedSales, date, isAcrossLots, investment.id, lots, method, item.name]);
 
-  const { totalQuantitySold, totalSellValue, totalTax, totalProfit } = useMemo(() => {
-    let quantity = 0;
+  const { totalSellValue, totalTax, totalProfit } = useMemo(() => {
     let value = 0;
     let tax = 0;
     let profit = 0;
 
-    parsedSales.forEach(sale => {
-        quantity += sale.quantity;
-        value += sale.price * sale.quantity;
-        const saleTax = calculateGeTax(item.name, sale.price, sale.quantity);
-        tax += saleTax;
-        profit += (sale.price * sale.quantity) - (investment.purchase_price * sale.quantity) - saleTax;
+    lotSales?.forEach(({ investmentId, sales }) => {
+        const lot = lots.find(l => l.id === investmentId) ?? investment;
+        const summary = summarizeSales(lot, sales);
+        value += summary.tradeValue;
+        tax += sales.reduce((sum, sale) => sum + sale.tax_paid, 0);
+        profit += summary.profit;
     });
 
-    return { totalQuantitySold: quantity, totalSellValue: value, totalTax: tax, totalProfit: profit };
-  }, [parsedSales, item.name, investment.purchase_price]);
-
-  const isQuantityInvalid = totalQuantitySold > investment.quantity;
+    return { totalSellValue: value, totalTax: tax, totalProfit: profit };
+  }, [lotSales, lots, investment]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -88,7 +120,7 @@ export const SellInvestmentModal: React.FC<SellInvestmentModalProps> = ({ invest
     }
 
     if (isQuantityInvalid) {
-        setError(`Total sale quantity cannot exceed the amount you own (${investment.quantity.toLocaleString()}).`);
+        setError(`Total sale quantity cannot exceed the amount you own (${availableQuantity.toLocaleString()}).`);
         setLoading(false);
         return;
     }
@@ -100,13 +132,7 @@ export const SellInvestmentModal: React.FC<SellInvestmentModalProps> = ({ invest
     }
 
     try {
-      const salesPayload = parsedSales.map(s => ({
-          quantity: s.quantity,
-          sell_price: s.price,
-          sell_date: new Date(date).toISOString(),
-          tax_paid: calculateGeTax(item.name, s.price, s.quantity)
-      }));
-      await onSave(investment.id, salesPayload);
+      await onSave(lotSales!, idempotencyKey);
       onClose();
     } catch (err: any) {
       setError(err.error_description || err.message);
@@ -153,6 +179,34 @@ export const SellInvestmentModal: React.FC<SellInvestmentModalProps> = ({ invest
         )}
 
         <form onSubmit={handleSubmit} className="space-y-4">
+            {canSellAcrossLots && (
+                <div className="space-y-2">
+                    <div className="flex gap-2" role="group" aria-label="Lots to sell from">
+                        <Button type="button" size="sm" variant={isAcrossLots ? 'secondary' : 'primary'} onClick={() => setSellAcrossLots(false)}>
+                            This lot ({investment.quantity.toLocaleString()})
+                        </Button>
+                        <Button type="button" size="sm" variant={isAcrossLots ? 'primary' : 'secondary'} onClick={() => setSellAcrossLots(true)}>
+                            All {lots.length} lots ({lots.reduce((sum, lot) => sum + lot.quantity, 0).toLocaleString()})
+                        </Button>
+                    </div>
+                    {isAcrossLots && (
+                        <div>
+                            <label htmlFor="cost-basis-method" className="block text-xs font-medium text-gray-400 mb-1">Cost basis</label>
+                            <select
+                                id="cost-basis-method"
+                                value={method}
+                                onChange={(e) => setMethod(e.target.value as CostBasisMethod)}
+                                className="w-full p-2 bg-gray-900 border border-gray-700 rounded-lg text-white text-sm focus:ring-1 focus:ring-emerald-500 focus:outline-none"
+                            >
+                                {(Object.keys(COST_BASIS_METHODS) as CostBasisMethod[]).map(key => (
+                                    <option key={key} value={key}>{COST_BASIS_METHODS[key].label}</option>
+                                ))}
+                            </select>
+                            <p className="text-xs text-gray-500 mt-1">{COST_BASIS_METHODS[method].description}</p>
+                        </div>
+                    )}
+                </div>
+            )}
             <div className="max-h-60 overflow-y-auto pr-2 space-y-3">
                 {saleEntries.map((entry, index) => (
                     <div key={entry.id} className="grid grid-cols-12 gap-2 items-center">
@@ -163,7 +217,7 @@ export const SellInvestmentModal: React.FC<SellInvestmentModalProps> = ({ invest
                                 placeholder="e.g. 100"
                                 value={entry.quantity}
                                 onChange={(e) => handleEntryChange(entry.id, 'quantity', e.target.value)}
-                                required min="1" max={investment.quantity}
+                                required min="1" max={availableQuantity}
                                 className="w-full p-2 bg-gray-900 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:ring-1 focus:ring-emerald-500 focus:outline-none transition text-sm"
                             />
                         </div>
@@ -212,8 +266,17 @@ export const SellInvestmentModal: React.FC<SellInvestmentModalProps> = ({ invest
                 <div className="text-sm text-gray-300 mt-3 bg-gray-900/50 p-4 rounded-md space-y-2">
                     <div className={`flex justify-between items-center ${isQuantityInvalid ? 'text-red-400' : ''}`}>
                         <span className="font-bold">Total Quantity to Sell:</span>
-                        <span className="font-semibold">{totalQuantitySold.toLocaleString()} / {investment.quantity.toLocaleString()}</span>
+                        <span className="font-semibold">{totalQuantitySold.toLocaleString()} / {availableQuantity.toLocaleString()}</span>
                     </div>
+                    {isAcrossLots && lotSales && lotSales.map(({ investmentId, sales }) => {
+                        const lot = lots.find(l => l.id === investmentId)!;
+                        return (
+                            <div key={investmentId} className="flex justify-between items-center text-xs text-gray-400">
+                                <span>Lot bought {formatDate(lot.purchase_date)} @ {lot.purchase_price.toLocaleString()} gp</span>
+                                <span>{sales.reduce((sum, sale) => sum + sale.quantity, 0).toLocaleString()} of {lot.quantity.toLocaleString()}</span>
+                            </div>
+                        );
+                    })}
                     <div className="flex justify-between items-center">
                         <span className="text-gray-400">Total Sell Value:</span>
                         <span className="font-semibold">{totalSellValue.toLocaleString()} gp</span>
@@ -5,6 +5,7 @@ import { Loader } from './ui/Loader';
 import { Button } from './ui/Button';
 import type { AppStats, StatsTimeRange } from '../types';
 import { fetchAppStats } from '../services/database';
+import { useGameMode } from '../stores/GameModeStore';
 import { formatLargeNumber } from '../utils/image';
 
 
@@ -39,6 +40,7 @@ const ProfitText: React.FC<{ value: number }> = ({ value }) => {
 };
 
 export const StatsPage: React.FC<StatsPageProps> = () => {
+    const { gameMode } = useGameMode();
     const [stats, setStats] = useState<AppStats | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
@@ -49,7 +51,7 @@ export const StatsPage: React.FC<StatsPageProps> = () => {
             setIsLoading(true);
             setError(null);
             try {
-                const fetchedStats = await fetchAppStats(timeRange);
+                const fetchedStats = await fetchAppStats(timeRange, gameMode);
                 setStats(fetchedStats);
             } catch (err: any) {
                 console.error("Failed to load app stats", err);
@@ -59,7 +61,7 @@ export const StatsPage: React.FC<StatsPageProps> = () => {
             }
         };
         loadStatsData();
-    }, [timeRange]);
+    }, [timeRange, gameMode]);
 
 
     const renderContent = () => {
@@ -0,0 +1,41 @@
+import React from 'react';
+import type { RowSyncState } from '../services/offlineQueue';
+import { ClockIcon, InfoIcon } from './icons/Icons';
+
+interface SyncStatusBadgeProps {
+  state: RowSyncState | undefined;
+  onRetry: () => void;
+  onDiscard: () => void;
+}
+
+// Shows that a row has edits saved on this device that haven't reached the database yet,
+// or that failed to, with the option to retry or throw them away.
+export const SyncStatusBadge: React.FC<SyncStatusBadgeProps> = ({ state, onRetry, onDiscard }) => {
+  if (!state) return null;
+
+  if (state.status === 'pending') {
+    return (
+      <span className="inline-flex items-center gap-1 text-xs text-yellow-300" title={state.error ?? 'Saved on this device. It will sync automatically.'}>
+        <ClockIcon className="w-3.5 h-3.5" />
+        Pending sync
+      </span>
+    );
+  }
+
+  // Rows are often clickable, so the buttons mustn't trigger the row too.
+  const handleClick = (action: () => void) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    action();
+  };
+
+  return (
+    <span className="inline-flex items-center gap-2 text-xs text-red-300" title={state.error ?? undefined}>
+      <span className="inline-flex items-center gap-1">
+        <InfoIcon className="w-3.5 h-3.5" />
+        Sync failed
+      </span>
+      <button onClick={handleClick(onRetry)} className="font-semibold underline hover:text-white">Retry</button>
+      <button onClick={handleClick(onDiscard)} className="font-semibold underline hover:text-white">Discard</button>
+    </span>
+  );
+};
@@ -1,20 +1,23 @@
 // FIX: Corrected a typo in the React import statement to properly import hooks.
-import React, { useState, useMemo } from 'react';
-import type { Item, LatestPrice, AggregatePrice } from '../types';
+import React, { useState, useMemo, useEffect } from 'react';
+import type { Item, MarketTab, MarketTimeframe } from '../types';
 import { Card } from './ui/Card';
 import { Button } from './ui/Button';
 import { Loader } from './ui/Loader';
 import { getHighResImageUrl, createIconDataUrl } from '../utils/image';
 import { TrendingUpIcon } from './icons/Icons';
+import { backfillSnapshots, getSnapshotWindowStats, type SnapshotWindowStats } from '../services/marketSnapshots';
+import { isAbortError } from '../services/osrsWikiApi';
+import { useItems, useAggregatePrices } from '../stores/MarketDataStore';
+import { useGameMode } from '../stores/GameModeStore';
 
 interface MarketActivityPageProps {
-  items: Item[];
-  latestPrices: Record<string, LatestPrice>;
-  oneHourPrices: Record<string, AggregatePrice>;
-  twentyFourHourPrices: Record<string, AggregatePrice>;
-  isLoading: boolean;
   onSelectItem: (item: Item) => void;
-  error: string | null;
+  // The tab and timeframe are part of the page URL, so they're owned by the parent.
+  activeTab: MarketTab;
+  onTabChange: (tab: MarketTab) => void;
+  timeframe: MarketTimeframe;
+  onTimeframeChange: (timeframe: MarketTimeframe) => void;
 }
 
 type MoverItem = Item & {
@@ -23,13 +26,20 @@ type MoverItem = Item & {
     percentageChange: number;
 };
 
-type ActiveTab = 'movers' | 'valuable' | 'volume';
-
 const MIN_ITEM_PRICE_FOR_MOVERS = 1000; // Filter out very cheap items
 const MIN_24H_VOLUME_THRESHOLD = 500;
 const MIN_1H_VOLUME_THRESHOLD = 50;
+const MIN_6H_VOLUME_THRESHOLD = 200;
+const MIN_7D_VOLUME_THRESHOLD = 3500;
 const MAX_PERCENTAGE_CHANGE = 1000; // Cap at 1000% change to filter outliers
 
+// The 6h and 7d movers compare against market-wide hourly snapshots. The week is sampled
+// every 12 hours to keep it to 14 requests.
+const SNAPSHOT_TIMEFRAMES: Partial<Record<MarketTimeframe, { hours: number; intervalHours: number; minVolume: number }>> = {
+  '6h': { hours: 6, intervalHours: 1, minVolume: MIN_6H_VOLUME_THRESHOLD },
+  '7d': { hours: 7 * 24, intervalHours: 12, minVolume: MIN_7D_VOLUME_THRESHOLD },
+};
+
 
 const MoverList: React.FC<{
     title: string;
@@ -107,42 +117,91 @@ const MarketListItem: React.FC<{
 );
 
 export const MarketActivityPage: React.FC<MarketActivityPageProps> = ({
-  items,
-  latestPrices,
-  oneHourPrices,
-  twentyFourHourPrices,
-  isLoading,
   onSelectItem,
-  error
+  activeTab,
+  onTabChange,
+  timeframe,
+  onTimeframeChange
 }) => {
-  const [activeTab, setActiveTab] = useState<ActiveTab>('movers');
+  const { items: itemMap } = useItems();
+  const { latestPrices, oneHourPrices, twentyFourHourPrices, isAggregatesLoading: isLoading, aggregatesError: error } = useAggregatePrices();
+  const { gameMode } = useGameMode();
+  const items = useMemo(() => Object.values(itemMap), [itemMap]);
   const [metric, setMetric] = useState<'price' | 'percentage'>('percentage');
-  const [timeframe, setTimeframe] = useState<'1h' | '24h'>('24h');
   const [showF2POnly, setShowF2POnly] = useState(false);
+  const [snapshotStats, setSnapshotStats] = useState<Record<string, SnapshotWindowStats>>({});
+  const [snapshotProgress, setSnapshotProgress] = useState<{ loaded: number; total: number } | null>(null);
+  const [snapshotError, setSnapshotError] = useState<string | null>(null);
+
+  // Backfills the snapshots for the 6h and 7d timeframes.
+  useEffect(() => {
+    const snapshotTimeframe = SNAPSHOT_TIMEFRAMES[timeframe];
+    setSnapshotStats({});
+    setSnapshotError(null);
+    if (!snapshotTimeframe) {
+        setSnapshotProgress(null);
+        return;
+    }
+
+    const controller = new AbortController();
+    backfillSnapshots(snapshotTimeframe.hours, {
+        intervalHours: snapshotTimeframe.intervalHours,
+        signal: controller.signal,
+        onProgress: (loaded, total) => setSnapshotProgress({ loaded, total }),
+    })
+        .then(snapshots => {
+            if (snapshots.length === 0) {
+                setSnapshotError('Failed to load market history. Please try again later.');
+            }
+            setSnapshotStats(getSnapshotWindowStats(snapshots, snapshotTimeframe.intervalHours));
+        })
+        .catch(err => {
+            if (isAbortError(err)) return;
+            console.error('Failed to load market snapshots', err);
+            setSnapshotError('Failed to load market history. Please try again later.');
+        })
+        .finally(() => {
+            if (!controller.signal.aborted) setSnapshotProgress(null);
+        });
+    return () => controller.abort();
+  }, [timeframe, gameMode]);
 
   const moversData = useMemo<MoverItem[]>(() => {
-    const sourcePrices = timeframe === '1h' ? oneHourPrices : twentyFourHourPrices;
-    const minVolume = timeframe === '1h' ? MIN_1H_VOLUME_THRESHOLD : MIN_24H_VOLUME_THRESHOLD;
-    if (!sourcePrices || Object.keys(sourcePrices).length === 0) return [];
+    const snapshotTimeframe = SNAPSHOT_TIMEFRAMES[timeframe];
+    // Every source is reduced to a starting price and a traded volume for the timeframe.
+    const windowStats: Record<string, SnapshotWindowStats> = {};
+    if (snapshotTimeframe) {
+        Object.assign(windowStats, snapshotStats);
+    } else {
+        const sourcePrices = timeframe === '1h' ? oneHourPrices : twentyFourHourPrices;
+        Object.entries(sourcePrices ?? {}).forEach(([itemId, historical]) => {
+            if (!historical.avgHighPrice) return;
+            windowStats[itemId] = {
+                startPrice: historical.avgHighPrice,
+                volume: (historical.highPriceVolume || 0) + (historical.lowPriceVolume || 0),
+            };
+        });
+    }
+    const minVolume = snapshotTimeframe?.minVolume ?? (timeframe === '1h' ? MIN_1H_VOLUME_THRESHOLD : MIN_24H_VOLUME_THRESHOLD);
+    if (Object.keys(windowStats).length === 0) return [];
     
     return items
         .filter(item => !showF2POnly || (showF2POnly && !item.members))
         .map(item => {
             const latest = latestPrices[item.id];
-            const historical = sourcePrices[item.id];
+            const historical = windowStats[item.id];
             
-            if (!latest?.high || !historical?.avgHighPrice || latest.high < MIN_ITEM_PRICE_FOR_MOVERS) {
+            if (!latest?.high || !historical?.startPrice || latest.high < MIN_ITEM_PRICE_FOR_MOVERS) {
                 return null;
             }
 
-            const totalVolume = (historical.highPriceVolume || 0) + (historical.lowPriceVolume || 0);
-            if (totalVolume < minVolume) {
+            if (historical.volume < minVolume) {
                 return null;
             }
             
-            const priceChange = latest.high - historical.avgHighPrice;
-            const percentageChange = historical.avgHighPrice !== 0
-                ? (priceChange / historical.avgHighPrice) * 100
+            const priceChange = latest.high - historical.startPrice;
+            const percentageChange = historical.startPrice !== 0
+                ? (priceChange / historical.startPrice) * 100
                 : 0;
 
             if (!isFinite(percentageChange) || Math.abs(percentageChange) > MAX_PERCENTAGE_CHANGE) {
@@ -157,7 +216,7 @@ export const MarketActivityPage: React.FC<MarketActivityPageProps> = ({
             };
         })
         .filter((item): item is MoverItem => item !== null);
-  }, [items, latestPrices, oneHourPrices, twentyFourHourPrices, timeframe, showF2POnly]);
+  }, [items, latestPrices, oneHourPrices, twentyFourHourPrices, snapshotStats, timeframe, showF2POnly]);
 
   const sortedMovers = useMemo(() => {
     const sortKey = metric === 'price' ? 'priceChange' : 'percentageChange';
@@ -210,6 +269,17 @@ export const MarketActivityPage: React.FC<MarketActivityPageProps> = ({
     }
     switch (activeTab) {
         case 'movers':
+            if (snapshotProgress) {
+                return (
+                    <div className="flex flex-col justify-center items-center gap-3 h-full pt-20">
+                        <Loader />
+                        <p className="text-sm text-gray-400">Loading market history ({snapshotProgress.loaded}/{snapshotProgress.total} hours)...</p>
+                    </div>
+                );
+            }
+            if (snapshotError) {
+                return <div className="text-center text-red-400 mt-8">{snapshotError}</div>;
+            }
             return (sortedMovers.gainers.length === 0 && sortedMovers.losers.length === 0) ? (
                  <div className="text-center py-20 flex flex-col items-center">
                     <TrendingUpIcon className="w-16 h-16 text-gray-600 mb-4" />
@@ -289,8 +359,10 @@ export const MarketActivityPage: React.FC<MarketActivityPageProps> = ({
                 {activeTab === 'movers' && (
                     <>
                         <div className="flex items-center gap-1 bg-gray-800/60 p-1 rounded-lg">
-                            <Button size="sm" variant={timeframe === '1h' ? 'secondary' : 'ghost'} onClick={() => setTimeframe('1h')} className="px-3 py-1">1H</Button>
-                            <Button size="sm" variant={timeframe === '24h' ? 'secondary' : 'ghost'} onClick={() => setTimeframe('24h')} className="px-3 py-1">24H</Button>
+                            <Button size="sm" variant={timeframe === '1h' ? 'secondary' : 'ghost'} onClick={() => onTimeframeChange('1h')} className="px-3 py-1">1H</Button>
+                            <Button size="sm" variant={timeframe === '6h' ? 'secondary' : 'ghost'} onClick={() => onTimeframeChange('6h')} className="px-3 py-1">6H</Button>
+                            <Button size="sm" variant={timeframe === '24h' ? 'secondary' : 'ghost'} onClick={() => onTimeframeChange('24h')} className="px-3 py-1">24H</Button>
+                            <Button size="sm" variant={timeframe === '7d' ? 'secondary' : 'ghost'} onClick={() => onTimeframeChange('7d')} className="px-3 py-1">7D</Button>
                         </div>
                          <div className="flex items-center gap-1 bg-gray-800/60 p-1 rounded-lg">
                             <Button size="sm" variant={metric === 'percentage' ? 'secondary' : 'ghost'} onClick={() => setMetric('percentage')} className="px-3 py-1">Percentage %</Button>
@@ -324,9 +396,9 @@ export const MarketActivityPage: React.FC<MarketActivityPageProps> = ({
         
         <div className="flex justify-center mb-6">
             <div className="flex items-center gap-1 bg-gray-800/60 p-1 rounded-lg">
-                <Button size="sm" variant={activeTab === 'movers' ? 'secondary' : 'ghost'} onClick={() => setActiveTab('movers')} className="px-4 py-1.5">Top Movers</Button>
-                <Button size="sm" variant={activeTab === 'valuable' ? 'secondary' : 'ghost'} onClick={() => setActiveTab('valuable')} className="px-4 py-1.5">Most Valuable</Button>
-                <Button size="sm" variant={activeTab === 'volume' ? 'secondary' : 'ghost'} onClick={() => setActiveTab('volume')} className="px-4 py-1.5">Highest Volume</Button>
+                <Button size="sm" variant={activeTab === 'movers' ? 'secondary' : 'ghost'} onClick={() => onTabChange('movers')} className="px-4 py-1.5">Top Movers</Button>
+                <Button size="sm" variant={activeTab === 'valuable' ? 'secondary' : 'ghost'} onClick={() => onTabChange('valuable')} className="px-4 py-1.5">Most Valuable</Button>
+                <Button size="sm" variant={activeTab === 'volume' ? 'secondary' : 'ghost'} onClick={() => onTabChange('volume')} className="px-4 py-1.5">Highest Volume</Button>
             </div>
         </div>
 
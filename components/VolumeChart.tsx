@@ -10,7 +10,9 @@ interface VolumeChartProps {
   isFullscreen?: boolean;
 }
 
-const CustomTooltip: React.FC<any> = ({ active, payload, label }) => {
+const HOUR_SECONDS = 60 * 60;
+
+const CustomTooltip: React.FC<any> = ({ active, payload, label, perHour }) => {
     if (active && payload && payload.length) {
       const data = payload[0].payload;
       const buyVolume = data.highPriceVolume;
@@ -22,7 +24,7 @@ const CustomTooltip: React.FC<any> = ({ active, payload, label }) => {
           <p className="font-semibold text-emerald-400">Buy Volume: {buyVolume.toLocaleString()}</p>
           <p className="font-semibold text-red-400">Sell Volume: {sellVolume.toLocaleString()}</p>
           <hr className="border-gray-600 my-1"/>
-          <p className="font-bold text-white">Total Volume: {totalVolume.toLocaleString()}</p>
+          <p className="font-bold text-white">Total Volume: {totalVolume.toLocaleString()}{perHour && ' / hr'}</p>
         </div>
       );
     }
@@ -32,10 +34,16 @@ const CustomTooltip: React.FC<any> = ({ active, payload, label }) => {
 export const VolumeChart: React.FC<VolumeChartProps> = ({ data, isInitialLoad, isFullscreen = false }) => {
   const isMobile = useMediaQuery('(max-width: 768px)');
     
+  // A stitched series mixes 5-minute to daily points, whose raw volumes aren't comparable,
+  // so its volumes are shown per hour instead.
+  const timesteps = new Set(data.map(d => d.timestep));
+  const perHour = timesteps.size > 1 && !timesteps.has(undefined);
+  const volumeScale = (d: TimeseriesData) => perHour && d.timestep ? HOUR_SECONDS / d.timestep : 1;
+
   const chartData = data.map(d => ({
     timestamp: d.timestamp,
-    highPriceVolume: d.highPriceVolume || 0,
-    lowPriceVolume: d.lowPriceVolume || 0,
+    highPriceVolume: Math.round((d.highPriceVolume || 0) * volumeScale(d)),
+    lowPriceVolume: Math.round((d.lowPriceVolume || 0) * volumeScale(d)),
   }));
 
   const hasValidVolumeData = chartData.some(d => d.highPriceVolume > 0 || d.lowPriceVolume > 0);
@@ -54,6 +62,9 @@ export const VolumeChart: React.FC<VolumeChartProps> = ({ data, isInitialLoad, i
         <CartesianGrid strokeDasharray="3 3" stroke="#374151" vertical={false} />
         <XAxis 
             dataKey="timestamp" 
+            type="number"
+            scale="time"
+            domain={['dataMin', 'dataMax']}
             axisLine={false}
             tickLine={false}
             tick={false}
@@ -67,7 +78,7 @@ export const VolumeChart: React.FC<VolumeChartProps> = ({ data, isInitialLoad, i
             tick={{ fill: '#9ca3af', fontSize: isFullscreen ? 12 : 10 }}
             width={isFullscreen ? 60 : isMobile ? 40 : 50}
         />
-        <Tooltip content={<CustomTooltip />} cursor={{fill: 'rgba(107, 114, 128, 0.2)'}}/>
+        <Tooltip content={<CustomTooltip perHour={perHour} />} cursor={{fill: 'rgba(107, 114, 128, 0.2)'}}/>
         <Legend 
             verticalAlign="top" 
             align="right" 
@@ -76,8 +87,8 @@ export const VolumeChart: React.FC<VolumeChartProps> = ({ data, isInitialLoad, i
             wrapperStyle={{ top: isFullscreen ? 10 : -5, right: 0 }}
             formatter={(value, entry) => <span className="text-gray-300 text-xs">{value}</span>}
         />
-        <Bar dataKey="highPriceVolume" name="Buy Volume" stackId="a" fill="#10b981" animationDuration={isInitialLoad ? 800 : 0} />
-        <Bar dataKey="lowPriceVolume" name="Sell Volume" stackId="a" fill="#f87171" animationDuration={isInitialLoad ? 800 : 0} />
+        <Bar dataKey="highPriceVolume" name={perHour ? 'Buy Volume / hr' : 'Buy Volume'} stackId="a" fill="#10b981" animationDuration={isInitialLoad ? 800 : 0} />
+        <Bar dataKey="lowPriceVolume" name={perHour ? 'Sell Volume / hr' : 'Sell Volume'} stackId="a" fill="#f87171" animationDuration={isInitialLoad ? 800 : 0} />
       </BarChart>
     </ResponsiveContainer>
   );
@@ -1,20 +1,28 @@
-import React from 'react';
-import type { Item, LatestPrice, TimeseriesData } from '../types';
+import React, { useMemo } from 'react';
+import type { Item } from '../types';
 import { StarIcon } from './icons/Icons';
 import { WatchlistGrid } from './WatchlistGrid';
+import { SyncStatusBadge } from './SyncStatusBadge';
 import { SkeletonCard } from './ui/Skeleton';
+import { useItems, useMarketPrices } from '../stores/MarketDataStore';
+import { useWatchlist, useWatchlistTimeseries } from '../stores/WatchlistStore';
 
 interface WatchlistProps {
-  items: Item[];
-  latestPrices: Record<string, LatestPrice>;
-  prevLatestPrices: Record<string, LatestPrice>;
   onSelectItem: (item: Item) => void;
-  timeseries: Record<string, TimeseriesData[]>;
-  toggleWatchlist: (itemId: number) => void;
-  isLoading: boolean;
 }
 
-export const Watchlist: React.FC<WatchlistProps> = ({ items, onSelectItem, latestPrices, prevLatestPrices, timeseries, toggleWatchlist, isLoading }) => {
+export const Watchlist: React.FC<WatchlistProps> = ({ onSelectItem }) => {
+  const { items: allItems } = useItems();
+  const { latestPrices, priceChanges } = useMarketPrices();
+  const { watchlist, toggleWatchlist, isLoading, syncStates, retrySync, discardSync } = useWatchlist();
+  const timeseries = useWatchlistTimeseries();
+  const items = useMemo(() => watchlist.map(id => allItems[id]).filter(Boolean), [watchlist, allItems]);
+  // Removals that haven't synced have no card of their own, so they're listed separately.
+  const unsyncedRemovals = useMemo(
+    () => Object.keys(syncStates).map(Number).filter(id => !watchlist.includes(id) && allItems[id]).map(id => allItems[id]),
+    [syncStates, watchlist, allItems]
+  );
+
   if (isLoading) {
     return (
       <div className="pt-6 md:pt-8">
@@ -26,7 +34,7 @@ export const Watchlist: React.FC<WatchlistProps> = ({ items, onSelectItem, lates
     );
   }
   
-  if (items.length === 0) {
+  if (items.length === 0 && unsyncedRemovals.length === 0) {
     return (
       <div className="text-center py-20 flex flex-col items-center">
         <StarIcon className="w-16 h-16 text-gray-600 mb-4" />
@@ -39,13 +47,26 @@ export const Watchlist: React.FC<WatchlistProps> = ({ items, onSelectItem, lates
   return (
     <div className="pt-6 md:pt-8">
       <h2 className="text-3xl font-bold text-white mb-6">Your Watchlist</h2>
+      {unsyncedRemovals.length > 0 && (
+        <ul className="mb-6 space-y-1 text-sm text-gray-400">
+          {unsyncedRemovals.map(item => (
+            <li key={item.id} className="flex flex-wrap items-center gap-2">
+              <span>Removing <span className="text-white">{item.name}</span></span>
+              <SyncStatusBadge state={syncStates[item.id]} onRetry={() => retrySync(item.id)} onDiscard={() => discardSync(item.id)} />
+            </li>
+          ))}
+        </ul>
+      )}
       <WatchlistGrid 
         items={items} 
         latestPrices={latestPrices}
-        prevLatestPrices={prevLatestPrices}
+        priceChanges={priceChanges}
         onSelectItem={onSelectItem} 
         timeseries={timeseries}
         toggleWatchlist={toggleWatchlist}
+        syncStates={syncStates}
+        onRetrySync={retrySync}
+        onDiscardSync={discardSync}
       />
     </div>
   );
@@ -1,33 +1,41 @@
-import React, { useState, useEffect } from 'react';
-import type { Item, LatestPrice, TimeseriesData } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import type { Item, LatestPrice, PriceChange, TimeseriesData } from '../types';
 import { Card } from './ui/Card';
 import { StarIcon } from './icons/Icons';
 import { getHighResImageUrl, createIconDataUrl } from '../utils/image';
 import { Sparkline } from './ui/Sparkline';
 import { Loader } from './ui/Loader';
+import { getLatestPriceChange } from '../services/priceTicker';
+import type { RowSyncState } from '../services/offlineQueue';
+import { SyncStatusBadge } from './SyncStatusBadge';
 
 interface WatchlistGridProps {
   items: Item[];
   latestPrices: Record<string, LatestPrice>;
-  prevLatestPrices: Record<string, LatestPrice>;
+  priceChanges: Record<string, PriceChange[]>;
   onSelectItem: (item: Item) => void;
   timeseries: Record<string, TimeseriesData[] | undefined>;
   toggleWatchlist: (itemId: number) => void;
+  syncStates: Record<number, RowSyncState>;
+  onRetrySync: (itemId: number) => void;
+  onDiscardSync: (itemId: number) => void;
 }
 
-const WatchlistItem: React.FC<Omit<WatchlistGridProps, 'items'> & { item: Item }> = ({ item, latestPrices, prevLatestPrices, onSelectItem, timeseries, toggleWatchlist }) => {
+const WatchlistItem: React.FC<Omit<WatchlistGridProps, 'items'> & { item: Item }> = ({ item, latestPrices, priceChanges, onSelectItem, timeseries, toggleWatchlist, syncStates, onRetrySync, onDiscardSync }) => {
     const [priceChange, setPriceChange] = useState<'up' | 'down' | null>(null);
+    const latestChange = getLatestPriceChange(priceChanges, item.id);
 
+    // Flashes when the item's high price moves. Changes from before the card mounted aren't flashed.
+    const seenChangeAt = useRef(latestChange?.at);
     useEffect(() => {
-        const currentPrice = latestPrices[item.id]?.high;
-        const prevPrice = prevLatestPrices[item.id]?.high;
-
-        if (currentPrice != null && prevPrice != null && currentPrice !== prevPrice) {
-            setPriceChange(currentPrice > prevPrice ? 'up' : 'down');
+        if (!latestChange || latestChange.at === seenChangeAt.current) return;
+        seenChangeAt.current = latestChange.at;
+        if (latestChange.highDelta) {
+            setPriceChange(latestChange.highDelta > 0 ? 'up' : 'down');
             const timer = setTimeout(() => setPriceChange(null), 1000); // Duration of the flash animation
             return () => clearTimeout(timer);
         }
-    }, [latestPrices, prevLatestPrices, item.id]);
+    }, [latestChange]);
     
     const flashClass = priceChange === 'up' ? 'flash-green' : priceChange === 'down' ? 'flash-red' : '';
     const itemTimeseries = timeseries[item.id];
@@ -50,6 +58,7 @@ const WatchlistItem: React.FC<Omit<WatchlistGridProps, 'items'> & { item: Item }
                   <p className={`text-sm text-gray-400 rounded transition-colors ${flashClass}`}>
                     Price: {latestPrices[item.id]?.high?.toLocaleString() || 'N/A'} gp
                   </p>
+                  <SyncStatusBadge state={syncStates[item.id]} onRetry={() => onRetrySync(item.id)} onDiscard={() => onDiscardSync(item.id)} />
                 </div>
                 <button
                   onClick={(e) => {
@@ -76,19 +85,12 @@ const WatchlistItem: React.FC<Omit<WatchlistGridProps, 'items'> & { item: Item }
     )
 }
 
-export const WatchlistGrid: React.FC<WatchlistGridProps> = ({ items, latestPrices, prevLatestPrices, onSelectItem, timeseries, toggleWatchlist }) => {
+export const WatchlistGrid: React.FC<WatchlistGridProps> = ({ items, ...itemProps }) => {
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
       {items.map((item, index) => (
         <div key={item.id} className="animate-fade-slide-in" style={{ animationDelay: `${index * 50}ms` }}>
-            <WatchlistItem
-                item={item}
-                latestPrices={latestPrices}
-                prevLatestPrices={prevLatestPrices}
-                onSelectItem={onSelectItem}
-                timeseries={timeseries}
-                toggleWatchlist={toggleWatchlist}
-            />
+            <WatchlistItem item={item} {...itemProps} />
         </div>
       ))}
     </div>
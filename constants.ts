@@ -1,4 +1,19 @@
 
 
-export const OSRS_WIKI_API_BASE_URL = 'https://prices.runescape.wiki/api/v1/osrs';
+import type { GameMode } from './types';
+
+// Set VITE_OSRS_WIKI_API_URL to point the app at another server, e.g. the local stand-in
+// (`npm run wiki:stand-in`) for offline development.
+export const OSRS_WIKI_API_ROOT_URL: string = (import.meta as any).env.VITE_OSRS_WIKI_API_URL || 'https://prices.runescape.wiki/api/v1';
+// Each game mode has its own economy, served from a separate prices API.
+export const GAME_MODES: Record<GameMode, { label: string; apiPath: string }> = {
+  osrs: { label: 'Main Game', apiPath: 'osrs' },
+  dmm: { label: 'Deadman', apiPath: 'dmm' },
+  fsw: { label: 'Fresh Start', apiPath: 'fsw' },
+};
+export const DEFAULT_GAME_MODE: GameMode = 'osrs';
+// How often live prices are refreshed while the tab is visible, in seconds.
+export const PRICE_REFRESH_INTERVALS = [30, 60, 120, 300];
+export const DEFAULT_PRICE_REFRESH_SECONDS = 30;
 export const FREE_USER_ALERT_LIMIT = 10;
+export const MAX_ALERT_WEBHOOKS = 5;
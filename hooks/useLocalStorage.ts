@@ -1,34 +1,95 @@
-import { useState, useEffect, Dispatch, SetStateAction } from 'react';
+import { useState, useEffect, useRef, Dispatch, SetStateAction } from 'react';
+import { mergeArrays } from '../utils/mergeArrays';
 
-export function useLocalStorage<T,>(key: string, initialValue: T): [T, Dispatch<SetStateAction<T>>] {
+export interface LocalStorageOptions<T> {
+  // Whether the value follows changes made in the app's other open tabs. Defaults to true.
+  syncTabs?: boolean;
+  // Identifies an element of an array value. With it, edits made in another tab at the same time
+  // are merged with this tab's instead of being overwritten by whichever tab writes last.
+  mergeBy?: T extends (infer Item)[] ? (item: Item) => string | number : never;
+}
+
+// The value as last read from or written to storage, i.e. what this tab and the others agree on.
+interface SyncedValue<T> {
+  raw: string | null;
+  value: T;
+}
+
+const readValue = <T,>(key: string, raw: string | null, initialValue: T): T => {
+  // If item doesn't exist or was incorrectly stored as "undefined", use initial value.
+  if (raw === null || raw === 'undefined') {
+    return initialValue;
+  }
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    // If parsing fails, the data is corrupt. Log it, remove it, and fall back.
+    console.error(`Error parsing localStorage key "${key}":`, error);
+    window.localStorage.removeItem(key); // This makes the hook self-healing.
+    return initialValue;
+  }
+};
+
+export function useLocalStorage<T,>(key: string, initialValue: T, options: LocalStorageOptions<T> = {}): [T, Dispatch<SetStateAction<T>>] {
+  const { syncTabs = true } = options;
+  const mergeBy = options.mergeBy as ((item: unknown) => string | number) | undefined;
+  const synced = useRef<SyncedValue<T> | null>(null);
   const [storedValue, setStoredValue] = useState<T>(() => {
-    try {
-      const item = window.localStorage.getItem(key);
-      // If item doesn't exist or was incorrectly stored as "undefined", use initial value.
-      if (item === null || item === 'undefined') {
-        return initialValue;
-      }
-      return JSON.parse(item);
-    } catch (error) {
-      // If parsing fails, the data is corrupt. Log it, remove it, and fall back.
-      console.error(`Error parsing localStorage key "${key}":`, error);
-      window.localStorage.removeItem(key); // This makes the hook self-healing.
-      return initialValue;
-    }
+    const raw = window.localStorage.getItem(key);
+    const value = readValue(key, raw, initialValue);
+    synced.current = { raw, value };
+    return value;
   });
 
+  // Merges edits this tab hasn't written yet into a value another tab wrote.
+  const mergeInto = (theirs: T, current: T, base: SyncedValue<T>): T => {
+    if (current === base.value) return theirs;
+    if (!mergeBy || !Array.isArray(current) || !Array.isArray(base.value) || !Array.isArray(theirs)) return current;
+    return mergeArrays(base.value, current, theirs, mergeBy) as T;
+  };
+
   useEffect(() => {
     try {
+      const base = synced.current!;
+      const currentRaw = window.localStorage.getItem(key);
+      let value = storedValue;
+      // Another tab wrote since this one last synced, and its `storage` event hasn't arrived yet.
+      if (syncTabs && currentRaw !== base.raw) {
+        value = mergeInto(readValue(key, currentRaw, initialValue), storedValue, base);
+      }
       // Prevent storing `undefined`, which gets stringified to "undefined".
-      if (storedValue === undefined) {
-        window.localStorage.removeItem(key);
-      } else {
-        window.localStorage.setItem(key, JSON.stringify(storedValue));
+      const raw = value === undefined ? null : JSON.stringify(value);
+      if (raw !== currentRaw) {
+        if (raw === null) {
+          window.localStorage.removeItem(key);
+        } else {
+          window.localStorage.setItem(key, raw);
+        }
       }
+      synced.current = { raw, value };
+      if (value !== storedValue) setStoredValue(value);
     } catch (error) {
       console.error(`Error setting localStorage key "${key}":`, error);
     }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [key, storedValue]);
 
+  // `storage` events fire in every other tab on the same origin whenever one of them writes.
+  useEffect(() => {
+    if (!syncTabs) return;
+    const handleStorage = (event: StorageEvent) => {
+      // A null key means another tab cleared localStorage entirely.
+      if (event.storageArea !== window.localStorage || (event.key !== null && event.key !== key)) return;
+      const raw = event.key === null ? null : event.newValue;
+      const base = synced.current!;
+      const theirs = readValue(key, raw, initialValue);
+      synced.current = { raw, value: theirs };
+      setStoredValue(current => mergeInto(theirs, current, base));
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key, syncTabs]);
+
   return [storedValue, setStoredValue];
 }
@@ -0,0 +1,67 @@
+import { useEffect, useRef } from 'react';
+import type { ReplayResult } from '../services/offlineQueue';
+import { replayQueuedMutations, getNextReplayAt, subscribeToQueue } from '../services/offlineQueue';
+import { broadcastTableChange } from '../services/tabSync';
+import { useOnlineStatus } from './useOnlineStatus';
+import { useGameMode } from '../stores/GameModeStore';
+import { useSession } from '../stores/SessionStore';
+import { useProgression } from '../stores/ProgressionStore';
+import { useWatchlist } from '../stores/WatchlistStore';
+import { usePortfolio } from '../stores/PortfolioStore';
+
+// Syncs queued edits whenever we're online with a session (including on startup), retrying
+// failed ones as their backoff runs out. After edits sync, reloads the watchlist and portfolio so
+// temporary IDs are replaced by the real rows, and tells the other open tabs to do the same.
+export const useOfflineSync = () => {
+  const isOnline = useOnlineStatus();
+  const { gameMode } = useGameMode();
+  const { session, refreshProfile } = useSession();
+  const { addNotifications } = useProgression();
+  const { reload: reloadWatchlist } = useWatchlist();
+  const { reload: reloadPortfolio } = usePortfolio();
+
+  // Kept in a ref so a re-render doesn't restart the sync loop.
+  const handleReplayed = useRef<(result: ReplayResult) => void>(() => {});
+  handleReplayed.current = ({ replayed, progressionEvents }) => {
+    if (replayed > 0 && session) {
+      reloadWatchlist();
+      reloadPortfolio();
+      broadcastTableChange('watchlist', session.user.id, gameMode);
+      broadcastTableChange('investments', session.user.id, gameMode);
+    }
+    // Sales that synced earn their XP now.
+    if (progressionEvents.length > 0) {
+      addNotifications(progressionEvents);
+      refreshProfile();
+    }
+  };
+
+  useEffect(() => {
+    if (!isOnline || !session) return;
+    let cancelled = false;
+    let timer: number | undefined;
+
+    const scheduleReplay = () => {
+      window.clearTimeout(timer);
+      const dueAt = getNextReplayAt();
+      if (dueAt !== null) timer = window.setTimeout(() => replay(), Math.max(0, dueAt - Date.now()));
+    };
+
+    const replay = async (ignoreBackoff = false) => {
+      const result = await replayQueuedMutations({ ignoreBackoff });
+      if (cancelled) return;
+      handleReplayed.current(result);
+      scheduleReplay();
+    };
+
+    // Reconnecting (or logging in) retries everything straight away rather than waiting out the backoff.
+    replay(true);
+    // Edits queued from now on (in this tab or another) are picked up as soon as they're due.
+    const unsubscribe = subscribeToQueue(scheduleReplay);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [isOnline, session]);
+};
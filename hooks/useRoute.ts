@@ -0,0 +1,40 @@
+import { useState, useEffect, useCallback } from 'react';
+import { parseRoute, buildPath, type Route } from '../utils/routes';
+
+export interface NavigateOptions {
+  // Replace the current history entry instead of adding one, e.g. for filters within a page.
+  replace?: boolean;
+}
+
+const currentPath = () => `${window.location.pathname}${window.location.search}`;
+
+// Keeps the current route in sync with the browser URL, including back/forward navigation.
+export const useRoute = () => {
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location));
+
+  useEffect(() => {
+    // Rewrite legacy hash links and non-canonical URLs to the route's own address.
+    const canonicalPath = buildPath(parseRoute(window.location));
+    if (canonicalPath !== currentPath() || window.location.hash) {
+      window.history.replaceState(null, '', canonicalPath);
+    }
+
+    const handlePopState = () => setRoute(parseRoute(window.location));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const navigate = useCallback((next: Route, { replace = false }: NavigateOptions = {}) => {
+    const path = buildPath(next);
+    if (path !== currentPath()) {
+      if (replace) {
+        window.history.replaceState(null, '', path);
+      } else {
+        window.history.pushState(null, '', path);
+      }
+    }
+    setRoute(next);
+  }, []);
+
+  return { route, navigate };
+};
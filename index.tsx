@@ -14,3 +14,13 @@ root.render(
     <App />
   </React.StrictMode>
 );
+
+// The service worker caches the app shell and last-known prices for offline use (see public/sw.js).
+// It's only registered in production builds so it never serves stale modules to the dev server.
+if ((import.meta as any).env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.error('Service worker registration failed:', error);
+    });
+  });
+}
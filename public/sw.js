@@ -0,0 +1,108 @@
+// GE Pulse service worker. Precaches the app shell so the app opens offline, and keeps the
+// last-known wiki mapping/prices so the UI can show them (with a staleness banner) until the
+// connection returns. Registered from index.tsx in production builds.
+
+const SHELL_CACHE = 'ge-pulse-shell-v2'; // v1 cached every navigated URL; dropped on activate
+const API_CACHE = 'ge-pulse-api-v2'; // v1 cached every wiki endpoint; dropped on activate
+const CURRENT_CACHES = [SHELL_CACHE, API_CACHE];
+
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+
+// Wiki price API endpoints worth serving from cache when offline: the item mapping and latest prices,
+// one response per game mode, which are all the app needs to open offline. Other endpoints (aggregates,
+// timeseries, historical windows) vary by item and timestamp, so caching them here would grow without
+// bound; the app's own IndexedDB cache (services/apiCache.ts) keeps those. Matches the real API and the
+// local stand-in (scripts/wiki-api-stand-in.mjs), which share the same paths.
+const WIKI_API_PATH = /\/api\/v1\/(osrs|dmm|fsw)\/(mapping|latest)$/;
+
+// Third-party hosts the app shell loads from (the Tailwind CDN and the esm.sh import map).
+const SHELL_CDN_HOSTS = ['cdn.tailwindcss.com', 'esm.sh'];
+
+// The built index.html references hashed bundles under /assets; precache whatever it points at.
+const precacheShellAssets = async (cache) => {
+    const response = await fetch('/', { cache: 'no-store' });
+    if (!response.ok) return;
+    const html = await response.clone().text();
+    const assetUrls = [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map(match => match[1]);
+    await cache.addAll([...new Set(assetUrls)]);
+};
+
+self.addEventListener('install', event => {
+    event.waitUntil((async () => {
+        const cache = await caches.open(SHELL_CACHE);
+        await cache.addAll(SHELL_URLS);
+        try {
+            await precacheShellAssets(cache);
+        } catch (error) {
+            // Assets are also cached on first use, so a failure here isn't fatal.
+            console.warn('Failed to precache app assets:', error);
+        }
+        await self.skipWaiting();
+    })());
+});
+
+self.addEventListener('activate', event => {
+    event.waitUntil((async () => {
+        const cacheNames = await caches.keys();
+        await Promise.all(cacheNames.filter(name => !CURRENT_CACHES.includes(name)).map(name => caches.delete(name)));
+        await self.clients.claim();
+    })());
+});
+
+// cacheKey stores responses for many requests under one entry, e.g. every navigation under /index.html.
+const networkFirst = async (request, cacheName, cacheKey = request) => {
+    const cache = await caches.open(cacheName);
+    try {
+        const response = await fetch(request);
+        if (response.ok) cache.put(cacheKey, response.clone());
+        return response;
+    } catch (error) {
+        const cached = await cache.match(cacheKey);
+        if (cached) return cached;
+        throw error;
+    }
+};
+
+const cacheFirst = async (request, cacheName) => {
+    const cache = await caches.open(cacheName);
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+};
+
+const staleWhileRevalidate = async (request, cacheName) => {
+    const cache = await caches.open(cacheName);
+    const cached = await cache.match(request);
+    const network = fetch(request).then(response => {
+        // CDN scripts are loaded without CORS, so their responses are opaque (status 0).
+        if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+        return response;
+    });
+    if (cached) {
+        network.catch(() => {});
+        return cached;
+    }
+    return network;
+};
+
+self.addEventListener('fetch', event => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+    const url = new URL(request.url);
+
+    if (request.mode === 'navigate') {
+        // Every route (/item/<id>, /profile/<name>, ...) is served by the same index.html, so it's cached once.
+        event.respondWith(networkFirst(request, SHELL_CACHE, '/index.html'));
+    } else if (WIKI_API_PATH.test(url.pathname)) {
+        event.respondWith(networkFirst(request, API_CACHE));
+    } else if (url.origin === self.location.origin && url.pathname.startsWith('/assets/')) {
+        // Built assets have content hashes in their names, so a cached copy is never out of date.
+        event.respondWith(cacheFirst(request, SHELL_CACHE));
+    } else if (url.origin === self.location.origin && SHELL_URLS.includes(url.pathname)) {
+        event.respondWith(networkFirst(request, SHELL_CACHE));
+    } else if (SHELL_CDN_HOSTS.includes(url.hostname)) {
+        event.respondWith(staleWhileRevalidate(request, SHELL_CACHE));
+    }
+});
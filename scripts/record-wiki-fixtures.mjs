@@ -0,0 +1,49 @@
+// Re-records the fixtures served by the wiki API stand-in from the live OSRS Wiki prices API.
+// Usage: npm run wiki:record
+//   ITEM_IDS=2,561,4151 items to record (defaults to the items already in the fixtures)
+//   GAME_MODE=osrs      which economy to record
+import { readFileSync, writeFileSync } from 'node:fs';
+
+const fixturePath = name => new URL(`./fixtures/wiki-api/${name}.json`, import.meta.url);
+const gameMode = process.env.GAME_MODE ?? 'osrs';
+const baseUrl = `https://prices.runescape.wiki/api/v1/${gameMode}`;
+
+const itemIds = new Set(
+    process.env.ITEM_IDS
+        ? process.env.ITEM_IDS.split(',').map(id => Number(id.trim()))
+        : JSON.parse(readFileSync(fixturePath('mapping'), 'utf8')).map(item => item.id)
+);
+
+const fetchJson = async endpoint => {
+    // The wiki asks for a descriptive User-Agent, which (unlike the browser) we can set here.
+    const response = await fetch(`${baseUrl}${endpoint}`, {
+        headers: { 'User-Agent': 'GE Pulse fixture recorder' },
+    });
+    if (!response.ok) {
+        throw new Error(`${endpoint} responded ${response.status} ${response.statusText}`);
+    }
+    return response.json();
+};
+
+const pickItems = data => Object.fromEntries(Object.entries(data).filter(([id]) => itemIds.has(Number(id))));
+
+const [mapping, latest, oneHour, twentyFourHour] = await Promise.all(
+    ['/mapping', '/latest', '/1h', '/24h'].map(fetchJson)
+);
+
+const fixtures = {
+    mapping: mapping.filter(item => itemIds.has(item.id)),
+    latest: { ...latest, data: pickItems(latest.data) },
+    '1h': { ...oneHour, data: pickItems(oneHour.data) },
+    '24h': { ...twentyFourHour, data: pickItems(twentyFourHour.data) },
+};
+
+Object.entries(fixtures).forEach(([name, fixture]) => {
+    writeFileSync(fixturePath(name), `${JSON.stringify(fixture, null, 2)}\n`);
+});
+
+const missing = [...itemIds].filter(id => !fixtures.latest.data[id]);
+console.log(`Recorded ${fixtures.mapping.length} items from ${baseUrl}.`);
+if (missing.length > 0) {
+    console.warn(`No latest price for: ${missing.join(', ')}. The stand-in will leave these out of /latest.`);
+}
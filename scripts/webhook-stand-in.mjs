@@ -0,0 +1,64 @@
+// A local stand-in for a Discord webhook, for testing alert delivery without a real server.
+// Usage: npm run webhook:stand-in, then add http://localhost:8787/webhook in Profile Settings.
+//   PORT=8787          port to listen on
+//   FAIL_FIRST=2       respond 500 to the first N requests to exercise retries
+//   RATE_LIMIT_FIRST=1 respond 429 (with Retry-After) to the first N requests
+import http from 'node:http';
+
+const port = Number(process.env.PORT ?? 8787);
+let failRemaining = Number(process.env.FAIL_FIRST ?? 0);
+let rateLimitRemaining = Number(process.env.RATE_LIMIT_FIRST ?? 0);
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Expose-Headers': 'Retry-After',
+};
+
+const server = http.createServer((req, res) => {
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204, corsHeaders);
+        res.end();
+        return;
+    }
+    if (req.method !== 'POST') {
+        res.writeHead(405, corsHeaders);
+        res.end();
+        return;
+    }
+
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+        const time = new Date().toLocaleTimeString();
+        if (rateLimitRemaining > 0) {
+            rateLimitRemaining--;
+            console.log(`[${time}] ${req.url} -> 429 (simulated rate limit)`);
+            res.writeHead(429, { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': '1' });
+            res.end(JSON.stringify({ message: 'You are being rate limited.', retry_after: 1 }));
+            return;
+        }
+        if (failRemaining > 0) {
+            failRemaining--;
+            console.log(`[${time}] ${req.url} -> 500 (simulated failure)`);
+            res.writeHead(500, corsHeaders);
+            res.end();
+            return;
+        }
+
+        try {
+            console.log(`[${time}] ${req.url} -> 204`);
+            console.log(JSON.stringify(JSON.parse(body), null, 2));
+            res.writeHead(204, corsHeaders);
+        } catch {
+            console.log(`[${time}] ${req.url} -> 400 (invalid JSON)`);
+            res.writeHead(400, corsHeaders);
+        }
+        res.end();
+    });
+});
+
+server.listen(port, () => {
+    console.log(`Webhook stand-in listening on http://localhost:${port}/webhook`);
+});
@@ -0,0 +1,187 @@
+// A local stand-in for the OSRS Wiki prices API, for developing and demoing offline.
+// Usage: npm run wiki:stand-in, then start the app with
+//   VITE_OSRS_WIKI_API_URL=http://localhost:8788/api/v1 npm run dev
+//   PORT=8788       port to listen on
+//   SPEED=1         simulated market minutes per real minute, e.g. 60 to play an hour per minute
+//   VOLATILITY=0.03 how far (as a fraction) prices drift from the recorded price
+//   SEED=1          changes the simulated price paths; the same seed always replays the same market
+//
+// Item data and the starting prices/volumes come from the recorded fixtures in fixtures/wiki-api
+// (refresh them with `npm run wiki:record`). From there, prices follow a deterministic path that
+// depends only on the seed, the game mode and how long the server has been running, so every run
+// of a demo sees the same movement. /timeseries history is generated from the same path, so
+// charts, /latest and the aggregates always agree with each other.
+import http from 'node:http';
+import { readFileSync } from 'node:fs';
+
+const port = Number(process.env.PORT ?? 8788);
+const speed = Number(process.env.SPEED ?? 1);
+const volatility = Number(process.env.VOLATILITY ?? 0.03);
+const seed = process.env.SEED ?? '1';
+
+const readFixture = name => JSON.parse(readFileSync(new URL(`./fixtures/wiki-api/${name}.json`, import.meta.url), 'utf8'));
+const mapping = readFixture('mapping');
+const recordedLatest = readFixture('latest').data;
+const recorded1h = readFixture('1h').data;
+const recorded24h = readFixture('24h').data;
+
+const startedAt = Math.floor(Date.now() / 1000);
+const GAME_MODES = ['osrs', 'dmm', 'fsw'];
+const TIMESTEPS = { '5m': 300, '1h': 3600, '6h': 21600, '24h': 86400 };
+const TIMESERIES_POINTS = 365; // The live API returns at most this many points
+
+// --- Deterministic price model ---
+
+// A stable hash of its arguments to a number in [0, 1).
+const hash = (...parts) => {
+    let h = 2166136261;
+    for (const char of [seed, ...parts].join(':')) {
+        h = Math.imul(h ^ char.charCodeAt(0), 16777619);
+    }
+    h = Math.imul(h ^ (h >>> 15), 2246822507);
+    h = Math.imul(h ^ (h >>> 13), 3266489909);
+    return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+};
+
+// Cycles of roughly 2h, 9h and 31h of simulated time, with a per-item phase and weight.
+const WAVES = [2, 9, 31].map(hours => (2 * Math.PI) / (hours * 3600));
+
+// How far the item's price has moved from its recorded price at `timestamp` (seconds).
+// Simulated time starts at zero when the server starts and runs SPEED times faster than real time.
+const priceMultiplier = (gameMode, itemId, timestamp) => {
+    const t = (timestamp - startedAt) * speed;
+    let drift = 0;
+    WAVES.forEach((omega, i) => {
+        const phase = hash(gameMode, itemId, 'phase', i) * 2 * Math.PI;
+        const weight = 0.5 + hash(gameMode, itemId, 'weight', i);
+        drift += weight * (Math.sin(omega * t + phase) - Math.sin(phase));
+    });
+    // A little noise per simulated five minutes, so short charts aren't perfectly smooth.
+    const noise = hash(gameMode, itemId, 'noise', Math.floor(t / 300)) - 0.5;
+    // Other game modes are separate economies, so their prices start from a different level.
+    const modeOffset = gameMode === 'osrs' ? 0 : (hash(gameMode, itemId, 'offset') - 0.5) * 0.4;
+    return Math.max(0.05, 1 + modeOffset + (volatility / 3) * drift + (volatility / 5) * noise);
+};
+
+const pricesAt = (gameMode, itemId, timestamp) => {
+    const recorded = recordedLatest[itemId];
+    const multiplier = priceMultiplier(gameMode, itemId, timestamp);
+    const scale = price => (price === null ? null : Math.max(1, Math.round(price * multiplier)));
+    return { high: scale(recorded.high), low: scale(recorded.low) };
+};
+
+// Scales a recorded volume to `seconds` of trading, with some variation between windows.
+const volumeFor = (gameMode, itemId, recordedVolume, recordedSeconds, seconds, windowStart) => {
+    const variation = 0.6 + 0.8 * hash(gameMode, itemId, 'volume', seconds, windowStart);
+    return Math.round((recordedVolume * seconds / recordedSeconds) * variation);
+};
+
+// Average prices and volumes for the window [start, start + seconds).
+const aggregateFor = (gameMode, itemId, start, seconds) => {
+    const { high, low } = pricesAt(gameMode, itemId, start + seconds / 2);
+    const [volumes, recordedSeconds] = seconds >= TIMESTEPS['6h']
+        ? [recorded24h[itemId], TIMESTEPS['24h']]
+        : [recorded1h[itemId], TIMESTEPS['1h']];
+    const highPriceVolume = volumes ? volumeFor(gameMode, itemId, volumes.highPriceVolume, recordedSeconds, seconds, start) : 0;
+    const lowPriceVolume = volumes ? volumeFor(gameMode, itemId, volumes.lowPriceVolume, recordedSeconds, seconds, start + 1) : 0;
+    return {
+        avgHighPrice: highPriceVolume > 0 ? high : null,
+        highPriceVolume,
+        avgLowPrice: lowPriceVolume > 0 ? low : null,
+        lowPriceVolume,
+    };
+};
+
+// --- Endpoints ---
+
+const now = () => Math.floor(Date.now() / 1000);
+const itemIds = Object.keys(recordedLatest);
+
+const latest = (gameMode, params) => {
+    const ids = params.has('id') ? [params.get('id')] : itemIds;
+    const time = now();
+    const data = {};
+    ids.filter(id => recordedLatest[id]).forEach(id => {
+        const { high, low } = pricesAt(gameMode, id, time);
+        data[id] = {
+            high,
+            highTime: high === null ? null : time - Math.floor(hash(gameMode, id, 'highTime', Math.floor(time / 60)) * 120),
+            low,
+            lowTime: low === null ? null : time - Math.floor(hash(gameMode, id, 'lowTime', Math.floor(time / 60)) * 120),
+        };
+    });
+    return { data };
+};
+
+// /5m, /1h and /24h. Without `timestamp`, returns the most recent complete window.
+const aggregate = (gameMode, timestep, params) => {
+    const seconds = TIMESTEPS[timestep];
+    const requested = Number(params.get('timestamp'));
+    const start = requested > 0 ? requested - (requested % seconds) : now() - (now() % seconds) - seconds;
+    const data = {};
+    itemIds.forEach(id => {
+        data[id] = aggregateFor(gameMode, id, start, seconds);
+    });
+    return { data, timestamp: start };
+};
+
+const timeseries = (gameMode, params) => {
+    const seconds = TIMESTEPS[params.get('timestep')];
+    const id = params.get('id');
+    if (!seconds || !id) return null;
+    if (!recordedLatest[id]) return { data: [], itemId: Number(id) };
+
+    const lastStart = now() - (now() % seconds) - seconds;
+    const data = [];
+    for (let i = TIMESERIES_POINTS - 1; i >= 0; i--) {
+        const timestamp = lastStart - i * seconds;
+        data.push({ timestamp, ...aggregateFor(gameMode, id, timestamp, seconds) });
+    }
+    return { data, itemId: Number(id) };
+};
+
+const route = (gameMode, endpoint, params) => {
+    switch (endpoint) {
+        case 'mapping': return mapping;
+        case 'latest': return latest(gameMode, params);
+        case '5m':
+        case '1h':
+        case '24h': return aggregate(gameMode, endpoint, params);
+        case 'timeseries': return timeseries(gameMode, params);
+        default: return null;
+    }
+};
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+};
+
+const server = http.createServer((req, res) => {
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204, corsHeaders);
+        res.end();
+        return;
+    }
+
+    const url = new URL(req.url ?? '/', `http://localhost:${port}`);
+    const [, api, version, gameMode, endpoint] = url.pathname.split('/');
+    const body = req.method === 'GET' && api === 'api' && version === 'v1' && GAME_MODES.includes(gameMode)
+        ? route(gameMode, endpoint, url.searchParams)
+        : null;
+
+    const time = new Date().toLocaleTimeString();
+    if (body === null) {
+        console.log(`[${time}] ${req.method} ${url.pathname}${url.search} -> 404`);
+        res.writeHead(404, { ...corsHeaders, 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Not found' }));
+        return;
+    }
+    console.log(`[${time}] ${req.method} ${url.pathname}${url.search} -> 200`);
+    res.writeHead(200, { ...corsHeaders, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+});
+
+server.listen(port, () => {
+    console.log(`Wiki API stand-in listening on http://localhost:${port}/api/v1 (${itemIds.length} items, speed ${speed}x, seed ${seed})`);
+});
@@ -0,0 +1,182 @@
+// A small IndexedDB-backed cache for wiki API responses.
+// Entries are stored with the time they were fetched; callers decide what "fresh" means
+// via a per-endpoint TTL. If IndexedDB isn't available (e.g. private browsing in some
+// browsers), every read misses and every write is a no-op, so callers just hit the network.
+// Entries that haven't been refetched for a week are dropped, and so are the oldest ones past
+// a cap, so responses that are never refetched (e.g. finished price windows) don't pile up.
+
+const DB_NAME = 'ge-pulse-cache';
+const DB_VERSION = 3; // Bump to discard cached data when the stored shape changes
+const STORE_NAME = 'responses';
+const FETCHED_AT_INDEX = 'fetchedAt';
+const MAX_ENTRY_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_ENTRIES = 500;
+const WRITES_BETWEEN_PRUNES = 50;
+
+interface CacheEntry<T> {
+    key: string;
+    data: T;
+    fetchedAt: number;
+}
+
+export interface CachedFetchOptions<T> {
+    // Called with fresh data when a stale cache entry is revalidated in the background.
+    onRevalidate?: (data: T) => void;
+    // Called when a stale cache entry is returned, with its background revalidation, which rejects if the
+    // refetch fails. Lets callers that combine several requests wait for all their revalidations.
+    onRevalidateStart?: (revalidation: Promise<T>) => void;
+    // Skips the cache read and always waits for the network. The result is still cached.
+    forceRefresh?: boolean;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+let writesSincePrune = 0;
+// Background revalidations in progress, so callers that read the same stale entry while it's being
+// refetched share the request and all get the fresh data.
+const pendingRevalidations = new Map<string, Promise<unknown>>();
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+    if (!dbPromise) {
+        dbPromise = new Promise(resolve => {
+            if (typeof indexedDB === 'undefined') {
+                resolve(null);
+                return;
+            }
+            try {
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    if (db.objectStoreNames.contains(STORE_NAME)) {
+                        db.deleteObjectStore(STORE_NAME);
+                    }
+                    db.createObjectStore(STORE_NAME, { keyPath: 'key' }).createIndex(FETCHED_AT_INDEX, 'fetchedAt');
+                };
+                request.onsuccess = () => {
+                    resolve(request.result);
+                    pruneEntries(request.result);
+                };
+                request.onerror = () => {
+                    console.warn('Failed to open the API cache, continuing without it:', request.error);
+                    resolve(null);
+                };
+            } catch (error) {
+                console.warn('Failed to open the API cache, continuing without it:', error);
+                resolve(null);
+            }
+        });
+    }
+    return dbPromise;
+};
+
+// Deletes entries older than the maximum age, then the oldest ones beyond the cap. Runs in the
+// background; a failed prune is retried on a later one.
+const pruneEntries = (db: IDBDatabase) => {
+    writesSincePrune = 0;
+    try {
+        const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+        const countRequest = store.count();
+        countRequest.onsuccess = () => {
+            let excess = countRequest.result - MAX_ENTRIES;
+            const cutoff = Date.now() - MAX_ENTRY_AGE_MS;
+            // Oldest first, stopping at the first entry that's young enough and within the cap.
+            const cursorRequest = store.index(FETCHED_AT_INDEX).openKeyCursor();
+            cursorRequest.onsuccess = () => {
+                const cursor = cursorRequest.result;
+                if (!cursor || (excess <= 0 && (cursor.key as number) >= cutoff)) return;
+                store.delete(cursor.primaryKey);
+                excess--;
+                cursor.continue();
+            };
+        };
+    } catch (error) {
+        console.warn('Failed to prune the API cache:', error);
+    }
+};
+
+const readEntry = async <T,>(key: string): Promise<CacheEntry<T> | null> => {
+    const db = await openDatabase();
+    if (!db) return null;
+    return new Promise(resolve => {
+        try {
+            const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key);
+            request.onsuccess = () => resolve(request.result ?? null);
+            request.onerror = () => resolve(null);
+        } catch {
+            resolve(null);
+        }
+    });
+};
+
+const writeEntry = async <T,>(key: string, data: T): Promise<void> => {
+    const db = await openDatabase();
+    if (!db) return;
+    return new Promise(resolve => {
+        try {
+            const transaction = db.transaction(STORE_NAME, 'readwrite');
+            transaction.objectStore(STORE_NAME).put({ key, data, fetchedAt: Date.now() } satisfies CacheEntry<T>);
+            transaction.oncomplete = () => {
+                if (++writesSincePrune >= WRITES_BETWEEN_PRUNES) pruneEntries(db);
+                resolve();
+            };
+            transaction.onerror = () => {
+                console.warn(`Failed to cache ${key}:`, transaction.error);
+                resolve();
+            };
+        } catch (error) {
+            console.warn(`Failed to cache ${key}:`, error);
+            resolve();
+        }
+    });
+};
+
+const fetchAndStore = async <T,>(key: string, fetcher: () => Promise<T>): Promise<T> => {
+    const data = await fetcher();
+    // Don't make the caller wait on the cache write.
+    writeEntry(key, data);
+    return data;
+};
+
+/**
+ * Fetches data with a stale-while-revalidate strategy.
+ * - Fresh cache hit (younger than `ttl`): returns the cached data without a network request.
+ * - Stale cache hit: returns the cached data immediately, then refetches in the background
+ *   and passes the new data to `onRevalidate`. Callers that read the entry while it's being
+ *   refetched share that request, and each gets the new data.
+ * - Cache miss: waits for the network.
+ * @param key A unique cache key for the request.
+ * @param ttl How long, in ms, a cached entry is considered fresh.
+ * @param fetcher Fetches the data from the network.
+ * @param options Revalidation callback and cache bypass.
+ * @returns The cached or freshly fetched data.
+ */
+export const cachedFetch = async <T,>(
+    key: string,
+    ttl: number,
+    fetcher: () => Promise<T>,
+    options: CachedFetchOptions<T> = {}
+): Promise<T> => {
+    if (options.forceRefresh) {
+        return fetchAndStore(key, fetcher);
+    }
+
+    const entry = await readEntry<T>(key);
+    if (!entry) {
+        return fetchAndStore(key, fetcher);
+    }
+
+    if (Date.now() - entry.fetchedAt >= ttl) {
+        let revalidation = pendingRevalidations.get(key) as Promise<T> | undefined;
+        if (!revalidation) {
+            revalidation = fetchAndStore(key, fetcher).finally(() => pendingRevalidations.delete(key));
+            pendingRevalidations.set(key, revalidation);
+            revalidation.catch(error => {
+                if (error?.name !== 'AbortError') console.warn(`Background revalidation failed for ${key}:`, error);
+            });
+        }
+        // Failures are logged above, once for everyone waiting.
+        if (options.onRevalidate) revalidation.then(options.onRevalidate, () => {});
+        options.onRevalidateStart?.(revalidation);
+    }
+
+    return entry.data;
+};
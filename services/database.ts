@@ -1,16 +1,19 @@
-import { supabase, Json } from './supabase';
-import type { Profile, Investment, LeaderboardEntry, LeaderboardTimeRange, AppStats, StatsTimeRange, ProgressionNotificationData, Achievement, UserProgressStats, Post, FlipData, Comment, SearchedProfile } from '../types';
+import { supabase, Json, Database } from './supabase';
+import { FREE_USER_ALERT_LIMIT } from '../constants';
+import type { GameMode, Profile, Investment, InvestmentUpdates, LotSales, PriceAlert, PriceAlertDraft, PriceAlertState, TriggeredAlert, LeaderboardEntry, LeaderboardTimeRange, AppStats, StatsTimeRange, ProgressionNotificationData, Achievement, UserProgressStats, Post, FlipData, Comment, SearchedProfile } from '../types';
 
 /**
  * Fetches the item IDs from the current user's watchlist.
  * @param userId The ID of the user.
+ * @param gameMode The game mode whose watchlist to fetch.
  * @returns A promise that resolves to an array of item IDs.
  */
-export const fetchUserWatchlist = async (userId: string): Promise<number[]> => {
+export const fetchUserWatchlist = async (userId: string, gameMode: GameMode): Promise<number[]> => {
     const { data, error } = await supabase
         .from('watchlists')
         .select('item_id')
-        .eq('user_id', userId);
+        .eq('user_id', userId)
+        .eq('game_mode', gameMode);
 
     if (error) {
         console.error('Error fetching watchlist:', error);
@@ -24,12 +27,13 @@ export const fetchUserWatchlist = async (userId: string): Promise<number[]> => {
  * Adds a new item to the user's watchlist in the database.
  * @param userId The ID of the user.
  * @param itemId The ID of the item to add.
+ * @param gameMode The game mode whose watchlist to add to.
  * @returns A promise that resolves when the operation is complete.
  */
-export const addToWatchlist = async (userId: string, itemId: number) => {
+export const addToWatchlist = async (userId: string, itemId: number, gameMode: GameMode) => {
     const { error } = await supabase
         .from('watchlists')
-        .insert({ user_id: userId, item_id: itemId });
+        .insert({ user_id: userId, item_id: itemId, game_mode: gameMode });
 
     if (error) {
         console.error('Error adding to watchlist:', error);
@@ -41,13 +45,14 @@ export const addToWatchlist = async (userId: string, itemId: number) => {
  * Removes an item from the user's watchlist in the database.
  * @param userId The ID of the user.
  * @param itemId The ID of the item to remove.
+ * @param gameMode The game mode whose watchlist to remove from.
  * @returns A promise that resolves when the operation is complete.
  */
-export const removeFromWatchlist = async (userId: string, itemId: number) => {
+export const removeFromWatchlist = async (userId: string, itemId: number, gameMode: GameMode) => {
     const { error, count } = await supabase
         .from('watchlists')
         .delete({ count: 'exact' })
-        .match({ user_id: userId, item_id: itemId });
+        .match({ user_id: userId, item_id: itemId, game_mode: gameMode });
 
     if (error) {
         console.error('Error removing from watchlist:', error);
@@ -63,16 +68,19 @@ export const removeFromWatchlist = async (userId: string, itemId: number) => {
 };
 
 /**
- * Fetches a user's profile data by their user ID.
- * @param userId The ID of the user.
+ * Fetches the signed-in user's profile data, including their alert webhook URLs.
+ * @param userId The ID of the signed-in user.
  * @returns A promise that resolves to the user's profile or null if not found.
  */
 export const getProfile = async (userId: string): Promise<Profile | null> => {
-    const { data, error } = await supabase
-      .from('profiles')
-      .select('id, username, developer, beta_tester, banned, xp, level, login_streak, tokens, premium')
-      .eq('id', userId)
-      .single();
+    const [{ data, error }, alertWebhookUrls] = await Promise.all([
+      supabase
+        .from('profiles')
+        .select('id, username, developer, beta_tester, banned, xp, level, login_streak, tokens, premium')
+        .eq('id', userId)
+        .single(),
+      fetchAlertWebhooks(userId),
+    ]);
 
     // "PGRST116" is the code for "exact one row expected" which means no profile was found.
     // We don't want to throw an error in that case, just return null.
@@ -81,7 +89,7 @@ export const getProfile = async (userId: string): Promise<Profile | null> => {
       throw error;
     }
 
-    return data;
+    return data ? { ...data, alert_webhook_urls: alertWebhookUrls } : null;
 };
 
 
@@ -129,6 +137,43 @@ export const updateProfile = async (userId: string, updates: { username: string
     }
 };
 
+/**
+ * Fetches the webhook URLs that a user's triggered alerts are sent to. They're kept apart from the
+ * profile, which other users can read, and only their owner can fetch them.
+ * @param userId The ID of the signed-in user.
+ * @returns A promise that resolves to the webhook URLs.
+ */
+export const fetchAlertWebhooks = async (userId: string): Promise<string[]> => {
+    const { data, error } = await supabase
+      .from('alert_webhooks')
+      .select('urls')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching alert webhooks:', error);
+      throw error;
+    }
+    return data?.urls ?? [];
+};
+
+/**
+ * Replaces the list of webhook URLs that a user's triggered alerts are sent to.
+ * @param userId The ID of the user.
+ * @param urls The full list of webhook URLs.
+ * @returns A promise that resolves when the operation is complete.
+ */
+export const updateAlertWebhooks = async (userId: string, urls: string[]): Promise<void> => {
+    const { error } = await supabase
+      .from('alert_webhooks')
+      .upsert({ user_id: userId, urls, updated_at: new Date().toISOString() });
+
+    if (error) {
+      console.error('Error updating alert webhooks:', error);
+      throw error;
+    }
+};
+
 /**
  * Searches for user profiles by username prefix.
  * @param searchText The username prefix to search for.
@@ -154,14 +199,16 @@ export const searchProfilesByUsername = async (searchText: string): Promise<Sear
 };
 
 /**
- * Fetches the total realised profit for a specific user.
+ * Fetches the total realised profit for a specific user in one game mode.
  * This assumes the existence of a `get_user_total_profit` RPC function.
  * @param userId The ID of the user.
+ * @param gameMode The game mode whose trades to count.
  * @returns A promise that resolves to the user's total profit.
  */
-export const fetchUserTotalProfit = async (userId: string): Promise<number> => {
+export const fetchUserTotalProfit = async (userId: string, gameMode: GameMode): Promise<number> => {
     const { data, error } = await supabase.rpc('get_user_total_profit', {
         p_user_id: userId,
+        p_game_mode: gameMode,
     });
 
     if (error) {
@@ -177,15 +224,17 @@ export const fetchUserTotalProfit = async (userId: string): Promise<number> => {
 };
 
 /**
- * Fetches all investments for a user.
+ * Fetches all investments for a user in one game mode.
  * @param userId The ID of the user.
+ * @param gameMode The game mode whose investments to fetch.
  * @returns A promise that resolves to an array of investments.
  */
-export const fetchUserInvestments = async (userId: string): Promise<Investment[]> => {
+export const fetchUserInvestments = async (userId: string, gameMode: GameMode): Promise<Investment[]> => {
     const { data, error } = await supabase
         .from('investments')
         .select('*')
         .eq('user_id', userId)
+        .eq('game_mode', gameMode)
         .order('purchase_date', { ascending: false });
 
     if (error) {
@@ -197,16 +246,31 @@ export const fetchUserInvestments = async (userId: string): Promise<Investment[]
 
 /**
  * Adds a new investment to the database.
- * @param investmentData The investment data to insert.
+ * @param investmentData The investment data to insert. Giving it an `id` makes retries safe: if an
+ * investment with that ID already exists (an earlier attempt was added but its response was lost),
+ * that investment is returned instead of adding a second one.
  * @returns A promise that resolves to the newly created investment.
  */
-export const addInvestment = async (investmentData: Omit<Investment, 'id' | 'created_at'>): Promise<Investment> => {
+export const addInvestment = async (investmentData: Omit<Investment, 'id' | 'created_at'> & { id?: string }): Promise<Investment> => {
     const { data, error } = await supabase
         .from('investments')
         .insert(investmentData)
         .select()
         .single(); // Return the newly created row
 
+    // "23505" is the PostgreSQL error code for a unique constraint violation.
+    if (error?.code === '23505' && investmentData.id) {
+        const { data: existing, error: fetchError } = await supabase
+            .from('investments')
+            .select('*')
+            .eq('id', investmentData.id)
+            .single();
+        if (fetchError) {
+            console.error('Error fetching the already added investment:', fetchError);
+            throw fetchError;
+        }
+        return existing;
+    }
     if (error) {
         console.error('Error adding investment:', error);
         throw error;
@@ -220,14 +284,35 @@ export const addInvestment = async (investmentData: Omit<Investment, 'id' | 'cre
 };
 
 /**
- * Updates an existing investment's details (quantity, price, date).
+ * Adds many investments in one insert, e.g. from an imported spreadsheet. Either all are added or none are.
+ * @param investments The investment data to insert.
+ * @returns A promise that resolves to the newly created investments.
+ */
+export const addInvestments = async (investments: Omit<Investment, 'id' | 'created_at'>[]): Promise<Investment[]> => {
+    const { data, error } = await supabase
+        .from('investments')
+        .insert(investments)
+        .select();
+
+    if (error) {
+        console.error('Error importing investments:', error);
+        throw error;
+    }
+    if (!data) {
+        throw new Error('Failed to import investments. This might be due to database permissions (Row Level Security). Please ensure you are logged in.');
+    }
+    return data;
+};
+
+/**
+ * Updates an existing investment's details (quantity, price, date, exit targets).
  * @param investmentId The ID of the investment to update.
  * @param updates The fields to update.
  * @returns A promise that resolves to the updated investment.
  */
 export const updateInvestment = async (
     investmentId: string,
-    updates: Partial<Pick<Investment, 'quantity' | 'purchase_price' | 'purchase_date'>>
+    updates: InvestmentUpdates
 ): Promise<Investment> => {
     const { data, error } = await supabase
         .from('investments')
@@ -271,74 +356,36 @@ export const closeInvestment = async (investmentId: string, sellData: { sell_pri
 };
 
 /**
- * Processes multiple sales against a single investment record.
- * It updates the original investment if shares remain, or deletes it if fully sold.
- * It then creates new, separate investment records for each closed portion.
- * @param investment The original investment record.
- * @param sales An array of sale data objects.
- * @returns A promise that resolves to the updated/null original record and an array of new closed records.
+ * Records sales against one or more open investments (lots) in a single database transaction, which also
+ * awards the XP for them. Each sale becomes its own closed investment linked to its lot; what's left of a
+ * lot stays open, or the lot is deleted once it's sold out. If anything is invalid, nothing is saved.
+ * @param lotSales The sales to record against each lot.
+ * @param idempotencyKey Identifies the sale. A lot already sold under the same key isn't sold again, and
+ *   its earlier result is returned, so retrying or repeating a request can't duplicate the sale.
+ * @returns Each lot's updated row (null if it sold out) and new closed rows, and the progression events
+ *   from the XP awarded.
  */
-export const processMultipleSales = async (
-    investment: Investment,
-    sales: Array<{ quantity: number; sell_price: number; sell_date: string; tax_paid: number }>
-): Promise<{ updatedOriginal: Investment | null; newClosed: (Investment | null)[] }> => {
-    const totalQuantitySold = sales.reduce((sum, s) => sum + s.quantity, 0);
-    const remainingQuantity = investment.quantity - totalQuantitySold;
-
-    if (remainingQuantity < 0) {
-        throw new Error("Total sale quantity cannot exceed the investment quantity.");
-    }
-
-    const newClosedInvestmentData = sales.map(sale => ({
-        user_id: investment.user_id,
-        item_id: investment.item_id,
-        quantity: sale.quantity,
-        purchase_price: investment.purchase_price,
-        purchase_date: investment.purchase_date,
-        sell_price: sale.sell_price,
-        sell_date: sale.sell_date,
-        tax_paid: sale.tax_paid,
-    }));
-
-    let updateOrDeletePromise;
-    if (remainingQuantity > 0) {
-        updateOrDeletePromise = supabase
-            .from('investments')
-            .update({ quantity: remainingQuantity })
-            .eq('id', investment.id)
-            .select()
-            .single();
-    } else {
-        updateOrDeletePromise = supabase
-            .from('investments')
-            .delete()
-            .eq('id', investment.id)
-            .then(({ error }) => {
-                if (error) throw error;
-                return { data: null, error: null };
-            });
-    }
-
-    const insertPromise = supabase
-        .from('investments')
-        .insert(newClosedInvestmentData)
-        .select();
-    
-    const [updateResult, insertResult] = await Promise.all([updateOrDeletePromise, insertPromise]);
+export const processInvestmentSales = async (
+    lotSales: LotSales[],
+    idempotencyKey: string
+): Promise<{ lots: { investmentId: string; updatedOriginal: Investment | null; newClosed: Investment[] }[]; progressionEvents: ProgressionNotificationData[] }> => {
+    const { data, error } = await supabase.rpc('process_investment_sales', {
+        p_lot_sales: lotSales.map(({ investmentId, sales }) => ({ investment_id: investmentId, sales })) as unknown as Json,
+        p_idempotency_key: idempotencyKey,
+    });
 
-    if (updateResult.error) {
-        console.error('Error updating/deleting original investment on multi-sale:', updateResult.error);
-        throw updateResult.error;
-    }
-    if (insertResult.error) {
-        console.error('Error inserting new closed investments on multi-sale:', insertResult.error);
-        throw insertResult.error;
-    }
-    if (!insertResult.data) {
-        throw new Error('Failed to process multiple sales: insert operation returned no data.');
+    if (error) {
+        console.error('Error processing investment sales:', error);
+        throw error;
     }
-
-    return { updatedOriginal: updateResult.data, newClosed: insertResult.data };
+    const result = data as unknown as {
+        lots: { investment_id: string; updated_original: Investment | null; new_closed: Investment[] }[];
+        progression_events: ProgressionNotificationData[] | null;
+    };
+    return {
+        lots: result.lots.map(lot => ({ investmentId: lot.investment_id, updatedOriginal: lot.updated_original, newClosed: lot.new_closed })),
+        progressionEvents: result.progression_events ?? [],
+    };
 };
 
 
@@ -368,18 +415,20 @@ export const deleteInvestment = async (investmentId: string): Promise<void> => {
 
 
 /**
- * Deletes all investment records for a specific user.
+ * Deletes all investment records for a specific user in one game mode.
  * This is an irreversible action.
  * @param userId The ID of the user whose portfolio will be cleared.
+ * @param gameMode The game mode whose portfolio will be cleared.
  */
-export const clearUserInvestments = async (userId: string): Promise<void> => {
+export const clearUserInvestments = async (userId: string, gameMode: GameMode): Promise<void> => {
     // The previous implementation (`const { error } = ...`) was incorrect, as it assigned the
     // entire response object to `error`, causing a false positive error.
     // Correctly destructuring `error` and `count` fixes this bug.
     const { error, count } = await supabase
         .from('investments')
         .delete({ count: 'exact' })
-        .eq('user_id', userId);
+        .eq('user_id', userId)
+        .eq('game_mode', gameMode);
 
     if (error) {
         console.error('Error clearing investments:', error);
@@ -389,12 +438,13 @@ export const clearUserInvestments = async (userId: string): Promise<void> => {
 };
 
 /**
- * Fetches the profit leaderboard from the database.
+ * Fetches the profit leaderboard for one game mode from the database.
  * @param timeRange The time period to calculate profit over.
+ * @param gameMode The game mode whose trades to rank.
  * @returns A promise that resolves to an array of leaderboard entries.
  */
-export const fetchLeaderboard = async (timeRange: LeaderboardTimeRange = 'all'): Promise<LeaderboardEntry[]> => {
-    const { data, error } = await supabase.rpc('get_leaderboard', { time_range: timeRange });
+export const fetchLeaderboard = async (timeRange: LeaderboardTimeRange, gameMode: GameMode): Promise<LeaderboardEntry[]> => {
+    const { data, error } = await supabase.rpc('get_leaderboard', { time_range: timeRange, p_game_mode: gameMode });
   
     if (error) {
       const typedError = error as any;
@@ -408,11 +458,13 @@ export const fetchLeaderboard = async (timeRange: LeaderboardTimeRange = 'all'):
 
 /**
  * Fetches application-wide statistics. This is a developer-only feature.
+ * User counts cover the whole app; trade and watchlist figures cover one game mode.
  * @param timeRange The time period to calculate stats over.
+ * @param gameMode The game mode whose trades and watchlists to count.
  * @returns A promise that resolves to the application's statistics.
  */
-export const fetchAppStats = async (timeRange: StatsTimeRange): Promise<AppStats> => {
-    const { data, error } = await supabase.rpc('get_app_stats', { time_range: timeRange }).single();
+export const fetchAppStats = async (timeRange: StatsTimeRange, gameMode: GameMode): Promise<AppStats> => {
+    const { data, error } = await supabase.rpc('get_app_stats', { time_range: timeRange, p_game_mode: gameMode }).single();
 
     if (error) {
         console.error('Error fetching app stats:', error);
@@ -427,6 +479,320 @@ export const fetchAppStats = async (timeRange: StatsTimeRange): Promise<AppStats
 };
 
 
+// --- Price Alert Functions ---
+
+type PriceAlertRow = Database['public']['Tables']['price_alerts']['Row'];
+
+const toEpochMs = (timestamp: string | null): number | null => timestamp ? new Date(timestamp).getTime() : null;
+const toTimestamp = (epochMs: number | null | undefined): string | null => epochMs ? new Date(epochMs).toISOString() : null;
+
+// Converts a `price_alerts` row into the camelCase shape used throughout the app.
+const toPriceAlert = (row: PriceAlertRow): PriceAlert => ({
+    id: row.id,
+    itemId: row.item_id,
+    type: row.alert_type,
+    targetPrice: row.target_price,
+    condition: row.condition,
+    priceType: row.price_type,
+    timeframe: row.timeframe ?? undefined,
+    triggeredAt: toEpochMs(row.triggered_at),
+    snoozedUntil: toEpochMs(row.snoozed_until),
+    expiredAt: toEpochMs(row.expired_at),
+    gameMode: row.game_mode,
+});
+
+/**
+ * Fetches all price alerts for a user in one game mode.
+ * @param userId The ID of the user.
+ * @param gameMode The game mode whose alerts to fetch.
+ * @returns A promise that resolves to an array of price alerts.
+ */
+export const fetchUserAlerts = async (userId: string, gameMode: GameMode): Promise<PriceAlert[]> => {
+    const { data, error } = await supabase
+        .from('price_alerts')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('game_mode', gameMode)
+        .order('created_at', { ascending: true });
+
+    if (error) {
+        console.error('Error fetching price alerts:', error);
+        throw error;
+    }
+    return data ? data.map(toPriceAlert) : [];
+};
+
+/**
+ * Creates a new price alert for the logged-in user.
+ * The free-tier alert limit is enforced server-side by the `create_price_alert` RPC,
+ * which raises an exception containing "alert_limit_reached" for non-premium users at the limit.
+ * @param alert The alert to create.
+ * @returns A promise that resolves to the newly created alert.
+ */
+export const createPriceAlert = async (alert: PriceAlertDraft): Promise<PriceAlert> => {
+    const { data, error } = await supabase.rpc('create_price_alert', {
+        p_item_id: alert.itemId,
+        p_target_price: alert.targetPrice,
+        p_condition: alert.condition,
+        p_price_type: alert.priceType ?? 'high',
+        p_alert_type: alert.type ?? 'price',
+        p_timeframe: alert.timeframe ?? null,
+        p_game_mode: alert.gameMode ?? 'osrs',
+    });
+
+    if (error) {
+        console.error('Error creating price alert:', error);
+        if (error.message.includes('alert_limit_reached')) {
+            throw new Error(`Free users are limited to ${FREE_USER_ALERT_LIMIT} alerts. Upgrade for unlimited.`);
+        }
+        if (error.message.includes('function public.create_price_alert')) {
+            throw new Error('Database function `create_price_alert` not found. Please add it to your Supabase project.');
+        }
+        throw error;
+    }
+    if (!data) {
+        throw new Error('Failed to create price alert: No data returned from `create_price_alert`.');
+    }
+    return toPriceAlert(data as PriceAlertRow);
+};
+
+/**
+ * Updates an existing price alert's settings.
+ * Saving an alert re-arms it by clearing its triggered, snoozed and expired timestamps.
+ * @param alertId The ID of the alert to update.
+ * @param alert The new alert settings.
+ * @returns A promise that resolves to the updated alert.
+ */
+export const updatePriceAlert = async (alertId: string, alert: PriceAlertDraft): Promise<PriceAlert> => {
+    const { data, error } = await supabase
+        .from('price_alerts')
+        .update({
+            alert_type: alert.type ?? 'price',
+            target_price: alert.targetPrice,
+            condition: alert.condition,
+            price_type: alert.priceType ?? 'high',
+            timeframe: alert.timeframe ?? null,
+            triggered_at: null,
+            snoozed_until: null,
+            expired_at: null,
+        })
+        .eq('id', alertId)
+        .select()
+        .single();
+
+    if (error) {
+        console.error('Error updating price alert:', error);
+        throw error;
+    }
+    if (!data) {
+        throw new Error('Failed to update price alert: No data returned from update.');
+    }
+    return toPriceAlert(data);
+};
+
+/**
+ * Records that a price alert has fired, so it isn't fired again on other devices.
+ * @param alertId The ID of the alert.
+ * @param triggeredAt Epoch ms of when the alert fired.
+ */
+export const markPriceAlertTriggered = async (alertId: string, triggeredAt: number): Promise<void> => {
+    const { error } = await supabase
+        .from('price_alerts')
+        .update({ triggered_at: toTimestamp(triggeredAt) })
+        .eq('id', alertId);
+
+    if (error) {
+        console.error('Error marking price alert as triggered:', error);
+        throw error;
+    }
+};
+
+/**
+ * Updates the lifecycle state of a price alert, used to re-arm, snooze or expire it.
+ * Only the fields present in `state` are changed.
+ * @param alertId The ID of the alert.
+ * @param state The new triggered/snoozed/expired timestamps (epoch ms, or null to clear).
+ * @returns A promise that resolves to the updated alert.
+ */
+export const updatePriceAlertState = async (alertId: string, state: PriceAlertState): Promise<PriceAlert> => {
+    const updates: Database['public']['Tables']['price_alerts']['Update'] = {};
+    if (state.triggeredAt !== undefined) updates.triggered_at = toTimestamp(state.triggeredAt);
+    if (state.snoozedUntil !== undefined) updates.snoozed_until = toTimestamp(state.snoozedUntil);
+    if (state.expiredAt !== undefined) updates.expired_at = toTimestamp(state.expiredAt);
+
+    const { data, error } = await supabase
+        .from('price_alerts')
+        .update(updates)
+        .eq('id', alertId)
+        .select()
+        .single();
+
+    if (error) {
+        console.error('Error updating price alert state:', error);
+        throw error;
+    }
+    if (!data) {
+        throw new Error('Failed to update price alert: No data returned from update.');
+    }
+    return toPriceAlert(data);
+};
+
+/**
+ * Deletes a price alert from the database.
+ * @param alertId The ID of the alert to delete.
+ */
+export const deletePriceAlert = async (alertId: string): Promise<void> => {
+    const { error, count } = await supabase
+        .from('price_alerts')
+        .delete({ count: 'exact' })
+        .eq('id', alertId);
+
+    if (error) {
+        console.error('Error deleting price alert:', error);
+        throw error;
+    }
+
+    if (count === 0) {
+        throw new Error('Price alert not found or you do not have permission to delete it.');
+    }
+};
+
+/**
+ * Uploads alerts that were saved in localStorage before the user logged in.
+ * Alerts that already exist on the server (same game mode, item, type, condition, price type and target)
+ * are skipped. Uploading stops early if the free-tier alert limit is reached.
+ * @param localAlerts The alerts read from localStorage.
+ * @param existingAlerts The alerts already stored on the server for this user.
+ * @returns A promise that resolves to the newly created alerts, and the local alerts that couldn't be
+ *   uploaded (duplicates of server alerts aren't included, as nothing is lost without them).
+ */
+export const migrateLocalAlerts = async (
+    localAlerts: PriceAlert[],
+    existingAlerts: PriceAlert[]
+): Promise<{ uploaded: PriceAlert[]; notUploaded: PriceAlert[] }> => {
+    const isDuplicate = (alert: PriceAlert) => existingAlerts.some(existing =>
+        existing.itemId === alert.itemId &&
+        existing.gameMode === (alert.gameMode ?? 'osrs') &&
+        existing.type === (alert.type ?? 'price') &&
+        existing.timeframe === alert.timeframe &&
+        existing.condition === alert.condition &&
+        existing.priceType === (alert.priceType ?? 'high') &&
+        existing.targetPrice === alert.targetPrice
+    );
+    const toUpload = localAlerts.filter(alert => !isDuplicate(alert));
+
+    const uploaded: PriceAlert[] = [];
+    // Sequential on purpose: each insert goes through the limit check in `create_price_alert`.
+    for (const alert of toUpload) {
+        try {
+            uploaded.push(await createPriceAlert(alert));
+        } catch (error) {
+            console.warn('Stopped migrating local alerts:', error);
+            break;
+        }
+    }
+    return { uploaded, notUploaded: toUpload.slice(uploaded.length) };
+};
+
+// --- Alert History Functions ---
+
+type AlertHistoryRow = Database['public']['Tables']['alert_history']['Row'];
+// The part of a triggered alert kept in the `event` column; the rest has columns of its own.
+type AlertHistorySnapshot = Omit<TriggeredAlert, 'id' | 'triggeredAt' | 'actedOn'>;
+
+const toTriggeredAlert = (row: AlertHistoryRow): TriggeredAlert => ({
+    ...(row.event as unknown as AlertHistorySnapshot),
+    id: row.id,
+    triggeredAt: new Date(row.triggered_at).getTime(),
+    actedOn: row.acted_on,
+});
+
+/**
+ * Fetches a user's triggered-alert history in one game mode, newest first.
+ * @param userId The ID of the user.
+ * @param gameMode The game mode whose history to fetch.
+ * @param limit The most events to fetch.
+ * @returns A promise that resolves to the triggered alerts.
+ */
+export const fetchAlertHistory = async (userId: string, gameMode: GameMode, limit: number): Promise<TriggeredAlert[]> => {
+    const { data, error } = await supabase
+        .from('alert_history')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('game_mode', gameMode)
+        .order('triggered_at', { ascending: false })
+        .limit(limit);
+
+    if (error) {
+        console.error('Error fetching alert history:', error);
+        throw error;
+    }
+    return data ? data.map(toTriggeredAlert) : [];
+};
+
+/**
+ * Adds triggered alerts to a user's history. Events that are already stored (same ID) are left as they are,
+ * so adding the same event twice, e.g. when migrating history kept in localStorage, is harmless.
+ * @param userId The ID of the user.
+ * @param events The triggered alerts to add.
+ */
+export const addAlertHistory = async (userId: string, events: TriggeredAlert[]): Promise<void> => {
+    if (events.length === 0) return;
+    const rows = events.map(({ id, triggeredAt, actedOn, ...snapshot }) => ({
+        id,
+        user_id: userId,
+        game_mode: snapshot.alert.gameMode ?? 'osrs',
+        alert_id: snapshot.alert.id,
+        item_id: snapshot.alert.itemId,
+        event: snapshot as unknown as Json,
+        acted_on: actedOn ?? false,
+        triggered_at: new Date(triggeredAt).toISOString(),
+    }));
+    const { error } = await supabase
+        .from('alert_history')
+        .upsert(rows, { onConflict: 'id', ignoreDuplicates: true });
+
+    if (error) {
+        console.error('Error adding to alert history:', error);
+        throw error;
+    }
+};
+
+/**
+ * Marks whether the user acted on a triggered alert.
+ * @param eventId The ID of the history event.
+ * @param actedOn Whether the user traded on it.
+ */
+export const setAlertHistoryActed = async (eventId: string, actedOn: boolean): Promise<void> => {
+    const { error } = await supabase
+        .from('alert_history')
+        .update({ acted_on: actedOn })
+        .eq('id', eventId);
+
+    if (error) {
+        console.error('Error updating alert history:', error);
+        throw error;
+    }
+};
+
+/**
+ * Deletes a user's triggered-alert history in one game mode.
+ * @param userId The ID of the user.
+ * @param gameMode The game mode whose history to clear.
+ */
+export const clearAlertHistory = async (userId: string, gameMode: GameMode): Promise<void> => {
+    const { error } = await supabase
+        .from('alert_history')
+        .delete()
+        .eq('user_id', userId)
+        .eq('game_mode', gameMode);
+
+    if (error) {
+        console.error('Error clearing alert history:', error);
+        throw error;
+    }
+};
+
 // --- Admin Functions ---
 
 /**
@@ -507,15 +873,6 @@ export const recordActivity = async (userId: string, activityType: 'watchlist_ad
     return (data as ProgressionNotificationData[]) ?? [];
 }
 
-export const processClosedTrade = async (userId: string, profit: number, tradeValue: number): Promise<ProgressionNotificationData[]> => {
-    const { data, error } = await supabase.rpc('process_closed_trade', { p_user_id: userId, p_profit: profit, p_trade_value: tradeValue });
-    if (error) {
-        console.error('Error processing closed trade:', error);
-        return [];
-    }
-    return (data as ProgressionNotificationData[]) ?? [];
-};
-
 /**
  * Fetches all available achievements from the database.
  * @returns A promise that resolves to an array of all achievements.
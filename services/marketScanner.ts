@@ -0,0 +1,113 @@
+import { MARKET_SCANS, type MarketScanType, type MarketScanInput, type MarketScanResult, type MarketScanProgressHandler, type MarketScanResponse } from '../workers/marketScanProtocol';
+
+// Runs full-market scans (e.g. flipping candidate scoring) in a shared Web Worker so they don't
+// stall the UI. If workers aren't available, scans run on the main thread instead.
+
+export interface MarketScanOptions {
+    onProgress?: MarketScanProgressHandler;
+    // Rejects the scan with an AbortError. The worker finishes the scan, but its result is dropped.
+    signal?: AbortSignal;
+}
+
+interface PendingScan {
+    resolve: (result: MarketScanResult<MarketScanType>) => void;
+    reject: (error: Error) => void;
+    onProgress?: MarketScanProgressHandler;
+}
+
+let worker: Worker | null = null;
+let workerUnavailable = false;
+let nextScanId = 1;
+const pendingScans = new Map<number, PendingScan>();
+
+const failPendingScans = (error: Error) => {
+    pendingScans.forEach(pending => pending.reject(error));
+    pendingScans.clear();
+};
+
+const getWorker = (): Worker | null => {
+    if (worker || workerUnavailable) return worker;
+    if (typeof Worker === 'undefined') {
+        workerUnavailable = true;
+        return null;
+    }
+    try {
+        worker = new Worker(new URL('../workers/marketScan.worker.ts', import.meta.url), { type: 'module' });
+    } catch (error) {
+        console.warn('Failed to start the market scan worker, scanning on the main thread instead:', error);
+        workerUnavailable = true;
+        return null;
+    }
+
+    worker.onmessage = (event: MessageEvent<MarketScanResponse>) => {
+        const message = event.data;
+        const pending = pendingScans.get(message.id);
+        if (!pending) return; // Cancelled
+        switch (message.type) {
+            case 'progress':
+                pending.onProgress?.(message.processed, message.total);
+                break;
+            case 'result':
+                pendingScans.delete(message.id);
+                pending.resolve(message.result);
+                break;
+            case 'error':
+                pendingScans.delete(message.id);
+                pending.reject(new Error(message.message));
+                break;
+        }
+    };
+    worker.onerror = event => {
+        // The worker failed to load or crashed; start a fresh one for the next scan.
+        console.error('Market scan worker error:', event.message);
+        worker?.terminate();
+        worker = null;
+        failPendingScans(new Error('The market scan failed. Please try again.'));
+    };
+    return worker;
+};
+
+const createAbortError = () => new DOMException('The scan was aborted.', 'AbortError');
+
+/**
+ * Runs a market scan in the background worker.
+ * @param scan Which scan to run.
+ * @param input The scan's input. It's copied to the worker, so later changes don't affect the scan.
+ * @param options Progress reporting and cancellation.
+ * @returns The scan's result.
+ * @throws An AbortError if cancelled, or an Error if the scan fails.
+ */
+export const runMarketScan = <K extends MarketScanType>(
+    scan: K,
+    input: MarketScanInput<K>,
+    options: MarketScanOptions = {}
+): Promise<MarketScanResult<K>> => {
+    const { onProgress, signal } = options;
+    if (signal?.aborted) return Promise.reject(createAbortError());
+
+    const scanWorker = getWorker();
+    if (!scanWorker) {
+        return new Promise(resolve => resolve(MARKET_SCANS[scan](input, (processed, total) => onProgress?.(processed, total))));
+    }
+
+    const id = nextScanId++;
+    return new Promise<MarketScanResult<K>>((resolve, reject) => {
+        const onAbort = () => {
+            pendingScans.delete(id);
+            reject(createAbortError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        pendingScans.set(id, {
+            resolve: result => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve(result as MarketScanResult<K>);
+            },
+            reject: error => {
+                signal?.removeEventListener('abort', onAbort);
+                reject(error);
+            },
+            onProgress,
+        });
+        scanWorker.postMessage({ id, scan, input });
+    });
+};
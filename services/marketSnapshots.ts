@@ -0,0 +1,137 @@
+import type { AggregatePrice, GameMode } from '../types';
+import { fetch1hPrices, getGameMode, isAbortError } from './osrsWikiApi';
+
+// Market-wide history built from the wiki's hourly snapshots (`/1h?timestamp=`). Backfilling the
+// last N hours gives views like Market Activity a "price N hours ago" for every item at once,
+// which the per-item timeseries endpoint can't do without one request per item.
+
+const HOUR_SECONDS = 60 * 60;
+// Loaded snapshots kept in memory. The longest backfill (7 days, every 12 hours) needs 14; the rest are
+// kept for reuse, least recently used first out, and none older than the longest window.
+const MAX_SNAPSHOTS = 48;
+const MAX_SNAPSHOT_AGE_HOURS = 7 * 24;
+
+export interface MarketSnapshot {
+    timestamp: number; // Start of the hour the snapshot covers, in Unix seconds
+    prices: Record<string, AggregatePrice>;
+}
+
+export interface SnapshotWindowStats {
+    startPrice: number; // Average buy price at the start of the window
+    volume: number; // Estimated number of items traded over the window
+}
+
+export interface BackfillOptions {
+    // Hours between snapshots. Sampling long windows sparsely keeps the number of requests down.
+    intervalHours?: number;
+    signal?: AbortSignal;
+    onProgress?: (loaded: number, total: number) => void;
+}
+
+// Snapshots that have been loaded this session, keyed by game mode and timestamp, least recently used
+// first. Completed hours never change, and the responses are also kept in the API cache across sessions.
+const snapshots = new Map<string, MarketSnapshot>();
+
+const snapshotKey = (gameMode: GameMode, timestamp: number) => `${gameMode}:${timestamp}`;
+
+// Moves a snapshot to the back of the map, as the most recently used.
+const touchSnapshot = (key: string) => {
+    const snapshot = snapshots.get(key);
+    if (!snapshot) return;
+    snapshots.delete(key);
+    snapshots.set(key, snapshot);
+};
+
+// Drops snapshots too old for any backfill, then the least recently used beyond the cap.
+const pruneSnapshots = () => {
+    const oldestTimestamp = Date.now() / 1000 - (MAX_SNAPSHOT_AGE_HOURS + 1) * HOUR_SECONDS;
+    for (const [key, snapshot] of snapshots) {
+        if (snapshot.timestamp < oldestTimestamp) snapshots.delete(key);
+    }
+    for (const key of snapshots.keys()) {
+        if (snapshots.size <= MAX_SNAPSHOTS) break;
+        snapshots.delete(key);
+    }
+};
+
+// The hourly windows to sample for a backfill, oldest first. The current hour is still in
+// progress, so the most recent window used is the last complete one.
+const getSnapshotTimestamps = (hours: number, intervalHours: number): number[] => {
+    const currentHour = Math.floor(Date.now() / 1000 / HOUR_SECONDS) * HOUR_SECONDS;
+    const timestamps: number[] = [];
+    for (let offset = hours; offset >= 1; offset -= intervalHours) {
+        timestamps.push(currentHour - offset * HOUR_SECONDS);
+    }
+    return timestamps;
+};
+
+/**
+ * Loads market-wide hourly snapshots covering the last `hours` hours for the current game mode.
+ * Snapshots already loaded are reused. Hours that fail to load are skipped rather than failing
+ * the whole backfill.
+ * @param hours How far back to go.
+ * @param options Sampling interval, cancellation and progress reporting.
+ * @returns The loaded snapshots, oldest first.
+ * @throws An AbortError if cancelled.
+ */
+export const backfillSnapshots = async (hours: number, options: BackfillOptions = {}): Promise<MarketSnapshot[]> => {
+    const { intervalHours = 1, signal, onProgress } = options;
+    const gameMode = getGameMode();
+    const timestamps = getSnapshotTimestamps(hours, intervalHours);
+    let loaded = timestamps.filter(timestamp => snapshots.has(snapshotKey(gameMode, timestamp))).length;
+    onProgress?.(loaded, timestamps.length);
+
+    const loadedSnapshots = new Map<number, MarketSnapshot>();
+    const results = await Promise.allSettled(timestamps.map(async timestamp => {
+        const key = snapshotKey(gameMode, timestamp);
+        const cached = snapshots.get(key);
+        if (cached) {
+            touchSnapshot(key);
+            loadedSnapshots.set(timestamp, cached);
+            return;
+        }
+        const prices = await fetch1hPrices(timestamp, { signal });
+        const snapshot = { timestamp, prices };
+        snapshots.set(key, snapshot);
+        loadedSnapshots.set(timestamp, snapshot);
+        onProgress?.(++loaded, timestamps.length);
+    }));
+    pruneSnapshots();
+
+    if (signal?.aborted) {
+        throw new DOMException('The backfill was aborted.', 'AbortError');
+    }
+    results.forEach((result, index) => {
+        if (result.status === 'rejected' && !isAbortError(result.reason)) {
+            console.warn(`Failed to load the market snapshot for ${new Date(timestamps[index] * 1000).toISOString()}:`, result.reason);
+        }
+    });
+
+    // Read from this backfill's own results, as pruning may already have dropped some from the map.
+    return timestamps
+        .map(timestamp => loadedSnapshots.get(timestamp))
+        .filter((snapshot): snapshot is MarketSnapshot => snapshot !== undefined);
+};
+
+/**
+ * Summarizes each item's trading over a backfilled window.
+ * @param windowSnapshots Snapshots from `backfillSnapshots`, oldest first.
+ * @param intervalHours The interval the snapshots were sampled at, used to scale up the volume.
+ * @returns Per-item stats keyed by item ID. Items never traded in the window are left out.
+ */
+export const getSnapshotWindowStats = (windowSnapshots: MarketSnapshot[], intervalHours = 1): Record<string, SnapshotWindowStats> => {
+    const stats: Record<string, SnapshotWindowStats> = {};
+    windowSnapshots.forEach(snapshot => {
+        Object.entries(snapshot.prices).forEach(([itemId, price]) => {
+            const volume = (price.highPriceVolume + price.lowPriceVolume) * intervalHours;
+            const existing = stats[itemId];
+            if (existing) {
+                existing.volume += volume;
+            } else if (price.avgHighPrice !== null) {
+                // The item's first traded hour in the window sets its starting price.
+                stats[itemId] = { startPrice: price.avgHighPrice, volume };
+            }
+        });
+    });
+    return stats;
+};
@@ -0,0 +1,73 @@
+import type { TriggeredAlert, TriggeredPositionExit } from '../types';
+import { describeAlertCondition, formatAlertMetricValue } from '../utils/alerts';
+import { getHighResImageUrl } from '../utils/image';
+
+/**
+ * Asks the user for permission to show browser notifications.
+ * This is a no-op if the browser doesn't support the Notification API,
+ * or if the user has already granted or denied permission.
+ * @returns A promise that resolves to true if notifications are allowed.
+ */
+export const requestNotificationPermission = async (): Promise<boolean> => {
+    if (typeof window === 'undefined' || !('Notification' in window)) {
+        return false;
+    }
+    if (Notification.permission !== 'default') {
+        return Notification.permission === 'granted';
+    }
+    try {
+        const permission = await Notification.requestPermission();
+        return permission === 'granted';
+    } catch (error) {
+        console.error('Error requesting notification permission:', error);
+        return false;
+    }
+};
+
+const showBrowserNotification = (title: string, options: NotificationOptions, onClick?: () => void) => {
+    if (typeof window === 'undefined' || !('Notification' in window) || Notification.permission !== 'granted') {
+        return;
+    }
+    try {
+        const notification = new Notification(title, options);
+        if (onClick) {
+            notification.onclick = () => {
+                window.focus();
+                onClick();
+                notification.close();
+            };
+        }
+    } catch (error) {
+        // Some mobile browsers only allow notifications through a service worker.
+        console.warn('Failed to show browser notification:', error);
+    }
+};
+
+/**
+ * Shows a browser notification for a triggered price alert.
+ * Silently does nothing if permission hasn't been granted.
+ * @param triggered The triggered alert to notify about.
+ * @param onClick Optional handler run when the user clicks the notification.
+ */
+export const showAlertBrowserNotification = (triggered: TriggeredAlert, onClick?: () => void) => {
+    showBrowserNotification(`Price Alert: ${triggered.itemName}`, {
+        body: `${describeAlertCondition(triggered.alert)} (now ${formatAlertMetricValue(triggered.alert, triggered.value)})`,
+        icon: getHighResImageUrl(triggered.itemName),
+        tag: `price-alert-${triggered.alert.id}`,
+    }, onClick);
+};
+
+/**
+ * Shows a browser notification when an open position hits its stop-loss or take-profit.
+ * Silently does nothing if permission hasn't been granted.
+ * @param triggered The triggered exit to notify about.
+ * @param onClick Optional handler run when the user clicks the notification.
+ */
+export const showPositionExitBrowserNotification = (triggered: TriggeredPositionExit, onClick?: () => void) => {
+    const label = triggered.kind === 'stop_loss' ? 'Stop-loss' : 'Take-profit';
+    showBrowserNotification(`${label}: ${triggered.itemName}`, {
+        body: `Low price is ${triggered.price.toLocaleString()} gp (threshold ${triggered.thresholdPrice.toLocaleString()} gp)`,
+        icon: getHighResImageUrl(triggered.itemName),
+        tag: `position-exit-${triggered.investment.id}`,
+    }, onClick);
+};
@@ -0,0 +1,509 @@
+import type { Investment, InvestmentSale, InvestmentUpdates, GameMode, ProgressionNotificationData } from '../types';
+import { addToWatchlist, removeFromWatchlist, addInvestment, updateInvestment, processInvestmentSales, deleteInvestment } from './database';
+import { splitInvestmentForSales } from '../utils/portfolio';
+
+// Watchlist and investment edits that can't reach the database (offline, or the request failed)
+// are queued in localStorage and replayed in order, retrying with backoff until they sync.
+// The UI applies them optimistically in the meantime, and shows each row's sync state.
+
+const STORAGE_KEY = 'offlineMutations';
+// Investments added offline are shown under a temporary ID until they sync. The row is added with
+// the UUID from the temporary ID, so an add that's replayed after it already went through is a no-op.
+const TEMP_ID_PREFIX = 'offline-';
+// Real IDs for investments that were added offline, kept for a day after the add syncs.
+const SYNCED_IDS_KEY = 'offlineInvestmentIds';
+const SYNCED_ID_TTL_MS = 24 * 60 * 60 * 1000;
+// Only one tab replays the queue at a time, so no edit is sent twice.
+const LOCK_NAME = 'offlineMutationsReplay';
+const RETRY_BASE_DELAY_MS = 2_000; // Doubled after each failed attempt...
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000; // ...up to this
+const LOCKED_RETRY_DELAY_MS = 5_000; // How long to wait while another tab is replaying
+// An edit the database rejects this many times is marked failed and left for the user to retry or discard.
+// Network errors never mark an edit failed; it's retried until the connection comes back.
+const MAX_ATTEMPTS = 5;
+
+// One lot in a queued sale. `closedIds` are the temporary IDs its closed investments are shown under
+// until the sale syncs.
+export interface QueuedLotSale {
+    investment: Investment;
+    sales: InvestmentSale[];
+    closedIds: string[];
+}
+
+export type QueuedMutation =
+    | { type: 'addToWatchlist'; userId: string; itemId: number; gameMode: GameMode }
+    | { type: 'removeFromWatchlist'; userId: string; itemId: number; gameMode: GameMode }
+    | { type: 'addInvestment'; tempId: string; investment: Omit<Investment, 'id' | 'created_at'> }
+    | { type: 'updateInvestment'; investmentId: string; updates: InvestmentUpdates }
+    // Every lot in a sale is queued in one entry, so they sync together and earn their XP once.
+    // `idempotencyKey` is the one the sale was first tried with, so replaying it can't sell twice;
+    // sales queued before it was added use the entry's ID.
+    | { type: 'closeInvestment'; lots: QueuedLotSale[]; idempotencyKey?: string }
+    | { type: 'deleteInvestment'; investmentId: string };
+
+export type SyncStatus = 'pending' | 'failed';
+
+export type QueuedMutationEntry = QueuedMutation & {
+    id: string;
+    queuedAt: number;
+    status: SyncStatus;
+    attempts: number; // Failed attempts so far
+    nextAttemptAt: number; // Epoch ms
+    error: string | null; // Why the last attempt failed
+};
+
+// The sync state of one watchlist item or investment, from the queued edits that touch it.
+export interface RowSyncState {
+    status: SyncStatus; // 'failed' if any of its edits failed
+    error: string | null;
+    mutationIds: string[];
+}
+
+export interface ReplayResult {
+    replayed: number;
+    failed: number; // Rejected by the database too many times, and marked failed
+    progressionEvents: ProgressionNotificationData[]; // XP earned by sales that synced
+}
+
+const listeners = new Set<(queue: QueuedMutationEntry[]) => void>();
+let isReplaying = false;
+// Set while another tab holds the replay lock.
+let lockedUntil = 0;
+
+const readQueue = (): QueuedMutationEntry[] => {
+    try {
+        const stored = window.localStorage.getItem(STORAGE_KEY);
+        const queue: QueuedMutationEntry[] = stored ? JSON.parse(stored) : [];
+        // Entries queued by older versions of the app have no sync state, and their sales have one lot each.
+        return queue.map(entry => {
+            const upgraded: QueuedMutationEntry = { status: 'pending', attempts: 0, nextAttemptAt: 0, error: null, ...entry };
+            if (upgraded.type === 'closeInvestment' && !upgraded.lots) {
+                const { investment, sales, closedIds } = upgraded as unknown as QueuedLotSale;
+                return { ...upgraded, lots: [{ investment, sales, closedIds }] };
+            }
+            return upgraded;
+        });
+    } catch (error) {
+        console.error('Failed to read the offline queue, discarding it:', error);
+        window.localStorage.removeItem(STORAGE_KEY);
+        return [];
+    }
+};
+
+const writeQueue = (queue: QueuedMutationEntry[]) => {
+    try {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+    } catch (error) {
+        console.error('Failed to save the offline queue:', error);
+    }
+    listeners.forEach(listener => listener(queue));
+};
+
+const updateQueue = (update: (queue: QueuedMutationEntry[]) => QueuedMutationEntry[]) => writeQueue(update(readQueue()));
+
+// The queue is shared by every open tab, so edits queued (or synced) in one show up in the others.
+const handleStorage = (event: StorageEvent) => {
+    if (event.storageArea !== window.localStorage || (event.key !== null && event.key !== STORAGE_KEY)) return;
+    const queue = readQueue();
+    listeners.forEach(listener => listener(queue));
+};
+
+export const isOffline = (): boolean => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+/**
+ * Whether an error means the request never reached the server, as opposed to being rejected by it.
+ * Supabase surfaces fetch failures as errors whose message comes from the browser.
+ */
+export const isNetworkError = (error: unknown): boolean => {
+    if (isOffline()) return true;
+    const message = error instanceof Error ? error.message : (error as { message?: unknown })?.message;
+    return typeof message === 'string' && /Failed to fetch|NetworkError|Load failed|Network request failed/i.test(message);
+};
+
+export const createTempInvestmentId = () => `${TEMP_ID_PREFIX}${crypto.randomUUID()}`;
+
+export const isTempInvestmentId = (id: string) => id.startsWith(TEMP_ID_PREFIX);
+
+/** The ID an investment added under a temporary ID is given in the database. */
+export const getInvestmentIdForTempId = (tempId: string) => tempId.slice(TEMP_ID_PREFIX.length);
+
+// The rows a mutation changes. Mutations on the same row are replayed in order; different rows are independent.
+const mutationTargets = (mutation: QueuedMutation): string[] => {
+    switch (mutation.type) {
+        case 'addToWatchlist':
+        case 'removeFromWatchlist':
+            return [`watchlist:${mutation.userId}:${mutation.gameMode}:${mutation.itemId}`];
+        case 'addInvestment':
+            return [mutation.tempId];
+        case 'closeInvestment':
+            return mutation.lots.map(lot => lot.investment.id);
+        case 'updateInvestment':
+        case 'deleteInvestment':
+            return [mutation.investmentId];
+    }
+};
+
+const retryDelay = (attempts: number) => Math.min(MAX_RETRY_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempts - 1));
+
+// When each entry can next be replayed: not before its own backoff, nor before earlier edits to the
+// same rows. Entries behind a failed edit can't be replayed until it's retried or discarded.
+const getDueTimes = (queue: QueuedMutationEntry[], ignoreBackoff = false): Map<string, number> => {
+    const rowDueAt = new Map<string, number>();
+    const dueTimes = new Map<string, number>();
+    for (const entry of queue) {
+        const targets = mutationTargets(entry);
+        const ownDueAt = entry.status === 'failed' ? Infinity : ignoreBackoff ? 0 : entry.nextAttemptAt;
+        const dueAt = Math.max(ownDueAt, ...targets.map(target => rowDueAt.get(target) ?? 0));
+        targets.forEach(target => rowDueAt.set(target, dueAt));
+        dueTimes.set(entry.id, dueAt);
+    }
+    return dueTimes;
+};
+
+export const getQueuedMutations = (): QueuedMutationEntry[] => readQueue();
+
+/**
+ * When the queue next has an edit ready to replay, or null if there's nothing to replay
+ * (or a replay is already running, which reschedules itself when it finishes).
+ */
+export const getNextReplayAt = (): number | null => {
+    if (isReplaying) return null;
+    const dueTimes = [...getDueTimes(readQueue()).values()].filter(dueAt => dueAt !== Infinity);
+    return dueTimes.length > 0 ? Math.max(lockedUntil, Math.min(...dueTimes)) : null;
+};
+
+/**
+ * Subscribes to changes in the queue, including ones made in other tabs.
+ * @returns A function that unsubscribes the listener.
+ */
+export const subscribeToQueue = (listener: (queue: QueuedMutationEntry[]) => void): (() => void) => {
+    listeners.add(listener);
+    if (listeners.size === 1) window.addEventListener('storage', handleStorage);
+    return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) window.removeEventListener('storage', handleStorage);
+    };
+};
+
+// Real IDs for investments that were added offline, by temporary ID. Kept in localStorage rather than
+// memory, so an edit made under the temporary ID after the add synced still reaches the right row, even
+// if it's made after a reload or in another tab that hasn't reloaded the portfolio yet.
+const readSyncedInvestmentIds = (): Record<string, { id: string; syncedAt: number }> => {
+    try {
+        return JSON.parse(window.localStorage.getItem(SYNCED_IDS_KEY) ?? '{}');
+    } catch {
+        return {};
+    }
+};
+
+const rememberSyncedInvestmentId = (tempId: string, id: string) => {
+    const now = Date.now();
+    const ids = Object.fromEntries(Object.entries(readSyncedInvestmentIds()).filter(([, synced]) => now - synced.syncedAt < SYNCED_ID_TTL_MS));
+    ids[tempId] = { id, syncedAt: now };
+    try {
+        window.localStorage.setItem(SYNCED_IDS_KEY, JSON.stringify(ids));
+    } catch (error) {
+        console.error('Failed to save the IDs of synced investments:', error);
+    }
+};
+
+const resolveInvestmentId = (id: string) => isTempInvestmentId(id) ? readSyncedInvestmentIds()[id]?.id ?? id : id;
+
+const resolveMutation = (mutation: QueuedMutation): QueuedMutation => {
+    switch (mutation.type) {
+        case 'updateInvestment':
+        case 'deleteInvestment':
+            return { ...mutation, investmentId: resolveInvestmentId(mutation.investmentId) };
+        case 'closeInvestment':
+            return { ...mutation, lots: mutation.lots.map(lot => ({ ...lot, investment: { ...lot.investment, id: resolveInvestmentId(lot.investment.id) } })) };
+        default:
+            return mutation;
+    }
+};
+
+/**
+ * Adds a mutation to the end of the offline queue.
+ * Removing a watchlist item or investment that was added offline cancels the queued add instead.
+ */
+export const enqueueMutation = (mutation: QueuedMutation) => {
+    mutation = resolveMutation(mutation);
+    const queue = readQueue();
+    if (mutation.type === 'deleteInvestment' && isTempInvestmentId(mutation.investmentId)) {
+        const { investmentId } = mutation;
+        writeQueue(queue.flatMap((entry): QueuedMutationEntry[] => {
+            if (entry.type !== 'closeInvestment') return mutationTargets(entry).includes(investmentId) ? [] : [entry];
+            // A closed investment that hasn't synced is deleted by dropping its sale, and an investment
+            // that hasn't synced by dropping its lot from the sale.
+            const lots = entry.lots.flatMap(lot => {
+                if (lot.investment.id === investmentId) return [];
+                const index = lot.closedIds.indexOf(investmentId);
+                if (index === -1) return [lot];
+                const sales = lot.sales.filter((_, i) => i !== index);
+                return sales.length > 0 ? [{ ...lot, sales, closedIds: lot.closedIds.filter(id => id !== investmentId) }] : [];
+            });
+            return lots.length > 0 ? [{ ...entry, lots }] : [];
+        }));
+        return;
+    }
+    if (mutation.type === 'removeFromWatchlist') {
+        const [target] = mutationTargets(mutation);
+        const queuedAdd = queue.findIndex(entry => entry.type === 'addToWatchlist' && mutationTargets(entry)[0] === target);
+        if (queuedAdd !== -1) {
+            writeQueue(queue.filter((_, index) => index !== queuedAdd));
+            return;
+        }
+    }
+    const queuedAt = Date.now();
+    writeQueue([...queue, { ...mutation, id: crypto.randomUUID(), queuedAt, status: 'pending', attempts: 0, nextAttemptAt: queuedAt, error: null }]);
+};
+
+/**
+ * Runs a mutation now, or queues it if the device is offline or the request can't reach the server.
+ * Mutations on rows with edits still in the queue (including investments that haven't synced yet)
+ * are always queued behind them, so they reach the database in the order they were made.
+ * @returns The mutation's result, or null if it was queued.
+ * @throws The mutation's error if the server rejected it.
+ */
+export const runOrQueue = async <T>(mutation: QueuedMutation, run: () => Promise<T>): Promise<T | null> => {
+    const queue = readQueue();
+    // An add's own target is the temporary ID of the row it creates, so only edits to unsynced rows wait on it.
+    const isBehindQueuedEdits = mutationTargets(mutation).some(target =>
+        (mutation.type !== 'addInvestment' && isTempInvestmentId(target)) || queue.some(entry => mutationTargets(entry).includes(target)));
+    if (isOffline() || isBehindQueuedEdits) {
+        enqueueMutation(mutation);
+        return null;
+    }
+    try {
+        return await run();
+    } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        enqueueMutation(mutation);
+        return null;
+    }
+};
+
+/**
+ * Puts failed edits back in line to be replayed straight away.
+ * @param mutationIds The queued edits to retry.
+ */
+export const retryQueuedMutations = (mutationIds: string[]) => {
+    updateQueue(queue => queue.map(entry => mutationIds.includes(entry.id)
+        ? { ...entry, status: 'pending', attempts: 0, nextAttemptAt: Date.now(), error: null }
+        : entry));
+};
+
+/**
+ * Drops edits from the queue without sending them. Later edits to the same rows are dropped too,
+ * since they were made on top of the discarded ones.
+ * @param mutationIds The queued edits to discard.
+ */
+export const discardQueuedMutations = (mutationIds: string[]) => {
+    updateQueue(queue => {
+        const discardedTargets = new Set<string>();
+        return queue.filter(entry => {
+            const targets = mutationTargets(entry);
+            if (mutationIds.includes(entry.id) || targets.some(target => discardedTargets.has(target))) {
+                targets.forEach(target => discardedTargets.add(target));
+                return false;
+            }
+            return true;
+        });
+    });
+};
+
+const addToSyncState = <K extends string | number>(states: Record<K, RowSyncState>, key: K, entry: QueuedMutationEntry) => {
+    const state = states[key] ?? { status: 'pending', error: null, mutationIds: [] };
+    states[key] = {
+        status: state.status === 'failed' || entry.status === 'failed' ? 'failed' : 'pending',
+        error: entry.error ?? state.error,
+        mutationIds: [...state.mutationIds, entry.id],
+    };
+};
+
+/**
+ * Each watchlist item's sync state, for the items in one user's watchlist with queued edits.
+ * @param queue The queued edits.
+ * @param userId The user whose watchlist is shown.
+ * @param gameMode The game mode whose watchlist is shown.
+ * @returns Sync states keyed by item ID.
+ */
+export const getWatchlistSyncStates = (queue: QueuedMutationEntry[], userId: string, gameMode: GameMode): Record<number, RowSyncState> => {
+    const states: Record<number, RowSyncState> = {};
+    for (const entry of queue) {
+        if ((entry.type !== 'addToWatchlist' && entry.type !== 'removeFromWatchlist') || entry.userId !== userId || entry.gameMode !== gameMode) continue;
+        addToSyncState(states, entry.itemId, entry);
+    }
+    return states;
+};
+
+/**
+ * Each investment's sync state, for the investments with queued edits. Investments closed by
+ * a queued sale share the sale's state.
+ * @param queue The queued edits.
+ * @returns Sync states keyed by investment ID (temporary IDs for rows that haven't synced).
+ */
+export const getInvestmentSyncStates = (queue: QueuedMutationEntry[]): Record<string, RowSyncState> => {
+    const states: Record<string, RowSyncState> = {};
+    for (const entry of queue) {
+        if (entry.type === 'addToWatchlist' || entry.type === 'removeFromWatchlist') continue;
+        mutationTargets(entry).forEach(target => addToSyncState(states, target, entry));
+        if (entry.type === 'closeInvestment') {
+            entry.lots.forEach(lot => lot.closedIds.forEach(id => addToSyncState(states, id, entry)));
+        }
+    }
+    return states;
+};
+
+/**
+ * Applies queued watchlist edits on top of the watchlist fetched from the database, so edits
+ * that haven't synced yet are still shown after a reload.
+ * @param watchlist The item IDs fetched from the database.
+ * @param userId The user whose watchlist it is.
+ * @param gameMode The game mode the watchlist belongs to.
+ */
+export const applyQueuedWatchlistMutations = (watchlist: number[], userId: string, gameMode: GameMode): number[] =>
+    readQueue().reduce((result, entry) => {
+        if ((entry.type !== 'addToWatchlist' && entry.type !== 'removeFromWatchlist') || entry.userId !== userId || entry.gameMode !== gameMode) return result;
+        if (entry.type === 'removeFromWatchlist') return result.filter(id => id !== entry.itemId);
+        return result.includes(entry.itemId) ? result : [...result, entry.itemId];
+    }, watchlist);
+
+/**
+ * Applies queued investment edits on top of the investments fetched from the database, so edits
+ * that haven't synced yet are still shown after a reload.
+ * @param investments The investments fetched from the database.
+ * @param userId The user the investments belong to.
+ * @param gameMode The game mode the investments belong to.
+ */
+export const applyQueuedInvestmentMutations = (investments: Investment[], userId: string, gameMode: GameMode): Investment[] =>
+    readQueue().reduce((result, entry) => {
+        switch (entry.type) {
+            case 'addInvestment':
+                if (entry.investment.user_id !== userId || entry.investment.game_mode !== gameMode) return result;
+                // Already added, but the entry hasn't been removed yet (e.g. another tab is replaying it).
+                if (result.some(inv => inv.id === getInvestmentIdForTempId(entry.tempId))) return result;
+                return [{ ...entry.investment, id: entry.tempId, created_at: new Date(entry.queuedAt).toISOString() }, ...result];
+            case 'updateInvestment':
+                return result.map(inv => inv.id === entry.investmentId ? { ...inv, ...entry.updates } : inv);
+            case 'closeInvestment':
+                return entry.lots.reduce((current, lot) => {
+                    const index = current.findIndex(inv => inv.id === lot.investment.id);
+                    if (index === -1) return current;
+                    const split = splitInvestmentForSales(current[index], lot.sales, lot.closedIds);
+                    return [...current.slice(0, index), ...split, ...current.slice(index + 1)];
+                }, result);
+            case 'deleteInvestment':
+                return result.filter(inv => inv.id !== entry.investmentId);
+            default:
+                return result;
+        }
+    }, investments);
+
+// Points queued edits to an investment that was added offline at the row the database created.
+const replaceInvestmentId = (tempId: string, id: string) => {
+    rememberSyncedInvestmentId(tempId, id);
+    updateQueue(queue => queue.map(entry => {
+        if ((entry.type === 'updateInvestment' || entry.type === 'deleteInvestment') && entry.investmentId === tempId) {
+            return { ...entry, investmentId: id };
+        }
+        if (entry.type === 'closeInvestment' && entry.lots.some(lot => lot.investment.id === tempId)) {
+            return { ...entry, lots: entry.lots.map(lot => lot.investment.id === tempId ? { ...lot, investment: { ...lot.investment, id } } : lot) };
+        }
+        return entry;
+    }));
+};
+
+// Sends one queued edit to the database. Returns any XP notifications it earned.
+const replayMutation = async (entry: QueuedMutationEntry): Promise<ProgressionNotificationData[]> => {
+    switch (entry.type) {
+        case 'addToWatchlist':
+            await addToWatchlist(entry.userId, entry.itemId, entry.gameMode);
+            return [];
+        case 'removeFromWatchlist':
+            await removeFromWatchlist(entry.userId, entry.itemId, entry.gameMode);
+            return [];
+        case 'addInvestment': {
+            const { id } = await addInvestment({ ...entry.investment, id: getInvestmentIdForTempId(entry.tempId) });
+            replaceInvestmentId(entry.tempId, id);
+            return [];
+        }
+        case 'updateInvestment':
+            await updateInvestment(entry.investmentId, entry.updates);
+            return [];
+        case 'closeInvestment': {
+            const lotSales = entry.lots.map(lot => ({ investmentId: lot.investment.id, sales: lot.sales }));
+            const { progressionEvents } = await processInvestmentSales(lotSales, entry.idempotencyKey ?? entry.id);
+            return progressionEvents;
+        }
+        case 'deleteInvestment':
+            await deleteInvestment(entry.investmentId);
+            return [];
+    }
+};
+
+// Backs off a failed edit, and marks it failed once the database has rejected it too often.
+// Returns whether it was marked failed.
+const recordFailure = (entry: QueuedMutationEntry, error: unknown, isNetworkFailure: boolean): boolean => {
+    const attempts = entry.attempts + 1;
+    const isFailed = !isNetworkFailure && attempts >= MAX_ATTEMPTS;
+    const nextAttemptAt = Date.now() + retryDelay(attempts);
+    const message = error instanceof Error ? error.message : (error as { message?: unknown })?.message;
+    updateQueue(queue => queue.map(queued => {
+        if (queued.id === entry.id) {
+            return { ...queued, attempts, status: isFailed ? 'failed' : 'pending', nextAttemptAt, error: typeof message === 'string' ? message : 'Unknown error' };
+        }
+        // Nothing else will get through either until the connection is back.
+        return isNetworkFailure ? { ...queued, nextAttemptAt: Math.max(queued.nextAttemptAt, nextAttemptAt) } : queued;
+    }));
+    return isFailed;
+};
+
+// Runs `replay` while holding the cross-tab replay lock, or returns null if another tab holds it.
+const withReplayLock = async <T>(replay: () => Promise<T>): Promise<T | null> => {
+    if (!navigator.locks) return replay();
+    return navigator.locks.request(LOCK_NAME, { ifAvailable: true }, lock => lock ? replay() : null);
+};
+
+/**
+ * Replays queued mutations that are due, in the order they were made. Edits the database rejects
+ * are retried with backoff, and marked failed after too many attempts; a network error stops the
+ * replay and backs off the whole queue.
+ * @param options.ignoreBackoff Replays everything that isn't marked failed, e.g. just after reconnecting.
+ * @returns How many mutations were replayed and how many were marked failed.
+ */
+export const replayQueuedMutations = async ({ ignoreBackoff = false }: { ignoreBackoff?: boolean } = {}): Promise<ReplayResult> => {
+    const result: ReplayResult = { replayed: 0, failed: 0, progressionEvents: [] };
+    if (isReplaying || isOffline()) return result;
+    isReplaying = true;
+    try {
+        const hadLock = await withReplayLock(async () => {
+            // Re-read before each edit, as edits can be queued or discarded while one is replaying.
+            const attempted = new Set<string>();
+            const blockedTargets = new Set<string>();
+            for (;;) {
+                const queue = readQueue();
+                const dueTimes = getDueTimes(queue, ignoreBackoff);
+                const entry = queue.find(queued =>
+                    !attempted.has(queued.id) && !mutationTargets(queued).some(target => blockedTargets.has(target)) && dueTimes.get(queued.id)! <= Date.now());
+                if (!entry) break;
+                attempted.add(entry.id);
+                try {
+                    result.progressionEvents.push(...await replayMutation(entry));
+                    updateQueue(current => current.filter(queued => queued.id !== entry.id));
+                    result.replayed++;
+                } catch (error) {
+                    const isNetworkFailure = isNetworkError(error);
+                    console.error(`Failed to sync queued ${entry.type}:`, error);
+                    if (recordFailure(entry, error, isNetworkFailure)) result.failed++;
+                    if (isNetworkFailure) break;
+                    mutationTargets(entry).forEach(target => blockedTargets.add(target));
+                }
+            }
+            return true;
+        });
+        lockedUntil = hadLock ? 0 : Date.now() + LOCKED_RETRY_DELAY_MS;
+    } finally {
+        isReplaying = false;
+    }
+    return result;
+};
@@ -1,5 +1,10 @@
-import { OSRS_WIKI_API_BASE_URL } from '../constants';
-import type { Item, TimeseriesData, LatestPrice, AggregatePrice } from '../types';
+import { OSRS_WIKI_API_ROOT_URL, GAME_MODES, DEFAULT_GAME_MODE } from '../constants';
+import type { Item, TimeseriesData, LatestPrice, AggregatePrice, GameMode } from '../types';
+import { cachedFetch, type CachedFetchOptions } from './apiCache';
+import { WikiNetworkError, WikiHttpError, WikiParseError, isAbortError } from './wikiApiErrors';
+import { normalizeItemMapping, normalizeLatestPrices, normalizeAggregatePrices, normalizeTimeseries } from './wikiApiSchema';
+
+export { WikiApiError, WikiNetworkError, WikiHttpError, WikiParseError, isAbortError } from './wikiApiErrors';
 
 // The OSRS Wiki API is being called directly. The previously used CORS proxy
 // was causing 403 Forbidden errors. The API is expected to have CORS properly
@@ -7,47 +12,290 @@ import type { Item, TimeseriesData, LatestPrice, AggregatePrice } from '../types
 // User-Agent is required, this header cannot be set from browser-side JavaScript.
 // The browser's default User-Agent and Origin headers should be sufficient.
 
-async function apiFetch<T,>(endpoint: string): Promise<T> {
-  const response = await fetch(`${OSRS_WIKI_API_BASE_URL}${endpoint}`);
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error(`API Fetch Error for ${endpoint}:`, response.status, errorText);
-    throw new Error(`Failed to fetch ${endpoint}: ${response.statusText}`);
+// --- Game Mode ---
+// Deadman and fresh-start worlds have their own economies, served from separate APIs.
+// Every request and cache entry is tied to the game mode that was active when it was made.
+
+let currentGameMode: GameMode = DEFAULT_GAME_MODE;
+
+export const getGameMode = (): GameMode => currentGameMode;
+
+/**
+ * Switches the economy that every subsequent API call fetches prices for.
+ * @param gameMode The game mode to switch to.
+ */
+export const setGameMode = (gameMode: GameMode) => {
+  currentGameMode = gameMode;
+};
+
+const getApiBaseUrl = (gameMode: GameMode) => `${OSRS_WIKI_API_ROOT_URL}/${GAME_MODES[gameMode].apiPath}`;
+
+// --- Request Scheduler ---
+// The wiki asks clients to be polite, so requests go through a small scheduler that caps
+// concurrency, shares identical in-flight requests and retries transient failures.
+
+const MAX_CONCURRENT_REQUESTS = 4;
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 15000;
+
+let activeRequests = 0;
+const requestQueue: Array<() => void> = [];
+
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+}
+const inFlightRequests = new Map<string, InFlightRequest>();
+
+const createAbortError = () => new DOMException('The request was aborted.', 'AbortError');
+
+// Waits for a free request slot. Queued callers are dropped if their signal aborts.
+const acquireSlot = (signal: AbortSignal): Promise<void> => {
+  if (signal.aborted) return Promise.reject(createAbortError());
+  if (activeRequests < MAX_CONCURRENT_REQUESTS) {
+    activeRequests++;
+    return Promise.resolve();
   }
-  const data = await response.json();
-  return data;
+  return new Promise((resolve, reject) => {
+    const start = () => {
+      signal.removeEventListener('abort', onAbort);
+      activeRequests++;
+      resolve();
+    };
+    const onAbort = () => {
+      const index = requestQueue.indexOf(start);
+      if (index !== -1) requestQueue.splice(index, 1);
+      reject(createAbortError());
+    };
+    requestQueue.push(start);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+const releaseSlot = () => {
+  activeRequests--;
+  requestQueue.shift()?.();
+};
+
+const sleep = (ms: number, signal: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// Exponential backoff with "full jitter", so clients retrying together don't stay in lockstep.
+// A 429's Retry-After header takes precedence when present.
+const getRetryDelay = (attempt: number, response?: Response): number => {
+  const retryAfter = Number(response?.headers.get('Retry-After'));
+  if (retryAfter > 0) return Math.min(retryAfter * 1000, RETRY_MAX_DELAY_MS);
+  const ceiling = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+  return Math.random() * ceiling;
+};
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+const fetchWithRetry = async <T,>(url: string, endpoint: string, signal: AbortSignal): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    await acquireSlot(signal);
+    let response: Response;
+    try {
+      response = await fetch(url, { signal });
+    } catch (error) {
+      releaseSlot();
+      if (isAbortError(error)) throw error;
+      if (attempt >= MAX_RETRIES) throw new WikiNetworkError(endpoint, error);
+      await sleep(getRetryDelay(attempt), signal);
+      continue;
+    }
+
+    try {
+      if (response.ok) {
+        try {
+          return await response.json();
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          throw new WikiParseError(endpoint);
+        }
+      }
+      if (!isRetryableStatus(response.status) || attempt >= MAX_RETRIES) {
+        const errorText = await response.text().catch(() => '');
+        console.error(`API Fetch Error for ${endpoint}:`, response.status, errorText);
+        throw new WikiHttpError(endpoint, response.status, response.statusText);
+      }
+    } finally {
+      // The slot is freed before backing off so other requests aren't held up.
+      releaseSlot();
+    }
+    await sleep(getRetryDelay(attempt, response), signal);
+  }
+};
+
+/**
+ * Fetches a wiki API endpoint through the request scheduler.
+ * - Identical requests that are already in flight are shared rather than sent twice.
+ * - At most MAX_CONCURRENT_REQUESTS requests run at once; the rest are queued.
+ * - Network errors, 429s and 5xx responses are retried with exponential backoff and jitter.
+ * @param endpoint The endpoint path, including any query string.
+ * @param gameMode The game mode whose API to call.
+ * @param signal Optional AbortSignal. Aborting only cancels the underlying request
+ *   once every caller sharing it has aborted.
+ * @throws WikiNetworkError, WikiHttpError or WikiParseError on failure, or an AbortError if cancelled.
+ */
+function apiFetch<T,>(endpoint: string, gameMode: GameMode, signal?: AbortSignal): Promise<T> {
+  if (signal?.aborted) return Promise.reject(createAbortError());
+
+  const url = `${getApiBaseUrl(gameMode)}${endpoint}`;
+  let request = inFlightRequests.get(url);
+  if (!request) {
+    const controller = new AbortController();
+    const newRequest: InFlightRequest = {
+      controller,
+      subscribers: 0,
+      promise: fetchWithRetry<T>(url, endpoint, controller.signal).finally(() => {
+        if (inFlightRequests.get(url) === newRequest) inFlightRequests.delete(url);
+      }),
+    };
+    inFlightRequests.set(url, newRequest);
+    request = newRequest;
+  }
+
+  const shared = request;
+  shared.subscribers++;
+  if (!signal) return shared.promise as Promise<T>;
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      reject(createAbortError());
+      if (--shared.subscribers === 0) {
+        // Nobody is waiting for this request any more.
+        inFlightRequests.delete(url);
+        shared.controller.abort();
+      }
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    (shared.promise as Promise<T>).then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
 }
 
-export const fetchItemMapping = async (): Promise<Item[]> => {
-  const data = await apiFetch<Record<string, Omit<Item, 'id'>>>('/mapping');
-  return Object.entries(data).map(([id, itemData]) => ({
-    id: parseInt(id, 10),
-    ...itemData
-  }));
+export type WikiFetchOptions<T> = CachedFetchOptions<T> & {
+  // Cancels the request, e.g. when the user navigates away. Also applies to background revalidation.
+  signal?: AbortSignal;
 };
 
-export const fetchLatestPrices = async (): Promise<Record<string, LatestPrice>> => {
-  const response = await apiFetch<{data: Record<string, LatestPrice>}>('/latest');
-  return response.data;
+// How long each endpoint's cached response is served without revalidating.
+// The mapping rarely changes; latest prices update roughly every minute.
+const MINUTE = 60 * 1000;
+const CACHE_TTL = {
+  mapping: 24 * 60 * MINUTE,
+  latest: MINUTE,
+  '5m': MINUTE,
+  '1h': 5 * MINUTE,
+  '24h': 30 * MINUTE,
+  timeseries: {
+    '5m': 5 * MINUTE,
+    '1h': 30 * MINUTE,
+    '6h': 2 * 60 * MINUTE,
+    '24h': 6 * 60 * MINUTE,
+  },
 };
 
-export const fetch1hPrices = async (): Promise<Record<string, AggregatePrice>> => {
-  const response = await apiFetch<{data: Record<string, AggregatePrice>}>('/1h');
-  return response.data;
+const AGGREGATE_WINDOW_SECONDS = { '5m': 5 * 60, '1h': 60 * 60 };
+
+/**
+ * Fetches and validates an endpoint for the current game mode through the cache.
+ * Revalidated data is dropped if the game mode has changed since the call was made,
+ * so one economy's prices never overwrite another's.
+ */
+const cachedWikiFetch = <T,>(
+  cacheKey: string,
+  ttl: number,
+  endpoint: string,
+  normalize: (raw: unknown) => T,
+  options?: WikiFetchOptions<T>
+): Promise<T> => {
+  const gameMode = currentGameMode;
+  return cachedFetch(`${gameMode}:${cacheKey}`, ttl, async () => {
+    return normalize(await apiFetch<unknown>(endpoint, gameMode, options?.signal));
+  }, {
+    ...options,
+    onRevalidate: options?.onRevalidate && (data => {
+      if (currentGameMode === gameMode) options.onRevalidate?.(data);
+    }),
+  });
 };
 
-export const fetch24hPrices = async (): Promise<Record<string, AggregatePrice>> => {
-  const response = await apiFetch<{data: Record<string, AggregatePrice>}>('/24h');
-  return response.data;
+export const fetchItemMapping = async (options?: WikiFetchOptions<Item[]>): Promise<Item[]> => {
+  return cachedWikiFetch('mapping', CACHE_TTL.mapping, '/mapping', normalizeItemMapping, options);
 };
 
-export const fetchTimeseries = async (id: number, timestep: '5m' | '1h' | '6h'): Promise<TimeseriesData[]> => {
-  const response = await apiFetch<{ data: TimeseriesData[] }>(`/timeseries?timestep=${timestep}&id=${id}`);
-  return response.data;
+export const fetchLatestPrices = async (options?: WikiFetchOptions<Record<string, LatestPrice>>): Promise<Record<string, LatestPrice>> => {
+  return cachedWikiFetch('latest', CACHE_TTL.latest, '/latest', normalizeLatestPrices, options);
 };
 
-export const fetchAllTimePrices = async (id: number): Promise<TimeseriesData[]> => {
+// Fetches the market-wide averages for one 5m or 1h window. Without a timestamp, the API returns
+// the most recent window. Windows that have already ended never change, so they never go stale
+// (the cache still drops them once they're old or it's full).
+const fetchAggregateWindow = (
+  timestep: '5m' | '1h',
+  timestamp: number | undefined,
+  options?: WikiFetchOptions<Record<string, AggregatePrice>>
+): Promise<Record<string, AggregatePrice>> => {
+  const normalize = (raw: unknown) => normalizeAggregatePrices(raw, `/${timestep}`);
+  if (timestamp === undefined) {
+    return cachedWikiFetch(timestep, CACHE_TTL[timestep], `/${timestep}`, normalize, options);
+  }
+  const windowSeconds = AGGREGATE_WINDOW_SECONDS[timestep];
+  const windowStart = timestamp - (timestamp % windowSeconds);
+  const hasEnded = (windowStart + windowSeconds) * 1000 <= Date.now();
+  const ttl = hasEnded ? Infinity : CACHE_TTL[timestep];
+  return cachedWikiFetch(`${timestep}:${windowStart}`, ttl, `/${timestep}?timestamp=${windowStart}`, normalize, options);
+};
+
+/**
+ * Fetches average prices and volumes for every item over a 5-minute window.
+ * @param timestamp Unix timestamp in seconds of the window to fetch; rounded down to the start of
+ *   its window. Omit for the most recent window.
+ * @param options Cache and cancellation options.
+ */
+export const fetch5mPrices = async (timestamp?: number, options?: WikiFetchOptions<Record<string, AggregatePrice>>): Promise<Record<string, AggregatePrice>> => {
+  return fetchAggregateWindow('5m', timestamp, options);
+};
+
+/**
+ * Fetches average prices and volumes for every item over a 1-hour window.
+ * @param timestamp Unix timestamp in seconds of the window to fetch; rounded down to the start of
+ *   its window. Omit for the most recent window.
+ * @param options Cache and cancellation options.
+ */
+export const fetch1hPrices = async (timestamp?: number, options?: WikiFetchOptions<Record<string, AggregatePrice>>): Promise<Record<string, AggregatePrice>> => {
+  return fetchAggregateWindow('1h', timestamp, options);
+};
+
+export const fetch24hPrices = async (options?: WikiFetchOptions<Record<string, AggregatePrice>>): Promise<Record<string, AggregatePrice>> => {
+  return cachedWikiFetch('24h', CACHE_TTL['24h'], '/24h', raw => normalizeAggregatePrices(raw, '/24h'), options);
+};
+
+export const fetchTimeseries = async (id: number, timestep: '5m' | '1h' | '6h', options?: WikiFetchOptions<TimeseriesData[]>): Promise<TimeseriesData[]> => {
+  const endpoint = `/timeseries?timestep=${timestep}&id=${id}`;
+  return cachedWikiFetch(`timeseries:${timestep}:${id}`, CACHE_TTL.timeseries[timestep], endpoint, raw => normalizeTimeseries(raw, endpoint), options);
+};
+
+export const fetchAllTimePrices = async (id: number, options?: WikiFetchOptions<TimeseriesData[]>): Promise<TimeseriesData[]> => {
   // The '24h' timestep returns all available daily data, which serves as our "all time" view.
-  const response = await apiFetch<{ data: TimeseriesData[] }>(`/timeseries?timestep=24h&id=${id}`);
-  return response.data;
-};
\ No newline at end of file
+  const endpoint = `/timeseries?timestep=24h&id=${id}`;
+  return cachedWikiFetch(`timeseries:24h:${id}`, CACHE_TTL.timeseries['24h'], endpoint, raw => normalizeTimeseries(raw, endpoint), options);
+};
@@ -0,0 +1,197 @@
+import type { LatestPrice, PriceChange } from '../types';
+import { DEFAULT_PRICE_REFRESH_SECONDS } from '../constants';
+import { fetchLatestPrices, getGameMode } from './osrsWikiApi';
+import { isOffline } from './offlineQueue';
+
+// The one place live prices are polled from. Every view reads the same snapshot, so a price
+// change is seen (and flashed, and checked against alerts) at the same moment everywhere.
+// Polling pauses while the tab is hidden or the device is offline, and catches up as soon as
+// the tab is visible again.
+
+const MAX_CHANGES_PER_ITEM = 20; // Older changes are dropped beyond this
+
+export interface PriceTickerState {
+  latestPrices: Record<string, LatestPrice>;
+  // Each item's recent price changes, oldest first. Items whose price hasn't moved have no entry.
+  priceChanges: Record<string, PriceChange[]>;
+  lastRefreshedAt: number | null; // Epoch ms
+  nextRefreshAt: number | null; // Epoch ms; null while polling is paused
+  isRefreshing: boolean;
+  error: string | null; // Set if the last refresh failed
+}
+
+type PriceTickerListener = (state: PriceTickerState) => void;
+
+const INITIAL_STATE: PriceTickerState = {
+    latestPrices: {},
+    priceChanges: {},
+    lastRefreshedAt: null,
+    nextRefreshAt: null,
+    isRefreshing: false,
+    error: null,
+};
+
+let state = INITIAL_STATE;
+const listeners = new Set<PriceTickerListener>();
+let intervalMs = DEFAULT_PRICE_REFRESH_SECONDS * 1000;
+let isEnabled = true;
+let timer: number | undefined;
+// When prices were last requested, successfully or not; the next poll is due an interval later.
+let lastAttemptAt = Date.now();
+let refreshInFlight: Promise<void> | null = null;
+
+const setState = (updates: Partial<PriceTickerState>) => {
+    state = { ...state, ...updates };
+    listeners.forEach(listener => listener(state));
+};
+
+const isPaused = () => !isEnabled || listeners.size === 0 || document.visibilityState === 'hidden' || isOffline();
+
+// (Re)starts the timer for the next poll, or stops it while polling is paused.
+const schedule = () => {
+    window.clearTimeout(timer);
+    timer = undefined;
+    if (isPaused()) {
+        if (state.nextRefreshAt !== null) setState({ nextRefreshAt: null });
+        return;
+    }
+    const dueAt = lastAttemptAt + intervalMs;
+    // A poll that's overdue (e.g. the tab was hidden through it) runs straight away.
+    timer = window.setTimeout(() => {
+        refreshPrices().catch(() => { /* Logged by refreshPrices; the next poll retries */ });
+    }, Math.max(0, dueAt - Date.now()));
+    if (state.nextRefreshAt !== dueAt) setState({ nextRefreshAt: dueAt });
+};
+
+const delta = (current: number | null, previous: number | null) =>
+    current !== null && previous !== null ? current - previous : null;
+
+export const getPriceTickerState = (): PriceTickerState => state;
+
+/**
+ * Replaces the latest prices, recording a change for every item whose high or low price moved.
+ * Used for fetched prices that didn't come from the ticker itself, e.g. the initial cached load.
+ * @param prices The latest prices for every item.
+ */
+export const applyLatestPrices = (prices: Record<string, LatestPrice>) => {
+    const at = Date.now();
+    let priceChanges = state.priceChanges;
+    for (const [itemId, price] of Object.entries(prices)) {
+        const previous = state.latestPrices[itemId];
+        if (!previous || (previous.high === price.high && previous.low === price.low)) continue;
+        if (priceChanges === state.priceChanges) priceChanges = { ...priceChanges };
+        const change: PriceChange = {
+            at,
+            high: price.high,
+            low: price.low,
+            highDelta: delta(price.high, previous.high),
+            lowDelta: delta(price.low, previous.low),
+        };
+        priceChanges[itemId] = [...(priceChanges[itemId] ?? []), change].slice(-MAX_CHANGES_PER_ITEM);
+    }
+    lastAttemptAt = at;
+    setState({ latestPrices: prices, priceChanges, lastRefreshedAt: at, error: null });
+    schedule();
+};
+
+/**
+ * Fetches fresh prices now and restarts the polling interval. Calls made while a refresh is
+ * already running share its result.
+ * @throws If the prices couldn't be fetched.
+ */
+export const refreshPrices = (): Promise<void> => {
+    if (refreshInFlight) return refreshInFlight;
+    const requestedMode = getGameMode();
+    lastAttemptAt = Date.now();
+    setState({ isRefreshing: true });
+    refreshInFlight = (async () => {
+        try {
+            const prices = await fetchLatestPrices({ forceRefresh: true });
+            // The user switched game modes while this was loading; the new mode's prices take over.
+            if (getGameMode() !== requestedMode) return;
+            applyLatestPrices(prices);
+        } catch (error) {
+            console.error("Failed to refresh prices", error);
+            if (getGameMode() === requestedMode) setState({ error: "Failed to refresh latest prices. Please try again later." });
+            throw error;
+        } finally {
+            refreshInFlight = null;
+            setState({ isRefreshing: false });
+            schedule();
+        }
+    })();
+    return refreshInFlight;
+};
+
+/**
+ * Drops all prices and change history, e.g. when the game mode changes and the old economy's
+ * prices no longer apply.
+ */
+export const resetPriceTicker = () => {
+    lastAttemptAt = Date.now();
+    setState({ ...INITIAL_STATE, isRefreshing: state.isRefreshing });
+    schedule();
+};
+
+/**
+ * Sets how often prices are polled.
+ * @param seconds The polling interval in seconds.
+ */
+export const setPriceTickerInterval = (seconds: number) => {
+    intervalMs = seconds * 1000;
+    schedule();
+};
+
+/**
+ * Turns polling on or off. Manual refreshes still work while it's off.
+ * @param enabled Whether prices should refresh automatically.
+ */
+export const setPriceTickerEnabled = (enabled: boolean) => {
+    isEnabled = enabled;
+    schedule();
+};
+
+// Hiding the tab or going offline pauses polling; showing it again resumes (or catches up).
+const handlePauseChange = () => schedule();
+
+// Prices shown while offline are the last-known ones; fetch fresh ones as soon as we reconnect.
+const handleOnline = () => {
+    if (Object.keys(state.latestPrices).length > 0) {
+        refreshPrices().catch(() => { /* Logged by refreshPrices */ });
+    } else {
+        schedule();
+    }
+};
+
+/**
+ * Subscribes to price updates. Prices are only polled while there's at least one subscriber.
+ * @returns A function that unsubscribes the listener.
+ */
+export const subscribeToPriceTicker = (listener: PriceTickerListener): (() => void) => {
+    listeners.add(listener);
+    if (listeners.size === 1) {
+        document.addEventListener('visibilitychange', handlePauseChange);
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handlePauseChange);
+    }
+    schedule();
+    return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) {
+            document.removeEventListener('visibilitychange', handlePauseChange);
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handlePauseChange);
+        }
+        schedule();
+    };
+};
+
+/**
+ * The most recent change in an item's prices, if it has moved since prices were first loaded.
+ * @param priceChanges The change history from the ticker.
+ * @param itemId The item to look up.
+ */
+export const getLatestPriceChange = (priceChanges: Record<string, PriceChange[]>, itemId: number): PriceChange | null => {
+    const changes = priceChanges[itemId];
+    return changes?.[changes.length - 1] ?? null;
+};
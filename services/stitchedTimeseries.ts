@@ -0,0 +1,97 @@
+import type { TimeseriesData } from '../types';
+import { fetchTimeseries, fetchAllTimePrices, isAbortError, type WikiFetchOptions } from './osrsWikiApi';
+
+// The wiki returns at most 365 points per timeseries, so each timestep only reaches back so far:
+// 5m covers about a day, 1h about two weeks, 6h about three months and 24h about a year.
+// Stitching them together gives one continuous series that uses the finest resolution available
+// for each span, so a chart can zoom from all-time down to the last hour without refetching.
+
+type Timestep = '5m' | '1h' | '6h' | '24h';
+
+const TIMESTEP_SECONDS: Record<Timestep, number> = {
+    '5m': 5 * 60,
+    '1h': 60 * 60,
+    '6h': 6 * 60 * 60,
+    '24h': 24 * 60 * 60,
+};
+
+// Finest first; each series fills in the time before the finer ones begin.
+const TIMESTEPS: Timestep[] = ['5m', '1h', '6h', '24h'];
+
+/**
+ * Merges timeseries of different resolutions into one series ordered by time.
+ * Each span is taken from the finest series that covers it. A coarser point is only used if
+ * its whole window ends before the finer data begins, so no span is counted twice.
+ * @param series The timeseries for each timestep. Missing timesteps are skipped.
+ * @returns The merged series, with `timestep` set on every point.
+ */
+export const stitchTimeseries = (series: Partial<Record<Timestep, TimeseriesData[]>>): TimeseriesData[] => {
+    const stitched: TimeseriesData[] = [];
+    let finerDataStart = Infinity;
+
+    TIMESTEPS.forEach(timestep => {
+        const points = series[timestep];
+        if (!points || points.length === 0) return;
+        const seconds = TIMESTEP_SECONDS[timestep];
+        points.forEach(point => {
+            if (point.timestamp + seconds <= finerDataStart) {
+                stitched.push({ ...point, timestep: seconds });
+            }
+        });
+        finerDataStart = Math.min(finerDataStart, ...points.map(point => point.timestamp));
+    });
+
+    return stitched.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * Fetches the 5m, 1h, 6h and 24h timeseries for an item and stitches them into one series.
+ * A timestep that fails to load is left out, as long as at least one succeeds.
+ * @param id The item ID.
+ * @param options Cache and cancellation options. `onRevalidate` receives the re-stitched series once,
+ *   after every timestep that was stale has been revalidated (or failed to), so the chart isn't redrawn
+ *   from a mix of partial results.
+ * @throws An AbortError if cancelled, or the first error if every timestep fails.
+ */
+export const fetchStitchedTimeseries = async (id: number, options: WikiFetchOptions<TimeseriesData[]> = {}): Promise<TimeseriesData[]> => {
+    const { onRevalidate, ...fetchOptions } = options;
+    const loaded: Partial<Record<Timestep, TimeseriesData[]>> = {};
+    const revalidated: Partial<Record<Timestep, TimeseriesData[]>> = {};
+    const revalidations: Promise<unknown>[] = [];
+
+    const fetchTimestep = (timestep: Timestep) => {
+        const timestepOptions: WikiFetchOptions<TimeseriesData[]> = {
+            ...fetchOptions,
+            onRevalidate: onRevalidate && (fresh => { revalidated[timestep] = fresh; }),
+            onRevalidateStart: onRevalidate && (revalidation => { revalidations.push(revalidation); }),
+        };
+        return timestep === '24h'
+            ? fetchAllTimePrices(id, timestepOptions)
+            : fetchTimeseries(id, timestep, timestepOptions);
+    };
+
+    const results = await Promise.allSettled(TIMESTEPS.map(fetchTimestep));
+    const failures: unknown[] = [];
+    results.forEach((result, index) => {
+        const timestep = TIMESTEPS[index];
+        if (result.status === 'rejected') {
+            failures.push(result.reason);
+        } else {
+            loaded[timestep] = result.value;
+        }
+    });
+
+    const abortError = failures.find(isAbortError);
+    if (abortError) throw abortError;
+    if (failures.length === TIMESTEPS.length) throw failures[0];
+    if (failures.length > 0) {
+        console.warn(`Failed to load ${failures.length} of ${TIMESTEPS.length} timesteps for item ${id}; the chart may have gaps:`, failures);
+    }
+    // Every stale timestep has started revalidating by now, as each was returned from the cache.
+    if (onRevalidate && revalidations.length > 0) {
+        Promise.allSettled(revalidations).then(() => {
+            if (Object.keys(revalidated).length > 0) onRevalidate(stitchTimeseries({ ...loaded, ...revalidated }));
+        });
+    }
+    return stitchTimeseries(loaded);
+};
@@ -1,7 +1,7 @@
 
 
 import { createClient } from '@supabase/supabase-js';
-import type { AppStats, LeaderboardEntry, LeaderboardTimeRange, StatsTimeRange, Achievement, ProgressionNotificationData } from '../types';
+import type { AppStats, LeaderboardEntry, LeaderboardTimeRange, StatsTimeRange, Achievement, ProgressionNotificationData, AlertType, ExitThresholdType, GameMode } from '../types';
 
 // The 'Json' type is not directly exported from '@supabase/supabase-js' in v2.
 // This is the standard definition required for the Database type.
@@ -51,6 +51,74 @@ export type Database = {
         }
         Relationships: []
       }
+      alert_history: {
+        Row: {
+          id: string
+          user_id: string
+          game_mode: GameMode
+          alert_id: string | null
+          item_id: number
+          event: Json
+          acted_on: boolean
+          triggered_at: string
+          created_at: string
+        }
+        Insert: {
+          id: string
+          user_id: string
+          game_mode?: GameMode
+          alert_id?: string | null
+          item_id: number
+          event: Json
+          acted_on?: boolean
+          triggered_at: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          game_mode?: GameMode
+          alert_id?: string | null
+          item_id?: number
+          event?: Json
+          acted_on?: boolean
+          triggered_at?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_history_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      alert_webhooks: {
+        Row: {
+          user_id: string
+          urls: string[]
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          urls?: string[]
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          urls?: string[]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_webhooks_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       comments: {
         Row: {
           content: string
@@ -90,6 +158,7 @@ export type Database = {
       }
       investments: {
         Row: {
+          game_mode: GameMode
           created_at: string
           id: string
           item_id: number
@@ -100,8 +169,15 @@ export type Database = {
           sell_price: number | null
           tax_paid: number | null
           user_id: string
+          stop_loss: number | null
+          stop_loss_type: ExitThresholdType | null
+          take_profit: number | null
+          take_profit_type: ExitThresholdType | null
+          exit_triggered_at: string | null
+          lot_id: string | null
         }
         Insert: {
+          game_mode?: GameMode
           created_at?: string
           id?: string
           item_id: number
@@ -112,8 +188,15 @@ export type Database = {
           sell_price?: number | null
           tax_paid?: number | null
           user_id: string
+          stop_loss?: number | null
+          stop_loss_type?: ExitThresholdType | null
+          take_profit?: number | null
+          take_profit_type?: ExitThresholdType | null
+          exit_triggered_at?: string | null
+          lot_id?: string | null
         }
         Update: {
+          game_mode?: GameMode
           created_at?: string
           id?: string
           item_id?: number
@@ -124,6 +207,12 @@ export type Database = {
           sell_price?: number | null
           tax_paid?: number | null
           user_id?: string
+          stop_loss?: number | null
+          stop_loss_type?: ExitThresholdType | null
+          take_profit?: number | null
+          take_profit_type?: ExitThresholdType | null
+          exit_triggered_at?: string | null
+          lot_id?: string | null
         }
         Relationships: [
           {
@@ -168,6 +257,61 @@ export type Database = {
           }
         ]
       }
+      price_alerts: {
+        Row: {
+          game_mode: GameMode
+          id: string
+          user_id: string
+          item_id: number
+          target_price: number
+          condition: 'above' | 'below'
+          price_type: 'high' | 'low'
+          alert_type: AlertType
+          timeframe: '1h' | '24h' | null
+          triggered_at: string | null
+          snoozed_until: string | null
+          expired_at: string | null
+          created_at: string
+        }
+        Insert: {
+          game_mode?: GameMode
+          id?: string
+          user_id: string
+          item_id: number
+          target_price: number
+          condition: 'above' | 'below'
+          price_type: 'high' | 'low'
+          alert_type?: AlertType
+          timeframe?: '1h' | '24h' | null
+          triggered_at?: string | null
+          snoozed_until?: string | null
+          expired_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          game_mode?: GameMode
+          id?: string
+          user_id?: string
+          item_id?: number
+          target_price?: number
+          condition?: 'above' | 'below'
+          price_type?: 'high' | 'low'
+          alert_type?: AlertType
+          timeframe?: '1h' | '24h' | null
+          triggered_at?: string | null
+          snoozed_until?: string | null
+          expired_at?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_alerts_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       profiles: {
         Row: {
           id: string
@@ -249,18 +393,21 @@ export type Database = {
       }
       watchlists: {
         Row: {
+          game_mode: GameMode
           created_at: string
           id: number
           item_id: number
           user_id: string
         }
         Insert: {
+          game_mode?: GameMode
           created_at?: string
           id?: number
           item_id: number
           user_id: string
         }
         Update: {
+          game_mode?: GameMode
           created_at?: string
           id?: number
           item_id?: number
@@ -280,9 +427,36 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      create_price_alert: {
+        Args: {
+          p_item_id: number
+          p_target_price: number
+          p_condition: 'above' | 'below'
+          p_price_type: 'high' | 'low'
+          p_alert_type: AlertType
+          p_timeframe: '1h' | '24h' | null
+          p_game_mode: GameMode
+        }
+        Returns: {
+          id: string
+          user_id: string
+          item_id: number
+          target_price: number
+          condition: 'above' | 'below'
+          price_type: 'high' | 'low'
+          alert_type: AlertType
+          timeframe: '1h' | '24h' | null
+          triggered_at: string | null
+          snoozed_until: string | null
+          expired_at: string | null
+          created_at: string
+          game_mode: GameMode
+        }
+      }
       get_app_stats: {
         Args: {
           time_range: StatsTimeRange
+          p_game_mode: GameMode
         }
         Returns: {
             totalUsers: number
@@ -297,6 +471,7 @@ export type Database = {
       get_leaderboard: {
         Args: {
           time_range: LeaderboardTimeRange
+          p_game_mode: GameMode
         }
         Returns: {
             rank: number
@@ -313,6 +488,7 @@ export type Database = {
       get_user_total_profit: {
         Args: {
           p_user_id: string
+          p_game_mode: GameMode
         }
         Returns: number
       }
@@ -349,6 +525,10 @@ export type Database = {
           Args: { p_user_id: string, p_profit: number, p_trade_value: number }
           Returns: Json
       }
+      process_investment_sales: {
+          Args: { p_lot_sales: Json, p_idempotency_key: string }
+          Returns: Json
+      }
       spend_ai_token: {
           Args: { p_user_id: string }
           Returns: number
@@ -0,0 +1,98 @@
+import type { GameMode } from '../types';
+
+// Tells the app's other open tabs when the user's watchlist, portfolio or price alerts change in the
+// database, so they fetch them again instead of showing (and editing) rows that no longer exist.
+// State kept in localStorage follows other tabs by itself; see `useLocalStorage`.
+// Also elects one tab to do work that should only happen once however many tabs are open.
+
+export type SyncedTable = 'watchlist' | 'investments' | 'price_alerts' | 'alert_history';
+
+interface TableChangeMessage {
+    table: SyncedTable;
+    userId: string;
+    gameMode: GameMode;
+}
+
+const CHANNEL_NAME = 'ge-pulse-table-changes';
+// BroadcastChannel is missing in some older browsers; tabs there just don't update each other.
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+/**
+ * Tells the other tabs that this tab changed one of the user's tables.
+ * @param table The table that changed.
+ * @param userId The user whose rows changed.
+ * @param gameMode The game mode the rows belong to.
+ */
+export const broadcastTableChange = (table: SyncedTable, userId: string, gameMode: GameMode) => {
+    const message: TableChangeMessage = { table, userId, gameMode };
+    channel?.postMessage(message);
+};
+
+/**
+ * Subscribes to another tab's changes to one of the user's tables in one game mode.
+ * @returns A function that unsubscribes the listener.
+ */
+export const subscribeToTableChanges = (table: SyncedTable, userId: string, gameMode: GameMode, listener: () => void): (() => void) => {
+    if (!channel) return () => {};
+    const handleMessage = (event: MessageEvent<TableChangeMessage>) => {
+        const message = event.data;
+        if (message.table === table && message.userId === userId && message.gameMode === gameMode) listener();
+    };
+    channel.addEventListener('message', handleMessage);
+    return () => channel.removeEventListener('message', handleMessage);
+};
+
+/**
+ * Makes this tab the leader for `lockName` while no other visible tab is, using a Web Lock. Only
+ * visible tabs compete: a tab gives up leadership when hidden, so a visible tab takes over. Without
+ * the Web Locks API every tab is its own leader.
+ * @param lockName Names the work being coordinated; tabs using the same name share one leader.
+ * @param onChange Called with `true` when this tab becomes the leader and `false` when it stops being one.
+ * @returns A function that gives up leadership and stops competing for it.
+ */
+export const holdTabLeadership = (lockName: string, onChange: (isLeader: boolean) => void): (() => void) => {
+    if (typeof navigator === 'undefined' || !navigator.locks) {
+        onChange(true);
+        return () => {};
+    }
+    let stopped = false;
+    let isLeader = false;
+    // Set while the lock is requested or held.
+    let request: AbortController | null = null;
+    let releaseLock: (() => void) | null = null;
+
+    const update = () => {
+        if (stopped || document.visibilityState === 'hidden') {
+            request?.abort(); // Only cancels a request still waiting for the lock
+            releaseLock?.();
+            return;
+        }
+        if (request) return;
+        const controller = new AbortController();
+        request = controller;
+        navigator.locks.request(lockName, { signal: controller.signal }, () => new Promise<void>(resolve => {
+            releaseLock = resolve;
+            isLeader = true;
+            onChange(true);
+        })).catch(error => {
+            if (error?.name !== 'AbortError') console.warn(`Failed to request the ${lockName} lock:`, error);
+        }).finally(() => {
+            request = null;
+            releaseLock = null;
+            if (isLeader) {
+                isLeader = false;
+                if (!stopped) onChange(false);
+            }
+            // The tab may have been shown again while the lock was being released.
+            update();
+        });
+    };
+
+    document.addEventListener('visibilitychange', update);
+    update();
+    return () => {
+        stopped = true;
+        document.removeEventListener('visibilitychange', update);
+        update();
+    };
+};
@@ -0,0 +1,167 @@
+import type { TriggeredAlert } from '../types';
+import { describeAlertCondition, describePriceChange, formatAlertMetricValue } from '../utils/alerts';
+import { getHighResImageUrl } from '../utils/image';
+
+// Discord-compatible webhook body. Any endpoint that accepts a JSON POST can receive it.
+export interface AlertWebhookPayload {
+    username: string;
+    content: string;
+    embeds: {
+        title: string;
+        description: string;
+        color: number;
+        thumbnail: { url: string };
+        fields: { name: string; value: string; inline?: boolean }[];
+        timestamp: string;
+    }[];
+}
+
+const WEBHOOK_USERNAME = 'GE Pulse';
+const WEBHOOK_EMBED_COLOR = 0x10b981; // Matches the app's emerald accent
+const WEBHOOK_MAX_ATTEMPTS = 4;
+const WEBHOOK_BASE_DELAY_MS = 1000;
+const WEBHOOK_MAX_DELAY_MS = 30000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Checks that a string is an absolute http(s) URL.
+ * Plain http is allowed so a local stand-in server can be used for testing.
+ * @param url The URL to validate.
+ */
+export const isValidWebhookUrl = (url: string): boolean => {
+    try {
+        const parsed = new URL(url);
+        return parsed.protocol === 'https:' || parsed.protocol === 'http:';
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Builds the webhook payload for a triggered alert.
+ * @param triggered The triggered alert.
+ * @returns A Discord-compatible JSON payload.
+ */
+export const buildAlertWebhookPayload = (triggered: TriggeredAlert): AlertWebhookPayload => {
+    const condition = describeAlertCondition(triggered.alert);
+    const value = formatAlertMetricValue(triggered.alert, triggered.value);
+    const fields = [
+        { name: 'Condition', value: condition },
+        { name: 'Current', value, inline: true },
+    ];
+    if (triggered.priceSnapshot) {
+        fields.push(
+            { name: 'High', value: `${triggered.priceSnapshot.high?.toLocaleString() ?? 'N/A'} gp`, inline: true },
+            { name: 'Low', value: `${triggered.priceSnapshot.low?.toLocaleString() ?? 'N/A'} gp`, inline: true },
+        );
+    }
+    const priceChange = describePriceChange(triggered.alert, triggered.priceChange);
+    if (priceChange) {
+        fields.push({ name: 'Last Move', value: priceChange });
+    }
+
+    return {
+        username: WEBHOOK_USERNAME,
+        content: `Price alert triggered for **${triggered.itemName}**`,
+        embeds: [{
+            title: triggered.itemName,
+            description: `${condition} (now ${value})`,
+            color: WEBHOOK_EMBED_COLOR,
+            thumbnail: { url: getHighResImageUrl(triggered.itemName) },
+            fields,
+            timestamp: new Date(triggered.triggeredAt).toISOString(),
+        }],
+    };
+};
+
+/**
+ * Works out how long to wait before retrying a failed request.
+ * Honours the `Retry-After` header (and Discord's `retry_after` body field) on 429s,
+ * otherwise backs off exponentially.
+ */
+const getRetryDelay = async (response: Response | null, attempt: number): Promise<number> => {
+    if (response?.status === 429) {
+        const header = response.headers.get('Retry-After');
+        if (header && !isNaN(Number(header))) {
+            return Math.min(Number(header) * 1000, WEBHOOK_MAX_DELAY_MS);
+        }
+        try {
+            const body = await response.json();
+            if (typeof body?.retry_after === 'number') {
+                return Math.min(body.retry_after * 1000, WEBHOOK_MAX_DELAY_MS);
+            }
+        } catch {
+            // Fall through to the exponential backoff below.
+        }
+    }
+    return Math.min(WEBHOOK_BASE_DELAY_MS * 2 ** attempt, WEBHOOK_MAX_DELAY_MS);
+};
+
+/**
+ * POSTs a JSON payload to a webhook URL.
+ * Network errors, 429s and 5xx responses are retried with backoff; other 4xx responses
+ * mean the webhook is misconfigured, so they fail immediately.
+ * @param url The webhook URL.
+ * @param payload The JSON payload to send.
+ * @throws An error describing the last failure if every attempt fails.
+ */
+export const postWebhook = async (url: string, payload: AlertWebhookPayload): Promise<void> => {
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt < WEBHOOK_MAX_ATTEMPTS; attempt++) {
+        let response: Response | null = null;
+        try {
+            response = await fetch(url, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(payload),
+            });
+            if (response.ok) return;
+            lastError = new Error(`Webhook responded with status ${response.status}.`);
+            if (response.status !== 429 && response.status < 500) break;
+        } catch (error) {
+            lastError = new Error('Could not reach the webhook URL.');
+        }
+
+        if (attempt < WEBHOOK_MAX_ATTEMPTS - 1) {
+            await sleep(await getRetryDelay(response, attempt));
+        }
+    }
+
+    throw lastError ?? new Error('Failed to deliver webhook.');
+};
+
+/**
+ * Sends a triggered alert to every configured webhook.
+ * Failures are logged rather than thrown so one bad URL doesn't block the others.
+ * @param urls The user's webhook URLs.
+ * @param triggered The triggered alert.
+ */
+export const deliverAlertWebhooks = async (urls: string[], triggered: TriggeredAlert): Promise<void> => {
+    const payload = buildAlertWebhookPayload(triggered);
+    const results = await Promise.allSettled(urls.map(url => postWebhook(url, payload)));
+    results.forEach((result, i) => {
+        if (result.status === 'rejected') {
+            console.error(`Failed to deliver alert webhook to ${urls[i]}:`, result.reason);
+        }
+    });
+};
+
+/**
+ * Sends a sample alert payload so the user can check a webhook is set up correctly.
+ * @param url The webhook URL to test.
+ * @throws An error if delivery fails.
+ */
+export const sendTestWebhook = async (url: string): Promise<void> => {
+    const payload = buildAlertWebhookPayload({
+        id: 'test',
+        alert: { id: 'test', itemId: 4151, type: 'price', targetPrice: 1500000, condition: 'below', priceType: 'low' },
+        itemName: 'Abyssal whip',
+        value: 1495000,
+        priceSnapshot: { high: 1510000, highTime: null, low: 1495000, lowTime: null },
+        triggeredAt: Date.now(),
+    });
+    payload.content = 'This is a test alert from GE Pulse. Your webhook is working!';
+    await postWebhook(url, payload);
+};
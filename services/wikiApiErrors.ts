@@ -0,0 +1,41 @@
+// Typed errors raised by the OSRS Wiki API client (services/osrsWikiApi.ts).
+
+// Base class for every error raised by the wiki API client.
+export class WikiApiError extends Error {
+  constructor(message: string, public readonly endpoint: string) {
+    super(message);
+    this.name = 'WikiApiError';
+  }
+}
+
+// The request never got a response (offline, DNS failure, CORS rejection, ...).
+export class WikiNetworkError extends WikiApiError {
+  constructor(endpoint: string, public readonly cause?: unknown) {
+    super(`Network error while fetching ${endpoint}.`, endpoint);
+    this.name = 'WikiNetworkError';
+  }
+}
+
+// The API responded with a non-2xx status.
+export class WikiHttpError extends WikiApiError {
+  constructor(endpoint: string, public readonly status: number, statusText: string) {
+    super(`Failed to fetch ${endpoint}: ${status} ${statusText}`.trim(), endpoint);
+    this.name = 'WikiHttpError';
+  }
+}
+
+// The API responded, but the body wasn't valid JSON or didn't have the expected shape.
+export class WikiParseError extends WikiApiError {
+  constructor(endpoint: string, detail = 'the body is not valid JSON') {
+    super(`Failed to parse the response from ${endpoint}: ${detail}.`, endpoint);
+    this.name = 'WikiParseError';
+  }
+}
+
+/**
+ * Whether an error was caused by the request being cancelled through its AbortSignal.
+ * Callers should usually ignore these rather than showing an error.
+ */
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof DOMException && error.name === 'AbortError';
+};
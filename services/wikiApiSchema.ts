@@ -0,0 +1,193 @@
+import type { Item, TimeseriesData, LatestPrice, AggregatePrice } from '../types';
+import { WikiParseError } from './wikiApiErrors';
+
+// Runtime validation for OSRS Wiki API responses. The API is mostly well-formed, but fields
+// are occasionally missing (e.g. items without a buy `limit`) or null. Each normalizer coerces
+// or defaults what it can and drops records that can't be used, so the rest of the app can
+// rely on the types in types.ts.
+
+export interface ValidationReport {
+    endpoint: string;
+    accepted: number;
+    rejected: number;
+    validatedAt: number;
+}
+
+// The result of the most recent validation for each endpoint, e.g. for debugging in the console.
+const validationReports: Record<string, ValidationReport> = {};
+
+export const getValidationReports = (): Readonly<Record<string, ValidationReport>> => validationReports;
+
+const recordReport = (endpoint: string, accepted: number, rejected: number) => {
+    validationReports[endpoint] = { endpoint, accepted, rejected, validatedAt: Date.now() };
+    if (rejected > 0) {
+        console.warn(`Rejected ${rejected} of ${accepted + rejected} malformed records from ${endpoint}.`);
+    }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Accepts numbers and numeric strings; anything else becomes null.
+const toNumber = (value: unknown): number | null => {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    if (typeof value === 'string' && value.trim() !== '') {
+        const parsed = Number(value);
+        return Number.isFinite(parsed) ? parsed : null;
+    }
+    return null;
+};
+
+// Prices of zero or less are never valid trades, so they're treated as missing.
+const toPrice = (value: unknown): number | null => {
+    const num = toNumber(value);
+    return num !== null && num > 0 ? num : null;
+};
+
+const toCount = (value: unknown): number => {
+    const num = toNumber(value);
+    return num !== null && num >= 0 ? num : 0;
+};
+
+const toItemId = (value: unknown): number | null => {
+    const num = toNumber(value);
+    return num !== null && Number.isInteger(num) && num >= 0 ? num : null;
+};
+
+const getResponseData = (raw: unknown, endpoint: string): unknown => {
+    if (!isRecord(raw) || !('data' in raw)) {
+        throw new WikiParseError(endpoint, 'missing "data"');
+    }
+    return raw.data;
+};
+
+const normalizeItem = (raw: unknown, fallbackId?: string): Item | null => {
+    if (!isRecord(raw)) return null;
+    const id = toItemId(raw.id ?? fallbackId);
+    const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+    if (id === null || !name) return null;
+
+    return {
+        id,
+        name,
+        examine: typeof raw.examine === 'string' ? raw.examine : '',
+        icon: typeof raw.icon === 'string' && raw.icon ? raw.icon : `${name}.png`,
+        members: raw.members === true || raw.members === 'true',
+        lowalch: toCount(raw.lowalch),
+        highalch: toCount(raw.highalch),
+        limit: toCount(raw.limit), // 0 means the buy limit is unknown
+        value: toCount(raw.value),
+    };
+};
+
+/**
+ * Validates the `/mapping` response. Accepts either the array the API returns
+ * or an object keyed by item ID.
+ * @param raw The parsed JSON response.
+ * @returns The valid items.
+ */
+export const normalizeItemMapping = (raw: unknown): Item[] => {
+    if (!Array.isArray(raw) && !isRecord(raw)) {
+        throw new WikiParseError('/mapping', 'expected an array of items');
+    }
+    const entries: [string | undefined, unknown][] = Array.isArray(raw)
+        ? raw.map(entry => [undefined, entry])
+        : Object.entries(raw);
+
+    const items: Item[] = [];
+    entries.forEach(([key, entry]) => {
+        const item = normalizeItem(entry, key);
+        if (item) items.push(item);
+    });
+    recordReport('/mapping', items.length, entries.length - items.length);
+    return items;
+};
+
+// Validates an object keyed by item ID, dropping entries with a non-numeric key or unusable value.
+const normalizeById = <T,>(raw: unknown, endpoint: string, normalizeEntry: (entry: unknown) => T | null): Record<string, T> => {
+    const data = getResponseData(raw, endpoint);
+    if (!isRecord(data)) {
+        throw new WikiParseError(endpoint, '"data" is not an object');
+    }
+
+    const result: Record<string, T> = {};
+    let rejected = 0;
+    Object.entries(data).forEach(([key, entry]) => {
+        const normalized = toItemId(key) !== null ? normalizeEntry(entry) : null;
+        if (normalized) {
+            result[key] = normalized;
+        } else {
+            rejected++;
+        }
+    });
+    recordReport(endpoint, Object.keys(result).length, rejected);
+    return result;
+};
+
+/**
+ * Validates the `/latest` response.
+ * @param raw The parsed JSON response.
+ * @returns Latest prices keyed by item ID.
+ */
+export const normalizeLatestPrices = (raw: unknown): Record<string, LatestPrice> => {
+    return normalizeById(raw, '/latest', entry => {
+        if (!isRecord(entry)) return null;
+        const high = toPrice(entry.high);
+        const low = toPrice(entry.low);
+        return {
+            high,
+            highTime: high !== null ? toNumber(entry.highTime) : null,
+            low,
+            lowTime: low !== null ? toNumber(entry.lowTime) : null,
+        };
+    });
+};
+
+/**
+ * Validates the `/1h`, `/24h` and similar aggregate responses.
+ * @param raw The parsed JSON response.
+ * @param endpoint The endpoint the response came from, for reporting.
+ * @returns Aggregate prices keyed by item ID.
+ */
+export const normalizeAggregatePrices = (raw: unknown, endpoint: string): Record<string, AggregatePrice> => {
+    return normalizeById(raw, endpoint, entry => {
+        if (!isRecord(entry)) return null;
+        return {
+            avgHighPrice: toPrice(entry.avgHighPrice),
+            avgLowPrice: toPrice(entry.avgLowPrice),
+            highPriceVolume: toCount(entry.highPriceVolume),
+            lowPriceVolume: toCount(entry.lowPriceVolume),
+        };
+    });
+};
+
+/**
+ * Validates a `/timeseries` response. Points without a valid timestamp are dropped.
+ * @param raw The parsed JSON response.
+ * @param endpoint The endpoint the response came from, for reporting.
+ * @returns The timeseries points.
+ */
+export const normalizeTimeseries = (raw: unknown, endpoint: string): TimeseriesData[] => {
+    const data = getResponseData(raw, endpoint);
+    if (!Array.isArray(data)) {
+        throw new WikiParseError(endpoint, '"data" is not an array');
+    }
+
+    const points: TimeseriesData[] = [];
+    data.forEach(entry => {
+        if (!isRecord(entry)) return;
+        const timestamp = toNumber(entry.timestamp);
+        if (timestamp === null || timestamp <= 0) return;
+        points.push({
+            timestamp,
+            avgHighPrice: toPrice(entry.avgHighPrice),
+            avgLowPrice: toPrice(entry.avgLowPrice),
+            highPriceVolume: toCount(entry.highPriceVolume),
+            lowPriceVolume: toCount(entry.lowPriceVolume),
+        });
+    });
+    // Timeseries reports use the endpoint path without the item-specific query string.
+    recordReport(endpoint.split('&id=')[0], points.length, data.length - points.length);
+    return points;
+};
@@ -0,0 +1,303 @@
+import React, { createContext, useContext, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { PriceAlert, PriceAlertDraft, PriceAlertState, TriggeredAlert } from '../types';
+import { DEFAULT_GAME_MODE, FREE_USER_ALERT_LIMIT } from '../constants';
+import { fetchUserAlerts, createPriceAlert, updatePriceAlert, deletePriceAlert, markPriceAlertTriggered, updatePriceAlertState, migrateLocalAlerts, recordActivity, fetchAlertHistory, addAlertHistory, setAlertHistoryActed, clearAlertHistory } from '../services/database';
+import { requestNotificationPermission, showAlertBrowserNotification } from '../services/notifications';
+import { deliverAlertWebhooks } from '../services/webhooks';
+import { evaluateAlerts, normalizeAlert, alertRequiresAggregates } from '../utils/alerts';
+import { broadcastTableChange, holdTabLeadership, subscribeToTableChanges } from '../services/tabSync';
+import { useLocalStorage } from '../hooks/useLocalStorage';
+import { useGameMode, useGameModeChange } from './GameModeStore';
+import { useSession } from './SessionStore';
+import { useProgression } from './ProgressionStore';
+import { useItems, useAggregatePrices } from './MarketDataStore';
+
+// Price alerts for the current game mode, the alerts that have fired, and their history.
+
+const ALERT_HISTORY_LIMIT = 200; // Oldest triggered-alert events are dropped beyond this
+// With several tabs open, only the leader evaluates alerts, so each one fires (and notifies) once.
+const ALERT_EVALUATION_LOCK = 'ge-pulse-alert-evaluation';
+
+interface AlertsStore {
+  alerts: PriceAlert[];
+  isLoading: boolean;
+  error: string | null;
+  saveAlert: (draft: PriceAlertDraft, alertId?: string) => Promise<void>;
+  removeAlert: (alertId: string) => Promise<void>;
+  updateAlertState: (alertId: string, state: PriceAlertState) => Promise<void>;
+  recordAlertActivity: (priceType: 'high' | 'low') => Promise<void>;
+  // Alerts fired since the page was opened, shown as toasts until dismissed.
+  triggeredAlerts: TriggeredAlert[];
+  removeTriggeredAlert: (id: string) => void;
+  alertHistory: TriggeredAlert[];
+  toggleEventActed: (eventId: string) => Promise<void>;
+  clearHistory: () => Promise<void>;
+}
+
+interface AlertsProviderProps {
+  children: React.ReactNode;
+  onOpenItem: (itemId: number) => void; // Called when a fired alert's browser notification is clicked
+}
+
+const AlertsContext = createContext<AlertsStore | null>(null);
+
+export const AlertsProvider: React.FC<AlertsProviderProps> = ({ children, onOpenItem }) => {
+  const { gameMode } = useGameMode();
+  const { session, profile, openAuthModal } = useSession();
+  const { addNotifications } = useProgression();
+  const { items } = useItems();
+  // Logged-out users keep alerts in localStorage; logged-in users' alerts live in the database.
+  const [localAlerts, setLocalAlerts] = useLocalStorage<PriceAlert[]>('priceAlerts', [], { mergeBy: a => a.id });
+  const [serverAlerts, setServerAlerts] = useState<PriceAlert[]>([]);
+  const localModeAlerts = useMemo(() => localAlerts.filter(a => (a.gameMode ?? DEFAULT_GAME_MODE) === gameMode), [localAlerts, gameMode]);
+  const alerts = session ? serverAlerts : localModeAlerts;
+  const setAlerts = session ? setServerAlerts : setLocalAlerts;
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [triggeredAlerts, setTriggeredAlerts] = useState<TriggeredAlert[]>([]);
+  // Like alerts, history is kept in localStorage while logged out and in the database while logged in.
+  const [allLocalAlertHistory, setAllLocalAlertHistory] = useLocalStorage<TriggeredAlert[]>('alertHistory', [], { mergeBy: e => e.id });
+  const [serverAlertHistory, setServerAlertHistory] = useState<TriggeredAlert[]>([]);
+  const localAlertHistory = useMemo(() => allLocalAlertHistory.filter(e => (e.alert.gameMode ?? DEFAULT_GAME_MODE) === gameMode), [allLocalAlertHistory, gameMode]);
+  const alertHistory = session ? serverAlertHistory : localAlertHistory;
+  const webhookUrls = useMemo(() => profile?.alert_webhook_urls ?? [], [profile?.alert_webhook_urls]);
+  const onOpenItemRef = useRef(onOpenItem);
+  onOpenItemRef.current = onOpenItem;
+  const [isEvaluatingTab, setIsEvaluatingTab] = useState(false);
+
+  useEffect(() => holdTabLeadership(ALERT_EVALUATION_LOCK, setIsEvaluatingTab), []);
+
+  // Percent-change and volume alerts need the aggregates, whichever page is open.
+  const { latestPrices, priceChanges, oneHourPrices, twentyFourHourPrices } = useAggregatePrices(alerts.some(alertRequiresAggregates));
+
+  useGameModeChange(() => {
+    setServerAlerts([]);
+    setServerAlertHistory([]);
+    setTriggeredAlerts([]);
+  });
+
+  // Alerts saved by older versions of the app have no `id` or `type`; fill them in once on load.
+  useEffect(() => {
+    if (localAlerts.some(a => !a.id || !a.type)) {
+      setLocalAlerts(prev => prev.map(normalizeAlert));
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // --- Fetch Alerts from DB on Login ---
+  useEffect(() => {
+    if (!session) {
+      setServerAlerts([]);
+      setServerAlertHistory([]);
+      setIsLoading(false);
+      return;
+    }
+    // Ignores the result if the game mode changes (or the user logs out) while loading.
+    let cancelled = false;
+    const loadAlerts = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const [userAlerts, userAlertHistory] = await Promise.all([
+          fetchUserAlerts(session.user.id, gameMode),
+          fetchAlertHistory(session.user.id, gameMode, ALERT_HISTORY_LIMIT),
+        ]);
+        if (cancelled) return;
+
+        // History recorded while logged out is added to the account's history, then cleared locally.
+        if (localAlertHistory.length > 0) {
+          await addAlertHistory(session.user.id, localAlertHistory);
+          if (cancelled) return;
+          const uploadedIds = new Set(localAlertHistory.map(e => e.id));
+          setAllLocalAlertHistory(prev => prev.filter(e => !uploadedIds.has(e.id)));
+          const knownIds = new Set(userAlertHistory.map(e => e.id));
+          setServerAlertHistory([...userAlertHistory, ...localAlertHistory.filter(e => !knownIds.has(e.id))]
+            .sort((a, b) => b.triggeredAt - a.triggeredAt)
+            .slice(0, ALERT_HISTORY_LIMIT));
+        } else {
+          setServerAlertHistory(userAlertHistory);
+        }
+
+        // One-time migration: upload any alerts saved in localStorage while logged out, then clear them locally.
+        // Only this game mode's alerts are uploaded, so they're checked for duplicates against the right list;
+        // the rest are migrated when the user switches to their mode. Alerts that couldn't be uploaded (e.g. past
+        // the free-tier limit) stay in localStorage, and are tried again the next time alerts load.
+        if (localModeAlerts.length > 0) {
+          const { uploaded, notUploaded } = await migrateLocalAlerts(localModeAlerts, userAlerts);
+          if (cancelled) return;
+          setServerAlerts([...userAlerts, ...uploaded]);
+          if (uploaded.length > 0) broadcastTableChange('price_alerts', session.user.id, gameMode);
+          const keptIds = new Set(notUploaded.map(a => a.id));
+          setLocalAlerts(prev => prev.filter(a => (a.gameMode ?? DEFAULT_GAME_MODE) !== gameMode || keptIds.has(a.id)));
+          if (notUploaded.length > 0) {
+            setError(`${notUploaded.length} alert(s) saved on this device couldn't be added to your account, so they're kept on this device for now. Free users are limited to ${FREE_USER_ALERT_LIMIT} alerts.`);
+          }
+        } else {
+          setServerAlerts(userAlerts);
+        }
+      } catch (err) {
+        console.error("Failed to load alerts", err);
+        if (!cancelled) setError("Failed to load your price alerts.");
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    loadAlerts();
+    return () => { cancelled = true; };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [session, gameMode]);
+
+  // Refetches alerts and history another tab changed, including alerts it fired. Logged-out alerts and
+  // history are in localStorage, which follows other tabs by itself.
+  useEffect(() => {
+    if (!session) return;
+    const userId = session.user.id;
+    let cancelled = false;
+    const unsubscribeAlerts = subscribeToTableChanges('price_alerts', userId, gameMode, () => {
+      fetchUserAlerts(userId, gameMode)
+        .then(userAlerts => { if (!cancelled) setServerAlerts(userAlerts); })
+        .catch(err => console.error("Failed to sync price alerts from another tab", err));
+    });
+    const unsubscribeHistory = subscribeToTableChanges('alert_history', userId, gameMode, () => {
+      fetchAlertHistory(userId, gameMode, ALERT_HISTORY_LIMIT)
+        .then(userAlertHistory => { if (!cancelled) setServerAlertHistory(userAlertHistory); })
+        .catch(err => console.error("Failed to sync alert history from another tab", err));
+    });
+    return () => {
+      cancelled = true;
+      unsubscribeAlerts();
+      unsubscribeHistory();
+    };
+  }, [session, gameMode]);
+
+  // --- Price Alert Evaluation ---
+  // Runs whenever prices change (initial load and every refresh) or the alert list changes, in the
+  // evaluating tab only. Fired alerts are stamped with `triggeredAt` so they don't fire again on the next poll.
+  useEffect(() => {
+    if (!isEvaluatingTab) return;
+    if (Object.keys(latestPrices).length === 0 || Object.keys(items).length === 0) return;
+
+    const newlyTriggered = evaluateAlerts(alerts, { items, latestPrices, oneHourPrices, twentyFourHourPrices, priceChanges });
+    if (newlyTriggered.length === 0) return;
+
+    const triggeredAlertIds = new Set(newlyTriggered.map(t => t.alert.id));
+    const triggeredAt = newlyTriggered[0].triggeredAt;
+    setAlerts(prev => prev.map(a => triggeredAlertIds.has(a.id) && !a.triggeredAt ? { ...a, triggeredAt } : a));
+    setTriggeredAlerts(prev => [...prev, ...newlyTriggered]);
+    if (session) {
+      setServerAlertHistory(prev => [...newlyTriggered, ...prev].slice(0, ALERT_HISTORY_LIMIT));
+      addAlertHistory(session.user.id, newlyTriggered)
+        .then(() => broadcastTableChange('alert_history', session.user.id, gameMode))
+        .catch(err => console.error("Failed to save alert history", err));
+    } else {
+      setAllLocalAlertHistory(prev => [...newlyTriggered, ...prev].slice(0, ALERT_HISTORY_LIMIT));
+    }
+
+    if (session) {
+        // Persist the triggers so the alerts don't fire again on the user's other devices, then have
+        // this device's other tabs pick them up.
+        Promise.allSettled(newlyTriggered.map(triggered =>
+            markPriceAlertTriggered(triggered.alert.id, triggered.triggeredAt).catch(err => console.error("Failed to persist triggered alert", err))
+        )).then(() => broadcastTableChange('price_alerts', session.user.id, gameMode));
+    }
+    newlyTriggered.forEach(triggered => {
+        showAlertBrowserNotification(triggered, () => onOpenItemRef.current(triggered.alert.itemId));
+        if (webhookUrls.length > 0) {
+            deliverAlertWebhooks(webhookUrls, triggered);
+        }
+    });
+  // priceChanges is only read to annotate fired alerts; it changes alongside latestPrices.
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isEvaluatingTab, latestPrices, oneHourPrices, twentyFourHourPrices, alerts, items, session, gameMode, setAlerts, setAllLocalAlertHistory, webhookUrls]);
+
+  // Creates a new alert, or updates (and re-arms) the alert with `alertId` if one is given.
+  const saveAlert = useCallback(async (draft: PriceAlertDraft, alertId?: string) => {
+    if (!session) {
+      const savedAlert: PriceAlert = { ...draft, gameMode, id: alertId ?? crypto.randomUUID(), triggeredAt: null };
+      setLocalAlerts(prev => alertId ? prev.map(a => a.id === alertId ? savedAlert : a) : [...prev, savedAlert]);
+      return;
+    }
+    // Errors (including the free-tier limit from `create_price_alert`) propagate to the alert modal.
+    if (alertId) {
+      const savedAlert = await updatePriceAlert(alertId, draft);
+      setServerAlerts(prev => prev.map(a => a.id === alertId ? savedAlert : a));
+    } else {
+      const savedAlert = await createPriceAlert({ ...draft, gameMode });
+      setServerAlerts(prev => [...prev, savedAlert]);
+    }
+    broadcastTableChange('price_alerts', session.user.id, gameMode);
+  }, [session, setLocalAlerts, gameMode]);
+
+  const removeAlert = useCallback(async (alertId: string) => {
+    if (!session) {
+      setLocalAlerts(prev => prev.filter(a => a.id !== alertId));
+      return;
+    }
+    await deletePriceAlert(alertId);
+    setServerAlerts(prev => prev.filter(a => a.id !== alertId));
+    broadcastTableChange('price_alerts', session.user.id, gameMode);
+  }, [session, setLocalAlerts, gameMode]);
+
+  // Re-arms, snoozes or expires an alert.
+  const updateAlertState = useCallback(async (alertId: string, state: PriceAlertState) => {
+    if (!session) {
+      setLocalAlerts(prev => prev.map(a => a.id === alertId ? { ...a, ...state } : a));
+      return;
+    }
+    const updatedAlert = await updatePriceAlertState(alertId, state);
+    setServerAlerts(prev => prev.map(a => a.id === alertId ? updatedAlert : a));
+    broadcastTableChange('price_alerts', session.user.id, gameMode);
+  }, [session, setLocalAlerts, gameMode]);
+
+  const recordAlertActivity = useCallback(async (priceType: 'high' | 'low') => {
+    if (!session) {
+      openAuthModal();
+      return;
+    }
+    requestNotificationPermission();
+    const activityType = priceType === 'high' ? 'alert_set_high' : 'alert_set_low';
+    const activityEvents = await recordActivity(session.user.id, activityType);
+    addNotifications(activityEvents);
+  }, [session, addNotifications, openAuthModal]);
+
+  const removeTriggeredAlert = useCallback((id: string) => {
+    setTriggeredAlerts(prev => prev.filter(t => t.id !== id));
+  }, []);
+
+  const toggleEventActed = useCallback(async (eventId: string) => {
+    const toggle = (events: TriggeredAlert[]) => events.map(e => e.id === eventId ? { ...e, actedOn: !e.actedOn } : e);
+    if (!session) {
+      setAllLocalAlertHistory(toggle);
+      return;
+    }
+    const event = serverAlertHistory.find(e => e.id === eventId);
+    if (!event) return;
+    await setAlertHistoryActed(eventId, !event.actedOn);
+    setServerAlertHistory(toggle);
+    broadcastTableChange('alert_history', session.user.id, gameMode);
+  }, [session, serverAlertHistory, setAllLocalAlertHistory, gameMode]);
+
+  // Clears the current game mode's history; other modes' events are kept.
+  const clearHistory = useCallback(async () => {
+    if (!session) {
+      setAllLocalAlertHistory(prev => prev.filter(e => (e.alert.gameMode ?? DEFAULT_GAME_MODE) !== gameMode));
+      return;
+    }
+    await clearAlertHistory(session.user.id, gameMode);
+    setServerAlertHistory([]);
+    broadcastTableChange('alert_history', session.user.id, gameMode);
+  }, [session, setAllLocalAlertHistory, gameMode]);
+
+  const value = useMemo(() => ({
+    alerts, isLoading, error, saveAlert, removeAlert, updateAlertState, recordAlertActivity,
+    triggeredAlerts, removeTriggeredAlert, alertHistory, toggleEventActed, clearHistory,
+  }), [alerts, isLoading, error, saveAlert, removeAlert, updateAlertState, recordAlertActivity, triggeredAlerts, removeTriggeredAlert, alertHistory, toggleEventActed, clearHistory]);
+
+  return <AlertsContext.Provider value={value}>{children}</AlertsContext.Provider>;
+};
+
+export const useAlerts = () => {
+  const store = useContext(AlertsContext);
+  if (!store) throw new Error('useAlerts must be used within an AlertsProvider');
+  return store;
+};
@@ -0,0 +1,65 @@
+import React, { createContext, useContext, useCallback, useEffect, useMemo, useRef } from 'react';
+import type { GameMode } from '../types';
+import { DEFAULT_GAME_MODE } from '../constants';
+import { setGameMode as setApiGameMode } from '../services/osrsWikiApi';
+import { useLocalStorage } from '../hooks/useLocalStorage';
+
+// Each game mode has its own economy; prices, watchlists, investments and alerts are all scoped to it.
+
+type GameModeListener = (mode: GameMode) => void;
+
+interface GameModeStore {
+  gameMode: GameMode;
+  changeGameMode: (mode: GameMode) => void;
+  subscribe: (listener: GameModeListener) => () => void;
+}
+
+const GameModeContext = createContext<GameModeStore | null>(null);
+
+export const GameModeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  // Each tab keeps its own mode (so two modes can be compared side by side), and a switch must go
+  // through `changeGameMode` so the stores drop the old mode's data.
+  const [gameMode, setGameModeState] = useLocalStorage<GameMode>('gameMode', DEFAULT_GAME_MODE, { syncTabs: false });
+  const listeners = useRef(new Set<GameModeListener>());
+
+  // Child stores start fetching in their own effects, which run before this provider's,
+  // so point the wiki API at the saved mode during the first render.
+  const isApiModeSet = useRef(false);
+  if (!isApiModeSet.current) {
+    setApiGameMode(gameMode);
+    isApiModeSet.current = true;
+  }
+
+  const changeGameMode = useCallback((mode: GameMode) => {
+    if (mode === gameMode) return;
+    // Switch the API right away so reloads triggered by the change already use the new mode.
+    setApiGameMode(mode);
+    setGameModeState(mode);
+    listeners.current.forEach(listener => listener(mode));
+  }, [gameMode, setGameModeState]);
+
+  const subscribe = useCallback((listener: GameModeListener) => {
+    listeners.current.add(listener);
+    return () => { listeners.current.delete(listener); };
+  }, []);
+
+  const value = useMemo(() => ({ gameMode, changeGameMode, subscribe }), [gameMode, changeGameMode, subscribe]);
+  return <GameModeContext.Provider value={value}>{children}</GameModeContext.Provider>;
+};
+
+export const useGameMode = () => {
+  const store = useContext(GameModeContext);
+  if (!store) throw new Error('useGameMode must be used within a GameModeProvider');
+  return store;
+};
+
+/**
+ * Calls `listener` when the user switches game mode, in the same update as the switch itself.
+ * Stores use it to drop the old mode's data so it's never shown (or evaluated) against the new mode.
+ */
+export const useGameModeChange = (listener: GameModeListener) => {
+  const { subscribe } = useGameMode();
+  const latestListener = useRef(listener);
+  latestListener.current = listener;
+  useEffect(() => subscribe(mode => latestListener.current(mode)), [subscribe]);
+};
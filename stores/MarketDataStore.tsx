@@ -0,0 +1,215 @@
+import React, { createContext, useContext, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { Item, LatestPrice, AggregatePrice, PriceChange } from '../types';
+import { DEFAULT_PRICE_REFRESH_SECONDS } from '../constants';
+import { fetchItemMapping, fetchLatestPrices, fetch1hPrices, fetch24hPrices, getGameMode } from '../services/osrsWikiApi';
+import { isOffline } from '../services/offlineQueue';
+import { getPriceTickerState, subscribeToPriceTicker, applyLatestPrices, refreshPrices as refreshTickerPrices, resetPriceTicker, setPriceTickerEnabled, setPriceTickerInterval } from '../services/priceTicker';
+import { useLocalStorage } from '../hooks/useLocalStorage';
+import { useGameMode, useGameModeChange } from './GameModeStore';
+
+// Item metadata and market-wide prices for the current game mode. Items and prices are served from
+// separate contexts: prices change on every refresh, and components that only need item names
+// shouldn't re-render when they do.
+
+interface ItemsStore {
+  items: Record<string, Item>;
+  isLoading: boolean;
+  error: string | null; // Set if the initial load fails
+}
+
+// Whether live prices refresh on their own, and how often.
+interface LivePriceSettings {
+  enabled: boolean;
+  intervalSeconds: number;
+}
+
+interface MarketPricesStore {
+  latestPrices: Record<string, LatestPrice>;
+  // Each item's recent price changes, for change highlights. See services/priceTicker.
+  priceChanges: Record<string, PriceChange[]>;
+  lastPricesUpdate: number | null; // Epoch ms
+  nextPricesUpdate: number | null; // Epoch ms; null while live prices are paused
+  isRefreshingPrices: boolean;
+  pricesError: string | null; // Set if the last refresh failed
+  livePrices: LivePriceSettings;
+  setLivePrices: (settings: LivePriceSettings) => void;
+  oneHourPrices: Record<string, AggregatePrice>;
+  twentyFourHourPrices: Record<string, AggregatePrice>;
+  isAggregatesLoading: boolean;
+  aggregatesError: string | null;
+  refreshPrices: () => Promise<void>;
+  // Loads the 1h/24h aggregates and keeps them fresh until the returned release function is called.
+  requestAggregates: () => () => void;
+}
+
+const ItemsContext = createContext<ItemsStore | null>(null);
+const MarketPricesContext = createContext<MarketPricesStore | null>(null);
+
+const toItemMap = (itemMapping: Item[]) => {
+    const itemMap: Record<string, Item> = {};
+    itemMapping.forEach(item => {
+        itemMap[item.id] = item;
+    });
+    return itemMap;
+};
+
+export const MarketDataProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { gameMode } = useGameMode();
+  const [items, setItems] = useState<Record<string, Item>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [ticker, setTicker] = useState(getPriceTickerState);
+  const [livePrices, setLivePrices] = useLocalStorage<LivePriceSettings>('livePrices', { enabled: true, intervalSeconds: DEFAULT_PRICE_REFRESH_SECONDS });
+  const [oneHourPrices, setOneHourPrices] = useState<Record<string, AggregatePrice>>({});
+  const [twentyFourHourPrices, setTwentyFourHourPrices] = useState<Record<string, AggregatePrice>>({});
+  const [isAggregatesLoading, setIsAggregatesLoading] = useState(false);
+  const [aggregatesError, setAggregatesError] = useState<string | null>(null);
+  // The 1h/24h aggregates are only fetched once something needs them (see useAggregatePrices).
+  const aggregatesRequested = useRef(false);
+  // How many useAggregatePrices callers currently need the aggregates; they're kept fresh while any do.
+  const [aggregateRequesters, setAggregateRequesters] = useState(0);
+
+  // Prices from one economy mean nothing in another, so drop them until the new mode's data loads.
+  useGameModeChange(() => {
+    resetPriceTicker();
+    setOneHourPrices({});
+    setTwentyFourHourPrices({});
+    aggregatesRequested.current = false;
+  });
+
+  // Applied before subscribing below, so polling starts with the saved settings.
+  useEffect(() => {
+    setPriceTickerEnabled(livePrices.enabled);
+    setPriceTickerInterval(livePrices.intervalSeconds);
+  }, [livePrices]);
+
+  useEffect(() => subscribeToPriceTicker(setTicker), []);
+
+  useEffect(() => {
+    // Reruns when the game mode changes; a load for the previous mode is ignored once it finishes.
+    let cancelled = false;
+    const initializeData = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        // Cached data is returned straight away; stale entries are refreshed in the background.
+        const [itemMapping, prices] = await Promise.all([
+            fetchItemMapping({ onRevalidate: fresh => setItems(toItemMap(fresh)) }),
+            fetchLatestPrices({ onRevalidate: fresh => { if (!cancelled) applyLatestPrices(fresh); } }),
+        ]);
+        if (cancelled) return;
+
+        setItems(toItemMap(itemMapping));
+        applyLatestPrices(prices);
+      } catch (err) {
+        if (cancelled) return;
+        setError(isOffline()
+            ? "You're offline and no cached item data is available yet. Reconnect to load prices."
+            : 'Failed to load initial item data. Please try refreshing the page.');
+        console.error(err);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    initializeData();
+    return () => { cancelled = true; };
+  }, [gameMode]);
+
+  // Errors are reported through `pricesError` as well as thrown, for callers that show their own feedback.
+  const refreshPrices = useCallback(() => refreshTickerPrices(), []);
+
+  // Loads the 1h/24h aggregates once per game mode. Recreated when the mode changes, so
+  // useAggregatePrices requests the new mode's aggregates.
+  const loadAggregates = useCallback(async () => {
+    if (aggregatesRequested.current) return;
+    aggregatesRequested.current = true;
+    setIsAggregatesLoading(true);
+    setAggregatesError(null);
+    const requestedMode = getGameMode();
+    try {
+        const [oneHour, twentyFourHour] = await Promise.all([
+            fetch1hPrices(undefined, { onRevalidate: setOneHourPrices }),
+            fetch24hPrices({ onRevalidate: setTwentyFourHourPrices })
+        ]);
+        // The user switched game modes while this was loading; the new mode's load takes over.
+        if (getGameMode() !== requestedMode) return;
+        setOneHourPrices(oneHour);
+        setTwentyFourHourPrices(twentyFourHour);
+    } catch (err) {
+        console.error("Failed to load movers data", err);
+        setAggregatesError("Failed to load Top Movers data. Please try again later.");
+        if (getGameMode() === requestedMode) aggregatesRequested.current = false; // Let the next request retry
+    } finally {
+        setIsAggregatesLoading(false);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [gameMode]);
+
+  const requestAggregates = useCallback(() => {
+    loadAggregates();
+    setAggregateRequesters(count => count + 1);
+    return () => setAggregateRequesters(count => count - 1);
+  }, [loadAggregates]);
+
+  // Refreshes the loaded aggregates alongside the price ticker, so this pauses with it while the tab is
+  // hidden or offline. Each window's cache TTL decides when a new copy is actually fetched.
+  const lastPricesUpdate = ticker.lastRefreshedAt;
+  useEffect(() => {
+    if (aggregateRequesters === 0 || !aggregatesRequested.current || lastPricesUpdate === null) return;
+    const requestedMode = getGameMode();
+    Promise.all([
+        fetch1hPrices(undefined, { onRevalidate: setOneHourPrices }),
+        fetch24hPrices({ onRevalidate: setTwentyFourHourPrices })
+    ]).then(([oneHour, twentyFourHour]) => {
+        if (getGameMode() !== requestedMode) return;
+        setOneHourPrices(oneHour);
+        setTwentyFourHourPrices(twentyFourHour);
+    }).catch(err => console.error("Failed to refresh movers data", err));
+  }, [lastPricesUpdate, aggregateRequesters]);
+
+  const itemsValue = useMemo(() => ({ items, isLoading, error }), [items, isLoading, error]);
+  const pricesValue = useMemo(() => ({
+    latestPrices: ticker.latestPrices,
+    priceChanges: ticker.priceChanges,
+    lastPricesUpdate: ticker.lastRefreshedAt,
+    nextPricesUpdate: ticker.nextRefreshAt,
+    isRefreshingPrices: ticker.isRefreshing,
+    pricesError: ticker.error,
+    livePrices, setLivePrices,
+    oneHourPrices, twentyFourHourPrices,
+    isAggregatesLoading, aggregatesError, refreshPrices, requestAggregates,
+  }), [ticker, livePrices, setLivePrices, oneHourPrices, twentyFourHourPrices, isAggregatesLoading, aggregatesError, refreshPrices, requestAggregates]);
+
+  return (
+    <ItemsContext.Provider value={itemsValue}>
+      <MarketPricesContext.Provider value={pricesValue}>
+        {children}
+      </MarketPricesContext.Provider>
+    </ItemsContext.Provider>
+  );
+};
+
+export const useItems = () => {
+  const store = useContext(ItemsContext);
+  if (!store) throw new Error('useItems must be used within a MarketDataProvider');
+  return store;
+};
+
+export const useMarketPrices = () => {
+  const store = useContext(MarketPricesContext);
+  if (!store) throw new Error('useMarketPrices must be used within a MarketDataProvider');
+  return store;
+};
+
+/**
+ * Market prices, with the 1h/24h aggregates loaded on first use and refreshed while enabled.
+ * @param enabled Whether the caller currently needs the aggregates.
+ */
+export const useAggregatePrices = (enabled = true) => {
+  const prices = useMarketPrices();
+  const { requestAggregates } = prices;
+  useEffect(() => {
+    if (enabled) return requestAggregates();
+  }, [enabled, requestAggregates]);
+  return prices;
+};
@@ -0,0 +1,315 @@
+import React, { createContext, useContext, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { Investment, InvestmentUpdates, Item, LotSales, TriggeredPositionExit } from '../types';
+import { fetchUserInvestments, addInvestment, addInvestments, updateInvestment, deleteInvestment, clearUserInvestments, processInvestmentSales } from '../services/database';
+import type { RowSyncState } from '../services/offlineQueue';
+import { runOrQueue, createTempInvestmentId, getInvestmentIdForTempId, isOffline, applyQueuedInvestmentMutations, getQueuedMutations, subscribeToQueue, getInvestmentSyncStates, retryQueuedMutations, discardQueuedMutations } from '../services/offlineQueue';
+import { broadcastTableChange, holdTabLeadership, subscribeToTableChanges } from '../services/tabSync';
+import { requestNotificationPermission, showPositionExitBrowserNotification } from '../services/notifications';
+import { evaluatePositionExits } from '../utils/positionExits';
+import { splitInvestmentForSales } from '../utils/portfolio';
+import { useGameMode, useGameModeChange } from './GameModeStore';
+import { useSession } from './SessionStore';
+import { useProgression } from './ProgressionStore';
+import { useItems, useMarketPrices } from './MarketDataStore';
+
+// The user's investments for the current game mode, their stop-loss/take-profit triggers,
+// and the add-investment modal that any page can open.
+
+// Only one tab evaluates exits, so each fires (and is notified) once however many tabs are open.
+const POSITION_EXIT_EVALUATION_LOCK = 'ge-pulse-position-exit-evaluation';
+
+export type InvestmentDraft = Omit<Investment, 'id' | 'user_id' | 'created_at' | 'game_mode'>;
+
+interface PortfolioStore {
+  investments: Investment[];
+  isLoading: boolean;
+  error: string | null;
+  saveInvestment: (investmentData: InvestmentDraft) => Promise<void>;
+  updateInvestment: (investmentId: string, updates: InvestmentUpdates) => Promise<void>;
+  // Records sales against one or more open lots, e.g. as split by `splitSalesAcrossLots`. Requests
+  // with the same idempotency key record the sale only once.
+  closeInvestments: (lotSales: LotSales[], idempotencyKey: string) => Promise<void>;
+  deleteInvestment: (investmentId: string) => Promise<void>;
+  clearPortfolio: () => Promise<void>;
+  importInvestments: (investments: InvestmentDraft[]) => Promise<void>;
+  reload: () => void;
+  // Investments with edits that haven't reached the database yet, keyed by investment ID.
+  syncStates: Record<string, RowSyncState>;
+  retrySync: (investmentId: string) => void;
+  discardSync: (investmentId: string) => void;
+  triggeredPositionExits: TriggeredPositionExit[];
+  removeTriggeredPositionExit: (id: string) => void;
+  selectPositionExit: (triggered: TriggeredPositionExit) => void;
+  // The investment whose sell modal should open when the portfolio page next renders.
+  pendingSellInvestmentId: string | null;
+  clearPendingSell: () => void;
+  investmentModalItem: Item | null;
+  openAddInvestmentModal: (item: Item) => void;
+  closeAddInvestmentModal: () => void;
+}
+
+interface PortfolioProviderProps {
+  children: React.ReactNode;
+  onOpenPortfolio: () => void; // Called when a position exit is selected, to show its sell modal
+}
+
+const PortfolioContext = createContext<PortfolioStore | null>(null);
+
+export const PortfolioProvider: React.FC<PortfolioProviderProps> = ({ children, onOpenPortfolio }) => {
+  const { gameMode } = useGameMode();
+  const { session, openAuthModal, refreshProfile } = useSession();
+  const { addNotifications } = useProgression();
+  const { items } = useItems();
+  const { latestPrices } = useMarketPrices();
+  const [investments, setInvestments] = useState<Investment[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped to reload investments from the database, e.g. after offline edits have synced.
+  const [version, setVersion] = useState(0);
+  const [triggeredPositionExits, setTriggeredPositionExits] = useState<TriggeredPositionExit[]>([]);
+  const [pendingSellInvestmentId, setPendingSellInvestmentId] = useState<string | null>(null);
+  const [investmentModalItem, setInvestmentModalItem] = useState<Item | null>(null);
+  const [queuedMutations, setQueuedMutations] = useState(getQueuedMutations);
+  const [isEvaluatingTab, setIsEvaluatingTab] = useState(false);
+  const onOpenPortfolioRef = useRef(onOpenPortfolio);
+  onOpenPortfolioRef.current = onOpenPortfolio;
+
+  useEffect(() => subscribeToQueue(setQueuedMutations), []);
+
+  useEffect(() => holdTabLeadership(POSITION_EXIT_EVALUATION_LOCK, setIsEvaluatingTab), []);
+
+  useGameModeChange(() => {
+    setInvestments([]);
+    setTriggeredPositionExits([]);
+    setPendingSellInvestmentId(null);
+  });
+
+  // --- Fetch Investments from DB on Login ---
+  useEffect(() => {
+    if (!session) {
+      setInvestments([]);
+      setTriggeredPositionExits([]);
+      setIsLoading(false);
+      return;
+    }
+    // Ignores the result if the game mode changes (or the user logs out) while loading.
+    let cancelled = false;
+    const loadInvestments = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const userInvestments = await fetchUserInvestments(session.user.id, gameMode);
+        // Edits that haven't synced yet are shown on top of what the database has.
+        if (!cancelled) setInvestments(applyQueuedInvestmentMutations(userInvestments, session.user.id, gameMode));
+      } catch (err) {
+        console.error("Failed to load investments", err);
+        if (!cancelled) setError("Failed to load your portfolio.");
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    loadInvestments();
+    return () => { cancelled = true; };
+  }, [session, gameMode, version]);
+
+  // Another tab changed this portfolio; fetch it again (without a loading state) so both tabs match.
+  useEffect(() => {
+    if (!session) return;
+    const userId = session.user.id;
+    let cancelled = false;
+    const unsubscribe = subscribeToTableChanges('investments', userId, gameMode, () => {
+      fetchUserInvestments(userId, gameMode)
+        .then(userInvestments => { if (!cancelled) setInvestments(applyQueuedInvestmentMutations(userInvestments, userId, gameMode)); })
+        .catch(err => console.error("Failed to sync investments from another tab", err));
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [session, gameMode]);
+
+  const reload = useCallback(() => setVersion(v => v + 1), []);
+
+  const syncStates = useMemo(() => getInvestmentSyncStates(queuedMutations), [queuedMutations]);
+
+  const retrySync = useCallback((investmentId: string) => {
+    const state = syncStates[investmentId];
+    if (state) retryQueuedMutations(state.mutationIds);
+  }, [syncStates]);
+
+  // Drops the investment's unsynced edits and reloads, so it shows as the database has it.
+  const discardSync = useCallback((investmentId: string) => {
+    const state = syncStates[investmentId];
+    if (!state) return;
+    discardQueuedMutations(state.mutationIds);
+    reload();
+  }, [syncStates, reload]);
+
+  const removeTriggeredPositionExit = useCallback((id: string) => {
+    setTriggeredPositionExits(prev => prev.filter(t => t.id !== id));
+  }, []);
+
+  // Opens the sell modal for the position, prefilled with the current low price.
+  const selectPositionExit = useCallback((triggered: TriggeredPositionExit) => {
+    removeTriggeredPositionExit(triggered.id);
+    setPendingSellInvestmentId(triggered.investment.id);
+    onOpenPortfolioRef.current();
+  }, [removeTriggeredPositionExit]);
+
+  const clearPendingSell = useCallback(() => setPendingSellInvestmentId(null), []);
+
+  // --- Stop-Loss / Take-Profit Evaluation ---
+  // Runs on every price refresh, in the leader tab only. Fired positions are stamped with `exit_triggered_at`
+  // (queued like any other edit) so they don't fire again until the user edits the position's exit targets.
+  useEffect(() => {
+    if (!isEvaluatingTab || !session || Object.keys(latestPrices).length === 0 || Object.keys(items).length === 0) return;
+
+    const newlyTriggered = evaluatePositionExits(investments, items, latestPrices);
+    if (newlyTriggered.length === 0) return;
+
+    const exitTriggeredAt = new Date(newlyTriggered[0].triggeredAt).toISOString();
+    const triggeredIds = new Set(newlyTriggered.map(t => t.investment.id));
+    setInvestments(prev => prev.map(inv => triggeredIds.has(inv.id) ? { ...inv, exit_triggered_at: exitTriggeredAt } : inv));
+    setTriggeredPositionExits(prev => [...prev, ...newlyTriggered]);
+
+    newlyTriggered.forEach(triggered => {
+        const investmentId = triggered.investment.id;
+        const updates = { exit_triggered_at: exitTriggeredAt };
+        runOrQueue({ type: 'updateInvestment', investmentId, updates }, () => updateInvestment(investmentId, updates))
+            .then(updated => { if (updated) broadcastTableChange('investments', session.user.id, gameMode); })
+            .catch(err => console.error("Failed to persist triggered exit", err));
+        showPositionExitBrowserNotification(triggered, () => selectPositionExit(triggered));
+    });
+  }, [isEvaluatingTab, latestPrices, investments, items, session, gameMode, selectPositionExit]);
+
+  const openAddInvestmentModal = useCallback((item: Item) => {
+    if (!session) {
+      openAuthModal();
+      return;
+    }
+    setInvestmentModalItem(item);
+  }, [session, openAuthModal]);
+
+  const closeAddInvestmentModal = useCallback(() => setInvestmentModalItem(null), []);
+
+  const saveInvestment = useCallback(async (investmentData: InvestmentDraft) => {
+    if (!session) throw new Error("User not authenticated");
+    const investment = { ...investmentData, user_id: session.user.id, game_mode: gameMode };
+    // Added online under the same ID it would be queued with, so a request that fails after reaching the
+    // database and is then queued isn't added twice.
+    const tempId = createTempInvestmentId();
+    try {
+        const newInvestment = await runOrQueue({ type: 'addInvestment', tempId, investment }, () => addInvestment({ ...investment, id: getInvestmentIdForTempId(tempId) }));
+        if (newInvestment) broadcastTableChange('investments', session.user.id, gameMode);
+        // Investments saved offline are shown under a temporary ID until the queue syncs them.
+        setInvestments(prev => [newInvestment ?? { ...investment, id: tempId, created_at: new Date().toISOString() }, ...prev]);
+    } catch (error) {
+        console.error("Failed to save investment:", error);
+        // Re-throw the error so the modal can catch it and handle its UI state (e.g., stop loading, show message).
+        throw error;
+    }
+  }, [session, gameMode]);
+
+  const handleUpdateInvestment = useCallback(async (investmentId: string, updates: InvestmentUpdates) => {
+    if (!session) throw new Error("User not authenticated");
+    if (updates.stop_loss != null || updates.take_profit != null) {
+        requestNotificationPermission();
+    }
+    try {
+        const updatedInvestment = await runOrQueue({ type: 'updateInvestment', investmentId, updates }, () => updateInvestment(investmentId, updates));
+        if (updatedInvestment) broadcastTableChange('investments', session.user.id, gameMode);
+        setInvestments(prev =>
+            prev.map(inv => (inv.id === investmentId ? updatedInvestment ?? { ...inv, ...updates } : inv))
+        );
+    } catch (error) {
+        console.error("Failed to update investment:", error);
+        throw error;
+    }
+  }, [session, gameMode]);
+
+  // All the lots in a sale are sold in one transaction that also awards the XP. Offline, the whole sale
+  // is queued as one edit, and earns its XP once it syncs.
+  const closeInvestments = useCallback(async (lotSales: LotSales[], idempotencyKey: string) => {
+    const lots = lotSales.map(({ investmentId, sales }) => {
+        const investment = investments.find(inv => inv.id === investmentId);
+        if (!investment) throw new Error("Investment not found");
+        // Sales recorded offline are shown split under these temporary IDs until they sync.
+        return { investment, sales, closedIds: sales.map(() => createTempInvestmentId()) };
+    });
+
+    const result = await runOrQueue({ type: 'closeInvestment', lots, idempotencyKey }, () => processInvestmentSales(lotSales, idempotencyKey));
+    if (!result) {
+        setInvestments(prev => prev.flatMap(inv => {
+            const lot = lots.find(l => l.investment.id === inv.id);
+            return lot ? splitInvestmentForSales(inv, lot.sales, lot.closedIds) : [inv];
+        }));
+        return;
+    }
+    broadcastTableChange('investments', lots[0].investment.user_id, lots[0].investment.game_mode);
+
+    // A repeated request returns the rows from the first one, which may already be shown.
+    setInvestments(prev => result.lots.reduce((current, { investmentId, updatedOriginal, newClosed }) => {
+        const replacements = [...(updatedOriginal ? [updatedOriginal] : []), ...newClosed];
+        const replacedIds = new Set([investmentId, ...replacements.map(inv => inv.id)]);
+        const index = current.findIndex(inv => replacedIds.has(inv.id));
+        const remaining = current.filter(inv => !replacedIds.has(inv.id));
+        remaining.splice(index === -1 ? 0 : index, 0, ...replacements);
+        return remaining;
+    }, prev));
+
+    addNotifications(result.progressionEvents);
+    // Refetch profile to get updated xp/level
+    if (session) await refreshProfile();
+  }, [investments, session, addNotifications, refreshProfile]);
+
+  // Imports are all-or-nothing, so unlike single edits they aren't queued while offline.
+  const importInvestments = useCallback(async (drafts: InvestmentDraft[]) => {
+    if (!session) throw new Error("User not authenticated");
+    if (isOffline()) throw new Error("You're offline. Investments can be imported once you're back online.");
+    const imported = await addInvestments(drafts.map(draft => ({ ...draft, user_id: session.user.id, game_mode: gameMode })));
+    broadcastTableChange('investments', session.user.id, gameMode);
+    setInvestments(prev => [...imported, ...prev]);
+  }, [session, gameMode]);
+
+  const clearPortfolio = useCallback(async () => {
+    if (!session) throw new Error("User not authenticated");
+    if (isOffline()) throw new Error("You're offline. Your portfolio can be cleared once you're back online.");
+    await clearUserInvestments(session.user.id, gameMode);
+    broadcastTableChange('investments', session.user.id, gameMode);
+    setInvestments([]);
+  }, [session, gameMode]);
+
+  const handleDeleteInvestment = useCallback(async (investmentId: string) => {
+    if (!session) {
+      openAuthModal();
+      // It's crucial to throw here so the calling function's catch block is triggered,
+      // preventing the UI from getting stuck in a loading state or mis-representing success.
+      throw new Error("User is not authenticated. Please log in.");
+    }
+    // The try-catch is (and should be) handled in PortfolioPage.tsx where the action is initiated.
+    // This function will propagate the error from deleteInvestment if it fails.
+    const deleted = await runOrQueue({ type: 'deleteInvestment', investmentId }, async () => {
+        await deleteInvestment(investmentId);
+        return true;
+    });
+    if (deleted) broadcastTableChange('investments', session.user.id, gameMode);
+    // Only update state if the deletion was successful (or queued)
+    setInvestments(prev => prev.filter(inv => inv.id !== investmentId));
+  }, [session, gameMode, openAuthModal]);
+
+  const value = useMemo(() => ({
+    investments, isLoading, error, reload, syncStates, retrySync, discardSync,
+    saveInvestment, updateInvestment: handleUpdateInvestment, closeInvestments, deleteInvestment: handleDeleteInvestment, clearPortfolio, importInvestments,
+    triggeredPositionExits, removeTriggeredPositionExit, selectPositionExit,
+    pendingSellInvestmentId, clearPendingSell,
+    investmentModalItem, openAddInvestmentModal, closeAddInvestmentModal,
+  }), [investments, isLoading, error, reload, syncStates, retrySync, discardSync, saveInvestment, handleUpdateInvestment, closeInvestments, handleDeleteInvestment, clearPortfolio, importInvestments, triggeredPositionExits, removeTriggeredPositionExit, selectPositionExit, pendingSellInvestmentId, clearPendingSell, investmentModalItem, openAddInvestmentModal, closeAddInvestmentModal]);
+
+  return <PortfolioContext.Provider value={value}>{children}</PortfolioContext.Provider>;
+};
+
+export const usePortfolio = () => {
+  const store = useContext(PortfolioContext);
+  if (!store) throw new Error('usePortfolio must be used within a PortfolioProvider');
+  return store;
+};
@@ -0,0 +1,34 @@
+import React, { createContext, useContext, useCallback, useMemo, useState } from 'react';
+import type { ProgressionNotification, ProgressionNotificationData } from '../types';
+
+// XP, level-up and achievement toasts. Other stores add to it when the server reports progression.
+
+interface ProgressionStore {
+  notifications: ProgressionNotification[];
+  addNotifications: (events: ProgressionNotificationData[]) => void;
+  removeNotification: (id: string) => void;
+}
+
+const ProgressionContext = createContext<ProgressionStore | null>(null);
+
+export const ProgressionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [notifications, setNotifications] = useState<ProgressionNotification[]>([]);
+
+  const addNotifications = useCallback((progressionEvents: ProgressionNotificationData[]) => {
+    const newNotifs = progressionEvents.map(data => ({ id: crypto.randomUUID(), data }));
+    setNotifications(prev => [...prev, ...newNotifs]);
+  }, []);
+
+  const removeNotification = useCallback((id: string) => {
+    setNotifications(prev => prev.filter(n => n.id !== id));
+  }, []);
+
+  const value = useMemo(() => ({ notifications, addNotifications, removeNotification }), [notifications, addNotifications, removeNotification]);
+  return <ProgressionContext.Provider value={value}>{children}</ProgressionContext.Provider>;
+};
+
+export const useProgression = () => {
+  const store = useContext(ProgressionContext);
+  if (!store) throw new Error('useProgression must be used within a ProgressionProvider');
+  return store;
+};
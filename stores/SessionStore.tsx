@@ -0,0 +1,142 @@
+import React, { createContext, useContext, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import type { Profile } from '../types';
+import { supabase } from '../services/supabase';
+import { getProfile, recordLogin, spendAiToken } from '../services/database';
+import { useProgression } from './ProgressionStore';
+
+// The signed-in user's session and profile, plus the auth and profile-setup modals that gate them.
+
+export type ProfileWithEmail = Profile & { email: string | null };
+
+interface SessionStore {
+  session: Session | null;
+  profile: ProfileWithEmail | null;
+  // True until Supabase reports whether there's a saved session.
+  isAuthLoading: boolean;
+  isAuthModalOpen: boolean;
+  openAuthModal: () => void;
+  closeAuthModal: () => void;
+  isProfileModalOpen: boolean;
+  openProfileModal: () => void;
+  closeProfileModal: () => void;
+  updateProfile: (updates: Partial<Profile>) => void;
+  refreshProfile: () => Promise<void>;
+  spendToken: () => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+const SessionContext = createContext<SessionStore | null>(null);
+
+export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { addNotifications } = useProgression();
+  const [session, setSession] = useState<Session | null>(null);
+  const [profile, setProfile] = useState<ProfileWithEmail | null>(null);
+  const [isAuthLoading, setIsAuthLoading] = useState(true);
+  const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
+  const [isProfileModalOpen, setIsProfileModalOpen] = useState(false);
+  const loggedInSince = useRef<number | null>(null);
+
+  // --- Supabase Auth & Profile Listener ---
+  useEffect(() => {
+    const handleInvalidSession = async () => {
+        console.warn("Session is invalid or profile is missing. Signing out.");
+        await supabase.auth.signOut();
+    };
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange(async (_event, session) => {
+        setSession(session);
+        setIsAuthLoading(false);
+
+        // Case 1: User is logged out.
+        if (!session) {
+            setProfile(null);
+            loggedInSince.current = null;
+            return;
+        }
+
+        // Case 2: User is logged in, but we don't have their profile in state yet (or it's the wrong one).
+        // This runs on initial load with a session, or after a fresh login.
+        if (!profile || profile.id !== session.user.id) {
+            setIsAuthModalOpen(false);
+            try {
+                const userProfile = await getProfile(session.user.id);
+                if (userProfile) {
+                    setProfile({ ...userProfile, email: session.user.email ?? null });
+                    if (!userProfile.username) {
+                        setIsProfileModalOpen(true);
+                    }
+
+                    const now = Date.now();
+                    if (!loggedInSince.current || (now - loggedInSince.current > 1000 * 60 * 5)) {
+                        loggedInSince.current = now;
+                        const loginEvents = await recordLogin(session.user.id);
+                        addNotifications(loginEvents);
+                        const updatedProfile = await getProfile(session.user.id);
+                        if(updatedProfile) setProfile(p => ({...(p as ProfileWithEmail), ...updatedProfile, email: session.user.email ?? null }));
+                    }
+                } else {
+                    await handleInvalidSession();
+                }
+            } catch (error) {
+                console.error("Error fetching profile, signing out:", error);
+                await handleInvalidSession();
+            }
+        }
+
+        // Case 3 (Implicit): User is logged in and we already have their profile.
+        // This happens on TOKEN_REFRESHED (tab refocus). We do nothing, because the session is already updated
+        // and we don't need to re-fetch the profile. This prevents the "logout on tab switch" bug.
+    });
+
+    return () => subscription.unsubscribe();
+  }, [profile, addNotifications]); // Dependency on `profile` ensures the listener is updated with the latest state.
+
+  const updateProfile = useCallback((updates: Partial<Profile>) => {
+    setProfile(prev => prev ? { ...prev, ...updates } : null);
+  }, []);
+
+  // Refetches the profile, e.g. to pick up XP and level changes made by the server.
+  const refreshProfile = useCallback(async () => {
+    if (!session) return;
+    const updatedProfile = await getProfile(session.user.id);
+    if (updatedProfile) setProfile(p => ({ ...(p as ProfileWithEmail), ...updatedProfile, email: session.user.email ?? null }));
+  }, [session]);
+
+  const spendToken = useCallback(async () => {
+    if (!session) throw new Error("User not authenticated");
+    try {
+        const newTokens = await spendAiToken(session.user.id);
+        setProfile(prev => (prev ? { ...prev, tokens: newTokens } : null));
+    } catch (error) {
+        console.error("Failed to spend token:", error);
+        // Refetch profile to ensure UI is in sync with the database, especially on failure
+        await refreshProfile();
+        throw error; // Re-throw so the calling component can handle the UI feedback
+    }
+  }, [session, refreshProfile]);
+
+  const signOut = useCallback(async () => {
+    await supabase.auth.signOut();
+  }, []);
+
+  const openAuthModal = useCallback(() => setIsAuthModalOpen(true), []);
+  const closeAuthModal = useCallback(() => setIsAuthModalOpen(false), []);
+  const openProfileModal = useCallback(() => setIsProfileModalOpen(true), []);
+  const closeProfileModal = useCallback(() => setIsProfileModalOpen(false), []);
+
+  const value = useMemo(() => ({
+    session, profile, isAuthLoading,
+    isAuthModalOpen, openAuthModal, closeAuthModal,
+    isProfileModalOpen, openProfileModal, closeProfileModal,
+    updateProfile, refreshProfile, spendToken, signOut,
+  }), [session, profile, isAuthLoading, isAuthModalOpen, openAuthModal, closeAuthModal, isProfileModalOpen, openProfileModal, closeProfileModal, updateProfile, refreshProfile, spendToken, signOut]);
+
+  return <SessionContext.Provider value={value}>{children}</SessionContext.Provider>;
+};
+
+export const useSession = () => {
+  const store = useContext(SessionContext);
+  if (!store) throw new Error('useSession must be used within a SessionProvider');
+  return store;
+};
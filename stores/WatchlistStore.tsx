@@ -0,0 +1,242 @@
+import React, { createContext, useContext, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { TimeseriesData } from '../types';
+import { fetchUserWatchlist, addToWatchlist, removeFromWatchlist, recordActivity } from '../services/database';
+import { fetchTimeseries } from '../services/osrsWikiApi';
+import type { RowSyncState } from '../services/offlineQueue';
+import { runOrQueue, applyQueuedWatchlistMutations, getQueuedMutations, subscribeToQueue, getWatchlistSyncStates, retryQueuedMutations, discardQueuedMutations } from '../services/offlineQueue';
+import { broadcastTableChange, subscribeToTableChanges } from '../services/tabSync';
+import { useGameMode, useGameModeChange } from './GameModeStore';
+import { useSession } from './SessionStore';
+import { useProgression } from './ProgressionStore';
+
+// The user's watchlist for the current game mode, and the sparkline data shown on the watchlist page.
+
+interface WatchlistStore {
+  watchlist: number[];
+  pendingWatchlistAdds: Set<number>;
+  isLoading: boolean;
+  error: string | null;
+  toggleWatchlist: (itemId: number) => Promise<void>;
+  reload: () => void;
+  // Items with edits that haven't reached the database yet, keyed by item ID.
+  syncStates: Record<number, RowSyncState>;
+  retrySync: (itemId: number) => void;
+  discardSync: (itemId: number) => void;
+  watchlistTimeseries: Record<string, TimeseriesData[]>;
+  watchTimeseries: () => () => void;
+}
+
+const WatchlistContext = createContext<WatchlistStore | null>(null);
+
+export const WatchlistProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { gameMode } = useGameMode();
+  const { session, profile, openAuthModal, openProfileModal } = useSession();
+  const { addNotifications } = useProgression();
+  const [watchlist, setWatchlist] = useState<number[]>([]);
+  const [pendingWatchlistAdds, setPendingWatchlistAdds] = useState(new Set<number>());
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped to reload the watchlist from the database, e.g. after offline edits have synced.
+  const [version, setVersion] = useState(0);
+  const [watchlistTimeseries, setWatchlistTimeseries] = useState<Record<string, TimeseriesData[]>>({});
+  // How many mounted components are showing the watchlist's charts.
+  const [timeseriesWatchers, setTimeseriesWatchers] = useState(0);
+  const timeseriesAbortController = useRef<AbortController | null>(null);
+  const [queuedMutations, setQueuedMutations] = useState(getQueuedMutations);
+
+  useEffect(() => subscribeToQueue(setQueuedMutations), []);
+
+  useGameModeChange(() => {
+    setWatchlist([]);
+    setWatchlistTimeseries({});
+  });
+
+  // --- Fetch Watchlist from DB on Login ---
+  useEffect(() => {
+    if (!session) {
+      setWatchlist([]);
+      setIsLoading(false);
+      return;
+    }
+    // Ignores the result if the game mode changes (or the user logs out) while loading.
+    let cancelled = false;
+    const loadWatchlist = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const userWatchlist = await fetchUserWatchlist(session.user.id, gameMode);
+        // Edits that haven't synced yet are shown on top of what the database has.
+        if (!cancelled) setWatchlist(applyQueuedWatchlistMutations(userWatchlist, session.user.id, gameMode));
+      } catch (err) {
+        console.error("Failed to load watchlist", err);
+        if (!cancelled) setError("Failed to load your watchlist.");
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    loadWatchlist();
+    return () => { cancelled = true; };
+  }, [session, gameMode, version]);
+
+  // Another tab changed this watchlist; fetch it again (without a loading state) so both tabs match.
+  useEffect(() => {
+    if (!session) return;
+    const userId = session.user.id;
+    let cancelled = false;
+    const unsubscribe = subscribeToTableChanges('watchlist', userId, gameMode, () => {
+      fetchUserWatchlist(userId, gameMode)
+        .then(userWatchlist => { if (!cancelled) setWatchlist(applyQueuedWatchlistMutations(userWatchlist, userId, gameMode)); })
+        .catch(err => console.error("Failed to sync watchlist from another tab", err));
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [session, gameMode]);
+
+  const reload = useCallback(() => setVersion(v => v + 1), []);
+
+  const syncStates = useMemo(
+    () => session ? getWatchlistSyncStates(queuedMutations, session.user.id, gameMode) : {},
+    [queuedMutations, session, gameMode]
+  );
+
+  const retrySync = useCallback((itemId: number) => {
+    const state = syncStates[itemId];
+    if (state) retryQueuedMutations(state.mutationIds);
+  }, [syncStates]);
+
+  // Drops the item's unsynced edits and reloads, so it shows as the database has it.
+  const discardSync = useCallback((itemId: number) => {
+    const state = syncStates[itemId];
+    if (!state) return;
+    discardQueuedMutations(state.mutationIds);
+    reload();
+  }, [syncStates, reload]);
+
+  const toggleWatchlist = useCallback(async (itemId: number) => {
+    if (!session) {
+      openAuthModal();
+      return;
+    }
+    if (profile && !profile.username) {
+        openProfileModal();
+        return;
+    }
+    const isWatched = watchlist.includes(itemId);
+    const userId = session.user.id;
+
+    if (isWatched) {
+        setWatchlist(prev => prev.filter(id => id !== itemId));
+        try {
+            const removed = await runOrQueue({ type: 'removeFromWatchlist', userId, itemId, gameMode }, async () => {
+                await removeFromWatchlist(userId, itemId, gameMode);
+                return true;
+            });
+            if (removed) broadcastTableChange('watchlist', userId, gameMode);
+        } catch (err) {
+            setWatchlist(prev => [...prev, itemId]); // Revert on failure
+        }
+    } else {
+        setPendingWatchlistAdds(prev => new Set(prev).add(itemId));
+        setWatchlist(prev => [...prev, itemId]);
+        try {
+            // Queued adds don't earn activity XP; it's only recorded for adds that reach the server.
+            const added = await runOrQueue({ type: 'addToWatchlist', userId, itemId, gameMode }, async () => {
+                await addToWatchlist(userId, itemId, gameMode);
+                return true;
+            });
+            if (added) {
+                broadcastTableChange('watchlist', userId, gameMode);
+                const activityEvents = await recordActivity(userId, 'watchlist_add');
+                addNotifications(activityEvents);
+            }
+        } catch (err) {
+            setWatchlist(prev => prev.filter(id => id !== itemId)); // Revert on failure
+        } finally {
+            setPendingWatchlistAdds(prev => {
+                const newSet = new Set(prev);
+                newSet.delete(itemId);
+                return newSet;
+            });
+        }
+    }
+  }, [session, profile, watchlist, addNotifications, gameMode, openAuthModal, openProfileModal]);
+
+  // Registers a component that shows the watchlist's charts. Returns a function that unregisters it.
+  const watchTimeseries = useCallback(() => {
+    setTimeseriesWatchers(count => count + 1);
+    return () => setTimeseriesWatchers(count => count - 1);
+  }, []);
+  const isTimeseriesWatched = timeseriesWatchers > 0;
+
+  // Cancels outstanding chart requests once nothing is showing them.
+  useEffect(() => {
+    if (!isTimeseriesWatched) return;
+    const controller = new AbortController();
+    timeseriesAbortController.current = controller;
+    return () => controller.abort();
+  }, [isTimeseriesWatched]);
+
+  // --- Fetch Watchlist Timeseries Data ---
+  useEffect(() => {
+    const fetchWatchlistTimeseries = async () => {
+      if (watchlist.length === 0) {
+        setWatchlistTimeseries({});
+        return;
+      }
+
+      const itemsToFetch = watchlist.filter(id => watchlistTimeseries[id] === undefined);
+      if (itemsToFetch.length === 0) return;
+
+      const signal = timeseriesAbortController.current?.signal;
+      const results = await Promise.allSettled(
+        itemsToFetch.map(id => fetchTimeseries(id, '1h', {
+          signal,
+          onRevalidate: fresh => setWatchlistTimeseries(prev => ({ ...prev, [id]: fresh.sort((a, b) => a.timestamp - b.timestamp) })),
+        }))
+      );
+      // Leave cancelled items unset so they're fetched again next time.
+      if (signal?.aborted) return;
+
+      const newTimeseries: Record<string, TimeseriesData[]> = {};
+      results.forEach((result, index) => {
+        const itemId = itemsToFetch[index];
+        if (result.status === 'fulfilled') {
+          newTimeseries[itemId] = result.value.sort((a, b) => a.timestamp - b.timestamp);
+        } else {
+          console.error(`Failed to fetch timeseries for item ${itemId}:`, result.reason);
+          newTimeseries[itemId] = []; // Mark as failed/empty
+        }
+      });
+
+      setWatchlistTimeseries(prev => ({ ...prev, ...newTimeseries }));
+    };
+
+    if (isTimeseriesWatched) {
+      fetchWatchlistTimeseries();
+    }
+  }, [isTimeseriesWatched, watchlist, watchlistTimeseries]);
+
+  const value = useMemo(() => ({
+    watchlist, pendingWatchlistAdds, isLoading, error, toggleWatchlist, reload, syncStates, retrySync, discardSync, watchlistTimeseries, watchTimeseries,
+  }), [watchlist, pendingWatchlistAdds, isLoading, error, toggleWatchlist, reload, syncStates, retrySync, discardSync, watchlistTimeseries, watchTimeseries]);
+
+  return <WatchlistContext.Provider value={value}>{children}</WatchlistContext.Provider>;
+};
+
+export const useWatchlist = () => {
+  const store = useContext(WatchlistContext);
+  if (!store) throw new Error('useWatchlist must be used within a WatchlistProvider');
+  return store;
+};
+
+/**
+ * The watchlist's chart data. Charts are fetched while at least one component uses this hook,
+ * and outstanding requests are cancelled when the last one unmounts.
+ */
+export const useWatchlistTimeseries = () => {
+  const { watchlistTimeseries, watchTimeseries } = useWatchlist();
+  useEffect(() => watchTimeseries(), [watchTimeseries]);
+  return watchlistTimeseries;
+};
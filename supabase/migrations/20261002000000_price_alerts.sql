@@ -0,0 +1,85 @@
+-- Price alerts, kept per user and game mode so they follow the user between devices.
+--
+-- Users can read, update and delete their own alerts directly. New alerts can only be added through
+-- create_price_alert, which enforces the free-tier alert limit.
+
+create table if not exists public.price_alerts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  game_mode text not null default 'osrs',
+  item_id integer not null,
+  alert_type text not null default 'price' check (alert_type in ('price', 'percent_change', 'spread', 'margin', 'volume')),
+  target_price numeric not null,
+  condition text not null check (condition in ('above', 'below')),
+  price_type text not null default 'high' check (price_type in ('high', 'low')),
+  timeframe text check (timeframe in ('1h', '24h')),
+  triggered_at timestamptz,
+  snoozed_until timestamptz,
+  expired_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists price_alerts_user_id_game_mode_idx on public.price_alerts (user_id, game_mode);
+
+alter table public.price_alerts enable row level security;
+
+drop policy if exists "Users can read their own price alerts" on public.price_alerts;
+create policy "Users can read their own price alerts" on public.price_alerts
+  for select using (auth.uid() = user_id);
+
+drop policy if exists "Users can update their own price alerts" on public.price_alerts;
+create policy "Users can update their own price alerts" on public.price_alerts
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+drop policy if exists "Users can delete their own price alerts" on public.price_alerts;
+create policy "Users can delete their own price alerts" on public.price_alerts
+  for delete using (auth.uid() = user_id);
+
+-- Creates an alert for the signed-in user. Users without premium can have at most 10 alerts (across every
+-- game mode; FREE_USER_ALERT_LIMIT in constants.ts); past that it raises 'alert_limit_reached'.
+create or replace function public.create_price_alert(
+  p_item_id integer,
+  p_target_price numeric,
+  p_condition text,
+  p_price_type text,
+  p_alert_type text,
+  p_timeframe text,
+  p_game_mode text
+)
+returns public.price_alerts
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_premium boolean;
+  v_alert_count integer;
+  v_alert price_alerts;
+begin
+  if v_user_id is null then
+    raise exception 'User not authenticated';
+  end if;
+
+  -- Locking the profile makes concurrent requests take turns, so they can't both slip in under the limit.
+  select premium into v_premium from profiles where id = v_user_id for update;
+  if not found then
+    raise exception 'Profile not found';
+  end if;
+
+  if not coalesce(v_premium, false) then
+    select count(*) into v_alert_count from price_alerts where user_id = v_user_id;
+    if v_alert_count >= 10 then
+      raise exception 'alert_limit_reached';
+    end if;
+  end if;
+
+  insert into price_alerts (user_id, game_mode, item_id, alert_type, target_price, condition, price_type, timeframe)
+    values (v_user_id, coalesce(p_game_mode, 'osrs'), p_item_id, coalesce(p_alert_type, 'price'), p_target_price,
+            p_condition, coalesce(p_price_type, 'high'), p_timeframe)
+    returning * into v_alert;
+  return v_alert;
+end;
+$$;
+
+grant execute on function public.create_price_alert(integer, numeric, text, text, text, text, text) to authenticated;
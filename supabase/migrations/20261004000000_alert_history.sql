@@ -0,0 +1,62 @@
+-- Triggered-alert history for logged-in users, so it follows them between devices.
+--
+-- Each row is one firing of an alert. `event` holds the snapshot shown in the history (the alert's
+-- settings, the item's name, the value that triggered it and the prices at the time); the alert itself
+-- may since have been edited or deleted. Only the newest 200 events per user and game mode are kept
+-- (ALERT_HISTORY_LIMIT in stores/AlertsStore.tsx).
+
+create table if not exists public.alert_history (
+  id uuid primary key,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  game_mode text not null default 'osrs',
+  alert_id uuid,
+  item_id integer not null,
+  event jsonb not null,
+  acted_on boolean not null default false,
+  triggered_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists alert_history_user_id_game_mode_idx on public.alert_history (user_id, game_mode, triggered_at desc);
+
+alter table public.alert_history enable row level security;
+
+drop policy if exists "Users can read their own alert history" on public.alert_history;
+create policy "Users can read their own alert history" on public.alert_history
+  for select using (auth.uid() = user_id);
+
+drop policy if exists "Users can add to their own alert history" on public.alert_history;
+create policy "Users can add to their own alert history" on public.alert_history
+  for insert with check (auth.uid() = user_id);
+
+drop policy if exists "Users can update their own alert history" on public.alert_history;
+create policy "Users can update their own alert history" on public.alert_history
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+drop policy if exists "Users can delete their own alert history" on public.alert_history;
+create policy "Users can delete their own alert history" on public.alert_history
+  for delete using (auth.uid() = user_id);
+
+-- Drops the oldest events once a user has more than 200 in a game mode.
+create or replace function public.prune_alert_history()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from alert_history
+    where id in (
+      select id from alert_history
+        where user_id = new.user_id and game_mode = new.game_mode
+        order by triggered_at desc
+        offset 200
+    );
+  return null;
+end;
+$$;
+
+drop trigger if exists prune_alert_history on public.alert_history;
+create trigger prune_alert_history
+  after insert on public.alert_history
+  for each row execute function public.prune_alert_history();
@@ -0,0 +1,46 @@
+-- Webhook URLs that a user's triggered alerts are posted to (see services/webhooks.ts).
+--
+-- Anyone who has a webhook URL can post to it, so the URLs are kept out of `profiles`, which any user can
+-- read, in a table only their owner can see. At most 5 per user (MAX_ALERT_WEBHOOKS in constants.ts).
+
+create table if not exists public.alert_webhooks (
+  user_id uuid primary key references public.profiles (id) on delete cascade,
+  urls text[] not null default '{}',
+  updated_at timestamptz not null default now(),
+  constraint alert_webhooks_urls_limit check (coalesce(array_length(urls, 1), 0) <= 5)
+);
+
+alter table public.alert_webhooks enable row level security;
+
+drop policy if exists "Users can read their own alert webhooks" on public.alert_webhooks;
+create policy "Users can read their own alert webhooks" on public.alert_webhooks
+  for select using (auth.uid() = user_id);
+
+drop policy if exists "Users can add their own alert webhooks" on public.alert_webhooks;
+create policy "Users can add their own alert webhooks" on public.alert_webhooks
+  for insert with check (auth.uid() = user_id);
+
+drop policy if exists "Users can update their own alert webhooks" on public.alert_webhooks;
+create policy "Users can update their own alert webhooks" on public.alert_webhooks
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+drop policy if exists "Users can delete their own alert webhooks" on public.alert_webhooks;
+create policy "Users can delete their own alert webhooks" on public.alert_webhooks
+  for delete using (auth.uid() = user_id);
+
+-- Databases set up by earlier builds kept the URLs on profiles, where other users could read them.
+-- Move them across and drop the column.
+do $$
+begin
+  if exists (
+    select 1 from information_schema.columns
+      where table_schema = 'public' and table_name = 'profiles' and column_name = 'alert_webhook_urls'
+  ) then
+    insert into public.alert_webhooks (user_id, urls)
+      select id, alert_webhook_urls[1:5] from public.profiles
+        where coalesce(array_length(alert_webhook_urls, 1), 0) > 0
+      on conflict (user_id) do nothing;
+    alter table public.profiles drop column alert_webhook_urls;
+  end if;
+end;
+$$;
@@ -0,0 +1,9 @@
+-- Stop-loss and take-profit targets on investments. Each target is a gp price or a percentage of the
+-- purchase price, depending on its type. exit_triggered_at is set once either target fires, so it doesn't
+-- fire again until the user edits the position's targets.
+
+alter table public.investments add column if not exists stop_loss numeric;
+alter table public.investments add column if not exists stop_loss_type text check (stop_loss_type in ('gp', 'percent'));
+alter table public.investments add column if not exists take_profit numeric;
+alter table public.investments add column if not exists take_profit_type text check (take_profit_type in ('gp', 'percent'));
+alter table public.investments add column if not exists exit_triggered_at timestamptz;
@@ -0,0 +1,81 @@
+-- The profit, leaderboard and app stats functions as deployed before game modes, checked in so later
+-- migrations change them from a known starting point. If production's definitions have drifted from
+-- these, replace them here with its `pg_get_functiondef` output.
+
+-- A user's realised profit (after tax) from their closed trades.
+create or replace function public.get_user_total_profit(p_user_id uuid)
+returns bigint
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(sum((sell_price - purchase_price) * quantity - coalesce(tax_paid, 0)), 0)::bigint
+    from investments
+    where user_id = p_user_id and sell_price is not null;
+$$;
+
+-- Users ranked by realised profit from trades closed in the time range.
+-- time_range is 'today', 'month', 'year' or 'all'.
+create or replace function public.get_leaderboard(time_range text)
+returns table (rank bigint, username text, total_profit bigint)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with profits as (
+    select i.user_id, sum((i.sell_price - i.purchase_price) * i.quantity - coalesce(i.tax_paid, 0))::bigint as total_profit
+      from investments i
+      where i.sell_price is not null
+        and (time_range = 'all' or i.sell_date >= date_trunc(case time_range when 'today' then 'day' else time_range end, now()))
+      group by i.user_id
+  )
+  select rank() over (order by p.total_profit desc), pr.username, p.total_profit
+    from profits p
+    join profiles pr on pr.id = p.user_id
+    where pr.username is not null
+    order by p.total_profit desc;
+$$;
+
+-- App-wide statistics for developers. time_range is 'today', 'week', 'month', 'year' or 'all'.
+create or replace function public.get_app_stats(time_range text)
+returns table (
+  "totalUsers" bigint,
+  "newUsers" bigint,
+  "totalInvestments" bigint,
+  "closedTrades" bigint,
+  "totalProfit" bigint,
+  "totalTax" bigint,
+  "totalWatchlistItems" bigint
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_since timestamptz := case when time_range = 'all' then '-infinity'::timestamptz
+                              else date_trunc(case time_range when 'today' then 'day' else time_range end, now()) end;
+begin
+  if not exists (select 1 from profiles where id = auth.uid() and developer) then
+    raise exception 'Only developers can view app statistics';
+  end if;
+
+  return query
+    select
+      (select count(*) from profiles),
+      (select count(*) from auth.users where created_at >= v_since),
+      (select count(*) from investments where created_at >= v_since),
+      (select count(*) from investments where sell_price is not null and sell_date >= v_since),
+      (select coalesce(sum((sell_price - purchase_price) * quantity - coalesce(tax_paid, 0)), 0)::bigint
+         from investments where sell_price is not null and sell_date >= v_since),
+      (select coalesce(sum(tax_paid), 0)::bigint
+         from investments where sell_price is not null and sell_date >= v_since),
+      (select count(*) from watchlists);
+end;
+$$;
+
+grant execute on function public.get_user_total_profit(uuid) to anon, authenticated;
+grant execute on function public.get_leaderboard(text) to anon, authenticated;
+grant execute on function public.get_app_stats(text) to authenticated;
@@ -0,0 +1,104 @@
+-- Game modes: the main game, Deadman and fresh-start worlds have separate economies, so watchlists and
+-- investments are kept per game mode ('osrs', 'dmm' or 'fsw'), and profit, the leaderboard and the app
+-- stats only count trades from one mode at a time. Rows from before game modes existed are the main game's.
+-- (price_alerts has had a game_mode column from the start.)
+
+alter table public.investments add column if not exists game_mode text not null default 'osrs';
+alter table public.watchlists add column if not exists game_mode text not null default 'osrs';
+
+alter table public.investments drop constraint if exists investments_game_mode_check;
+alter table public.investments add constraint investments_game_mode_check check (game_mode in ('osrs', 'dmm', 'fsw'));
+alter table public.watchlists drop constraint if exists watchlists_game_mode_check;
+alter table public.watchlists add constraint watchlists_game_mode_check check (game_mode in ('osrs', 'dmm', 'fsw'));
+
+create index if not exists investments_user_id_game_mode_idx on public.investments (user_id, game_mode);
+
+-- An item can be on the watchlist once per game mode.
+alter table public.watchlists drop constraint if exists watchlists_user_id_item_id_key;
+create unique index if not exists watchlists_user_id_game_mode_item_id_key on public.watchlists (user_id, game_mode, item_id);
+
+-- The versions of these functions that counted every game mode together (20261009000000_stats_functions.sql).
+-- Each is recreated unchanged apart from the p_game_mode parameter and filter.
+drop function if exists public.get_user_total_profit(uuid);
+drop function if exists public.get_leaderboard(text);
+drop function if exists public.get_app_stats(text);
+
+-- A user's realised profit (after tax) from their closed trades in one game mode.
+create or replace function public.get_user_total_profit(p_user_id uuid, p_game_mode text default 'osrs')
+returns bigint
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(sum((sell_price - purchase_price) * quantity - coalesce(tax_paid, 0)), 0)::bigint
+    from investments
+    where user_id = p_user_id and game_mode = p_game_mode and sell_price is not null;
+$$;
+
+-- Users ranked by realised profit from trades closed in the time range, in one game mode.
+-- time_range is 'today', 'month', 'year' or 'all'.
+create or replace function public.get_leaderboard(time_range text, p_game_mode text default 'osrs')
+returns table (rank bigint, username text, total_profit bigint)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with profits as (
+    select i.user_id, sum((i.sell_price - i.purchase_price) * i.quantity - coalesce(i.tax_paid, 0))::bigint as total_profit
+      from investments i
+      where i.game_mode = p_game_mode
+        and i.sell_price is not null
+        and (time_range = 'all' or i.sell_date >= date_trunc(case time_range when 'today' then 'day' else time_range end, now()))
+      group by i.user_id
+  )
+  select rank() over (order by p.total_profit desc), pr.username, p.total_profit
+    from profits p
+    join profiles pr on pr.id = p.user_id
+    where pr.username is not null
+    order by p.total_profit desc;
+$$;
+
+-- App-wide statistics for developers. Trade and watchlist figures are for one game mode; user counts
+-- are for the whole app. time_range is 'today', 'week', 'month', 'year' or 'all'.
+create or replace function public.get_app_stats(time_range text, p_game_mode text default 'osrs')
+returns table (
+  "totalUsers" bigint,
+  "newUsers" bigint,
+  "totalInvestments" bigint,
+  "closedTrades" bigint,
+  "totalProfit" bigint,
+  "totalTax" bigint,
+  "totalWatchlistItems" bigint
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_since timestamptz := case when time_range = 'all' then '-infinity'::timestamptz
+                              else date_trunc(case time_range when 'today' then 'day' else time_range end, now()) end;
+begin
+  if not exists (select 1 from profiles where id = auth.uid() and developer) then
+    raise exception 'Only developers can view app statistics';
+  end if;
+
+  return query
+    select
+      (select count(*) from profiles),
+      (select count(*) from auth.users where created_at >= v_since),
+      (select count(*) from investments where game_mode = p_game_mode and created_at >= v_since),
+      (select count(*) from investments where game_mode = p_game_mode and sell_price is not null and sell_date >= v_since),
+      (select coalesce(sum((sell_price - purchase_price) * quantity - coalesce(tax_paid, 0)), 0)::bigint
+         from investments where game_mode = p_game_mode and sell_price is not null and sell_date >= v_since),
+      (select coalesce(sum(tax_paid), 0)::bigint
+         from investments where game_mode = p_game_mode and sell_price is not null and sell_date >= v_since),
+      (select count(*) from watchlists where game_mode = p_game_mode);
+end;
+$$;
+
+grant execute on function public.get_user_total_profit(uuid, text) to anon, authenticated;
+grant execute on function public.get_leaderboard(text, text) to anon, authenticated;
+grant execute on function public.get_app_stats(text, text) to authenticated;
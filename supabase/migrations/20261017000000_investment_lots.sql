@@ -0,0 +1,8 @@
+-- Lots: each open investment is a lot, and selling part of one splits the sold quantity off into its own
+-- closed investment. lot_id links those closed investments back to the lot they were sold from (the lot's
+-- own id; null on the lot itself and on investments that were never split), so the portfolio can group a
+-- lot's sales. There's no foreign key, as a lot that sells out is removed while its sales stay.
+
+alter table public.investments add column if not exists lot_id uuid;
+
+create index if not exists investments_lot_id_idx on public.investments (lot_id) where lot_id is not null;
@@ -0,0 +1,145 @@
+-- Records sales against open investments (lots) in one transaction, and awards their XP in it too.
+--
+-- Each sale becomes its own closed investment linked to its lot by lot_id; what's left of the lot stays
+-- open, or the lot is removed once it's sold out. Every lot in a call succeeds or none do.
+--
+-- Calls carry an idempotency key. A lot that was already sold under the same key isn't sold again; its
+-- earlier result is returned instead, so a repeated request (a double-click, or an offline sale replayed
+-- after its response was lost) can't record the sale twice. Keys are kept for 30 days, far longer than a
+-- sale waits in the app's offline queue in practice; each call drops the user's older ones.
+
+create table if not exists public.investment_sale_requests (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  idempotency_key text not null,
+  investment_id uuid not null,
+  result jsonb not null,
+  created_at timestamptz not null default now(),
+  primary key (user_id, idempotency_key, investment_id)
+);
+
+-- Only read and written by process_investment_sales.
+alter table public.investment_sale_requests enable row level security;
+
+-- p_lot_sales: [{ "investment_id": uuid, "sales": [{ "quantity", "sell_price", "sell_date", "tax_paid" }] }]
+-- Returns { "lots": [{ "investment_id", "updated_original", "new_closed" }], "progression_events": [...] },
+-- where updated_original is null if the lot sold out.
+create or replace function public.process_investment_sales(p_lot_sales jsonb, p_idempotency_key text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_lot jsonb;
+  v_sale jsonb;
+  v_investment_id uuid;
+  v_investment investments%rowtype;
+  v_lot_found boolean;
+  v_previous jsonb;
+  v_quantity integer;
+  v_sell_price bigint;
+  v_tax_paid bigint;
+  v_sold integer;
+  v_updated jsonb;
+  v_closed jsonb;
+  v_closed_row jsonb;
+  v_lot_results jsonb := '[]'::jsonb;
+  v_profit bigint := 0;
+  v_trade_value bigint := 0;
+  v_has_new_sales boolean := false;
+  v_events jsonb := '[]'::jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'User not authenticated';
+  end if;
+  if p_idempotency_key is null or length(p_idempotency_key) = 0 then
+    raise exception 'An idempotency key is required';
+  end if;
+  if jsonb_typeof(p_lot_sales) <> 'array' or jsonb_array_length(p_lot_sales) = 0 then
+    raise exception 'No sales to record';
+  end if;
+
+  delete from investment_sale_requests
+    where user_id = v_user_id and created_at < now() - interval '30 days';
+
+  for v_lot in select * from jsonb_array_elements(p_lot_sales) loop
+    v_investment_id := (v_lot ->> 'investment_id')::uuid;
+
+    -- Locking the lot first waits out any request already selling it, so its record is seen below.
+    select * into v_investment from investments where id = v_investment_id and user_id = v_user_id for update;
+    v_lot_found := found;
+
+    select result into v_previous
+      from investment_sale_requests
+      where user_id = v_user_id and idempotency_key = p_idempotency_key and investment_id = v_investment_id;
+    if found then
+      v_lot_results := v_lot_results || jsonb_build_array(v_previous);
+      continue;
+    end if;
+    if not v_lot_found then
+      raise exception 'Investment not found';
+    end if;
+    if v_investment.sell_price is not null then
+      raise exception 'This investment has already been sold';
+    end if;
+    if jsonb_typeof(v_lot -> 'sales') <> 'array' or jsonb_array_length(v_lot -> 'sales') = 0 then
+      raise exception 'No sales to record';
+    end if;
+
+    v_sold := 0;
+    v_closed := '[]'::jsonb;
+    for v_sale in select * from jsonb_array_elements(v_lot -> 'sales') loop
+      v_quantity := (v_sale ->> 'quantity')::integer;
+      v_sell_price := (v_sale ->> 'sell_price')::bigint;
+      v_tax_paid := (v_sale ->> 'tax_paid')::bigint;
+      if v_quantity is null or v_quantity <= 0 then
+        raise exception 'Sale quantity must be a positive whole number';
+      end if;
+      if v_sell_price is null or v_sell_price <= 0 then
+        raise exception 'Sell price must be a positive number';
+      end if;
+      if v_tax_paid is null or v_tax_paid < 0 or v_tax_paid > v_sell_price * v_quantity then
+        raise exception 'Tax paid must be between zero and the sale value';
+      end if;
+      if v_sale ->> 'sell_date' is null then
+        raise exception 'Sell date is required';
+      end if;
+      v_sold := v_sold + v_quantity;
+
+      insert into investments (user_id, game_mode, item_id, quantity, purchase_price, purchase_date, sell_price, sell_date, tax_paid, lot_id)
+        values (v_user_id, v_investment.game_mode, v_investment.item_id, v_quantity, v_investment.purchase_price, v_investment.purchase_date,
+                v_sell_price, (v_sale ->> 'sell_date')::timestamptz, v_tax_paid, coalesce(v_investment.lot_id, v_investment.id))
+        returning to_jsonb(investments.*) into v_closed_row;
+      v_closed := v_closed || jsonb_build_array(v_closed_row);
+      v_profit := v_profit + (v_sell_price - v_investment.purchase_price) * v_quantity - v_tax_paid;
+      v_trade_value := v_trade_value + v_sell_price * v_quantity;
+    end loop;
+
+    if v_sold > v_investment.quantity then
+      raise exception 'Total sale quantity cannot exceed the investment quantity.';
+    elsif v_sold = v_investment.quantity then
+      delete from investments where id = v_investment.id;
+      v_updated := null;
+    else
+      update investments set quantity = v_investment.quantity - v_sold where id = v_investment.id
+        returning to_jsonb(investments.*) into v_updated;
+    end if;
+
+    v_previous := jsonb_build_object('investment_id', v_investment.id, 'updated_original', v_updated, 'new_closed', v_closed);
+    insert into investment_sale_requests (user_id, idempotency_key, investment_id, result)
+      values (v_user_id, p_idempotency_key, v_investment.id, v_previous);
+    v_lot_results := v_lot_results || jsonb_build_array(v_previous);
+    v_has_new_sales := true;
+  end loop;
+
+  -- Lots sold by an earlier request with this key already earned their XP.
+  if v_has_new_sales then
+    v_events := coalesce(to_jsonb(process_closed_trade(v_user_id, v_profit, v_trade_value)), '[]'::jsonb);
+  end if;
+
+  return jsonb_build_object('lots', v_lot_results, 'progression_events', v_events);
+end;
+$$;
+
+grant execute on function public.process_investment_sales(jsonb, text) to authenticated;
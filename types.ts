@@ -1,6 +1,8 @@
 
 
 
+export type GameMode = 'osrs' | 'dmm' | 'fsw';
+
 export interface Item {
   id: number;
   name: string;
@@ -19,6 +21,7 @@ export interface TimeseriesData {
   avgLowPrice: number | null;
   highPriceVolume: number;
   lowPriceVolume: number;
+  timestep?: number; // Seconds covered by the point. Set on stitched series, which mix resolutions.
 }
 
 export interface LatestPrice {
@@ -28,6 +31,15 @@ export interface LatestPrice {
   lowTime: number | null;
 }
 
+// One observed change in an item's latest prices between two price refreshes.
+export interface PriceChange {
+  at: number; // Epoch ms of the refresh that saw the change
+  high: number | null;
+  low: number | null;
+  highDelta: number | null; // Change since the previous refresh; null if either price is missing
+  lowDelta: number | null;
+}
+
 export interface AggregatePrice {
   avgHighPrice: number | null;
   avgLowPrice: number | null;
@@ -35,11 +47,37 @@ export interface AggregatePrice {
   lowPriceVolume: number;
 }
 
+// 'price' is an absolute price threshold on the high or low price. The other kinds compare
+// a derived metric against `targetPrice`, which then holds a percent, gp amount or trade count.
+export type AlertType = 'price' | 'percent_change' | 'spread' | 'margin' | 'volume';
+
 export interface PriceAlert {
+  id: string; // UUID from the database, or a client-generated UUID for alerts kept in localStorage.
   itemId: number;
-  targetPrice: number;
-  condition: 'above' | 'below';
+  type?: AlertType; // Defaults to 'price' for alerts saved before alert types existed.
+  targetPrice: number; // The threshold: gp for price/spread/margin, percent for percent_change, items traded for volume.
+  condition: 'above' | 'below'; // For percent_change, 'below' means the price dropped by at least `targetPrice` percent.
   priceType: 'high' | 'low';
+  timeframe?: '1h' | '24h'; // Averaging window for percent_change alerts.
+  triggeredAt?: number | null; // Epoch ms of when the alert last fired. Unset while the alert is armed.
+  snoozedUntil?: number | null; // Epoch ms; the alert isn't evaluated before this time.
+  expiredAt?: number | null; // Epoch ms; expired alerts are kept for reference but never evaluated.
+  gameMode?: GameMode; // The economy the alert watches. Defaults to 'osrs' for alerts saved before game modes existed.
+}
+
+export type PriceAlertDraft = Omit<PriceAlert, 'id' | 'triggeredAt' | 'snoozedUntil' | 'expiredAt'>;
+export type PriceAlertState = Pick<PriceAlert, 'triggeredAt' | 'snoozedUntil' | 'expiredAt'>;
+
+// A single firing of an alert. Also serves as the entry in the alert history log.
+export interface TriggeredAlert {
+  id: string; // Unique ID for mapping and removal
+  alert: PriceAlert; // Snapshot of the alert's settings at the time it fired
+  itemName: string;
+  value: number; // The metric value that satisfied the alert condition (gp, percent or volume depending on type)
+  priceSnapshot: LatestPrice | null; // The item's latest prices at the time it fired
+  priceChange?: PriceChange | null; // The item's most recent price change when it fired
+  triggeredAt: number;
+  actedOn?: boolean; // Set by the user from the alert history to mark that they traded on it
 }
 
 export interface Profile {
@@ -54,6 +92,8 @@ export interface Profile {
   level: number;
   login_streak: number;
   tokens: number;
+  // Only loaded for the signed-in user's own profile, from the owner-only alert_webhooks table.
+  alert_webhook_urls?: string[];
 }
 
 export type SearchedProfile = Pick<Profile, 'id' | 'username' | 'level' | 'premium'>;
@@ -69,6 +109,42 @@ export interface Investment {
   sell_date: string | null; // Stored as ISO 8601 format string
   tax_paid: number | null;
   created_at: string;
+  game_mode: GameMode;
+  // Exit targets for open positions, as an absolute GP price or a % from breakeven.
+  stop_loss?: number | null;
+  stop_loss_type?: ExitThresholdType | null;
+  take_profit?: number | null;
+  take_profit_type?: ExitThresholdType | null;
+  exit_triggered_at?: string | null; // Set once a stop-loss or take-profit has fired
+  lot_id?: string | null; // The lot a closed investment was sold from; null on lots themselves (see utils/lots.ts)
+}
+
+export type ExitThresholdType = 'gp' | 'percent';
+
+export type InvestmentUpdates = Partial<Pick<Investment, 'quantity' | 'purchase_price' | 'purchase_date' | 'stop_loss' | 'stop_loss_type' | 'take_profit' | 'take_profit_type' | 'exit_triggered_at'>>;
+
+// One sale recorded against an open investment; each becomes its own closed investment.
+export interface InvestmentSale {
+  quantity: number;
+  sell_price: number;
+  sell_date: string;
+  tax_paid: number;
+}
+
+// The sales to record against one open lot (see utils/lots.ts).
+export interface LotSales {
+  investmentId: string;
+  sales: InvestmentSale[];
+}
+
+export interface TriggeredPositionExit {
+  id: string;
+  investment: Investment;
+  kind: 'stop_loss' | 'take_profit';
+  itemName: string;
+  price: number; // The latest low price that crossed the threshold
+  thresholdPrice: number;
+  triggeredAt: number;
 }
 
 export interface LeaderboardEntry {
@@ -80,6 +156,12 @@ export interface LeaderboardEntry {
 export type LeaderboardTimeRange = 'today' | 'month' | 'year' | 'all';
 export type StatsTimeRange = 'today' | 'week' | 'month' | 'year' | 'all';
 
+// Page-level view state that's kept in the URL (see utils/routes.ts).
+export type ItemTimeView = '1H' | '6H' | '1D' | '1W' | '1M' | '6M' | '1Y' | 'ALL';
+export type MarketTab = 'movers' | 'valuable' | 'volume';
+export type MarketTimeframe = '1h' | '6h' | '24h' | '7d';
+export type CommunityTab = 'feed' | 'leaderboard';
+
 
 export interface AppStats {
   totalUsers: number;
@@ -119,6 +201,8 @@ export interface ProgressionNotification {
 }
 
 // --- AI Flipping Assistant Types ---
+export type FlippingStrategy = 'balanced' | 'high_margin' | 'dip_buys' | 'momentum_plays';
+
 // FIX: Updated `webSources` type to allow optional `uri` and `title` properties,
 // matching the structure returned by the Gemini API's `groundingChunks`.
 export interface FlippingSuggestion {
@@ -147,7 +231,7 @@ export interface HistoricAnalysis {
     suggestions: FlippingSuggestion[];
     params: {
         budget: string;
-        strategy: 'balanced' | 'high_margin' | 'dip_buys' | 'momentum_plays';
+        strategy: FlippingStrategy;
         ignoreLowLimits: boolean;
     };
 }
@@ -0,0 +1,206 @@
+import type { Item, LatestPrice, AggregatePrice, PriceAlert, PriceAlertState, AlertType, TriggeredAlert, PriceChange } from '../types';
+import { calculateGeTax } from './image';
+
+// The market data an alert can be evaluated against.
+export interface AlertMarketData {
+  items: Record<string, Item>;
+  latestPrices: Record<string, LatestPrice>;
+  oneHourPrices: Record<string, AggregatePrice>;
+  twentyFourHourPrices: Record<string, AggregatePrice>;
+  priceChanges?: Record<string, PriceChange[]>; // Recorded on fired alerts so they show the move that set them off
+}
+
+export const ALERT_TYPE_LABELS: Record<AlertType, string> = {
+  price: 'Price',
+  percent_change: '% Change',
+  spread: 'Spread',
+  margin: 'Margin',
+  volume: 'Volume',
+};
+
+/**
+ * Fills in defaults for alerts saved by older versions of the app,
+ * which had no `id`, `type` or (in some cases) `priceType`.
+ * @param alert The alert as read from storage.
+ * @returns A fully populated alert.
+ */
+export const normalizeAlert = (alert: Partial<PriceAlert> & Pick<PriceAlert, 'itemId' | 'targetPrice' | 'condition'>): PriceAlert => ({
+  ...alert,
+  id: alert.id ?? crypto.randomUUID(),
+  type: alert.type ?? 'price',
+  priceType: alert.priceType ?? 'high',
+});
+
+/**
+ * Whether an alert needs the 1h/24h aggregate prices to be evaluated.
+ * @param alert The alert to check.
+ */
+export const alertRequiresAggregates = (alert: PriceAlert): boolean => {
+  return alert.type === 'percent_change' || alert.type === 'volume';
+};
+
+/**
+ * Computes the current value of the metric an alert is tracking.
+ * - price: the latest high or low price.
+ * - percent_change: % change of the latest high/low price vs. the 1h or 24h average.
+ * - spread: latest high minus latest low.
+ * - margin: the per-item profit from buying at the low and selling at the high, after GE tax.
+ * - volume: total items traded over the last 24h.
+ * @param alert The alert to compute the metric for.
+ * @param data The current market data.
+ * @returns The metric value, or null if the required data isn't available.
+ */
+export const getAlertMetricValue = (alert: PriceAlert, data: AlertMarketData): number | null => {
+  const latestPrice = data.latestPrices[alert.itemId];
+  const priceType = alert.priceType ?? 'high';
+
+  switch (alert.type ?? 'price') {
+    case 'price':
+      if (!latestPrice) return null;
+      return priceType === 'high' ? latestPrice.high : latestPrice.low;
+    case 'percent_change': {
+      const aggregate = (alert.timeframe === '24h' ? data.twentyFourHourPrices : data.oneHourPrices)[alert.itemId];
+      const current = priceType === 'high' ? latestPrice?.high : latestPrice?.low;
+      const average = priceType === 'high' ? aggregate?.avgHighPrice : aggregate?.avgLowPrice;
+      if (!current || !average) return null;
+      return ((current - average) / average) * 100;
+    }
+    case 'spread':
+      if (latestPrice?.high == null || latestPrice.low == null) return null;
+      return latestPrice.high - latestPrice.low;
+    case 'margin': {
+      const item = data.items[alert.itemId];
+      if (!item || latestPrice?.high == null || latestPrice.low == null) return null;
+      return latestPrice.high - latestPrice.low - calculateGeTax(item.name, latestPrice.high, 1);
+    }
+    case 'volume': {
+      const aggregate = data.twentyFourHourPrices[alert.itemId];
+      if (!aggregate) return null;
+      return aggregate.highPriceVolume + aggregate.lowPriceVolume;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Checks whether a metric value satisfies an alert's condition.
+ * Percent change alerts treat `targetPrice` as a magnitude, so a 'below' alert
+ * with a target of 5 fires when the price has dropped by 5% or more.
+ * @param alert The alert to check.
+ * @param value The current metric value.
+ * @returns True if the alert should fire.
+ */
+export const isAlertConditionMet = (alert: PriceAlert, value: number): boolean => {
+  if (alert.type === 'percent_change') {
+    return alert.condition === 'above' ? value >= alert.targetPrice : value <= -alert.targetPrice;
+  }
+  return alert.condition === 'above' ? value >= alert.targetPrice : value <= alert.targetPrice;
+};
+
+/**
+ * Whether an alert is currently armed, i.e. not fired, snoozed or expired.
+ * @param alert The alert to check.
+ * @param now The current time in epoch ms.
+ */
+export const isAlertArmed = (alert: PriceAlert, now: number = Date.now()): boolean => {
+  if (alert.triggeredAt || alert.expiredAt) return false;
+  return !alert.snoozedUntil || alert.snoozedUntil <= now;
+};
+
+export const ALERT_SNOOZE_HOURS = [1, 4, 24];
+
+// State updates for the alert lifecycle actions. Re-arming clears every flag;
+// snoozing re-arms the alert once the snooze period ends; expiring stops evaluation for good.
+export const getRearmState = (): PriceAlertState => ({ triggeredAt: null, snoozedUntil: null, expiredAt: null });
+export const getSnoozeState = (hours: number): PriceAlertState => ({ triggeredAt: null, snoozedUntil: Date.now() + hours * 60 * 60 * 1000, expiredAt: null });
+export const getExpireState = (): PriceAlertState => ({ expiredAt: Date.now(), snoozedUntil: null });
+
+/**
+ * Evaluates all armed alerts against the current market data.
+ * Alerts that have already fired (`triggeredAt` is set), are snoozed or have expired are skipped
+ * so they don't fire again on every price refresh. Alerts whose data isn't loaded yet are also skipped.
+ * @param alerts The user's saved alerts.
+ * @param data The current market data.
+ * @returns The alerts that fired during this evaluation.
+ */
+export const evaluateAlerts = (alerts: PriceAlert[], data: AlertMarketData): TriggeredAlert[] => {
+  const now = Date.now();
+  const triggered: TriggeredAlert[] = [];
+
+  alerts.forEach(alert => {
+    if (!isAlertArmed(alert, now)) return;
+    const item = data.items[alert.itemId];
+    const value = getAlertMetricValue(alert, data);
+    if (!item || value === null) return;
+
+    if (isAlertConditionMet(alert, value)) {
+      triggered.push({
+        id: crypto.randomUUID(),
+        alert,
+        itemName: item.name,
+        value,
+        priceSnapshot: data.latestPrices[alert.itemId] ?? null,
+        priceChange: data.priceChanges?.[alert.itemId]?.at(-1) ?? null,
+        triggeredAt: now,
+      });
+    }
+  });
+
+  return triggered;
+};
+
+/**
+ * Formats a metric value in the unit of the alert's type, e.g. "1,200 gp", "+5.25%" or "3,400 traded".
+ * @param alert The alert the value belongs to.
+ * @param value The metric value.
+ * @returns The formatted string.
+ */
+export const formatAlertMetricValue = (alert: PriceAlert, value: number): string => {
+  switch (alert.type ?? 'price') {
+    case 'percent_change':
+      return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+    case 'volume':
+      return `${Math.round(value).toLocaleString()} traded`;
+    default:
+      return `${Math.round(value).toLocaleString()} gp`;
+  }
+};
+
+/**
+ * Describes the price move that set off an alert, e.g. "High +1,250 gp since the last refresh".
+ * Uses whichever price (high or low) the alert tracks.
+ * @param alert The alert that fired.
+ * @param change The item's most recent price change when it fired.
+ * @returns The description, or null if that price didn't move.
+ */
+export const describePriceChange = (alert: PriceAlert, change: PriceChange | null | undefined): string | null => {
+  const priceType = alert.priceType ?? 'high';
+  const changeDelta = priceType === 'high' ? change?.highDelta : change?.lowDelta;
+  if (!changeDelta) return null;
+  const sign = changeDelta > 0 ? '+' : '-';
+  return `${priceType === 'high' ? 'High' : 'Low'} ${sign}${Math.abs(changeDelta).toLocaleString()} gp since the last refresh`;
+};
+
+/**
+ * Builds the human-readable description of an alert, e.g. "High Price is below 1,200 gp".
+ * @param alert The alert to describe.
+ * @returns The description string.
+ */
+export const describeAlertCondition = (alert: PriceAlert): string => {
+  const priceTypeLabel = (alert.priceType ?? 'high') === 'high' ? 'High Price' : 'Low Price';
+  const target = alert.targetPrice.toLocaleString();
+
+  switch (alert.type ?? 'price') {
+    case 'percent_change':
+      return `${priceTypeLabel} ${alert.condition === 'above' ? 'rises' : 'drops'} ${target}% vs. ${alert.timeframe ?? '1h'} avg`;
+    case 'spread':
+      return `Spread is ${alert.condition} ${target} gp`;
+    case 'margin':
+      return `After-tax margin is ${alert.condition} ${target} gp`;
+    case 'volume':
+      return `24h volume is ${alert.condition} ${target}`;
+    default:
+      return `${priceTypeLabel} is ${alert.condition} ${target} gp`;
+  }
+};
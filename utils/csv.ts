@@ -0,0 +1,80 @@
+// Reading and writing CSV files (RFC 4180: comma-separated, double-quoted where needed).
+
+export type CsvCell = string | number | null | undefined;
+
+const escapeCell = (cell: CsvCell): string => {
+  if (cell === null || cell === undefined) return '';
+  let text = String(cell);
+  // Spreadsheets run text cells starting with these as formulas; numbers are left alone.
+  if (typeof cell === 'string' && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serializes rows to CSV text.
+ * @param rows The rows, header row first.
+ * @returns The CSV text, with CRLF line endings.
+ */
+export const toCsv = (rows: CsvCell[][]): string => rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
+
+/**
+ * Parses CSV text into rows of cells. Handles quoted cells (including commas, quotes and line
+ * breaks inside them), CRLF or LF line endings, and a leading byte-order mark.
+ * Blank lines are skipped.
+ * @param text The CSV text.
+ * @returns The rows, each an array of cell strings.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  endRow();
+  return rows;
+};
+
+/**
+ * Saves CSV text as a file through the browser's download prompt.
+ * @param filename The suggested file name.
+ * @param csv The file's contents.
+ */
+export const downloadCsv = (filename: string, csv: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,142 @@
+import type { Item, LatestPrice, AggregatePrice, FlippingStrategy } from '../types';
+import { calculateGeTax } from './image';
+
+export const LOW_LIMIT_THRESHOLD = 1000;
+const MAX_CANDIDATES = 30;
+const PROGRESS_INTERVAL = 500; // Items scored between progress reports
+
+export interface FlippingScanInput {
+    items: Item[];
+    latestPrices: Record<string, LatestPrice>;
+    oneHourPrices: Record<string, AggregatePrice>;
+    twentyFourHourPrices: Record<string, AggregatePrice>;
+    budget: number;
+    strategy: FlippingStrategy;
+    ignoreLowLimits: boolean;
+}
+
+export interface FlippingCandidate {
+    id: number;
+    name: string;
+    limit: number;
+    latestHigh: number;
+    latestLow: number;
+    netMargin: number;
+    netMarginPercentage: number;
+    potentialProfit: number;
+    volume24hBuy: number;
+    volume24hSell: number;
+    liquidityRatio: number;
+    flipVelocityScore: number;
+    priceChange1h: number;
+    priceChange24h: number;
+    tradabilityTier: 'Excellent' | 'Good' | 'Fair' | 'Poor';
+}
+
+const toCandidate = (item: Item, input: FlippingScanInput): FlippingCandidate | null => {
+    const { latestPrices, oneHourPrices, twentyFourHourPrices, budget, strategy, ignoreLowLimits } = input;
+    const latest = latestPrices[item.id];
+    const price24h = twentyFourHourPrices[item.id];
+
+    if (!latest || !latest.high || !latest.low || !item.limit || item.limit <= 0 || latest.high < 1000 || !price24h) return null;
+    if (ignoreLowLimits && item.limit < LOW_LIMIT_THRESHOLD) return null;
+
+    const buyPrice = latest.high;
+    const sellPrice = latest.low;
+    const taxPerItem = calculateGeTax(item.name, sellPrice, 1);
+    if ((sellPrice - buyPrice - taxPerItem) <= 0) return null;
+    const quantityToFlip = Math.min(Math.floor(budget / buyPrice), item.limit);
+    if (quantityToFlip <= 0) return null;
+    const totalTaxForFlip = calculateGeTax(item.name, sellPrice, quantityToFlip);
+    const potentialProfit = (sellPrice * quantityToFlip) - (buyPrice * quantityToFlip) - totalTaxForFlip;
+    if (potentialProfit <= 0) return null;
+    const netMargin = potentialProfit / quantityToFlip;
+
+    const volume24hBuy = price24h.highPriceVolume;
+    const volume24hSell = price24h.lowPriceVolume;
+
+    if (volume24hBuy < 100 || volume24hSell < 100) return null;
+    const liquidityRatio = volume24hSell / volume24hBuy;
+    if (liquidityRatio < 0.25) return null;
+
+    const price1h = oneHourPrices[item.id];
+    const priceChange1h = (price1h?.avgHighPrice && latest.high) ? ((latest.high - price1h.avgHighPrice) / price1h.avgHighPrice) * 100 : 0;
+    const priceChange24h = (price24h?.avgHighPrice && latest.high) ? ((latest.high - price24h.avgHighPrice) / price24h.avgHighPrice) * 100 : 0;
+    if (!isFinite(priceChange1h) || !isFinite(priceChange24h)) return null;
+
+    const getTradabilityTier = (): FlippingCandidate['tradabilityTier'] => {
+        const totalVolume = volume24hBuy + volume24hSell;
+        if (totalVolume > 5000 && liquidityRatio > 0.75) return 'Excellent';
+        if (totalVolume > 1000 && liquidityRatio > 0.5) return 'Good';
+        if (totalVolume > 250 && liquidityRatio > 0.3) return 'Fair';
+        return 'Poor';
+    };
+    const tradabilityTier = getTradabilityTier();
+
+    if (strategy === 'balanced' && (tradabilityTier === 'Fair' || tradabilityTier === 'Poor')) return null;
+    if (strategy !== 'balanced' && tradabilityTier === 'Poor') return null;
+
+    const flipVelocityScore = (volume24hBuy + volume24hSell) / item.limit;
+
+    return {
+        id: item.id, name: item.name, limit: item.limit,
+        latestHigh: latest.high, latestLow: latest.low,
+        netMargin, netMarginPercentage: (netMargin / latest.high) * 100,
+        potentialProfit,
+        volume24hBuy, volume24hSell, liquidityRatio, flipVelocityScore,
+        priceChange1h, priceChange24h, tradabilityTier,
+    };
+};
+
+const scoreCandidate = (c: FlippingCandidate, strategy: FlippingStrategy): number => {
+    const roiScore = c.netMarginPercentage * 15; // Emphasize ROI
+    const velocityScore = Math.log(c.flipVelocityScore + 1) * 10; // Emphasize turnover speed
+    const profitMagnitudeScore = Math.log(c.potentialProfit + 1); // Still consider total profit, but with less weight
+
+    switch (strategy) {
+        case 'high_margin':
+            return roiScore * 2 + velocityScore + profitMagnitudeScore;
+        case 'dip_buys': {
+            const dipBonus = c.priceChange24h < -1 ? -c.priceChange24h : 0; // Bonus for items that dipped > 1%
+            return roiScore + velocityScore + profitMagnitudeScore + dipBonus;
+        }
+        case 'momentum_plays': {
+            const momentumBonus = c.priceChange1h > 0.5 ? c.priceChange1h * 2 : 0; // Bonus for recent upward momentum
+            return roiScore + velocityScore + profitMagnitudeScore + momentumBonus;
+        }
+        case 'balanced':
+        default: {
+            const tradabilityBonus = c.tradabilityTier === 'Excellent' ? 10 : c.tradabilityTier === 'Good' ? 5 : 0;
+            return roiScore + velocityScore * 1.5 + profitMagnitudeScore + tradabilityBonus;
+        }
+    }
+};
+
+/**
+ * Scans every item for profitable, liquid flips within the budget and ranks them for the strategy.
+ * Runs in the market scan worker; see services/marketScanner.ts.
+ * @param input The market data and the user's constraints.
+ * @param onProgress Called periodically with the number of items scanned so far.
+ * @returns The top candidates, best first.
+ */
+export const scoreFlippingCandidates = (
+    input: FlippingScanInput,
+    onProgress?: (processed: number, total: number) => void
+): FlippingCandidate[] => {
+    const total = input.items.length;
+    const candidates: { candidate: FlippingCandidate; score: number }[] = [];
+
+    input.items.forEach((item, index) => {
+        const candidate = toCandidate(item, input);
+        if (candidate) {
+            candidates.push({ candidate, score: scoreCandidate(candidate, input.strategy) });
+        }
+        if ((index + 1) % PROGRESS_INTERVAL === 0) onProgress?.(index + 1, total);
+    });
+    onProgress?.(total, total);
+
+    return candidates
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_CANDIDATES)
+        .map(({ candidate }) => candidate);
+};
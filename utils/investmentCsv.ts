@@ -0,0 +1,157 @@
+import type { Investment, Item } from '../types';
+import type { CsvCell } from './csv';
+import { toCsv } from './csv';
+import { calculateGeTax, parseShorthandPrice } from './image';
+
+// Converting investments to and from spreadsheets. Exported files can be imported again as-is.
+
+export type ImportedInvestment = Omit<Investment, 'id' | 'user_id' | 'created_at' | 'game_mode'>;
+
+export type ImportField = 'item' | 'quantity' | 'purchase_price' | 'purchase_date' | 'sell_price' | 'sell_date' | 'tax_paid';
+
+// Which column each field is read from, by index; null if the file doesn't have it.
+export type ImportColumnMapping = Record<ImportField, number | null>;
+
+export interface ImportFieldInfo {
+  label: string;
+  required: boolean;
+  aliases: string[]; // Header names recognised for the field, lower-case with spaces and punctuation removed
+}
+
+export const IMPORT_FIELDS: Record<ImportField, ImportFieldInfo> = {
+  item: { label: 'Item (name or ID)', required: true, aliases: ['item', 'itemname', 'name', 'itemid', 'id'] },
+  quantity: { label: 'Quantity', required: true, aliases: ['quantity', 'qty', 'amount', 'count'] },
+  purchase_price: { label: 'Purchase price (each)', required: true, aliases: ['purchaseprice', 'buyprice', 'buy', 'price', 'cost'] },
+  purchase_date: { label: 'Purchase date', required: true, aliases: ['purchasedate', 'buydate', 'date', 'bought'] },
+  sell_price: { label: 'Sell price (each)', required: false, aliases: ['sellprice', 'sell', 'saleprice'] },
+  sell_date: { label: 'Sell date', required: false, aliases: ['selldate', 'saledate', 'sold'] },
+  tax_paid: { label: 'Tax paid', required: false, aliases: ['taxpaid', 'tax', 'getax'] },
+};
+
+export interface ImportRowError {
+  row: number; // 1-based line in the file, counting the header
+  message: string;
+}
+
+export interface ImportPreview {
+  investments: ImportedInvestment[];
+  errors: ImportRowError[];
+}
+
+const EXPORT_HEADER = ['Item', 'Item ID', 'Status', 'Quantity', 'Purchase Price', 'Purchase Date', 'Sell Price', 'Sell Date', 'Tax Paid', 'Profit', 'Game Mode'];
+
+const toDateString = (isoDate: string | null) => isoDate ? isoDate.split('T')[0] : null;
+
+/**
+ * Builds a CSV of investments, open and closed, with item names and each closed trade's tax and profit.
+ * Closed trades saved without their tax have it calculated from the sale.
+ * @param investments The investments to export.
+ * @param items The item mapping, for item names.
+ * @returns The CSV text.
+ */
+export const investmentsToCsv = (investments: Investment[], items: Record<string, Item>): string => {
+  const rows: CsvCell[][] = investments.map(inv => {
+    const itemName = items[inv.item_id]?.name ?? '';
+    const isClosed = inv.sell_price !== null;
+    const tax = isClosed ? inv.tax_paid ?? calculateGeTax(itemName, inv.sell_price!, inv.quantity) : null;
+    const profit = isClosed ? (inv.sell_price! - inv.purchase_price) * inv.quantity - tax! : null;
+    return [
+      itemName, inv.item_id, isClosed ? 'Closed' : 'Open', inv.quantity, inv.purchase_price, toDateString(inv.purchase_date),
+      inv.sell_price, toDateString(inv.sell_date), tax, profit, inv.game_mode,
+    ];
+  });
+  return toCsv([EXPORT_HEADER, ...rows]);
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Guesses which column holds each field from the file's header row.
+ * @param headers The header row.
+ * @returns The guessed mapping; fields with no recognisable column are null.
+ */
+export const guessColumnMapping = (headers: string[]): ImportColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping = {} as ImportColumnMapping;
+  // Fields are matched in declaration order, so e.g. "Item" claims its column before "Item ID" can.
+  for (const [field, info] of Object.entries(IMPORT_FIELDS) as [ImportField, ImportFieldInfo][]) {
+    const index = info.aliases
+      .map(alias => normalized.findIndex((header, i) => header === alias && !used.has(i)))
+      .find(i => i !== -1);
+    mapping[field] = index ?? null;
+    if (index !== undefined) used.add(index);
+  }
+  return mapping;
+};
+
+const parseDate = (value: string): string | null => {
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+/**
+ * Checks every data row against the mapping without saving anything, resolving item names to IDs
+ * and parsing shorthand prices ("120k", "3.5m"). Rows with a sell price are imported as closed trades;
+ * if their tax is left blank it's calculated from the sale.
+ * @param rows The file's rows, header row first.
+ * @param mapping Which column holds each field.
+ * @param items The item mapping, to resolve items by name or ID.
+ * @returns The investments that would be imported, and why any other rows can't be.
+ */
+export const previewInvestmentImport = (rows: string[][], mapping: ImportColumnMapping, items: Record<string, Item>): ImportPreview => {
+  const itemsByName = new Map(Object.values(items).map(item => [item.name.toLowerCase(), item]));
+  const investments: ImportedInvestment[] = [];
+  const errors: ImportRowError[] = [];
+
+  rows.slice(1).forEach((row, index) => {
+    const rowNumber = index + 2;
+    const read = (field: ImportField) => {
+      const column = mapping[field];
+      return column === null ? '' : (row[column] ?? '').trim();
+    };
+    const rowErrors: string[] = [];
+
+    const itemValue = read('item');
+    const item = /^\d+$/.test(itemValue) ? items[itemValue] : itemsByName.get(itemValue.toLowerCase());
+    if (!itemValue) rowErrors.push('Item is missing.');
+    else if (!item) rowErrors.push(`Unknown item "${itemValue}".`);
+
+    const quantity = Number(read('quantity').replace(/,/g, ''));
+    if (!Number.isInteger(quantity) || quantity <= 0) rowErrors.push('Quantity must be a positive whole number.');
+
+    const purchasePrice = parseShorthandPrice(read('purchase_price'));
+    if (isNaN(purchasePrice) || purchasePrice <= 0) rowErrors.push('Purchase price must be a positive number.');
+
+    const purchaseDate = parseDate(read('purchase_date'));
+    if (!purchaseDate) rowErrors.push('Purchase date is missing or invalid.');
+
+    const sellPriceValue = read('sell_price');
+    const sellDateValue = read('sell_date');
+    const taxValue = read('tax_paid');
+    const sellPrice = sellPriceValue ? parseShorthandPrice(sellPriceValue) : null;
+    const sellDate = sellDateValue ? parseDate(sellDateValue) : null;
+    const taxPaid = taxValue ? parseShorthandPrice(taxValue) : null;
+    if (sellPrice !== null && (isNaN(sellPrice) || sellPrice <= 0)) rowErrors.push('Sell price must be a positive number.');
+    if (sellDateValue && !sellDate) rowErrors.push('Sell date is invalid.');
+    if (sellPrice !== null && !sellDateValue) rowErrors.push('Closed trades need a sell date.');
+    if (sellPrice === null && sellDateValue) rowErrors.push('Closed trades need a sell price.');
+    if (taxPaid !== null && (isNaN(taxPaid) || taxPaid < 0)) rowErrors.push('Tax paid must be zero or more.');
+
+    if (rowErrors.length > 0 || !item || !purchaseDate) {
+      rowErrors.forEach(message => errors.push({ row: rowNumber, message }));
+      return;
+    }
+    investments.push({
+      item_id: item.id,
+      quantity,
+      purchase_price: purchasePrice,
+      purchase_date: purchaseDate,
+      sell_price: sellPrice,
+      sell_date: sellPrice !== null ? sellDate : null,
+      tax_paid: sellPrice !== null ? taxPaid ?? calculateGeTax(item.name, sellPrice, quantity) : null,
+    });
+  });
+
+  return { investments, errors };
+};
@@ -0,0 +1,121 @@
+import type { Investment, InvestmentSale, LotSales } from '../types';
+import { calculateGeTax } from './image';
+
+// Lots: every buy is a lot, kept as an open investment until it's sold out. Selling part of a lot splits
+// the sold part into a closed investment whose `lot_id` points back at the lot, so a lot's sales can be
+// found even after it's been sold out and removed.
+
+export type CostBasisMethod = 'fifo' | 'lifo' | 'average';
+
+export const COST_BASIS_METHODS: Record<CostBasisMethod, { label: string; description: string }> = {
+  fifo: { label: 'FIFO', description: 'Sells the oldest lots first.' },
+  lifo: { label: 'LIFO', description: 'Sells the newest lots first.' },
+  average: { label: 'Average cost', description: 'Sells an equal share of every lot, so the sale costs the average buy price.' },
+};
+
+// A sale of the item as a whole, before it's split between lots.
+export interface ItemSale {
+  quantity: number;
+  sell_price: number;
+  sell_date: string;
+}
+
+/**
+ * The ID of the lot an investment belongs to: its own ID if it's a lot (or an older row from before
+ * lots were tracked), otherwise the lot it was sold from.
+ */
+export const getLotId = (investment: Investment) => investment.lot_id ?? investment.id;
+
+const byPurchaseDate = (a: Investment, b: Investment) =>
+  new Date(a.purchase_date).getTime() - new Date(b.purchase_date).getTime() || a.created_at.localeCompare(b.created_at);
+
+// Splits a total between weights in proportion, rounding with the largest remainders so the parts add up.
+const splitProportionally = (total: number, weights: number[]): number[] => {
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+  if (weightSum === 0) return weights.map(() => 0);
+  const exact = weights.map(weight => total * weight / weightSum);
+  const parts = exact.map(Math.floor);
+  let leftover = total - parts.reduce((sum, part) => sum + part, 0);
+  const byRemainder = exact.map((value, index) => ({ index, remainder: value - parts[index] })).sort((a, b) => b.remainder - a.remainder);
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) break;
+    parts[index]++;
+    leftover--;
+  }
+  return parts;
+};
+
+/**
+ * Works out how many of each open lot a sale takes, by cost-basis method.
+ * @param lots The item's open lots.
+ * @param quantity The quantity sold.
+ * @param method FIFO and LIFO sell whole lots oldest or newest first; average cost sells the same share
+ *   of every lot.
+ * @returns The quantity taken from each lot, leaving out lots the sale doesn't touch.
+ * @throws If the lots don't hold enough to cover the sale.
+ */
+export const allocateSaleToLots = (lots: Investment[], quantity: number, method: CostBasisMethod): { lot: Investment; quantity: number }[] => {
+  const held = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  if (quantity > held) {
+    throw new Error(`Total sale quantity cannot exceed the amount you own (${held.toLocaleString()}).`);
+  }
+  if (method === 'average') {
+    const parts = splitProportionally(quantity, lots.map(lot => lot.quantity));
+    return lots.map((lot, index) => ({ lot, quantity: parts[index] })).filter(part => part.quantity > 0);
+  }
+  const ordered = [...lots].sort(byPurchaseDate);
+  if (method === 'lifo') ordered.reverse();
+  const allocations: { lot: Investment; quantity: number }[] = [];
+  let remaining = quantity;
+  for (const lot of ordered) {
+    if (remaining === 0) break;
+    const taken = Math.min(remaining, lot.quantity);
+    allocations.push({ lot, quantity: taken });
+    remaining -= taken;
+  }
+  return allocations;
+};
+
+/**
+ * Splits sales of an item between its open lots. Sales are allocated in order, each from what earlier
+ * ones left. The GE tax is worked out for each sale as a whole, then shared between its lots by quantity.
+ * @param lots The item's open lots.
+ * @param sales The sales, each at its own price.
+ * @param method The cost-basis method.
+ * @param itemName The item's name, for tax-exempt items.
+ * @returns The sales to record against each lot that's sold from.
+ * @throws If the lots don't hold enough to cover the sales.
+ */
+export const splitSalesAcrossLots = (lots: Investment[], sales: ItemSale[], method: CostBasisMethod, itemName: string): LotSales[] => {
+  const remaining = lots.map(lot => ({ ...lot }));
+  const salesByLot = new Map<string, InvestmentSale[]>();
+
+  for (const sale of sales) {
+    const allocations = allocateSaleToLots(remaining.filter(lot => lot.quantity > 0), sale.quantity, method);
+    const taxes = splitProportionally(calculateGeTax(itemName, sale.sell_price, sale.quantity), allocations.map(a => a.quantity));
+    allocations.forEach(({ lot, quantity }, index) => {
+      lot.quantity -= quantity;
+      const lotSales = salesByLot.get(lot.id) ?? [];
+      lotSales.push({ quantity, sell_price: sale.sell_price, sell_date: sale.sell_date, tax_paid: taxes[index] });
+      salesByLot.set(lot.id, lotSales);
+    });
+  }
+  // Lots keep their purchase order, so sales are recorded oldest lot first whatever the method.
+  return [...lots].sort(byPurchaseDate)
+    .filter(lot => salesByLot.has(lot.id))
+    .map(lot => ({ investmentId: lot.id, sales: salesByLot.get(lot.id)! }));
+};
+
+/**
+ * Groups closed investments by the lot they were sold from.
+ * @param investments Every investment, open and closed.
+ * @returns Each lot's sales by lot ID, oldest first. Sold-out lots whose open row is gone are included.
+ */
+export const getLotSales = (investments: Investment[]): Map<string, Investment[]> => {
+  const salesByLot = new Map<string, Investment[]>();
+  investments
+    .filter(inv => inv.sell_price !== null && inv.sell_date !== null)
+    .sort((a, b) => new Date(a.sell_date!).getTime() - new Date(b.sell_date!).getTime())
+    .forEach(inv => salesByLot.set(getLotId(inv), [...(salesByLot.get(getLotId(inv)) ?? []), inv]));
+  return salesByLot;
+};
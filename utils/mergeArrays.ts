@@ -0,0 +1,42 @@
+// Three-way merge for array values that two tabs edited at the same time.
+
+/**
+ * Merges another tab's edits to an array into this tab's edits, where both started from `base`.
+ * Elements are matched by `getKey`. This tab's additions, removals and changes are kept, as are
+ * the other tab's, except where both tabs changed the same element; then this tab's version wins.
+ * This tab's order is kept, with elements only the other tab added at the front if it put them
+ * ahead of the elements both tabs share, and at the end otherwise.
+ * @param base The array both tabs last agreed on.
+ * @param ours This tab's version.
+ * @param theirs The other tab's version, as read from storage.
+ * @param getKey Identifies an element, e.g. by its ID.
+ * @returns The merged array.
+ */
+export const mergeArrays = <T,>(base: T[], ours: T[], theirs: T[], getKey: (item: T) => string | number): T[] => {
+  const baseByKey = new Map(base.map(item => [getKey(item), item]));
+  const oursByKey = new Map(ours.map(item => [getKey(item), item]));
+  const theirsByKey = new Map(theirs.map(item => [getKey(item), item]));
+  const isUnchanged = (a: T, b: T) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+  const merged: T[] = [];
+  for (const item of ours) {
+    const key = getKey(item);
+    const baseItem = baseByKey.get(key);
+    const theirItem = theirsByKey.get(key);
+    if (baseItem === undefined) {
+      merged.push(item); // Added here
+    } else if (theirItem === undefined) {
+      if (!isUnchanged(item, baseItem)) merged.push(item); // Removed there, but changed here
+    } else {
+      merged.push(isUnchanged(item, baseItem) ? theirItem : item);
+    }
+  }
+
+  // Elements the other tab added. Ones it removed, or that this tab removed, stay removed.
+  const added = theirs.filter(item => !baseByKey.has(getKey(item)) && !oursByKey.has(getKey(item)));
+  if (added.length === 0) return merged;
+  const firstSharedIndex = theirs.findIndex(item => oursByKey.has(getKey(item)));
+  const prepended = firstSharedIndex === -1 ? added : added.filter(item => theirs.indexOf(item) < firstSharedIndex);
+  const appended = added.filter(item => !prepended.includes(item));
+  return [...prepended, ...merged, ...appended];
+};
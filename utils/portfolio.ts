@@ -0,0 +1,157 @@
+import type { Investment, InvestmentSale, LatestPrice, TimeseriesData } from '../types';
+
+/**
+ * The profit and total sale value of a set of sales against one investment, after tax.
+ * @param investment The investment being sold.
+ * @param sales The sales recorded against it.
+ */
+export const summarizeSales = (investment: Investment, sales: InvestmentSale[]): { profit: number; tradeValue: number } => ({
+  profit: sales.reduce((sum, s) => sum + (s.sell_price - investment.purchase_price) * s.quantity - s.tax_paid, 0),
+  tradeValue: sales.reduce((sum, s) => sum + s.sell_price * s.quantity, 0),
+});
+
+/**
+ * Splits an investment the way `processInvestmentSales` does in the database: each sale becomes its
+ * own closed investment, and what's left stays open (or is removed if everything was sold).
+ * Used to show sales that were recorded offline before the database has them.
+ * @param investment The investment being sold.
+ * @param sales The sales recorded against it.
+ * @param closedIds IDs for the closed investments, one per sale.
+ * @returns The investments that replace the original, open remainder first.
+ */
+export const splitInvestmentForSales = (investment: Investment, sales: InvestmentSale[], closedIds: string[]): Investment[] => {
+  const remainingQuantity = investment.quantity - sales.reduce((sum, s) => sum + s.quantity, 0);
+  const closed = sales.map((sale, index): Investment => ({
+    id: closedIds[index],
+    user_id: investment.user_id,
+    game_mode: investment.game_mode,
+    item_id: investment.item_id,
+    quantity: sale.quantity,
+    purchase_price: investment.purchase_price,
+    purchase_date: investment.purchase_date,
+    sell_price: sale.sell_price,
+    sell_date: sale.sell_date,
+    tax_paid: sale.tax_paid,
+    lot_id: investment.lot_id ?? investment.id,
+    created_at: investment.created_at,
+  }));
+  return remainingQuantity > 0 ? [{ ...investment, quantity: remainingQuantity }, ...closed] : closed;
+};
+
+export interface PortfolioHistoryPoint {
+  date: string; // YYYY-MM-DD (UTC)
+  realised: number; // Cumulative profit from trades closed by the end of the day, after tax
+  unrealised: number; // Paper profit on positions held at the end of the day, at that day's price
+  total: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const closedProfit = (inv: Investment) => (inv.sell_price! - inv.purchase_price) * inv.quantity - (inv.tax_paid ?? 0);
+
+interface Position {
+  inv: Investment;
+  boughtAt: number; // Epoch ms
+  soldAt: number | null; // Epoch ms; null while open
+}
+
+const toPositions = (investments: Investment[]): Position[] => investments.map(inv => ({
+  inv,
+  boughtAt: new Date(inv.purchase_date).getTime(),
+  soldAt: inv.sell_price !== null && inv.sell_date !== null ? new Date(inv.sell_date).getTime() : null,
+}));
+
+// The portfolio at the end of a day, with positions held then valued at `priceOf` (at cost if null).
+const valueOnDay = (positions: Position[], day: number, priceOf: (itemId: number) => number | null): PortfolioHistoryPoint => {
+  const dayEnd = day + DAY_MS;
+  let realised = 0;
+  let unrealised = 0;
+  positions.forEach(({ inv, boughtAt, soldAt }) => {
+    if (soldAt !== null && soldAt < dayEnd) {
+      realised += closedProfit(inv);
+    } else if (boughtAt < dayEnd) {
+      const price = priceOf(inv.item_id);
+      if (price !== null) unrealised += (price - inv.purchase_price) * inv.quantity;
+    }
+  });
+  return { date: new Date(day).toISOString().split('T')[0], realised, unrealised, total: realised + unrealised };
+};
+
+// The last daily average sell (low) price from before `before`, or null if there isn't one.
+const lastDailyPrice = (points: TimeseriesData[], before: number): number | null => {
+  let latest: TimeseriesData | null = null;
+  for (const point of points) {
+    const price = point.avgLowPrice ?? point.avgHighPrice;
+    if (point.timestamp * 1000 < before && price !== null && (!latest || point.timestamp > latest.timestamp)) latest = point;
+  }
+  return latest ? latest.avgLowPrice ?? latest.avgHighPrice : null;
+};
+
+/**
+ * Marks the portfolio to market once per day. Each position held at the end of a day is valued at that
+ * day's average sell (low) price from the item's daily timeseries, carried forward over days with no
+ * trades. Positions with no price yet are valued at cost, as in the summary. Today's point can then be
+ * revalued at the latest prices with `applyLatestPricesToHistory`.
+ * @param investments Every investment, open and closed.
+ * @param dailyPrices Each item's 24h timeseries, keyed by item ID. Missing items are valued at cost.
+ * @param startDate The first day to include.
+ * @param endDate The last day to include; defaults to today.
+ * @returns One point per UTC day, oldest first.
+ */
+export const buildPortfolioHistory = (
+  investments: Investment[],
+  dailyPrices: Record<string, TimeseriesData[]>,
+  startDate: Date,
+  endDate: Date = new Date()
+): PortfolioHistoryPoint[] => {
+  const firstDay = Math.floor(startDate.getTime() / DAY_MS) * DAY_MS;
+  const lastDay = Math.floor(endDate.getTime() / DAY_MS) * DAY_MS;
+  const days: number[] = [];
+  for (let day = firstDay; day <= lastDay; day += DAY_MS) days.push(day);
+
+  // Each item's price on each day: the last daily average from that day or earlier, carried forward.
+  const pricesByItem = new Map<number, (number | null)[]>();
+  const priceOn = (itemId: number, dayIndex: number): number | null => {
+    if (!pricesByItem.has(itemId)) {
+      const points = [...(dailyPrices[itemId] ?? [])].sort((a, b) => a.timestamp - b.timestamp);
+      let pointIndex = 0;
+      let price: number | null = null;
+      pricesByItem.set(itemId, days.map(day => {
+        while (pointIndex < points.length && points[pointIndex].timestamp * 1000 < day + DAY_MS) {
+          price = points[pointIndex].avgLowPrice ?? points[pointIndex].avgHighPrice ?? price;
+          pointIndex++;
+        }
+        return price;
+      }));
+    }
+    return pricesByItem.get(itemId)![dayIndex];
+  };
+
+  const positions = toPositions(investments);
+  return days.map((day, dayIndex) => valueOnDay(positions, day, itemId => priceOn(itemId, dayIndex)));
+};
+
+/**
+ * Revalues today's point of a portfolio history at the latest prices. Kept apart from
+ * `buildPortfolioHistory` so that a price refresh only recomputes the one day.
+ * @param history A history from `buildPortfolioHistory`.
+ * @param investments The investments it was built from.
+ * @param dailyPrices The daily prices it was built from, for items with no latest price.
+ * @param latestPrices The latest prices.
+ * @returns The history with today's point revalued, or `history` itself if it doesn't end today or nothing changed.
+ */
+export const applyLatestPricesToHistory = (
+  history: PortfolioHistoryPoint[],
+  investments: Investment[],
+  dailyPrices: Record<string, TimeseriesData[]>,
+  latestPrices: Record<string, LatestPrice>
+): PortfolioHistoryPoint[] => {
+  const today = Math.floor(Date.now() / DAY_MS) * DAY_MS;
+  const last = history[history.length - 1];
+  if (!last || last.date !== new Date(today).toISOString().split('T')[0]) return history;
+
+  const point = valueOnDay(toPositions(investments), today, itemId =>
+    latestPrices[itemId]?.low ?? lastDailyPrice(dailyPrices[itemId] ?? [], today + DAY_MS));
+  if (point.realised === last.realised && point.unrealised === last.unrealised) return history;
+  return [...history.slice(0, -1), point];
+};
@@ -0,0 +1,85 @@
+import type { Investment, Item, LatestPrice, ExitThresholdType, TriggeredPositionExit } from '../types';
+import { calculateBreakevenPrice } from './image';
+
+/**
+ * Converts a stop-loss or take-profit threshold into a per-item sell price.
+ * Percent thresholds are measured from the position's breakeven price (i.e. after GE tax),
+ * so a 10% take-profit fires once selling would return 10% more than breakeven.
+ * @param kind Whether this is a stop-loss or take-profit threshold.
+ * @param value The threshold value, in GP or percent.
+ * @param type Whether `value` is an absolute GP price or a percentage.
+ * @param investment The position the threshold belongs to.
+ * @param itemName The item's name, used for the tax calculation.
+ * @returns The sell price at which the threshold is crossed.
+ */
+export const getExitThresholdPrice = (
+  kind: TriggeredPositionExit['kind'],
+  value: number,
+  type: ExitThresholdType,
+  investment: Investment,
+  itemName: string
+): number => {
+  if (type === 'gp') return value;
+  const breakeven = calculateBreakevenPrice(investment.purchase_price, itemName);
+  const multiplier = kind === 'stop_loss' ? 1 - value / 100 : 1 + value / 100;
+  return Math.round(breakeven * multiplier);
+};
+
+/**
+ * Describes a threshold for display, e.g. "1,200 gp" or "10% from breakeven".
+ * @param value The threshold value.
+ * @param type The threshold type.
+ */
+export const formatExitThreshold = (value: number, type: ExitThresholdType): string => {
+  return type === 'gp' ? `${value.toLocaleString()} gp` : `${value}% from breakeven`;
+};
+
+/**
+ * Whether a position has a stop-loss or take-profit set.
+ * @param investment The position to check.
+ */
+export const hasExitTargets = (investment: Investment): boolean => {
+  return investment.stop_loss != null || investment.take_profit != null;
+};
+
+/**
+ * Checks open positions' stop-loss and take-profit thresholds against the latest low prices,
+ * which is what a position can realistically be sold for right now.
+ * Positions that have already fired (`exit_triggered_at` is set) are skipped.
+ * @param investments The user's investments; closed positions are ignored.
+ * @param items The item mapping.
+ * @param latestPrices The latest prices.
+ * @returns The positions whose thresholds were crossed.
+ */
+export const evaluatePositionExits = (
+  investments: Investment[],
+  items: Record<string, Item>,
+  latestPrices: Record<string, LatestPrice>
+): TriggeredPositionExit[] => {
+  const now = Date.now();
+  const triggered: TriggeredPositionExit[] = [];
+
+  investments.forEach(investment => {
+    if (investment.sell_price !== null || investment.exit_triggered_at || !hasExitTargets(investment)) return;
+    const item = items[investment.item_id];
+    const price = latestPrices[investment.item_id]?.low;
+    if (!item || price == null) return;
+
+    const checks: { kind: TriggeredPositionExit['kind']; value: number | null | undefined; type: ExitThresholdType | null | undefined }[] = [
+      { kind: 'stop_loss', value: investment.stop_loss, type: investment.stop_loss_type },
+      { kind: 'take_profit', value: investment.take_profit, type: investment.take_profit_type },
+    ];
+
+    for (const { kind, value, type } of checks) {
+      if (value == null) continue;
+      const thresholdPrice = getExitThresholdPrice(kind, value, type ?? 'gp', investment, item.name);
+      const isCrossed = kind === 'stop_loss' ? price <= thresholdPrice : price >= thresholdPrice;
+      if (isCrossed) {
+        triggered.push({ id: crypto.randomUUID(), investment, kind, itemName: item.name, price, thresholdPrice, triggeredAt: now });
+        break; // Only one exit can fire per position
+      }
+    }
+  });
+
+  return triggered;
+};
@@ -0,0 +1,116 @@
+import type { ItemTimeView, MarketTab, MarketTimeframe, CommunityTab, LeaderboardTimeRange } from '../types';
+
+// Maps every page of the app to a URL and back. Optional fields are left out of the URL when
+// they're at their default, so each page has one canonical address.
+
+export type Route =
+  | { view: 'home' }
+  | { view: 'watchlist' }
+  | { view: 'alerts' }
+  | { view: 'portfolio' }
+  | { view: 'assistant' }
+  | { view: 'stats' }
+  | { view: 'premium' }
+  | { view: 'item'; itemId: number; timeView?: ItemTimeView }
+  | { view: 'profile'; username: string }
+  | { view: 'market'; tab?: MarketTab; timeframe?: MarketTimeframe }
+  | { view: 'community'; tab?: CommunityTab; range?: LeaderboardTimeRange; postId?: string };
+
+export type View = Route['view'];
+
+export const DEFAULT_ITEM_TIME_VIEW: ItemTimeView = '1W';
+export const DEFAULT_MARKET_TAB: MarketTab = 'movers';
+export const DEFAULT_MARKET_TIMEFRAME: MarketTimeframe = '24h';
+export const DEFAULT_COMMUNITY_TAB: CommunityTab = 'feed';
+export const DEFAULT_LEADERBOARD_RANGE: LeaderboardTimeRange = 'all';
+
+const ITEM_TIME_VIEWS: readonly ItemTimeView[] = ['1H', '6H', '1D', '1W', '1M', '6M', '1Y', 'ALL'];
+const MARKET_TABS: readonly MarketTab[] = ['movers', 'valuable', 'volume'];
+const MARKET_TIMEFRAMES: readonly MarketTimeframe[] = ['1h', '6h', '24h', '7d'];
+const LEADERBOARD_RANGES: readonly LeaderboardTimeRange[] = ['today', 'month', 'year', 'all'];
+
+// Views whose URL is just their name, e.g. /watchlist.
+const SIMPLE_VIEWS = ['watchlist', 'alerts', 'portfolio', 'assistant', 'stats', 'premium'] as const;
+
+const decodeSegment = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment; // Malformed escape; use it as typed
+  }
+};
+
+const oneOf = <T extends string>(options: readonly T[], value: string | null | undefined): T | undefined =>
+  options.find(option => option === value);
+
+/**
+ * Parses a URL into a route. Unknown paths fall back to the home page.
+ * Legacy hash links (`#/item/123`) are still understood.
+ * @param location The URL to parse, usually `window.location`.
+ */
+export const parseRoute = (location: Pick<Location, 'pathname' | 'search' | 'hash'>): Route => {
+  const legacyItem = location.hash.match(/^#\/item\/(\d+)/);
+  if (legacyItem) return { view: 'item', itemId: Number(legacyItem[1]) };
+
+  const [section, ...rest] = location.pathname.split('/').filter(Boolean).map(decodeSegment);
+  const params = new URLSearchParams(location.search);
+
+  switch (section) {
+    case undefined:
+      return { view: 'home' };
+    case 'item': {
+      const itemId = Number(rest[0]);
+      if (!Number.isInteger(itemId) || itemId < 0) return { view: 'home' };
+      return { view: 'item', itemId, timeView: oneOf(ITEM_TIME_VIEWS, params.get('range')?.toUpperCase()) };
+    }
+    case 'profile':
+      return rest[0] ? { view: 'profile', username: rest[0] } : { view: 'home' };
+    case 'market':
+      return { view: 'market', tab: oneOf(MARKET_TABS, rest[0]), timeframe: oneOf(MARKET_TIMEFRAMES, params.get('timeframe')) };
+    case 'community':
+      if (rest[0] === 'posts' && rest[1]) return { view: 'community', postId: rest[1] };
+      if (rest[0] === 'leaderboard') return { view: 'community', tab: 'leaderboard', range: oneOf(LEADERBOARD_RANGES, params.get('range')) };
+      return { view: 'community' };
+    default: {
+      const view = oneOf(SIMPLE_VIEWS, section);
+      return view ? { view } : { view: 'home' };
+    }
+  }
+};
+
+/**
+ * Builds the canonical URL path (including any query string) for a route.
+ */
+export const buildPath = (route: Route): string => {
+  const withQuery = (path: string, query: Record<string, string | undefined>) => {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => { if (value) params.set(key, value); });
+    const search = params.toString();
+    return search ? `${path}?${search}` : path;
+  };
+
+  switch (route.view) {
+    case 'home':
+      return '/';
+    case 'item':
+      return withQuery(`/item/${route.itemId}`, {
+        range: route.timeView && route.timeView !== DEFAULT_ITEM_TIME_VIEW ? route.timeView.toLowerCase() : undefined,
+      });
+    case 'profile':
+      return `/profile/${encodeURIComponent(route.username)}`;
+    case 'market': {
+      const tab = route.tab && route.tab !== DEFAULT_MARKET_TAB ? `/${route.tab}` : '';
+      // The timeframe only applies to the movers tab.
+      const timeframe = (route.tab ?? DEFAULT_MARKET_TAB) === 'movers' && route.timeframe !== DEFAULT_MARKET_TIMEFRAME ? route.timeframe : undefined;
+      return withQuery(`/market${tab}`, { timeframe });
+    }
+    case 'community':
+      if (route.postId) return `/community/posts/${encodeURIComponent(route.postId)}`;
+      if (route.tab === 'leaderboard') {
+        return withQuery('/community/leaderboard', { range: route.range !== DEFAULT_LEADERBOARD_RANGE ? route.range : undefined });
+      }
+      return '/community';
+    default:
+      return `/${route.view}`;
+  }
+};
@@ -0,0 +1,337 @@
+import type { Investment, InvestmentSale, Item, LotSales } from '../types';
+import type { ImportedInvestment, ImportRowError } from './investmentCsv';
+import { calculateGeTax, parseShorthandPrice } from './image';
+
+// Importing trades logged by RuneLite: the Flipping Utilities plugin's JSON export, and Grand Exchange
+// history as JSON or as copied text. Buys and sells are matched into investments first in, first out.
+
+export type RuneLiteImportSource = 'flipping-utilities' | 'ge-history-json' | 'ge-history-text';
+
+// One filled (or partly filled, then cancelled) Grand Exchange offer.
+export interface RuneLiteTrade {
+  itemId: number;
+  isBuy: boolean;
+  quantity: number;
+  price: number; // Per item
+  time: string; // ISO date
+  row: number; // The line (text) or entry (JSON) it was read from
+}
+
+export interface RuneLiteImportPreview {
+  source: RuneLiteImportSource;
+  tradeCount: number;
+  investments: ImportedInvestment[]; // Investments to add
+  sales: LotSales[]; // Sells to record against open investments already in the portfolio
+  duplicateCount: number; // Investments skipped because they're already in the portfolio
+  unmatchedSellQuantity: number; // Items sold with no buy in the file to match them to
+  errors: ImportRowError[]; // `row` is the line (text) or entry (JSON) number
+}
+
+interface ParsedTrades {
+  source: RuneLiteImportSource;
+  trades: RuneLiteTrade[];
+  errors: ImportRowError[];
+}
+
+const SOURCE_LABELS: Record<RuneLiteImportSource, string> = {
+  'flipping-utilities': 'Flipping Utilities export',
+  'ge-history-json': 'Grand Exchange history (JSON)',
+  'ge-history-text': 'Grand Exchange history (text)',
+};
+
+export const getRuneLiteSourceLabel = (source: RuneLiteImportSource) => SOURCE_LABELS[source];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Times appear as epoch milliseconds or seconds, ISO strings, or Java Instants ({ seconds, nanos }).
+const parseTime = (value: unknown): string | null => {
+  let ms: number;
+  if (typeof value === 'number') ms = value < 1e12 ? value * 1000 : value;
+  else if (typeof value === 'string') return /^\d+$/.test(value) ? parseTime(Number(value)) : parseTime(new Date(value).getTime());
+  else if (isRecord(value) && typeof value.seconds === 'number') {
+    ms = value.seconds * 1000 + Math.floor((typeof value.nanos === 'number' ? value.nanos : 0) / 1e6);
+  } else return null;
+  return isNaN(ms) ? null : new Date(ms).toISOString();
+};
+
+// Reads the first of several possible keys, since both plugins have used short and long field names.
+const pick = (entry: unknown, ...keys: string[]): unknown =>
+  isRecord(entry) ? keys.map(key => entry[key]).find(value => value !== undefined) : undefined;
+
+const isPositiveNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value) && value > 0;
+
+// Flipping Utilities keeps the latest event of each offer in every item's history. Events for offers
+// that are still open count what has filled so far; empty and unfilled ones are skipped.
+const parseFlippingUtilities = (flippingItems: unknown[]): ParsedTrades => {
+  const latestByOffer = new Map<string, RuneLiteTrade>();
+  const errors: ImportRowError[] = [];
+  let entry = 0;
+
+  for (const flippingItem of flippingItems) {
+    const offers = pick(pick(flippingItem, 'h'), 'sO', 'standardizedOffers') ?? [];
+    for (const offer of Array.isArray(offers) ? offers : []) {
+      entry++;
+      const state = pick(offer, 'st', 'state');
+      const quantity = pick(offer, 'cQIT', 'currentQuantityInTrade');
+      if (state === 'EMPTY' || quantity === 0) continue;
+      const itemId = pick(offer, 'id', 'itemId') ?? pick(flippingItem, 'id', 'itemId');
+      const isBuy = pick(offer, 'b', 'buy');
+      const price = pick(offer, 'p', 'price');
+      const time = parseTime(pick(offer, 't', 'time'));
+      if (typeof itemId !== 'number' || typeof isBuy !== 'boolean' || !isPositiveNumber(quantity) || !isPositiveNumber(price) || !time) {
+        errors.push({ row: entry, message: 'Offer is missing its item, side, quantity, price or time.' });
+        continue;
+      }
+      const trade = { itemId, isBuy, quantity, price: Math.round(price), time, row: entry };
+      const uuid = pick(offer, 'uuid');
+      const key = typeof uuid === 'string' ? uuid : `entry-${entry}`;
+      const previous = latestByOffer.get(key);
+      if (!previous || trade.quantity >= previous.quantity) latestByOffer.set(key, trade);
+    }
+  }
+  return { source: 'flipping-utilities', trades: [...latestByOffer.values()], errors };
+};
+
+// RuneLite's trade history records each offer update. Newer entries carry the change since the last
+// update (dqty/dspent); older ones are whole trades with a per-item price.
+const parseGeHistoryJson = (entries: unknown[]): ParsedTrades => {
+  const trades: RuneLiteTrade[] = [];
+  const errors: ImportRowError[] = [];
+
+  entries.forEach((entry, index) => {
+    const row = index + 1;
+    const itemId = pick(entry, 'itemId', 'id');
+    const isBuy = pick(entry, 'buy', 'b');
+    const time = parseTime(pick(entry, 'time', 't', 'date'));
+    const deltaQuantity = pick(entry, 'dqty');
+    let quantity: unknown;
+    let price: unknown;
+    if (deltaQuantity !== undefined) {
+      if (deltaQuantity === 0) return;
+      const spent = pick(entry, 'dspent');
+      quantity = deltaQuantity;
+      price = typeof spent === 'number' && typeof deltaQuantity === 'number' ? spent / deltaQuantity : undefined;
+    } else {
+      quantity = pick(entry, 'qty', 'quantity');
+      if (quantity === 0) return;
+      const spent = pick(entry, 'spent');
+      price = pick(entry, 'price') ?? (typeof spent === 'number' && isPositiveNumber(quantity) ? spent / quantity : undefined);
+    }
+    if (typeof itemId !== 'number' || typeof isBuy !== 'boolean' || !isPositiveNumber(quantity) || !isPositiveNumber(price) || !time) {
+      errors.push({ row, message: 'Trade is missing its item, side, quantity, price or time.' });
+      return;
+    }
+    trades.push({ itemId, isBuy, quantity, price: Math.round(price), time, row });
+  });
+  return { source: 'ge-history-json', trades, errors };
+};
+
+// e.g. "2024-05-01 12:00 Bought 1 x Abyssal whip for 1.5m coins" or
+// "Sold: 100 x Cannonball for 20,000 coins (200 each) - 2024-05-02 18:30". A price given with "for" is
+// the total unless it's followed by "each"; "@" or "at" always give the price each.
+const TEXT_TRADE_PATTERN = /^(.*?)\b(bought|sold)\b:?\s*([\d,]+)\s*x\s+(.+?)\s+(for|@|at)\s+([\d,.]+\s*[km]?)\s*(?:coins|gp)?\s*(each|ea)?\s*(?:\(\s*([\d,.]+\s*[km]?)\s*(?:coins|gp)?\s*each\s*\))?(.*)$/i;
+
+const parseGeHistoryText = (text: string, items: Record<string, Item>): ParsedTrades => {
+  const itemsByName = new Map(Object.values(items).map(item => [item.name.toLowerCase(), item]));
+  const trades: RuneLiteTrade[] = [];
+  const errors: ImportRowError[] = [];
+
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((line, index) => {
+    const row = index + 1;
+    if (!line.trim()) return;
+    const match = line.trim().match(TEXT_TRADE_PATTERN);
+    if (!match) {
+      errors.push({ row, message: 'Not a recognised trade. Lines should look like "Bought 100 x Cannonball for 20,000 coins - 2024-05-01".' });
+      return;
+    }
+    const [, prefix, side, quantityText, itemName, priceKeyword, priceText, each, eachPriceText, suffix] = match;
+    const item = itemsByName.get(itemName.trim().toLowerCase());
+    const quantity = Number(quantityText.replace(/,/g, ''));
+    const statedPrice = parseShorthandPrice(priceText.replace(/\s/g, ''));
+    const price = eachPriceText
+      ? parseShorthandPrice(eachPriceText.replace(/\s/g, ''))
+      : each || priceKeyword.toLowerCase() !== 'for' ? statedPrice : statedPrice / quantity;
+    const dateText = (prefix.trim() || suffix.trim()).replace(/^[\s\-–|,:]+|[\s\-–|,:]+$/g, '').replace(/^on\s+/i, '');
+    const time = dateText ? parseTime(dateText) : null;
+
+    if (!item) errors.push({ row, message: `Unknown item "${itemName.trim()}".` });
+    else if (!Number.isInteger(quantity) || quantity <= 0) errors.push({ row, message: 'Quantity must be a positive whole number.' });
+    else if (!isPositiveNumber(price)) errors.push({ row, message: 'Price must be a positive number.' });
+    else if (!time) errors.push({ row, message: 'Date is missing or invalid.' });
+    else trades.push({ itemId: item.id, isBuy: side.toLowerCase() === 'bought', quantity, price: Math.round(price), time, row });
+  });
+  return { source: 'ge-history-text', trades, errors };
+};
+
+/**
+ * Reads trades from a RuneLite export, working out which kind it is from its contents.
+ * @param text The file's contents.
+ * @param items The item mapping, to resolve item names in text history.
+ * @returns The trades found, the kind of file, and the entries that couldn't be read.
+ * @throws If the file is JSON but not a Flipping Utilities or Grand Exchange history export.
+ */
+export const parseRuneLiteTrades = (text: string, items: Record<string, Item>): ParsedTrades => {
+  const trimmed = text.replace(/^\uFEFF/, '').trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) return parseGeHistoryText(text, items);
+
+  const data: unknown = JSON.parse(trimmed);
+  const entries = Array.isArray(data) ? data : pick(data, 'trades', 'items');
+  if (!Array.isArray(entries)) {
+    throw new Error('That file is not a Flipping Utilities or Grand Exchange history export.');
+  }
+  return entries.some(entry => isRecord(entry) && 'h' in entry)
+    ? parseFlippingUtilities(entries)
+    : parseGeHistoryJson(entries);
+};
+
+/**
+ * Matches sells to earlier buys of the same item, oldest buy first. Each matched part becomes a closed
+ * investment with its GE tax; buys left over become open investments. Sells with no earlier buy in the
+ * trades are left out, since their cost isn't known.
+ * @param trades The trades to match, in any order.
+ * @param items The item mapping, for tax-exempt item names.
+ * @returns The investments, and how many sold items couldn't be matched.
+ */
+export const matchRuneLiteTrades = (trades: RuneLiteTrade[], items: Record<string, Item>) => {
+  // Buys sort ahead of sells made at the same moment so they can be matched.
+  const ordered = [...trades].sort((a, b) => a.time.localeCompare(b.time) || Number(b.isBuy) - Number(a.isBuy));
+  const openLots = new Map<number, { quantity: number; price: number; time: string }[]>();
+  const closed: ImportedInvestment[] = [];
+  let unmatchedSellQuantity = 0;
+
+  for (const trade of ordered) {
+    const lots = openLots.get(trade.itemId) ?? [];
+    openLots.set(trade.itemId, lots);
+    if (trade.isBuy) {
+      lots.push({ quantity: trade.quantity, price: trade.price, time: trade.time });
+      continue;
+    }
+    let remaining = trade.quantity;
+    while (remaining > 0 && lots.length > 0) {
+      const lot = lots[0];
+      const quantity = Math.min(remaining, lot.quantity);
+      closed.push({
+        item_id: trade.itemId,
+        quantity,
+        purchase_price: lot.price,
+        purchase_date: lot.time,
+        sell_price: trade.price,
+        sell_date: trade.time,
+        tax_paid: calculateGeTax(items[trade.itemId]?.name ?? '', trade.price, quantity),
+      });
+      lot.quantity -= quantity;
+      remaining -= quantity;
+      if (lot.quantity === 0) lots.shift();
+    }
+    unmatchedSellQuantity += remaining;
+  }
+
+  const open: ImportedInvestment[] = [...openLots.entries()].flatMap(([itemId, lots]) => lots.map(lot => ({
+    item_id: itemId,
+    quantity: lot.quantity,
+    purchase_price: lot.price,
+    purchase_date: lot.time,
+    sell_price: null,
+    sell_date: null,
+    tax_paid: null,
+  })));
+  return { investments: [...closed, ...open], unmatchedSellQuantity };
+};
+
+// A buy is identified by its item, price and exact time, which a manually added investment is very
+// unlikely to share.
+const buyKey = (inv: Pick<Investment, 'item_id' | 'purchase_price' | 'purchase_date'>) =>
+  `${inv.item_id}:${inv.purchase_price}:${new Date(inv.purchase_date).getTime()}`;
+
+// A whole row: its buy, and how many of it were sold, for what and when. Selling an investment in the
+// app keeps its buy, so the rows a sale leaves behind match the rows an export of the same trades gives.
+const rowKey = (inv: Pick<Investment, 'item_id' | 'purchase_price' | 'purchase_date' | 'quantity' | 'sell_price' | 'sell_date'>) =>
+  `${buyKey(inv)}:${inv.quantity}:${inv.sell_price ?? ''}:${inv.sell_date ? new Date(inv.sell_date).getTime() : ''}`;
+
+/**
+ * Compares matched investments with the portfolio, so that importing an export again only adds what's new.
+ * Rows already in the portfolio are skipped. A sell whose buy is in the portfolio as an open investment
+ * (e.g. one imported before it was sold) becomes a sale of that investment, rather than adding the buy
+ * a second time; whatever is left of the buy unsold is then skipped too.
+ * @param investments Investments from `matchRuneLiteTrades`.
+ * @param existingInvestments The portfolio's current investments, open and closed.
+ * @param items The item mapping, for tax-exempt item names.
+ * @returns The investments to add, the sales to record, and how many investments were skipped.
+ */
+export const reconcileRuneLiteInvestments = (investments: ImportedInvestment[], existingInvestments: Investment[], items: Record<string, Item>) => {
+  const existingRows = new Map<string, number>();
+  existingInvestments.forEach(inv => existingRows.set(rowKey(inv), (existingRows.get(rowKey(inv)) ?? 0) + 1));
+  // How much of each open investment is still unsold, by buy.
+  const openLotsByBuy = new Map<string, { investmentId: string; remaining: number }[]>();
+  existingInvestments.filter(inv => inv.sell_price === null).forEach(inv => {
+    const key = buyKey(inv);
+    openLotsByBuy.set(key, [...(openLotsByBuy.get(key) ?? []), { investmentId: inv.id, remaining: inv.quantity }]);
+  });
+
+  const newInvestments: ImportedInvestment[] = [];
+  const salesByInvestment = new Map<string, InvestmentSale[]>();
+  let duplicateCount = 0;
+  // Closed rows first, so open investments are sold from before what's left of them is compared.
+  const closedFirst = [...investments].sort((a, b) => Number(a.sell_price === null) - Number(b.sell_price === null));
+
+  for (const inv of closedFirst) {
+    const key = rowKey(inv);
+    const existingCount = existingRows.get(key) ?? 0;
+    if (existingCount > 0) {
+      existingRows.set(key, existingCount - 1);
+      duplicateCount++;
+      continue;
+    }
+
+    let quantity = inv.quantity;
+    for (const lot of openLotsByBuy.get(buyKey(inv)) ?? []) {
+      const taken = Math.min(quantity, lot.remaining);
+      if (taken === 0) continue;
+      lot.remaining -= taken;
+      quantity -= taken;
+      if (inv.sell_price !== null && inv.sell_date !== null) {
+        const sale = { quantity: taken, sell_price: inv.sell_price, sell_date: inv.sell_date, tax_paid: calculateGeTax(items[inv.item_id]?.name ?? '', inv.sell_price, taken) };
+        salesByInvestment.set(lot.investmentId, [...(salesByInvestment.get(lot.investmentId) ?? []), sale]);
+      }
+    }
+    if (quantity === 0) {
+      if (inv.sell_price === null) duplicateCount++;
+    } else if (quantity === inv.quantity) {
+      newInvestments.push(inv);
+    } else {
+      // Only part of it came out of an open investment; the rest is added as before.
+      const taxPaid = inv.sell_price === null ? null : calculateGeTax(items[inv.item_id]?.name ?? '', inv.sell_price, quantity);
+      newInvestments.push({ ...inv, quantity, tax_paid: taxPaid });
+    }
+  }
+
+  const sales: LotSales[] = [...salesByInvestment.entries()].map(([investmentId, lotSales]) => ({ investmentId, sales: lotSales }));
+  return { investments: newInvestments, sales, duplicateCount };
+};
+
+/**
+ * Works out what importing a RuneLite export would add and sell, without saving anything. Trades already
+ * in the portfolio are skipped, so importing the same (or a longer) export again only records new trades.
+ * @param text The file's contents.
+ * @param items The item mapping.
+ * @param existingInvestments The portfolio's current investments, open and closed.
+ * @returns The preview.
+ * @throws If the file can't be read as a RuneLite export.
+ */
+export const previewRuneLiteImport = (text: string, items: Record<string, Item>, existingInvestments: Investment[]): RuneLiteImportPreview => {
+  const { source, trades, errors } = parseRuneLiteTrades(text, items);
+  trades.filter(trade => !items[trade.itemId]).forEach(trade => errors.push({ row: trade.row, message: `Unknown item ID ${trade.itemId}.` }));
+
+  const matched = matchRuneLiteTrades(trades.filter(trade => items[trade.itemId]), items);
+  const { investments, sales, duplicateCount } = reconcileRuneLiteInvestments(matched.investments, existingInvestments, items);
+
+  return {
+    source,
+    tradeCount: trades.length,
+    investments,
+    sales,
+    duplicateCount,
+    unmatchedSellQuantity: matched.unmatchedSellQuantity,
+    errors,
+  };
+};
@@ -0,0 +1,25 @@
+import { MARKET_SCANS, type MarketScanRequest, type MarketScanResponse, type MarketScanType, type MarketScanInput } from './marketScanProtocol';
+
+// Runs full-market scans off the main thread. Started by services/marketScanner.ts.
+
+// The project's type-checking uses the DOM lib, so describe the worker scope's messaging directly.
+const scope = self as unknown as {
+    postMessage: (message: MarketScanResponse) => void;
+    onmessage: ((event: MessageEvent<MarketScanRequest>) => void) | null;
+};
+
+const runScan = <K extends MarketScanType>(scan: K, input: MarketScanInput<K>, id: number) => {
+    return MARKET_SCANS[scan](input, (processed, total) => {
+        scope.postMessage({ id, type: 'progress', processed, total });
+    });
+};
+
+scope.onmessage = event => {
+    const { id, scan, input } = event.data;
+    try {
+        const result = runScan(scan, input, id);
+        scope.postMessage({ id, type: 'result', result });
+    } catch (error) {
+        scope.postMessage({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+};
@@ -0,0 +1,29 @@
+import { scoreFlippingCandidates, type FlippingScanInput, type FlippingCandidate } from '../utils/flippingCandidates';
+
+// The message protocol for the market scan worker. Each scan is a pure function over market
+// data, so the same handlers also run on the main thread when workers aren't available.
+// To add a scan, add its input/result types to MarketScans and its handler to MARKET_SCANS.
+
+export interface MarketScans {
+    flippingCandidates: { input: FlippingScanInput; result: FlippingCandidate[] };
+}
+
+export type MarketScanType = keyof MarketScans;
+export type MarketScanInput<K extends MarketScanType> = MarketScans[K]['input'];
+export type MarketScanResult<K extends MarketScanType> = MarketScans[K]['result'];
+export type MarketScanProgressHandler = (processed: number, total: number) => void;
+
+export const MARKET_SCANS: { [K in MarketScanType]: (input: MarketScanInput<K>, onProgress: MarketScanProgressHandler) => MarketScanResult<K> } = {
+    flippingCandidates: scoreFlippingCandidates,
+};
+
+// Main thread -> worker
+export type MarketScanRequest = {
+    [K in MarketScanType]: { id: number; scan: K; input: MarketScanInput<K> };
+}[MarketScanType];
+
+// Worker -> main thread. `id` matches the request it belongs to.
+export type MarketScanResponse =
+    | { id: number; type: 'progress'; processed: number; total: number }
+    | { id: number; type: 'result'; result: MarketScanResult<MarketScanType> }
+    | { id: number; type: 'error'; message: string };